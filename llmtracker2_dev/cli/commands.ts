@@ -0,0 +1,231 @@
+import { readFile, stat, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { buildEntities, canonicalizeResults, parseEntityAliases } from '../src/lib/entityMatcher.ts';
+import { ExportFormat, exportFileName, resultExportTable, serializeExport } from '../src/lib/dataExport.ts';
+import {
+  ApiResponseRecord,
+  readRunProgress,
+  ReportType,
+  resultFromApiResponse,
+  resultsFromReportSummary,
+} from '../src/lib/reportResults.ts';
+import { DEFAULT_KEYWORD_PRIORITY, MAX_KEYWORD_PRIORITY } from '../src/lib/shareOfVoice.ts';
+import { CliConfig, createTrackerClient, saveConfig, TrackerClient } from './config.ts';
+
+const PAGE_SIZE = 1000;
+// Same cadence as the app's run view
+const POLL_INTERVAL_MS = 3000;
+
+export interface KeywordEntry {
+  keyword: string;
+  priority: number;
+  keyword_group: string | null;
+}
+
+// Progress and notices go to stderr so stdout stays clean for data (`--out -`, `--json`)
+const note = (message: string) => process.stderr.write(`${message}\n`);
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const login = async (
+  path: string,
+  credentials: { supabaseUrl: string; supabaseAnonKey: string; email: string; password: string }
+) => {
+  const supabase = createTrackerClient(credentials);
+  const { data, error } = await supabase.auth.signInWithPassword({ email: credentials.email, password: credentials.password });
+  if (error) throw new Error(`Sign-in failed: ${error.message}`);
+
+  const config: CliConfig = {
+    supabaseUrl: credentials.supabaseUrl,
+    supabaseAnonKey: credentials.supabaseAnonKey,
+    email: credentials.email,
+    refreshToken: data.session.refresh_token,
+  };
+  await saveConfig(path, config);
+  note(`Signed in as ${credentials.email}. Config written to ${path}`);
+};
+
+export const listProjects = async (supabase: TrackerClient, { json }: { json: boolean }) => {
+  const { data, error } = await supabase
+    .from('projects')
+    .select('id, name, brand_name, competitors, created_at, keywords(count)')
+    .order('name', { ascending: true });
+  if (error) throw new Error(error.message);
+
+  const projects = (data || []).map(({ keywords, ...project }) => ({
+    ...project,
+    keyword_count: (keywords as unknown as { count: number }[])[0]?.count ?? 0,
+  }));
+  if (json) {
+    console.log(JSON.stringify(projects, null, 2));
+    return;
+  }
+  if (projects.length === 0) {
+    note('No projects yet.');
+    return;
+  }
+  for (const project of projects) {
+    console.log([project.id, project.name, project.brand_name, `${project.keyword_count} keywords`].join('\t'));
+  }
+};
+
+const splitCells = (line: string) => line.split(',').map(part => part.trim().replace(/^"|"$/g, ''));
+
+// One keyword per line, optionally "keyword,priority,group" as in the app's bulk importer.
+// A first line whose first cell is exactly "keyword" is a header; blank lines and lines starting with # are skipped.
+export const parseKeywordFile = (text: string, defaultPriority = DEFAULT_KEYWORD_PRIORITY): KeywordEntry[] => {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+  if (lines.length > 0 && splitCells(lines[0])[0].toLowerCase() === 'keyword') lines.shift();
+
+  return lines.flatMap(line => {
+    const [keyword, priority, group] = splitCells(line);
+    if (!keyword) return [];
+    const parsed = parseInt(priority, 10);
+    return [{
+      keyword,
+      priority: Number.isNaN(parsed) ? defaultPriority : Math.max(DEFAULT_KEYWORD_PRIORITY, Math.min(MAX_KEYWORD_PRIORITY, parsed)),
+      keyword_group: group || null,
+    }];
+  });
+};
+
+export const addKeywords = async (
+  supabase: TrackerClient,
+  projectId: string,
+  file: string,
+  { priority }: { priority?: number }
+) => {
+  const entries = parseKeywordFile(await readFile(file, 'utf8'), priority);
+  if (entries.length === 0) throw new Error(`No keywords found in ${file}`);
+
+  const { data: existing, error: existingError } = await supabase
+    .from('keywords')
+    .select('keyword')
+    .eq('project_id', projectId);
+  if (existingError) throw new Error(existingError.message);
+
+  // Case-insensitive, against the project and earlier lines of the file
+  const seen = new Set((existing || []).map(k => k.keyword.toLowerCase()));
+  const fresh = entries.filter(entry => {
+    const key = entry.keyword.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  if (fresh.length > 0) {
+    const { error } = await supabase.from('keywords').insert(fresh.map(entry => ({ ...entry, project_id: projectId })));
+    if (error) throw new Error(error.message);
+  }
+  note(`Added ${fresh.length} keywords, skipped ${entries.length - fresh.length} already in the project.`);
+};
+
+export const startRun = async (supabase: TrackerClient, projectId: string, reportType: ReportType): Promise<string> => {
+  const { data, error } = await supabase.functions.invoke('run-tracking', { body: { projectId, reportType } });
+  if (error) {
+    // The function's own message (e.g. a run already in progress) is in the response body
+    const body = await error.context?.json?.().catch(() => null);
+    throw new Error(body?.error || error.message);
+  }
+  note(`Started run ${data.reportId}`);
+  return data.reportId as string;
+};
+
+// Prints progress until the run completes or fails, and returns its final status
+export const tailRun = async (
+  supabase: TrackerClient,
+  reportId: string,
+  { timeoutMinutes }: { timeoutMinutes: number }
+): Promise<string> => {
+  const deadline = Date.now() + timeoutMinutes * 60 * 1000;
+  let lastLine = '';
+  let reportedErrors = 0;
+
+  for (;;) {
+    const { data: report, error } = await supabase
+      .from('reports')
+      .select('status, metadata')
+      .eq('id', reportId)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    if (!report) throw new Error(`Report ${reportId} not found`);
+
+    const progress = readRunProgress(report.metadata);
+    if (progress) {
+      for (const failure of progress.errors.slice(reportedErrors)) {
+        note(`  failed: "${failure.keyword}" on ${failure.provider}: ${failure.message}`);
+      }
+      reportedErrors = progress.errors.length;
+    }
+
+    const line = progress
+      ? `${report.status}: ${progress.completed}/${progress.total} analyses${progress.errors.length > 0 ? `, ${progress.errors.length} failed` : ''}`
+      : report.status;
+    if (line !== lastLine) note(line);
+    lastLine = line;
+
+    if (report.status === 'completed' || report.status === 'failed') {
+      const message = (report.metadata as { error?: unknown } | null)?.error;
+      if (typeof message === 'string') note(`  ${message}`);
+      return report.status;
+    }
+    if (Date.now() > deadline) throw new Error(`Run ${reportId} still ${report.status} after ${timeoutMinutes} minutes`);
+    await sleep(POLL_INTERVAL_MS);
+  }
+};
+
+const loadResponses = async (supabase: TrackerClient, reportId: string): Promise<ApiResponseRecord[]> => {
+  const rows: ApiResponseRecord[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('api_responses')
+      .select('keyword, provider, raw_response, response_metadata, citations, created_at')
+      .eq('report_id', reportId)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+};
+
+// Writes the report's results in the app's export format; `out` may be a file, a directory or "-" for stdout
+export const exportResults = async (
+  supabase: TrackerClient,
+  reportId: string,
+  { format, out }: { format: Extract<ExportFormat, 'csv' | 'json'>; out?: string }
+) => {
+  const { data: report, error } = await supabase
+    .from('reports')
+    .select('id, report_type, status, results, created_at, completed_at, projects (name, brand_name, competitors, entity_aliases)')
+    .eq('id', reportId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!report) throw new Error(`Report ${reportId} not found`);
+  if (report.status !== 'completed') throw new Error(`Report ${reportId} is ${report.status}, not completed`);
+
+  const responses = await loadResponses(supabase, reportId);
+  // Reports from before raw responses were stored only have their summary
+  const results = responses.length > 0 ? responses.map(resultFromApiResponse) : resultsFromReportSummary(report.results);
+  const brandName = report.projects?.brand_name || '';
+  const entities = buildEntities(brandName, report.projects?.competitors || [], parseEntityAliases(report.projects?.entity_aliases ?? null));
+
+  const table = resultExportTable(canonicalizeResults(results, entities.slice(1)), brandName, {
+    reportId: report.id,
+    reportType: report.report_type,
+    timestamp: report.completed_at,
+  });
+  const content = serializeExport(table, format) as string;
+
+  if (out === '-') {
+    process.stdout.write(content);
+    return;
+  }
+  const fileName = exportFileName(`${report.projects?.name || brandName} report ${report.id.slice(0, 8)}`, format, new Date(report.completed_at ?? report.created_at));
+  const isDirectory = out ? await stat(out).then(s => s.isDirectory(), () => false) : false;
+  const path = !out ? fileName : isDirectory ? join(out, fileName) : out;
+  await writeFile(path, content);
+  note(`Wrote ${table.rows.length} rows to ${path}`);
+};
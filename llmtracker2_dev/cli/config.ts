@@ -0,0 +1,61 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { createClient, isAuthRetryableFetchError, SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../src/integrations/supabase/types.ts';
+
+// Signed-in account the CLI acts as. Written by `login`; the refresh token rotates on every command.
+export interface CliConfig {
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+  email: string;
+  refreshToken?: string;
+}
+
+export type TrackerClient = SupabaseClient<Database>;
+
+export const DEFAULT_CONFIG_PATH = join(homedir(), '.config', 'llm-tracker', 'config.json');
+
+export const resolveConfigPath = (path?: string) => path || process.env.LLM_TRACKER_CONFIG || DEFAULT_CONFIG_PATH;
+
+export const loadConfig = async (path: string): Promise<CliConfig> => {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch {
+    throw new Error(`No config at ${path}. Run "llm-tracker login" first.`);
+  }
+
+  const config = JSON.parse(text) as Partial<CliConfig>;
+  if (!config.supabaseUrl || !config.supabaseAnonKey || !config.email) {
+    throw new Error(`${path} needs supabaseUrl, supabaseAnonKey and email`);
+  }
+  return config as CliConfig;
+};
+
+// Readable by the owner only: it holds a session token. Only the known fields are written, which also
+// drops a password left in a config by earlier versions.
+export const saveConfig = async (path: string, { supabaseUrl, supabaseAnonKey, email, refreshToken }: CliConfig) => {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, `${JSON.stringify({ supabaseUrl, supabaseAnonKey, email, refreshToken }, null, 2)}\n`, { mode: 0o600 });
+};
+
+export const createTrackerClient = (config: Pick<CliConfig, 'supabaseUrl' | 'supabaseAnonKey'>): TrackerClient =>
+  createClient<Database>(config.supabaseUrl, config.supabaseAnonKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+// Signs in from the config and stores the rotated refresh token for the next command.
+// The password is never stored; once the refresh token is no longer accepted, `login` has to run again.
+export const connect = async (path: string): Promise<TrackerClient> => {
+  const config = await loadConfig(path);
+  if (!config.refreshToken) throw new Error('Not signed in. Run "llm-tracker login" first.');
+  const supabase = createTrackerClient(config);
+
+  const { data, error } = await supabase.auth.refreshSession({ refresh_token: config.refreshToken });
+  if (isAuthRetryableFetchError(error)) throw new Error(`Cannot reach ${config.supabaseUrl}: ${error.message}`);
+  if (error || !data.session) throw new Error('Session expired. Run "llm-tracker login" again.');
+
+  await saveConfig(path, { ...config, refreshToken: data.session.refresh_token });
+  return supabase;
+};
@@ -0,0 +1,184 @@
+import { parseArgs } from 'node:util';
+import { isReportType } from '../src/lib/reportResults.ts';
+import { DEFAULT_KEYWORD_PRIORITY, MAX_KEYWORD_PRIORITY } from '../src/lib/shareOfVoice.ts';
+import { addKeywords, exportResults, listProjects, login, startRun, tailRun } from './commands.ts';
+import { connect, DEFAULT_CONFIG_PATH, resolveConfigPath } from './config.ts';
+
+const USAGE = `Usage: llm-tracker <command> [options]
+
+Commands:
+  login --url <supabase-url> --anon-key <key> --email <email>
+                                   Sign in and write the config (password from
+                                   LLM_TRACKER_PASSWORD or a prompt)
+  projects [--json]                List projects
+  keywords add <project-id> <file> [--priority <1-5>]
+                                   Add keywords, one per line or "keyword,priority,group"
+  run <project-id> [--type <report-type>] [--no-wait] [--timeout <minutes>]
+                   [--export <csv|json>] [--out <path>]
+                                   Start a tracking run and follow its progress
+  status <report-id> [--timeout <minutes>]
+                                   Follow a run until it completes or fails
+  export <report-id> [--format <csv|json>] [--out <file|dir|->]
+                                   Download a completed report's results
+
+Options:
+  --config <path>   Config file (default ${DEFAULT_CONFIG_PATH}, or LLM_TRACKER_CONFIG)
+  -h, --help        Show this help
+
+Exit codes: 0 on success, 1 on errors, 2 when a run fails.
+`;
+
+const DEFAULT_TIMEOUT_MINUTES = 60;
+
+// Reads the password from the terminal in raw mode, so the typed characters are never echoed
+const readPassword = async (): Promise<string> => {
+  if (process.env.LLM_TRACKER_PASSWORD) return process.env.LLM_TRACKER_PASSWORD;
+  const { stdin, stderr } = process;
+  if (!stdin.isTTY) throw new Error('Set LLM_TRACKER_PASSWORD to sign in without a terminal');
+
+  stderr.write('Password: ');
+  stdin.setRawMode(true);
+  stdin.setEncoding('utf8');
+  stdin.resume();
+
+  return new Promise((resolve, reject) => {
+    let password = '';
+    const finish = (error?: Error) => {
+      stdin.off('data', onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      stderr.write('\n');
+      if (error) reject(error);
+      else resolve(password);
+    };
+    const onData = (chunk: string) => {
+      for (const char of chunk) {
+        if (char === '\r' || char === '\n' || char === '\u0004') return finish();
+        if (char === '\u0003') return finish(new Error('Cancelled'));
+        if (char === '\u007f' || char === '\b') password = password.slice(0, -1);
+        else password += char;
+      }
+    };
+    stdin.on('data', onData);
+  });
+};
+
+const readFormat = (value: string | undefined): 'csv' | 'json' => {
+  const format = value ?? 'csv';
+  if (format !== 'csv' && format !== 'json') throw new Error(`Unsupported format: ${format} (use csv or json)`);
+  return format;
+};
+
+const readTimeout = (value: string | undefined) => {
+  const minutes = Number(value ?? DEFAULT_TIMEOUT_MINUTES);
+  if (!Number.isFinite(minutes) || minutes <= 0) throw new Error('--timeout must be a positive number of minutes');
+  return minutes;
+};
+
+const readPriority = (value: string | undefined) => {
+  if (value === undefined) return undefined;
+  const priority = Number(value);
+  if (!Number.isInteger(priority) || priority < DEFAULT_KEYWORD_PRIORITY || priority > MAX_KEYWORD_PRIORITY) {
+    throw new Error(`--priority must be a whole number from ${DEFAULT_KEYWORD_PRIORITY} to ${MAX_KEYWORD_PRIORITY}`);
+  }
+  return priority;
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      config: { type: 'string' },
+      url: { type: 'string' },
+      'anon-key': { type: 'string' },
+      email: { type: 'string' },
+      json: { type: 'boolean', default: false },
+      priority: { type: 'string' },
+      type: { type: 'string', default: 'keyword_tracking' },
+      'no-wait': { type: 'boolean', default: false },
+      timeout: { type: 'string' },
+      export: { type: 'string' },
+      format: { type: 'string' },
+      out: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  const [command, ...args] = positionals;
+  const configPath = resolveConfigPath(values.config);
+
+  if (!command || values.help) {
+    process.stdout.write(USAGE);
+    return command || values.help ? 0 : 1;
+  }
+
+  switch (command) {
+    case 'login': {
+      if (!values.url || !values['anon-key'] || !values.email) throw new Error('login needs --url, --anon-key and --email');
+      await login(configPath, {
+        supabaseUrl: values.url,
+        supabaseAnonKey: values['anon-key'],
+        email: values.email,
+        password: await readPassword(),
+      });
+      return 0;
+    }
+
+    case 'projects':
+      await listProjects(await connect(configPath), { json: values.json });
+      return 0;
+
+    case 'keywords': {
+      const [action, projectId, file] = args;
+      if (action !== 'add' || !projectId || !file) throw new Error('Usage: llm-tracker keywords add <project-id> <file>');
+      const priority = readPriority(values.priority);
+      await addKeywords(await connect(configPath), projectId, file, { priority });
+      return 0;
+    }
+
+    case 'run': {
+      const [projectId] = args;
+      if (!projectId) throw new Error('Usage: llm-tracker run <project-id>');
+      if (!isReportType(values.type)) throw new Error(`Unsupported report type: ${values.type}`);
+      const format = values.export === undefined ? null : readFormat(values.export);
+      const timeoutMinutes = readTimeout(values.timeout);
+
+      const supabase = await connect(configPath);
+      const reportId = await startRun(supabase, projectId, values.type);
+      if (values['no-wait']) {
+        console.log(reportId);
+        return 0;
+      }
+      const status = await tailRun(supabase, reportId, { timeoutMinutes });
+      if (status !== 'completed') return 2;
+      if (format) await exportResults(supabase, reportId, { format, out: values.out });
+      else console.log(reportId);
+      return 0;
+    }
+
+    case 'status': {
+      const [reportId] = args;
+      if (!reportId) throw new Error('Usage: llm-tracker status <report-id>');
+      const status = await tailRun(await connect(configPath), reportId, { timeoutMinutes: readTimeout(values.timeout) });
+      return status === 'completed' ? 0 : 2;
+    }
+
+    case 'export': {
+      const [reportId] = args;
+      if (!reportId) throw new Error('Usage: llm-tracker export <report-id>');
+      await exportResults(await connect(configPath), reportId, { format: readFormat(values.format), out: values.out });
+      return 0;
+    }
+
+    default:
+      throw new Error(`Unknown command: ${command}. Run "llm-tracker --help" for usage.`);
+  }
+};
+
+main(process.argv.slice(2)).then(
+  code => process.exit(code),
+  error => {
+    process.stderr.write(`error: ${error instanceof Error ? error.message : String(error)}\n`);
+    process.exit(1);
+  }
+);
@@ -10,9 +10,12 @@ import { Dashboard } from "./pages/Dashboard";
 import { ProjectDetails } from "./pages/ProjectDetails";
 import { Projects } from "./pages/Projects";
 import { Reports } from "./pages/Reports";
+import { ReportDetails } from "./pages/ReportDetails";
+import { ReportComparison } from "./pages/ReportComparison";
 import { Settings } from "./pages/Settings";
 import { Auth } from "./pages/Auth";
 import { Subscription } from "./pages/Subscription";
+import { DigestUnsubscribe } from "./pages/DigestUnsubscribe";
 import NotFound from "./pages/NotFound";
 import Index from "./pages/Index";
 import BlankPage from "./pages/BlankPage";
@@ -41,9 +44,12 @@ function App() {
                 <Route path="/dashboard" element={<Dashboard />} />
                 <Route path="/projects" element={<Projects />} />
                 <Route path="/reports" element={<Reports />} />
+                <Route path="/reports/compare" element={<ReportComparison />} />
+                <Route path="/reports/:id" element={<ReportDetails />} />
                 <Route path="/settings" element={<Settings />} />
                 <Route path="/project/:id" element={<ProjectDetails />} />
                 <Route path="/subscription" element={<Subscription />} />
+                <Route path="/digests/unsubscribe" element={<DigestUnsubscribe />} />
                 <Route path="/auth" element={<Auth />} />
                 <Route path="/blank" element={<BlankPage />} />
                 {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
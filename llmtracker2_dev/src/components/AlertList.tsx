@@ -0,0 +1,134 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { toast } from '@/hooks/use-toast';
+import { ALERT_CHANNELS, AlertChannel } from '@/lib/alertRules';
+import { Bell, Check, FileText } from 'lucide-react';
+
+interface AlertListProps {
+  projectId: string;
+}
+
+type AlertEvent = Tables<'alert_events'>;
+
+const MAX_ALERTS = 50;
+
+export const AlertList: React.FC<AlertListProps> = ({ projectId }) => {
+  const navigate = useNavigate();
+  const [alerts, setAlerts] = useState<AlertEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchAlerts = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('alert_events')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: false })
+        .limit(MAX_ALERTS);
+      if (error) throw error;
+      setAlerts(data || []);
+    } catch (error) {
+      console.error('Error fetching alerts:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchAlerts();
+  }, [fetchAlerts]);
+
+  const handleAcknowledge = async (alert: AlertEvent) => {
+    try {
+      const acknowledgedAt = new Date().toISOString();
+      const { error } = await supabase
+        .from('alert_events')
+        .update({ acknowledged_at: acknowledgedAt })
+        .eq('id', alert.id);
+
+      if (error) throw error;
+      setAlerts(prev => prev.map(a => (a.id === alert.id ? { ...a, acknowledged_at: acknowledgedAt } : a)));
+    } catch (error) {
+      console.error('Error acknowledging alert:', error);
+      toast({
+        title: "Error",
+        description: "Failed to acknowledge alert",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const open = alerts.filter(a => !a.acknowledged_at).length;
+
+  return (
+    <Card className="card-gradient">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bell className="h-5 w-5" />
+          Recent Alerts {open > 0 && <Badge variant="destructive">{open} open</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Alerts raised by this project's rules, newest first
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="animate-pulse text-sm text-muted-foreground text-center py-4">Loading alerts...</div>
+        ) : alerts.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No alerts yet.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {alerts.map(alert => {
+              const failedChannels = alert.delivery_errors ? Object.keys(alert.delivery_errors as Record<string, string>) : [];
+              return (
+                <div
+                  key={alert.id}
+                  className={`flex items-start justify-between gap-4 p-3 rounded-md border ${alert.acknowledged_at ? 'opacity-60' : ''}`}
+                >
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">{alert.message}</p>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-xs text-muted-foreground">{new Date(alert.created_at).toLocaleString()}</span>
+                      {alert.channels.map(channel => (
+                        <Badge key={channel} variant="outline" className="text-xs">
+                          {ALERT_CHANNELS[channel as AlertChannel]?.label || channel}
+                        </Badge>
+                      ))}
+                      {failedChannels.map(channel => (
+                        <Badge key={channel} variant="destructive" className="text-xs">
+                          {ALERT_CHANNELS[channel as AlertChannel]?.label || channel} failed
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {alert.report_id && (
+                      <Button variant="ghost" size="sm" onClick={() => navigate(`/reports/${alert.report_id}`)}>
+                        <FileText className="mr-1 h-4 w-4" />
+                        Report
+                      </Button>
+                    )}
+                    {!alert.acknowledged_at && (
+                      <Button variant="ghost" size="sm" onClick={() => handleAcknowledge(alert)}>
+                        <Check className="mr-1 h-4 w-4" />
+                        Acknowledge
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
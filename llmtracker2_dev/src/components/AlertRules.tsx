@@ -0,0 +1,341 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { toast } from '@/hooks/use-toast';
+import {
+  ALERT_CHANNELS,
+  ALERT_METRICS,
+  AlertChannel,
+  AlertMetric,
+  DEFAULT_COOLDOWN_HOURS,
+  DEFAULT_PERIOD_DAYS,
+  describeRule,
+} from '@/lib/alertRules';
+import { MAX_KEYWORD_PRIORITY } from '@/lib/shareOfVoice';
+import { BellRing, Loader2, Plus, Trash2 } from 'lucide-react';
+
+interface AlertRulesProps {
+  projectId: string;
+  competitors: string[];
+}
+
+type AlertRule = Tables<'alert_rules'>;
+
+const ANY = 'any';
+const METRICS = Object.keys(ALERT_METRICS) as AlertMetric[];
+const CHANNELS = Object.keys(ALERT_CHANNELS) as AlertChannel[];
+
+const DEFAULT_THRESHOLDS: Record<AlertMetric, string> = {
+  brand_position: '3',
+  brand_mention_rate: '50',
+  competitor_mention_rate: '50',
+  mention_rate_drop: '20',
+};
+
+export const AlertRules: React.FC<AlertRulesProps> = ({ projectId, competitors }) => {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [metric, setMetric] = useState<AlertMetric>('brand_position');
+  const [threshold, setThreshold] = useState(DEFAULT_THRESHOLDS.brand_position);
+  const [competitor, setCompetitor] = useState(ANY);
+  const [minPriority, setMinPriority] = useState(ANY);
+  const [periodDays, setPeriodDays] = useState(String(DEFAULT_PERIOD_DAYS));
+  const [cooldownHours, setCooldownHours] = useState(String(DEFAULT_COOLDOWN_HOURS));
+  const [channels, setChannels] = useState<AlertChannel[]>(['in_app']);
+
+  const fetchRules = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('alert_rules')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      setRules(data || []);
+    } catch (error) {
+      console.error('Error fetching alert rules:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const handleMetricChange = (value: string) => {
+    setMetric(value as AlertMetric);
+    setThreshold(DEFAULT_THRESHOLDS[value as AlertMetric]);
+  };
+
+  const toggleChannel = (channel: AlertChannel, checked: boolean) => {
+    setChannels(prev => (checked ? [...prev, channel] : prev.filter(c => c !== channel)));
+  };
+
+  const handleAdd = async () => {
+    const value = Number(threshold);
+    const period = Number(periodDays);
+    const cooldown = Number(cooldownHours);
+    const invalid = !Number.isFinite(value) || value < 0
+      || (ALERT_METRICS[metric].unit === 'percent' && value > 100)
+      || !Number.isInteger(period) || period < 1 || period > 90
+      || !Number.isInteger(cooldown) || cooldown < 0;
+    if (invalid || channels.length === 0) {
+      toast({
+        title: "Invalid rule",
+        description: channels.length === 0
+          ? "Choose at least one delivery channel."
+          : "Check the threshold (percentages 0-100), the period (1-90 days) and the cooldown (whole hours).",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const rule = {
+        project_id: projectId,
+        metric,
+        threshold: value,
+        competitor_name: metric === 'competitor_mention_rate' && competitor !== ANY ? competitor : null,
+        min_priority: minPriority === ANY ? null : Number(minPriority),
+        period_days: period,
+        cooldown_hours: cooldown,
+        channels,
+      };
+      const { data, error } = await supabase
+        .from('alert_rules')
+        .insert({ ...rule, name: name.trim() || describeRule(rule) })
+        .select('*')
+        .single();
+      if (error) throw error;
+
+      setRules(prev => [...prev, data]);
+      setName('');
+      toast({
+        title: "Alert rule created",
+        description: "It is evaluated after every run of this project.",
+      });
+    } catch (error) {
+      console.error('Error creating alert rule:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create alert rule",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: AlertRule, isActive: boolean) => {
+    try {
+      const { error } = await supabase.from('alert_rules').update({ is_active: isActive }).eq('id', rule.id);
+      if (error) throw error;
+      setRules(prev => prev.map(r => (r.id === rule.id ? { ...r, is_active: isActive } : r)));
+    } catch (error) {
+      console.error('Error updating alert rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update alert rule",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (rule: AlertRule) => {
+    try {
+      const { error } = await supabase.from('alert_rules').delete().eq('id', rule.id);
+      if (error) throw error;
+      setRules(prev => prev.filter(r => r.id !== rule.id));
+    } catch (error) {
+      console.error('Error deleting alert rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove alert rule",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="card-gradient">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5" />
+          Alert Rules
+        </CardTitle>
+        <CardDescription>
+          Conditions checked after every run. A keyword, engine or competitor that already alerted stays quiet until the cooldown has passed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-4 p-4 rounded-md border">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Condition</Label>
+              <Select value={metric} onValueChange={handleMetricChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {METRICS.map(value => (
+                    <SelectItem key={value} value={value}>{ALERT_METRICS[value].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">{ALERT_METRICS[metric].description}</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alert_threshold">
+                {ALERT_METRICS[metric].unit === 'position' ? 'Position' : 'Percent'}
+              </Label>
+              <Input
+                id="alert_threshold"
+                type="number"
+                min={0}
+                max={ALERT_METRICS[metric].unit === 'percent' ? 100 : undefined}
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alert_name">Name</Label>
+              <Input
+                id="alert_name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Optional, describes the condition by default"
+              />
+            </div>
+            {metric === 'competitor_mention_rate' && (
+              <div className="space-y-2">
+                <Label>Competitor</Label>
+                <Select value={competitor} onValueChange={setCompetitor}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any competitor</SelectItem>
+                    {competitors.map(c => (
+                      <SelectItem key={c} value={c}>{c}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {metric === 'mention_rate_drop' && (
+              <div className="space-y-2">
+                <Label htmlFor="alert_period">Period (days)</Label>
+                <Input
+                  id="alert_period"
+                  type="number"
+                  min={1}
+                  max={90}
+                  value={periodDays}
+                  onChange={(e) => setPeriodDays(e.target.value)}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Keywords</Label>
+              <Select value={minPriority} onValueChange={setMinPriority}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>All keywords</SelectItem>
+                  {Array.from({ length: MAX_KEYWORD_PRIORITY - 1 }, (_, i) => i + 2).map(priority => (
+                    <SelectItem key={priority} value={String(priority)}>Priority {priority} and above</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alert_cooldown">Cooldown (hours)</Label>
+              <Input
+                id="alert_cooldown"
+                type="number"
+                min={0}
+                value={cooldownHours}
+                onChange={(e) => setCooldownHours(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-4">
+            <span className="text-sm font-medium">Deliver</span>
+            {CHANNELS.map(channel => (
+              <div key={channel} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`alert-channel-${channel}`}
+                  checked={channels.includes(channel)}
+                  onCheckedChange={(checked) => toggleChannel(channel, checked === true)}
+                />
+                <Label htmlFor={`alert-channel-${channel}`} className="text-sm font-normal">{ALERT_CHANNELS[channel].label}</Label>
+              </div>
+            ))}
+          </div>
+          {channels.includes('webhook') && (
+            <p className="text-xs text-muted-foreground">
+              Webhook alerts go to this project's endpoints subscribed to "Alert triggered" in Settings.
+            </p>
+          )}
+          <Button onClick={handleAdd} disabled={saving}>
+            {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Add Rule
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="animate-pulse text-sm text-muted-foreground text-center py-4">Loading alert rules...</div>
+        ) : rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No alert rules yet.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {rules.map(rule => (
+              <div key={rule.id} className="flex flex-wrap items-center justify-between gap-4 p-3 rounded-md border">
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-medium">{rule.name}</span>
+                    {rule.channels.map(channel => (
+                      <Badge key={channel} variant="outline" className="text-xs">
+                        {ALERT_CHANNELS[channel as AlertChannel]?.label || channel}
+                      </Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {describeRule(rule)} · cooldown {rule.cooldown_hours}h
+                    {rule.last_triggered_at && ` · last triggered ${new Date(rule.last_triggered_at).toLocaleString()}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={rule.is_active}
+                    onCheckedChange={(checked) => handleToggle(rule, checked)}
+                    aria-label="Alert rule active"
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(rule)} aria-label="Remove alert rule">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,148 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { toast } from '@/hooks/use-toast';
+import { ANOMALY_TYPES, AnomalyType } from '@/lib/anomalyDetection';
+import { PROVIDERS, ProviderId } from '@/lib/providers';
+import { HistoricalTrackingService } from '@/lib/historicalTracking';
+import { TimeRange } from '@/types/historical';
+import { AlertTriangle, Check } from 'lucide-react';
+
+interface AnomalyListProps {
+  projectId: string;
+  timeRange: TimeRange;
+  keywordId?: string;
+}
+
+type VisibilityAnomaly = Tables<'visibility_anomalies'>;
+
+const MAX_ANOMALIES = 50;
+
+const severityVariant = (severity: string) =>
+  severity === 'high' ? 'destructive' : severity === 'medium' ? 'default' : 'secondary';
+
+const describe = (anomaly: VisibilityAnomaly) => {
+  switch (anomaly.anomaly_type as AnomalyType) {
+    case 'rank_drop':
+      return `${anomaly.competitor_name} fell to #${anomaly.observed_value} (usually #${anomaly.baseline_value})`;
+    case 'brand_disappeared':
+      return `${anomaly.competitor_name} was not mentioned (usually in ${Math.round(Number(anomaly.baseline_value) * 100)}% of answers)`;
+    case 'new_competitor':
+      return `${anomaly.competitor_name} appeared at #${anomaly.observed_value}`;
+    case 'sentiment_swing':
+      return `Sentiment towards ${anomaly.competitor_name} moved from ${Number(anomaly.baseline_value).toFixed(2)} to ${Number(anomaly.observed_value).toFixed(2)}`;
+    default:
+      return anomaly.competitor_name;
+  }
+};
+
+export const AnomalyList: React.FC<AnomalyListProps> = ({ projectId, timeRange, keywordId }) => {
+  const [anomalies, setAnomalies] = useState<VisibilityAnomaly[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchAnomalies = useCallback(async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('visibility_anomalies')
+        .select('*')
+        .eq('project_id', projectId)
+        .gte('detected_at', HistoricalTrackingService.getRangeStart(timeRange).toISOString())
+        .order('detected_at', { ascending: false })
+        .limit(MAX_ANOMALIES);
+
+      if (keywordId) query = query.eq('keyword_id', keywordId);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setAnomalies(data || []);
+    } catch (error) {
+      console.error('Error fetching anomalies:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, timeRange, keywordId]);
+
+  useEffect(() => {
+    fetchAnomalies();
+  }, [fetchAnomalies]);
+
+  const handleAcknowledge = async (anomaly: VisibilityAnomaly) => {
+    try {
+      const acknowledgedAt = new Date().toISOString();
+      const { error } = await supabase
+        .from('visibility_anomalies')
+        .update({ acknowledged_at: acknowledgedAt })
+        .eq('id', anomaly.id);
+
+      if (error) throw error;
+      setAnomalies(prev => prev.map(a => (a.id === anomaly.id ? { ...a, acknowledged_at: acknowledgedAt } : a)));
+    } catch (error) {
+      console.error('Error acknowledging anomaly:', error);
+      toast({
+        title: "Error",
+        description: "Failed to acknowledge anomaly",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const open = anomalies.filter(a => !a.acknowledged_at).length;
+
+  return (
+    <Card className="card-gradient">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5" />
+          Anomalies {open > 0 && <Badge variant="destructive">{open} open</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Unusual movements detected after each run, compared with the recent history of the same keyword and engine
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="animate-pulse text-sm text-muted-foreground text-center py-4">Loading anomalies...</div>
+        ) : anomalies.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No anomalies in this time range.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {anomalies.map(anomaly => (
+              <div
+                key={anomaly.id}
+                className={`flex items-start justify-between gap-4 p-3 rounded-md border ${anomaly.acknowledged_at ? 'opacity-60' : ''}`}
+              >
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant={severityVariant(anomaly.severity)}>{anomaly.severity}</Badge>
+                    <span className="text-sm font-medium">
+                      {ANOMALY_TYPES[anomaly.anomaly_type as AnomalyType]?.label || anomaly.anomaly_type}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(anomaly.detected_at).toLocaleString()}
+                    </span>
+                  </div>
+                  <p className="text-sm">{describe(anomaly)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    "{anomaly.keyword}"{anomaly.provider && ` on ${PROVIDERS[anomaly.provider as ProviderId]?.label || anomaly.provider}`}
+                  </p>
+                </div>
+                {!anomaly.acknowledged_at && (
+                  <Button variant="ghost" size="sm" onClick={() => handleAcknowledge(anomaly)}>
+                    <Check className="mr-1 h-4 w-4" />
+                    Acknowledge
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,70 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { diffAnswers } from '@/lib/reportComparison';
+
+interface AnswerDiffDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  beforeLabel: string;
+  afterLabel: string;
+  before: string;
+  after: string;
+}
+
+// Both answers side by side; passages only one of them contains are highlighted
+export const AnswerDiffDialog: React.FC<AnswerDiffDialogProps> = ({
+  isOpen,
+  onClose,
+  title,
+  beforeLabel,
+  afterLabel,
+  before,
+  after,
+}) => {
+  const segments = React.useMemo(() => (isOpen ? diffAnswers(before, after) : []), [isOpen, before, after]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-6xl max-h-[85vh]">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            <span className="bg-red-100 text-red-900 px-1 rounded">Removed</span> passages appear only in the earlier answer,{' '}
+            <span className="bg-green-100 text-green-900 px-1 rounded">added</span> ones only in the later answer.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          {[
+            { label: beforeLabel, hidden: 'added', highlight: 'removed', className: 'bg-red-100 text-red-900' },
+            { label: afterLabel, hidden: 'removed', highlight: 'added', className: 'bg-green-100 text-green-900' },
+          ].map(side => (
+            <div key={side.label} className="space-y-2">
+              <h4 className="text-sm font-medium">{side.label}</h4>
+              <ScrollArea className="h-[60vh] rounded-md border p-4">
+                <p className="text-sm whitespace-pre-wrap leading-relaxed">
+                  {segments
+                    .map((segment, index) => ({ segment, index }))
+                    .filter(({ segment }) => segment.kind !== side.hidden)
+                    .map(({ segment, index }) => (
+                      <span key={index} className={segment.kind === side.highlight ? `${side.className} rounded` : undefined}>
+                        {segment.text}
+                      </span>
+                    ))}
+                </p>
+              </ScrollArea>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
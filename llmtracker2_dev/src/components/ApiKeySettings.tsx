@@ -0,0 +1,321 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+import { API_FUNCTION, API_KEY_HEADER, API_SCOPES, ApiScope, apiKeyPrefix, generateApiKey, hashApiKey } from '@/lib/apiKeys';
+import { Copy, ExternalLink, KeyRound, Loader2, Plus, Trash2 } from 'lucide-react';
+
+type ApiKey = Tables<'api_keys'>;
+
+const SCOPES = Object.keys(API_SCOPES) as ApiScope[];
+const ALL_PROJECTS = 'all';
+const NEVER = 'never';
+const EXPIRY_DAYS = ['30', '90', '365'];
+
+export const ApiKeySettings: React.FC = () => {
+  const { user } = useAuth();
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [projects, setProjects] = useState<{ id: string; name: string }[]>([]);
+  const [apiUrl, setApiUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [projectId, setProjectId] = useState(ALL_PROJECTS);
+  const [scopes, setScopes] = useState<ApiScope[]>(['projects:read', 'reports:read']);
+  const [expiry, setExpiry] = useState(NEVER);
+  // The new key in clear; it is only available until the page is left
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+
+  const fetchKeys = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      const [keysResult, projectsResult] = await Promise.all([
+        supabase.from('api_keys').select('*').order('created_at', { ascending: false }),
+        supabase.from('projects').select('id, name').eq('user_id', user.id).order('name', { ascending: true }),
+      ]);
+      if (keysResult.error) throw keysResult.error;
+      if (projectsResult.error) throw projectsResult.error;
+      setKeys(keysResult.data || []);
+      setProjects(projectsResult.data || []);
+    } catch (error) {
+      console.error('Error fetching API keys:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchKeys();
+  }, [fetchKeys]);
+
+  // The API's base URL comes from its own OpenAPI document, which needs no key
+  useEffect(() => {
+    supabase.functions
+      .invoke(`${API_FUNCTION}/openapi.json`, { method: 'GET' })
+      .then(({ data, error }) => {
+        if (error) throw error;
+        setApiUrl(data?.servers?.[0]?.url ?? null);
+      })
+      .catch(error => console.error('Error fetching API description:', error));
+  }, []);
+
+  const toggleScope = (scope: ApiScope, checked: boolean) => {
+    setScopes(prev => (checked ? [...prev, scope] : prev.filter(s => s !== scope)));
+  };
+
+  const handleCreate = async () => {
+    if (!user) return;
+    if (scopes.length === 0) {
+      toast({
+        title: "No scopes selected",
+        description: "Choose at least one scope for this key.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const key = generateApiKey();
+      const { data, error } = await supabase
+        .from('api_keys')
+        .insert({
+          user_id: user.id,
+          project_id: projectId === ALL_PROJECTS ? null : projectId,
+          name: name.trim() || 'API key',
+          key_prefix: apiKeyPrefix(key),
+          key_hash: await hashApiKey(key),
+          scopes,
+          expires_at: expiry === NEVER ? null : new Date(Date.now() + Number(expiry) * 24 * 60 * 60 * 1000).toISOString(),
+        })
+        .select('*')
+        .single();
+      if (error) throw error;
+
+      setKeys(prev => [data, ...prev]);
+      setCreatedKey(key);
+      setName('');
+      toast({
+        title: "API key created",
+        description: "Copy it now; it is not shown again.",
+      });
+    } catch (error) {
+      console.error('Error creating API key:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create API key",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    try {
+      const revokedAt = new Date().toISOString();
+      const { error } = await supabase.from('api_keys').update({ revoked_at: revokedAt }).eq('id', apiKey.id);
+      if (error) throw error;
+      setKeys(prev => prev.map(k => (k.id === apiKey.id ? { ...k, revoked_at: revokedAt } : k)));
+    } catch (error) {
+      console.error('Error revoking API key:', error);
+      toast({
+        title: "Error",
+        description: "Failed to revoke API key",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (apiKey: ApiKey) => {
+    try {
+      const { error } = await supabase.from('api_keys').delete().eq('id', apiKey.id);
+      if (error) throw error;
+      setKeys(prev => prev.filter(k => k.id !== apiKey.id));
+    } catch (error) {
+      console.error('Error deleting API key:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove API key",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCopy = async (value: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      toast({ title: "Copied to clipboard" });
+    } catch (error) {
+      console.error('Error copying to clipboard:', error);
+    }
+  };
+
+  const isExpired = (apiKey: ApiKey) => !!apiKey.expires_at && new Date(apiKey.expires_at) <= new Date();
+
+  return (
+    <Card className="card-gradient">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          API Keys
+        </CardTitle>
+        <CardDescription>
+          Keys for the REST API, sent as a bearer token or in the {API_KEY_HEADER} header. Only a hash is stored, so a key is shown once when it is created.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {apiUrl && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-muted-foreground">Base URL</span>
+            <code className="text-xs bg-muted px-2 py-1 rounded break-all">{apiUrl}</code>
+            <Button variant="ghost" size="sm" onClick={() => handleCopy(apiUrl)} aria-label="Copy base URL">
+              <Copy className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => window.open(`${apiUrl}/openapi.json`, '_blank')}>
+              <ExternalLink className="h-4 w-4 mr-2" />
+              OpenAPI document
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-4 p-4 rounded-md border">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="api_key_name">Name</Label>
+              <Input
+                id="api_key_name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Reporting pipeline"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Access</Label>
+              <Select value={projectId} onValueChange={setProjectId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_PROJECTS}>All projects (personal key)</SelectItem>
+                  {projects.map(project => (
+                    <SelectItem key={project.id} value={project.id}>{project.name} only</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Expires</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NEVER}>Never</SelectItem>
+                  {EXPIRY_DAYS.map(days => (
+                    <SelectItem key={days} value={days}>In {days} days</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-4">
+            {SCOPES.map(scope => (
+              <div key={scope} className="flex items-center space-x-2" title={API_SCOPES[scope].description}>
+                <Checkbox
+                  id={`api-scope-${scope}`}
+                  checked={scopes.includes(scope)}
+                  onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                />
+                <Label htmlFor={`api-scope-${scope}`} className="text-sm font-normal">{API_SCOPES[scope].label}</Label>
+              </div>
+            ))}
+          </div>
+          <Button onClick={handleCreate} disabled={saving || loading}>
+            {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Create Key
+          </Button>
+        </div>
+
+        {createdKey && (
+          <div className="space-y-2 p-4 rounded-md border border-primary/40 bg-primary/5">
+            <p className="text-sm font-medium">Copy your new key now. It will not be shown again.</p>
+            <div className="flex items-center gap-2">
+              <code className="text-xs bg-muted px-2 py-1 rounded break-all">{createdKey}</code>
+              <Button variant="ghost" size="sm" onClick={() => handleCopy(createdKey)} aria-label="Copy API key">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setCreatedKey(null)}>Done</Button>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="animate-pulse text-sm text-muted-foreground text-center py-4">Loading API keys...</div>
+        ) : keys.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No API keys yet.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {keys.map(apiKey => {
+              const inactive = !!apiKey.revoked_at || isExpired(apiKey);
+              return (
+                <div
+                  key={apiKey.id}
+                  className={`flex flex-wrap items-center justify-between gap-4 p-3 rounded-md border ${inactive ? 'opacity-60' : ''}`}
+                >
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm font-medium">{apiKey.name}</span>
+                      <code className="text-xs bg-muted px-2 py-0.5 rounded">{apiKey.key_prefix}…</code>
+                      <Badge variant="secondary">
+                        {apiKey.project_id ? projects.find(p => p.id === apiKey.project_id)?.name || 'Project' : 'All projects'}
+                      </Badge>
+                      {apiKey.revoked_at ? (
+                        <Badge variant="destructive">Revoked</Badge>
+                      ) : isExpired(apiKey) && (
+                        <Badge variant="outline">Expired</Badge>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {apiKey.scopes.map(scope => (
+                        <Badge key={scope} variant="outline" className="text-xs">
+                          {API_SCOPES[scope as ApiScope]?.label || scope}
+                        </Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Created {new Date(apiKey.created_at).toLocaleDateString()}
+                      {' · '}
+                      {apiKey.last_used_at ? `last used ${new Date(apiKey.last_used_at).toLocaleString()}` : 'never used'}
+                      {apiKey.expires_at && ` · expires ${new Date(apiKey.expires_at).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  {inactive ? (
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(apiKey)} aria-label="Remove API key">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  ) : (
+                    <Button variant="outline" size="sm" onClick={() => handleRevoke(apiKey)}>
+                      Revoke
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -5,6 +5,8 @@ import { Button } from '@/components/ui/button';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { CheckCircle, XCircle, Eye, ChevronDown, ChevronRight } from 'lucide-react';
 import { BrandAnalysisResult } from '@/lib/openai';
+import { getEngineLabel } from '@/lib/providers';
+import { SampleStatsGrid, StabilityBadge } from '@/components/SampleStats';
 
 interface BrandTrackingResultsProps {
   results: BrandAnalysisResult[];
@@ -19,12 +21,12 @@ export const BrandTrackingResults: React.FC<BrandTrackingResultsProps> = ({
 }) => {
   const [openItems, setOpenItems] = React.useState<Set<string>>(new Set());
 
-  const toggleItem = (keyword: string) => {
+  const toggleItem = (itemKey: string) => {
     const newOpenItems = new Set(openItems);
-    if (newOpenItems.has(keyword)) {
-      newOpenItems.delete(keyword);
+    if (newOpenItems.has(itemKey)) {
+      newOpenItems.delete(itemKey);
     } else {
-      newOpenItems.add(keyword);
+      newOpenItems.add(itemKey);
     }
     setOpenItems(newOpenItems);
   };
@@ -35,7 +37,7 @@ export const BrandTrackingResults: React.FC<BrandTrackingResultsProps> = ({
         <CardHeader>
           <CardTitle>Generating Brand Tracking Report</CardTitle>
           <CardDescription>
-            Analyzing keywords with ChatGPT API...
+            Analyzing keywords across your tracked AI engines...
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -65,7 +67,7 @@ export const BrandTrackingResults: React.FC<BrandTrackingResultsProps> = ({
         <CardTitle className="flex items-center justify-between">
           Brand Tracking Results
           <Badge variant={mentionedCount > 0 ? "default" : "secondary"}>
-            {mentionedCount}/{totalCount} Keywords
+            {mentionedCount}/{totalCount} Analyses
           </Badge>
         </CardTitle>
         <CardDescription>
@@ -74,10 +76,11 @@ export const BrandTrackingResults: React.FC<BrandTrackingResultsProps> = ({
       </CardHeader>
       <CardContent className="space-y-4">
         {results.map((result) => {
-          const isOpen = openItems.has(result.keyword);
+          const itemKey = `${result.provider}:${result.keyword}`;
+          const isOpen = openItems.has(itemKey);
           
           return (
-            <Collapsible key={result.keyword} open={isOpen} onOpenChange={() => toggleItem(result.keyword)}>
+            <Collapsible key={itemKey} open={isOpen} onOpenChange={() => toggleItem(itemKey)}>
               <div className="border rounded-lg p-4 space-y-3">
                 {/* Header Row */}
                 <CollapsibleTrigger asChild>
@@ -93,10 +96,15 @@ export const BrandTrackingResults: React.FC<BrandTrackingResultsProps> = ({
                         <div className="text-sm text-muted-foreground">
                           {result.brandMentioned ? 'Brand mentioned' : 'Brand not found'}
                           {result.position && ` • Position: #${result.position}`}
+                          {result.stats && result.stats.sampleCount > 1 && ` • Mentioned in ${result.stats.mentionCount}/${result.stats.sampleCount} runs`}
                         </div>
                       </div>
                     </div>
                     <div className="flex items-center space-x-2">
+                      <Badge variant="secondary" className="text-xs">
+                        {getEngineLabel(result)}
+                      </Badge>
+                      <StabilityBadge stats={result.stats} />
                       <Badge variant="outline" className="text-xs">
                         {result.confidence}% confidence
                       </Badge>
@@ -111,6 +119,8 @@ export const BrandTrackingResults: React.FC<BrandTrackingResultsProps> = ({
 
                 {/* Expandable Content */}
                 <CollapsibleContent className="space-y-3">
+                  <SampleStatsGrid stats={result.stats} />
+
                   {result.context && (
                     <div className="bg-muted/50 p-3 rounded-md">
                       <h4 className="text-sm font-medium mb-2">Context</h4>
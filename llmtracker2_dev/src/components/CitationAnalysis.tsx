@@ -0,0 +1,276 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { CitationAnalysisResults } from '@/lib/citations';
+import { Globe, Link2, Quote } from 'lucide-react';
+
+interface CitationAnalysisProps {
+  results: CitationAnalysisResults;
+  brandName: string;
+}
+
+const MAX_DOMAINS = 15;
+
+const colors = [
+  '#8884d8', '#82ca9d', '#ffc658', '#ff7c7c', '#8dd1e1',
+  '#d084d0', '#ffb347', '#87ceeb', '#deb887', '#f0e68c'
+];
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+export const CitationAnalysis: React.FC<CitationAnalysisProps> = ({ results, brandName }) => {
+  const { summary, domains, namedSources, keywords, entities, timeline } = results;
+
+  const chartData = timeline.map(entry => ({
+    date: entry.date,
+    ...Object.fromEntries(Object.entries(entry.rates).map(([name, value]) => [name, Math.round(value * 100)])),
+  }));
+
+  const ownerBadge = (owner: string | null) => {
+    if (!owner) return null;
+    return (
+      <Badge variant={owner === brandName ? 'default' : 'secondary'} className="text-xs">
+        {owner === brandName ? 'Your domain' : owner}
+      </Badge>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card className="card-gradient">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Answers with Sources</CardTitle>
+            <Link2 className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{summary.responsesWithCitations}/{summary.totalResponses}</div>
+          </CardContent>
+        </Card>
+        <Card className="card-gradient">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Cited Domains</CardTitle>
+            <Globe className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{summary.uniqueDomains}</div>
+          </CardContent>
+        </Card>
+        <Card className="card-gradient">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Named Sources</CardTitle>
+            <Quote className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{summary.namedSources}</div>
+          </CardContent>
+        </Card>
+        <Card className="card-gradient">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Your Domain Cited</CardTitle>
+            <Globe className="h-4 w-4 text-primary" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatPercent(summary.brandCitationRate)}</div>
+            <p className="text-xs text-muted-foreground">of answers</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Brand vs competitor domains */}
+      <Card className="card-gradient">
+        <CardHeader>
+          <CardTitle>Brand and Competitor Domains</CardTitle>
+          <CardDescription>
+            How often answers cite pages on your domain versus your competitors'
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Brand</TableHead>
+                <TableHead>Domains</TableHead>
+                <TableHead>Citations</TableHead>
+                <TableHead>Answers Citing</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entities.map(entity => (
+                <TableRow key={entity.name} className={entity.isBrand ? 'bg-primary/5' : undefined}>
+                  <TableCell className={entity.isBrand ? 'font-medium text-primary' : 'font-medium'}>
+                    {entity.name}{entity.isBrand && ' (You)'}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {entity.domains.length > 0 ? entity.domains.join(', ') : 'No domain configured'}
+                  </TableCell>
+                  <TableCell>{entity.citations}</TableCell>
+                  <TableCell>{formatPercent(entity.responseRate)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Trend */}
+      {chartData.length > 1 && (
+        <Card className="card-gradient">
+          <CardHeader>
+            <CardTitle>Domain Citations Over Time</CardTitle>
+            <CardDescription>
+              Share of answers citing each brand's domain, per completed run
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="date"
+                  tick={{ fontSize: 12 }}
+                  tickFormatter={(value) => new Date(value).toLocaleDateString()}
+                />
+                <YAxis tick={{ fontSize: 12 }} domain={[0, 100]} unit="%" />
+                <Tooltip
+                  labelFormatter={(value) => new Date(value).toLocaleString()}
+                  formatter={(value: number) => `${value}%`}
+                />
+                <Legend />
+                {entities.map((entity, index) => (
+                  <Line
+                    key={entity.name}
+                    type="monotone"
+                    dataKey={entity.name}
+                    stroke={colors[index % colors.length]}
+                    strokeWidth={entity.isBrand ? 3 : 2}
+                    dot={{ r: 3 }}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Top domains */}
+        <Card className="card-gradient">
+          <CardHeader>
+            <CardTitle>Most Cited Domains</CardTitle>
+            <CardDescription>
+              Domains the engines cite across all keywords
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {domains.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Domain</TableHead>
+                    <TableHead>Citations</TableHead>
+                    <TableHead>Keywords</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {domains.slice(0, MAX_DOMAINS).map(domain => (
+                    <TableRow key={domain.domain}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{domain.domain}</span>
+                          {ownerBadge(domain.owner)}
+                        </div>
+                      </TableCell>
+                      <TableCell>{domain.citations}</TableCell>
+                      <TableCell>{domain.keywords.length}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                No domains were cited in this run.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Named sources */}
+        <Card className="card-gradient">
+          <CardHeader>
+            <CardTitle>Named Sources</CardTitle>
+            <CardDescription>
+              Publications and analysts referenced without a link
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {namedSources.length > 0 ? (
+              <div className="flex flex-wrap gap-2">
+                {namedSources.map(source => (
+                  <Badge key={source.name} variant="outline">
+                    {source.name} · {source.citations}
+                  </Badge>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                No named sources were referenced in this run.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Per keyword */}
+      <Card className="card-gradient">
+        <CardHeader>
+          <CardTitle>Sources by Keyword</CardTitle>
+          <CardDescription>
+            Domains cited in the answers for each keyword
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Keyword</TableHead>
+                <TableHead>Your Domain</TableHead>
+                <TableHead>Cited Domains</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {keywords.map(keyword => (
+                <TableRow key={keyword.keyword}>
+                  <TableCell className="font-medium">{keyword.keyword}</TableCell>
+                  <TableCell>
+                    <Badge variant={keyword.brandCited ? 'default' : 'outline'}>
+                      {keyword.brandCited ? 'Cited' : 'Not cited'}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {keyword.domains.length > 0 ? keyword.domains.map(domain => (
+                        <Badge
+                          key={domain.domain}
+                          variant={domain.owner === brandName ? 'default' : domain.owner ? 'secondary' : 'outline'}
+                          className="text-xs"
+                        >
+                          {domain.domain} ({domain.citations})
+                        </Badge>
+                      )) : (
+                        <span className="text-sm text-muted-foreground">None</span>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,193 @@
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { CompetitorAnalysisResults } from '@/lib/competitorAnalysis';
+import { Trophy, Users, Target } from 'lucide-react';
+
+interface CompetitorAnalysisReportProps {
+  results: CompetitorAnalysisResults;
+}
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const formatDelta = (value: number | null) => {
+  if (value === null) return 'N/A';
+  if (value === 0) return '0';
+  return value > 0 ? `+${value.toFixed(1)}` : value.toFixed(1);
+};
+
+export const CompetitorAnalysisReport: React.FC<CompetitorAnalysisReportProps> = ({ results }) => {
+  const { summary, competitors } = results;
+
+  const chartData = [
+    { name: summary.brand.name, share: Math.round(summary.brand.shareOfVoice * 100), isBrand: true },
+    ...competitors.map(c => ({ name: c.name, share: Math.round(c.shareOfVoice * 100), isBrand: false })),
+  ];
+
+  const totalWon = competitors.reduce((acc, c) => acc + c.keywordsWon.length, 0);
+  const totalLost = competitors.reduce((acc, c) => acc + c.keywordsLost.length, 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card className="card-gradient">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Your Share of Voice</CardTitle>
+            <Target className="h-4 w-4 text-primary" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatPercent(summary.brand.shareOfVoice)}</div>
+            <p className="text-xs text-muted-foreground">
+              Mentioned in {summary.brand.mentions}/{summary.analyses} answers
+            </p>
+          </CardContent>
+        </Card>
+        <Card className="card-gradient">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Competitors Tracked</CardTitle>
+            <Users className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{competitors.length}</div>
+            <p className="text-xs text-muted-foreground">
+              Across {summary.totalKeywords} keywords
+            </p>
+          </CardContent>
+        </Card>
+        <Card className="card-gradient">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Head-to-Head Record</CardTitle>
+            <Trophy className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              <span className="text-green-600">{totalWon}</span>
+              <span className="text-muted-foreground"> / </span>
+              <span className="text-red-600">{totalLost}</span>
+            </div>
+            <p className="text-xs text-muted-foreground">Keyword matchups won / lost</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Share of voice */}
+      <Card className="card-gradient">
+        <CardHeader>
+          <CardTitle>Share of Voice</CardTitle>
+          <CardDescription>
+            Each brand's share of all tracked mentions in this run
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={Math.max(200, chartData.length * 40)}>
+            <BarChart data={chartData} layout="vertical" margin={{ left: 24 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis type="number" domain={[0, 100]} unit="%" tick={{ fontSize: 12 }} />
+              <YAxis type="category" dataKey="name" width={120} tick={{ fontSize: 12 }} />
+              <Tooltip formatter={(value: number) => `${value}%`} />
+              <Bar dataKey="share" name="Share of voice">
+                {chartData.map(entry => (
+                  <Cell key={entry.name} fill={entry.isBrand ? '#8884d8' : '#82ca9d'} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      {/* Head-to-head */}
+      <Card className="card-gradient">
+        <CardHeader>
+          <CardTitle>Head-to-Head</CardTitle>
+          <CardDescription>
+            How {summary.brand.name} compares with each competitor. A positive rank delta means you rank ahead.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Competitor</TableHead>
+                <TableHead>Share of Voice</TableHead>
+                <TableHead>Mention Rate</TableHead>
+                <TableHead>Co-mention Rate</TableHead>
+                <TableHead>Avg Position</TableHead>
+                <TableHead>Avg Rank Delta</TableHead>
+                <TableHead>Won / Lost / Tied</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              <TableRow className="bg-primary/5">
+                <TableCell className="font-medium text-primary">{summary.brand.name} (You)</TableCell>
+                <TableCell>{formatPercent(summary.brand.shareOfVoice)}</TableCell>
+                <TableCell>{formatPercent(summary.brand.mentionRate)}</TableCell>
+                <TableCell>-</TableCell>
+                <TableCell>{summary.brand.averagePosition ?? 'N/A'}</TableCell>
+                <TableCell>-</TableCell>
+                <TableCell>-</TableCell>
+              </TableRow>
+              {competitors.map(competitor => (
+                <TableRow key={competitor.name}>
+                  <TableCell className="font-medium">{competitor.name}</TableCell>
+                  <TableCell>{formatPercent(competitor.shareOfVoice)}</TableCell>
+                  <TableCell>{formatPercent(competitor.mentionRate)}</TableCell>
+                  <TableCell>{formatPercent(competitor.coMentionRate)}</TableCell>
+                  <TableCell>{competitor.averagePosition ?? 'N/A'}</TableCell>
+                  <TableCell>
+                    <span className={
+                      competitor.averageRankDelta === null || competitor.averageRankDelta === 0
+                        ? 'text-muted-foreground'
+                        : competitor.averageRankDelta > 0 ? 'text-green-600' : 'text-red-600'
+                    }>
+                      {formatDelta(competitor.averageRankDelta)}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex space-x-1">
+                      <Badge variant="default">{competitor.keywordsWon.length}</Badge>
+                      <Badge variant="destructive">{competitor.keywordsLost.length}</Badge>
+                      <Badge variant="outline">{competitor.keywordsTied.length}</Badge>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Keywords won and lost */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {competitors.map(competitor => (
+          <Card key={competitor.name} className="card-gradient">
+            <CardHeader>
+              <CardTitle className="text-base">vs {competitor.name}</CardTitle>
+              <CardDescription>Keywords where you rank ahead of or behind {competitor.name}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div>
+                <h4 className="text-sm font-medium mb-2 text-green-600">Won ({competitor.keywordsWon.length})</h4>
+                <div className="flex flex-wrap gap-1">
+                  {competitor.keywordsWon.length > 0 ? competitor.keywordsWon.map(keyword => (
+                    <Badge key={keyword} variant="secondary" className="text-xs">{keyword}</Badge>
+                  )) : <span className="text-sm text-muted-foreground">None</span>}
+                </div>
+              </div>
+              <div>
+                <h4 className="text-sm font-medium mb-2 text-red-600">Lost ({competitor.keywordsLost.length})</h4>
+                <div className="flex flex-wrap gap-1">
+                  {competitor.keywordsLost.length > 0 ? competitor.keywordsLost.map(keyword => (
+                    <Badge key={keyword} variant="outline" className="text-xs">{keyword}</Badge>
+                  )) : <span className="text-sm text-muted-foreground">None</span>}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
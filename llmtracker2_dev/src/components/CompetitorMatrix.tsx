@@ -2,14 +2,24 @@ import React from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { BrandAnalysisResult } from '@/lib/openai';
+import { buildEntities, canonicalizeResults, EntityAliasMap } from '@/lib/entityMatcher';
+import { PROVIDERS } from '@/lib/providers';
 import { CheckCircle, XCircle } from 'lucide-react';
 
 interface CompetitorMatrixProps {
   results: BrandAnalysisResult[];
   brandName: string;
+  competitors?: string[];
+  aliases?: EntityAliasMap;
 }
 
-export const CompetitorMatrix: React.FC<CompetitorMatrixProps> = ({ results, brandName }) => {
+export const CompetitorMatrix: React.FC<CompetitorMatrixProps> = ({ results: rawResults, brandName, competitors = [], aliases }) => {
+  // Names written differently across answers ("HubSpot CRM", "hubspot.com") share one column
+  const results = React.useMemo(
+    () => canonicalizeResults(rawResults, buildEntities(brandName, competitors, aliases).slice(1)),
+    [rawResults, brandName, competitors, aliases]
+  );
+
   if (results.length === 0) return null;
 
   // Get all unique competitors mentioned across all keywords
@@ -38,6 +48,7 @@ export const CompetitorMatrix: React.FC<CompetitorMatrixProps> = ({ results, bra
             <thead>
               <tr className="border-b">
                 <th className="text-left p-3 font-medium">Keyword</th>
+                <th className="text-left p-3 font-medium">Engine</th>
                 <th className="text-left p-3 font-medium text-primary">{brandName}</th>
                 {competitorList.map(competitor => (
                   <th key={competitor} className="text-left p-3 font-medium text-muted-foreground">
@@ -48,8 +59,9 @@ export const CompetitorMatrix: React.FC<CompetitorMatrixProps> = ({ results, bra
             </thead>
             <tbody>
               {results.map((result) => (
-                <tr key={result.keyword} className="border-b hover:bg-muted/50">
+                <tr key={`${result.provider}:${result.keyword}`} className="border-b hover:bg-muted/50">
                   <td className="p-3 font-medium">{result.keyword}</td>
+                  <td className="p-3 text-sm text-muted-foreground">{PROVIDERS[result.provider]?.label || result.provider}</td>
                   
                   {/* Brand column */}
                   <td className="p-3">
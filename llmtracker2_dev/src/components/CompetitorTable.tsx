@@ -4,49 +4,98 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
-import { BrandAnalysisResult, CompetitorMention } from '@/lib/openai';
+import { BrandAnalysisResult } from '@/lib/openai';
+import { buildEntities, canonicalizeResults, EntityAliasMap } from '@/lib/entityMatcher';
+import { getEngineLabel } from '@/lib/providers';
+import { mean, MentionStats } from '@/lib/statistics';
+import { StabilityBadge } from '@/components/SampleStats';
+import { AverageSentiment, SentimentBadge } from '@/components/SentimentBadge';
+import { ExportMenu } from '@/components/ExportMenu';
+import { ResultExportContext, resultExportTable } from '@/lib/dataExport';
 import { CheckCircle, XCircle, ChevronDown, ChevronRight, Eye } from 'lucide-react';
 
 interface CompetitorTableProps {
   results: BrandAnalysisResult[];
   brandName: string;
-  onViewContext: (brand: string, keyword: string, context: string) => void;
+  onViewContext: (brand: string, result: BrandAnalysisResult, context: string) => void;
+  competitors?: string[];
+  aliases?: EntityAliasMap;
+  // Report fields stamped on every exported row
+  exportContext?: ResultExportContext;
 }
 
 export const CompetitorTable: React.FC<CompetitorTableProps> = ({ 
-  results, 
+  results: rawResults, 
   brandName, 
-  onViewContext 
+  onViewContext,
+  competitors = [],
+  aliases,
+  exportContext
 }) => {
   const [expandedRows, setExpandedRows] = React.useState<Set<string>>(new Set());
+  const results = React.useMemo(
+    () => canonicalizeResults(rawResults, buildEntities(brandName, competitors, aliases).slice(1)),
+    [rawResults, brandName, competitors, aliases]
+  );
 
   if (results.length === 0) return null;
 
-  const toggleRow = (keyword: string) => {
+  const toggleRow = (rowKey: string) => {
     const newExpanded = new Set(expandedRows);
-    if (newExpanded.has(keyword)) {
-      newExpanded.delete(keyword);
+    if (newExpanded.has(rowKey)) {
+      newExpanded.delete(rowKey);
     } else {
-      newExpanded.add(keyword);
+      newExpanded.add(rowKey);
     }
     setExpandedRows(newExpanded);
   };
 
+  const renderRunCount = (stats?: MentionStats) =>
+    stats && stats.sampleCount > 1 ? (
+      <span className="text-xs text-muted-foreground">({stats.mentionCount}/{stats.sampleCount} runs)</span>
+    ) : null;
+
+  // Multi-sample runs add mention rate and stability columns
+  const isSampled = results.some(r => (r.stats?.sampleCount ?? 1) > 1);
+  const mentionRateOf = (stats: MentionStats | undefined, mentioned: boolean) => stats?.mentionRate ?? (mentioned ? 1 : 0);
+  const formatRate = (rates: number[]) => {
+    const avg = mean(rates);
+    return avg === null ? 'N/A' : `${Math.round(avg * 100)}%`;
+  };
+  const formatStability = (stabilities: number[]) => {
+    const avg = mean(stabilities);
+    return avg === null ? 'N/A' : `${Math.round(avg)}%`;
+  };
+
   // Calculate competitor statistics
-  const competitorStats = new Map<string, { mentioned: number; totalKeywords: number; positions: number[] }>();
+  const competitorStats = new Map<string, {
+    mentioned: number;
+    totalKeywords: number;
+    positions: number[];
+    mentionRates: number[];
+    stabilities: number[];
+    sentiments: number[];
+  }>();
   
   results.forEach(result => {
     result.competitors.forEach(comp => {
       if (!competitorStats.has(comp.name)) {
-        competitorStats.set(comp.name, { mentioned: 0, totalKeywords: 0, positions: [] });
+        competitorStats.set(comp.name, { mentioned: 0, totalKeywords: 0, positions: [], mentionRates: [], stabilities: [], sentiments: [] });
       }
       const stats = competitorStats.get(comp.name)!;
       stats.totalKeywords++;
+      stats.mentionRates.push(mentionRateOf(comp.stats, comp.mentioned));
+      if (comp.stats && comp.stats.sampleCount > 1) {
+        stats.stabilities.push(comp.stats.stability);
+      }
       if (comp.mentioned) {
         stats.mentioned++;
         if (comp.position) {
           stats.positions.push(comp.position);
         }
+        if (comp.sentiment) {
+          stats.sentiments.push(comp.sentiment.score);
+        }
       }
     });
   });
@@ -55,11 +104,17 @@ export const CompetitorTable: React.FC<CompetitorTableProps> = ({
     <div className="space-y-6">
       {/* Competitor Performance Summary */}
       <Card className="card-gradient">
-        <CardHeader>
-          <CardTitle>Competitor Performance Summary</CardTitle>
-          <CardDescription>
-            Overall performance comparison across all tracked keywords
-          </CardDescription>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Competitor Performance Summary</CardTitle>
+            <CardDescription>
+              Overall performance comparison across all tracked keywords
+            </CardDescription>
+          </div>
+          <ExportMenu
+            fileName={`${brandName} competitor results`}
+            getTable={() => resultExportTable(results, brandName, exportContext)}
+          />
         </CardHeader>
         <CardContent>
           <Table>
@@ -70,6 +125,9 @@ export const CompetitorTable: React.FC<CompetitorTableProps> = ({
                 <TableHead>Coverage %</TableHead>
                 <TableHead>Avg Position</TableHead>
                 <TableHead>Best Position</TableHead>
+                <TableHead>Sentiment</TableHead>
+                {isSampled && <TableHead>Mention Rate</TableHead>}
+                {isSampled && <TableHead>Stability</TableHead>}
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -98,6 +156,17 @@ export const CompetitorTable: React.FC<CompetitorTableProps> = ({
                     return positions.length > 0 ? Math.min(...positions) : 'N/A';
                   })()}
                 </TableCell>
+                <TableCell>
+                  <AverageSentiment scores={results.filter(r => r.brandMentioned && r.sentiment).map(r => r.sentiment!.score)} />
+                </TableCell>
+                {isSampled && (
+                  <TableCell>{formatRate(results.map(r => mentionRateOf(r.stats, r.brandMentioned)))}</TableCell>
+                )}
+                {isSampled && (
+                  <TableCell>
+                    {formatStability(results.filter(r => r.stats && r.stats.sampleCount > 1).map(r => r.stats!.stability))}
+                  </TableCell>
+                )}
               </TableRow>
               
               {/* Competitor rows */}
@@ -122,6 +191,11 @@ export const CompetitorTable: React.FC<CompetitorTableProps> = ({
                     <TableCell>
                       {stats.positions.length > 0 ? Math.min(...stats.positions) : 'N/A'}
                     </TableCell>
+                    <TableCell>
+                      <AverageSentiment scores={stats.sentiments} />
+                    </TableCell>
+                    {isSampled && <TableCell>{formatRate(stats.mentionRates)}</TableCell>}
+                    {isSampled && <TableCell>{formatStability(stats.stabilities)}</TableCell>}
                   </TableRow>
                 ))}
             </TableBody>
@@ -139,14 +213,15 @@ export const CompetitorTable: React.FC<CompetitorTableProps> = ({
         </CardHeader>
         <CardContent className="space-y-3">
           {results.map((result) => {
-            const isExpanded = expandedRows.has(result.keyword);
+            const rowKey = `${result.provider}:${result.keyword}`;
+            const isExpanded = expandedRows.has(rowKey);
             const mentionedCompetitors = result.competitors.filter(c => c.mentioned);
             
             return (
               <Collapsible 
-                key={result.keyword} 
+                key={rowKey} 
                 open={isExpanded} 
-                onOpenChange={() => toggleRow(result.keyword)}
+                onOpenChange={() => toggleRow(rowKey)}
               >
                 <div className="border rounded-lg overflow-hidden">
                   <CollapsibleTrigger asChild>
@@ -167,6 +242,10 @@ export const CompetitorTable: React.FC<CompetitorTableProps> = ({
                         </div>
                       </div>
                       <div className="flex items-center space-x-2">
+                        <Badge variant="secondary" className="text-xs">
+                          {getEngineLabel(result)}
+                        </Badge>
+                        <StabilityBadge stats={result.stats} />
                         <Badge variant="outline" className="text-xs">
                           {result.confidence}% confidence
                         </Badge>
@@ -187,6 +266,7 @@ export const CompetitorTable: React.FC<CompetitorTableProps> = ({
                             <TableHead>Brand</TableHead>
                             <TableHead>Status</TableHead>
                             <TableHead>Position</TableHead>
+                            <TableHead>Sentiment</TableHead>
                             <TableHead>Context</TableHead>
                             <TableHead>Actions</TableHead>
                           </TableRow>
@@ -202,11 +282,13 @@ export const CompetitorTable: React.FC<CompetitorTableProps> = ({
                                 <div className="flex items-center space-x-1">
                                   <CheckCircle className="h-4 w-4 text-green-500" />
                                   <span className="text-green-600">Mentioned</span>
+                                  {renderRunCount(result.stats)}
                                 </div>
                               ) : (
                                 <div className="flex items-center space-x-1">
                                   <XCircle className="h-4 w-4 text-red-500" />
                                   <span className="text-red-600">Not found</span>
+                                  {renderRunCount(result.stats)}
                                 </div>
                               )}
                             </TableCell>
@@ -217,6 +299,9 @@ export const CompetitorTable: React.FC<CompetitorTableProps> = ({
                                 'N/A'
                               )}
                             </TableCell>
+                            <TableCell>
+                              <SentimentBadge sentiment={result.brandMentioned ? result.sentiment : null} />
+                            </TableCell>
                             <TableCell className="max-w-xs">
                               <div className="text-sm text-muted-foreground truncate">
                                 {result.context || 'No context available'}
@@ -227,7 +312,7 @@ export const CompetitorTable: React.FC<CompetitorTableProps> = ({
                                 <Button
                                   variant="outline"
                                   size="sm"
-                                  onClick={() => onViewContext(brandName, result.keyword, result.context)}
+                                  onClick={() => onViewContext(brandName, result, result.context)}
                                 >
                                   <Eye className="h-3 w-3 mr-1" />
                                   View
@@ -247,11 +332,13 @@ export const CompetitorTable: React.FC<CompetitorTableProps> = ({
                                   <div className="flex items-center space-x-1">
                                     <CheckCircle className="h-4 w-4 text-orange-500" />
                                     <span className="text-orange-600">Mentioned</span>
+                                    {renderRunCount(competitor.stats)}
                                   </div>
                                 ) : (
                                   <div className="flex items-center space-x-1">
                                     <XCircle className="h-4 w-4 text-gray-400" />
                                     <span className="text-gray-500">Not found</span>
+                                    {renderRunCount(competitor.stats)}
                                   </div>
                                 )}
                               </TableCell>
@@ -262,6 +349,9 @@ export const CompetitorTable: React.FC<CompetitorTableProps> = ({
                                   'N/A'
                                 )}
                               </TableCell>
+                              <TableCell>
+                                <SentimentBadge sentiment={competitor.mentioned ? competitor.sentiment : null} />
+                              </TableCell>
                               <TableCell className="max-w-xs">
                                 <div className="text-sm text-muted-foreground truncate">
                                   {competitor.context || 'No context available'}
@@ -272,7 +362,7 @@ export const CompetitorTable: React.FC<CompetitorTableProps> = ({
                                   <Button
                                     variant="outline"
                                     size="sm"
-                                    onClick={() => onViewContext(competitor.name, result.keyword, competitor.context)}
+                                    onClick={() => onViewContext(competitor.name, result, competitor.context)}
                                   >
                                     <Eye className="h-3 w-3 mr-1" />
                                     View
@@ -3,6 +3,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { NotificationBell } from '@/components/NotificationBell';
 import { LogOut, User, Settings, BarChart3, Target, FileText, Crown, CreditCard } from 'lucide-react';
 import { Navigate, useNavigate, useLocation } from 'react-router-dom';
 
@@ -68,6 +69,8 @@ export const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) =>
                 {profile.plan?.toUpperCase() || 'TRIAL'}
               </Badge>
             )}
+
+            <NotificationBell userId={user.id} />
             
             <div className="flex items-center space-x-2">
               <div className="flex items-center space-x-2">
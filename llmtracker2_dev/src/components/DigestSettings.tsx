@@ -0,0 +1,284 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+import { DIGEST_FREQUENCIES, DigestFrequency, MAX_DIGEST_RECIPIENTS, parseRecipients } from '@/lib/digest';
+import { computeNextRun } from '@/lib/schedules';
+import { Loader2, Mail, Plus, Send, Trash2 } from 'lucide-react';
+
+type DigestSubscription = Tables<'digest_subscriptions'>;
+
+const ALL_PROJECTS = 'all';
+
+export const DigestSettings: React.FC = () => {
+  const { user } = useAuth();
+  const [digests, setDigests] = useState<DigestSubscription[]>([]);
+  const [projects, setProjects] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [sendingId, setSendingId] = useState<string | null>(null);
+  const [scope, setScope] = useState(ALL_PROJECTS);
+  const [frequency, setFrequency] = useState<DigestFrequency>('weekly');
+  const [recipients, setRecipients] = useState('');
+
+  const fetchDigests = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      const [digestsResult, projectsResult] = await Promise.all([
+        supabase.from('digest_subscriptions').select('*').eq('user_id', user.id).order('created_at', { ascending: true }),
+        supabase.from('projects').select('id, name').eq('user_id', user.id).order('name', { ascending: true }),
+      ]);
+      if (digestsResult.error) throw digestsResult.error;
+      if (projectsResult.error) throw projectsResult.error;
+      setDigests(digestsResult.data || []);
+      setProjects(projectsResult.data || []);
+    } catch (error) {
+      console.error('Error fetching digests:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchDigests();
+  }, [fetchDigests]);
+
+  const projectName = (projectId: string | null) =>
+    projectId ? projects.find(p => p.id === projectId)?.name || 'Deleted project' : 'All projects';
+
+  const handleAdd = async () => {
+    if (!user) return;
+
+    const { valid, invalid } = parseRecipients(recipients);
+    if (invalid.length > 0 || valid.length > MAX_DIGEST_RECIPIENTS) {
+      toast({
+        title: "Invalid recipients",
+        description: invalid.length > 0
+          ? `Not an email address: ${invalid.join(', ')}`
+          : `A digest can have at most ${MAX_DIGEST_RECIPIENTS} extra recipients.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const projectId = scope === ALL_PROJECTS ? null : scope;
+    if (digests.some(d => d.project_id === projectId)) {
+      toast({
+        title: "Digest already exists",
+        description: `${projectName(projectId)} already has a digest. Remove it first to change its schedule.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from('digest_subscriptions')
+        .insert({
+          user_id: user.id,
+          project_id: projectId,
+          frequency,
+          recipients: valid,
+          next_send_at: computeNextRun(frequency).toISOString(),
+        })
+        .select('*')
+        .single();
+      if (error) throw error;
+
+      setDigests(prev => [...prev, data]);
+      setRecipients('');
+      toast({
+        title: "Digest scheduled",
+        description: `The first ${DIGEST_FREQUENCIES[frequency].label.toLowerCase()} digest goes out ${new Date(data.next_send_at).toLocaleString()}.`,
+      });
+    } catch (error) {
+      console.error('Error creating digest:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to schedule digest",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (digest: DigestSubscription, isActive: boolean) => {
+    try {
+      // Resuming starts from the next regular slot rather than catching up on missed ones
+      const update = isActive
+        ? { is_active: true, next_send_at: computeNextRun(digest.frequency as DigestFrequency).toISOString(), failure_count: 0 }
+        : { is_active: false };
+      const { error } = await supabase.from('digest_subscriptions').update(update).eq('id', digest.id);
+      if (error) throw error;
+      setDigests(prev => prev.map(d => (d.id === digest.id ? { ...d, ...update } : d)));
+    } catch (error) {
+      console.error('Error updating digest:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update digest",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (digest: DigestSubscription) => {
+    try {
+      const { error } = await supabase.from('digest_subscriptions').delete().eq('id', digest.id);
+      if (error) throw error;
+      setDigests(prev => prev.filter(d => d.id !== digest.id));
+    } catch (error) {
+      console.error('Error deleting digest:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove digest",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSendNow = async (digest: DigestSubscription) => {
+    setSendingId(digest.id);
+    try {
+      const { error } = await supabase.functions.invoke('send-digests', {
+        body: { digestId: digest.id }
+      });
+      if (error) {
+        // Manual sends are rate limited; the function answers 429 with the time the next one is allowed
+        const details = await error.context?.json?.().catch(() => null);
+        if (details?.retryAfter) {
+          throw new Error(`${details.error}. Try again after ${new Date(details.retryAfter).toLocaleTimeString()}.`);
+        }
+        throw new Error(details?.error || error.message);
+      }
+
+      const sentAt = new Date().toISOString();
+      setDigests(prev => prev.map(d => (d.id === digest.id ? { ...d, last_sent_at: sentAt, last_error: null } : d)));
+      toast({
+        title: "Digest sent",
+        description: `${projectName(digest.project_id)} digest sent to ${1 + digest.recipients.length} recipient(s).`,
+      });
+    } catch (error) {
+      console.error('Error sending digest:', error);
+      toast({
+        title: "Send failed",
+        description: error instanceof Error ? error.message : "Failed to send digest",
+        variant: "destructive",
+      });
+    } finally {
+      setSendingId(null);
+    }
+  };
+
+  return (
+    <Card className="card-gradient">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="h-5 w-5" />
+          Email Digests
+        </CardTitle>
+        <CardDescription>
+          A summary of visibility changes, top movers, new competitors and recent reports, sent to {user?.email || 'your account email'} and any extra recipients
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-[1fr_1fr_2fr_auto] md:items-end">
+          <div className="space-y-2">
+            <Label>Projects</Label>
+            <Select value={scope} onValueChange={setScope}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_PROJECTS}>All projects</SelectItem>
+                {projects.map(project => (
+                  <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Frequency</Label>
+            <Select value={frequency} onValueChange={value => setFrequency(value as DigestFrequency)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DIGEST_FREQUENCIES) as DigestFrequency[]).map(value => (
+                  <SelectItem key={value} value={value}>{DIGEST_FREQUENCIES[value].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="digest_recipients">Extra recipients</Label>
+            <Input
+              id="digest_recipients"
+              value={recipients}
+              onChange={(e) => setRecipients(e.target.value)}
+              placeholder="cmo@example.com, agency@example.com"
+            />
+          </div>
+          <Button onClick={handleAdd} disabled={saving || loading}>
+            {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Add Digest
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="animate-pulse text-sm text-muted-foreground text-center py-4">Loading digests...</div>
+        ) : digests.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No digests scheduled yet.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {digests.map(digest => (
+              <div key={digest.id} className="flex flex-wrap items-center justify-between gap-4 p-3 rounded-md border">
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-medium">{projectName(digest.project_id)}</span>
+                    <Badge variant="secondary">
+                      {DIGEST_FREQUENCIES[digest.frequency as DigestFrequency]?.label || digest.frequency}
+                    </Badge>
+                    {digest.last_error && <Badge variant="destructive">Last send failed</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {digest.is_active ? `Next: ${new Date(digest.next_send_at).toLocaleString()}` : 'Paused'}
+                    {digest.last_sent_at && ` · Last sent: ${new Date(digest.last_sent_at).toLocaleString()}`}
+                    {digest.recipients.length > 0 && ` · Also to ${digest.recipients.join(', ')}`}
+                  </p>
+                  {digest.last_error && <p className="text-xs text-destructive">{digest.last_error}</p>}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={digest.is_active}
+                    onCheckedChange={(checked) => handleToggle(digest, checked)}
+                    aria-label="Digest active"
+                  />
+                  <Button variant="outline" size="sm" onClick={() => handleSendNow(digest)} disabled={sendingId === digest.id}>
+                    {sendingId === digest.id ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Send className="h-4 w-4 mr-1" />}
+                    Send now
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(digest)} aria-label="Remove digest">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,138 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { EngineConfig, PROVIDERS, PROVIDER_IDS, ProviderId } from '@/lib/providers';
+import { SAMPLE_COUNT_OPTIONS } from '@/lib/statistics';
+import { Cpu, Save } from 'lucide-react';
+
+interface EngineSettingsProps {
+  engines: EngineConfig[];
+  onEnginesChange: (engines: EngineConfig[]) => void;
+  sampleCount: number;
+  onSampleCountChange: (sampleCount: number) => void;
+  onSave: () => void;
+  saving?: boolean;
+}
+
+export const EngineSettings: React.FC<EngineSettingsProps> = ({
+  engines,
+  onEnginesChange,
+  sampleCount,
+  onSampleCountChange,
+  onSave,
+  saving = false,
+}) => {
+  const findEngine = (provider: ProviderId) => engines.find(e => e.provider === provider);
+
+  const toggleEngine = (provider: ProviderId, enabled: boolean) => {
+    if (enabled) {
+      onEnginesChange([...engines, { provider, model: PROVIDERS[provider].defaultModel }]);
+    } else {
+      onEnginesChange(engines.filter(e => e.provider !== provider));
+    }
+  };
+
+  const updateEngine = (provider: ProviderId, changes: Partial<EngineConfig>) => {
+    onEnginesChange(engines.map(e => (e.provider === provider ? { ...e, ...changes } : e)));
+  };
+
+  return (
+    <Card className="card-gradient">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Cpu className="h-5 w-5" />
+          <span>AI Engines</span>
+        </CardTitle>
+        <CardDescription>
+          Choose which assistants this project tracks brand visibility in
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {PROVIDER_IDS.map((provider) => {
+          const info = PROVIDERS[provider];
+          const engine = findEngine(provider);
+
+          return (
+            <div key={provider} className="space-y-3 p-3 rounded-md border">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id={`engine-${provider}`}
+                  checked={!!engine}
+                  onCheckedChange={(checked) => toggleEngine(provider, checked === true)}
+                />
+                <Label htmlFor={`engine-${provider}`}>{info.label}</Label>
+              </div>
+
+              {engine && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor={`engine-${provider}-model`} className="text-xs">Model</Label>
+                    <Input
+                      id={`engine-${provider}-model`}
+                      value={engine.model || ''}
+                      onChange={(e) => updateEngine(provider, { model: e.target.value })}
+                      placeholder={info.defaultModel}
+                    />
+                  </div>
+                  {info.requiresBaseUrl && (
+                    <div className="space-y-1">
+                      <Label htmlFor={`engine-${provider}-url`} className="text-xs">Base URL</Label>
+                      <Input
+                        id={`engine-${provider}-url`}
+                        value={engine.baseUrl || ''}
+                        onChange={(e) => updateEngine(provider, { baseUrl: e.target.value })}
+                        placeholder="http://localhost:11434/v1"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Must be one of the endpoints allowed on the server
+                      </p>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        <div className="space-y-1">
+          <Label htmlFor="sample-count">Samples per keyword</Label>
+          <Select value={String(sampleCount)} onValueChange={(value) => onSampleCountChange(Number(value))}>
+            <SelectTrigger id="sample-count" className="w-full md:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SAMPLE_COUNT_OPTIONS.map(count => (
+                <SelectItem key={count} value={String(count)}>
+                  {count === 1 ? '1 run (single answer)' : `${count} runs`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Each keyword is asked this many times per engine to measure how consistent the answers are
+          </p>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-muted-foreground">
+            Engines run with the API keys configured on the server
+          </p>
+          <Button onClick={onSave} disabled={saving || engines.length === 0} size="sm">
+            <Save className="mr-2 h-4 w-4" />
+            Save Engines
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
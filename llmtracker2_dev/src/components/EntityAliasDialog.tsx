@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { EMPTY_ALIASES, EntityAliases } from '@/lib/entityMatcher';
+import { sanitizeInput } from '@/lib/validation';
+
+interface EntityAliasDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entityName: string;
+  aliases?: EntityAliases;
+  onSave: (aliases: EntityAliases) => void;
+  loading?: boolean;
+}
+
+const FIELDS: { key: keyof EntityAliases; label: string; placeholder: string }[] = [
+  { key: 'aliases', label: 'Aliases', placeholder: 'HubSpot Inc, Hub Spot' },
+  { key: 'products', label: 'Product names', placeholder: 'HubSpot CRM, Marketing Hub' },
+  { key: 'domains', label: 'Domains', placeholder: 'hubspot.com' },
+  { key: 'misspellings', label: 'Common misspellings', placeholder: 'Hubspott, Hubsopt' },
+];
+
+const toText = (aliases: EntityAliases): Record<keyof EntityAliases, string> => ({
+  aliases: aliases.aliases.join(', '),
+  products: aliases.products.join(', '),
+  domains: aliases.domains.join(', '),
+  misspellings: aliases.misspellings.join(', '),
+});
+
+const toList = (value: string) =>
+  Array.from(new Set(value.split(',').map(v => sanitizeInput(v)).filter(v => v.length > 0)));
+
+export const EntityAliasDialog: React.FC<EntityAliasDialogProps> = ({
+  open,
+  onOpenChange,
+  entityName,
+  aliases = EMPTY_ALIASES,
+  onSave,
+  loading = false,
+}) => {
+  const [formData, setFormData] = useState(toText(aliases));
+
+  useEffect(() => {
+    if (open) setFormData(toText(aliases));
+  }, [open, aliases]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({
+      aliases: toList(formData.aliases),
+      products: toList(formData.products),
+      domains: toList(formData.domains),
+      misspellings: toList(formData.misspellings),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Names for {entityName}</DialogTitle>
+          <DialogDescription>
+            Other ways AI answers refer to {entityName}. Matching ignores case and accents; typos only match when listed as misspellings.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {FIELDS.map(field => (
+            <div key={field.key} className="space-y-2">
+              <Label htmlFor={`alias-${field.key}`}>{field.label} (comma-separated)</Label>
+              <Input
+                id={`alias-${field.key}`}
+                value={formData[field.key]}
+                onChange={(e) => setFormData(prev => ({ ...prev, [field.key]: e.target.value }))}
+                placeholder={field.placeholder}
+              />
+            </div>
+          ))}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={loading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? 'Saving...' : 'Save Names'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
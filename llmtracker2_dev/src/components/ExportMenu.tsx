@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { toast } from '@/hooks/use-toast';
+import { EXPORT_FORMATS, ExportFormat, ExportTable, exportFileName, serializeExport } from '@/lib/dataExport';
+import { Download, Loader2 } from 'lucide-react';
+
+interface ExportMenuProps {
+  // File name stem; the date and extension are appended
+  fileName: string;
+  // Called on click so large tables (or fetches) only happen when someone exports
+  getTable: () => ExportTable | Promise<ExportTable>;
+  disabled?: boolean;
+}
+
+const downloadFile = (content: string | Uint8Array, fileName: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.style.display = 'none';
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+};
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ fileName, getTable, disabled }) => {
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(true);
+    try {
+      const table = await getTable();
+      const name = exportFileName(fileName, format);
+      downloadFile(serializeExport(table, format), name, EXPORT_FORMATS[format].mimeType);
+
+      toast({
+        title: "Export ready",
+        description: `${table.rows.length} rows downloaded as ${name}`,
+      });
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      toast({
+        title: "Export Error",
+        description: error instanceof Error ? error.message : "Failed to export data.",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled || exporting}>
+          {exporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+          <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+            {EXPORT_FORMATS[format].label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
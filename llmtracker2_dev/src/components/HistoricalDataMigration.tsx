@@ -7,6 +7,11 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { CheckCircle, AlertCircle, Clock, Database } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { HistoricalTrackingService } from '@/lib/historicalTracking';
+import { buildSnapshots, SnapshotRow } from '@/lib/snapshotBuilder';
+import { buildEntities, canonicalizeResults, parseEntityAliases } from '@/lib/entityMatcher';
+import { resultFromApiResponse, resultsFromReportSummary } from '@/lib/reportResults';
+import { BrandAnalysisResult } from '@/lib/openai';
 
 interface MigrationStep {
   id: string;
@@ -15,6 +20,7 @@ interface MigrationStep {
   status: 'pending' | 'running' | 'completed' | 'error';
   progress: number;
   details?: string;
+  errors?: string[];
 }
 
 interface HistoricalDataMigrationProps {
@@ -22,6 +28,42 @@ interface HistoricalDataMigrationProps {
   onMigrationComplete?: () => void;
 }
 
+interface MigrationReport {
+  id: string;
+  status: string;
+  created_at: string;
+  completed_at: string | null;
+  results: unknown;
+}
+
+interface MigrationApiResponse {
+  id: string;
+  report_id: string;
+  keyword: string;
+  provider: string;
+  response_metadata: unknown;
+  created_at: string;
+}
+
+interface MigrationSource {
+  project: { brand_name: string; competitors: string[] | null; entity_aliases: unknown };
+  keywordIds: Map<string, string>;
+  reports: MigrationReport[];
+  apiResponses: MigrationApiResponse[];
+  // Summary-only reports that an earlier backfill already covered
+  migratedReportIds: Set<string>;
+}
+
+const PAGE_SIZE = 1000;
+const REPORT_CHUNK_SIZE = 100;
+const INSERT_BATCH_SIZE = 500;
+const MAX_LISTED_ERRORS = 3;
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+const chunk = <T,>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
 const HistoricalDataMigration = ({ projectId, onMigrationComplete }: HistoricalDataMigrationProps) => {
   const [migrationSteps, setMigrationSteps] = useState<MigrationStep[]>([
     {
@@ -48,14 +90,14 @@ const HistoricalDataMigration = ({ projectId, onMigrationComplete }: HistoricalD
     {
       id: 'calculate',
       name: 'Calculate Initial Trends',
-      description: 'Computing baseline trend metrics and analysis',
+      description: 'Computing baseline trend metrics for your brand and competitors',
       status: 'pending',
       progress: 0
     },
     {
       id: 'schedule',
       name: 'Setup Tracking Schedules',
-      description: 'Creating automated tracking schedules for keywords',
+      description: 'Creating a default weekly tracking schedule for the project',
       status: 'pending',
       progress: 0
     }
@@ -69,149 +111,236 @@ const HistoricalDataMigration = ({ projectId, onMigrationComplete }: HistoricalD
     schedulesCreated: number;
   } | null>(null);
 
-  const updateStepStatus = (stepId: string, status: MigrationStep['status'], progress: number, details?: string) => {
+  const updateStepStatus = (
+    stepId: string,
+    status: MigrationStep['status'],
+    progress: number,
+    details?: string,
+    errors?: string[]
+  ) => {
     setMigrationSteps(prev => prev.map(step => 
       step.id === stepId 
-        ? { ...step, status, progress, details }
+        ? { ...step, status, progress, details, errors }
         : step
     ));
   };
 
-  const analyzeExistingData = async () => {
+  const analyzeExistingData = async (): Promise<MigrationSource> => {
     updateStepStatus('analyze', 'running', 0);
     
     try {
-      // Get all reports for the project
+      const { data: project, error: projectError } = await supabase
+        .from('projects')
+        .select('brand_name, competitors, entity_aliases')
+        .eq('id', projectId)
+        .single();
+
+      if (projectError) throw projectError;
+
+      const { data: keywords, error: keywordsError } = await supabase
+        .from('keywords')
+        .select('id, keyword')
+        .eq('project_id', projectId);
+
+      if (keywordsError) throw keywordsError;
+
+      // Runs still in progress write their own snapshots
       const { data: reports, error: reportsError } = await supabase
         .from('reports')
-        .select('*')
-        .eq('project_id', projectId);
+        .select('id, status, created_at, completed_at, results')
+        .eq('project_id', projectId)
+        .not('status', 'in', '("pending","processing")')
+        .order('created_at', { ascending: true });
 
       if (reportsError) throw reportsError;
 
-      updateStepStatus('analyze', 'running', 50);
+      updateStepStatus('analyze', 'running', 25);
 
       // Get all API responses for these reports
-      const reportIds = reports?.map(r => r.id) || [];
-      const { data: apiResponses, error: apiError } = await supabase
-        .from('api_responses')
-        .select('*')
-        .in('report_id', reportIds);
+      const reportChunks = chunk((reports || []).map(r => r.id), REPORT_CHUNK_SIZE);
+      const apiResponses: MigrationApiResponse[] = [];
+      for (let i = 0; i < reportChunks.length; i++) {
+        for (let from = 0; ; from += PAGE_SIZE) {
+          const { data, error } = await supabase
+            .from('api_responses')
+            .select('id, report_id, keyword, provider, response_metadata, created_at')
+            .in('report_id', reportChunks[i])
+            .order('created_at', { ascending: true })
+            .order('id', { ascending: true })
+            .range(from, from + PAGE_SIZE - 1);
+
+          if (error) throw error;
+          apiResponses.push(...(data || []));
+          if (!data || data.length < PAGE_SIZE) break;
+        }
+        updateStepStatus('analyze', 'running', 25 + Math.round(((i + 1) / reportChunks.length) * 50));
+      }
 
-      if (apiError) throw apiError;
+      const withResponses = new Set(apiResponses.map(r => r.report_id));
+      const summaryOnly = (reports || []).filter(r => !withResponses.has(r.id)).map(r => r.id);
+      const migratedReportIds = new Set<string>();
+      for (const ids of chunk(summaryOnly, REPORT_CHUNK_SIZE)) {
+        const { data, error } = await supabase
+          .from('historical_snapshots')
+          .select('report_id')
+          .in('report_id', ids);
+
+        if (error) throw error;
+        (data || []).forEach(row => row.report_id && migratedReportIds.add(row.report_id));
+      }
 
       updateStepStatus('analyze', 'completed', 100, 
-        `Found ${reports?.length || 0} reports and ${apiResponses?.length || 0} API responses`);
-
-      return { reports: reports || [], apiResponses: apiResponses || [] };
+        `Found ${reports?.length || 0} reports and ${apiResponses.length} API responses`);
+
+      return {
+        project,
+        keywordIds: new Map((keywords || []).map(k => [k.keyword.trim().toLowerCase(), k.id])),
+        reports: reports || [],
+        apiResponses,
+        migratedReportIds
+      };
     } catch (error) {
-      updateStepStatus('analyze', 'error', 0, `Error: ${error.message}`);
+      updateStepStatus('analyze', 'error', 0, `Error: ${errorMessage(error)}`);
       throw error;
     }
   };
 
-  const transformDataStructure = async (reports: any[], apiResponses: any[]) => {
+  const transformDataStructure = async (source: MigrationSource) => {
     updateStepStatus('transform', 'running', 0);
 
     try {
-      const historicalSnapshots = [];
-      
+      const { project, keywordIds, reports, apiResponses, migratedReportIds } = source;
+      const entities = buildEntities(project.brand_name, project.competitors || [], parseEntityAliases(project.entity_aliases));
+      const historicalSnapshots: SnapshotRow[] = [];
+      const errors: string[] = [];
+      let alreadyMigrated = 0;
+
+      const toSnapshots = (result: BrandAnalysisResult, reportId: string, apiResponseId: string | null, snapshotDate: string) => {
+        const [canonical] = canonicalizeResults([result], entities.slice(1));
+        return buildSnapshots(canonical, {
+          projectId,
+          brandName: project.brand_name,
+          keywordId: keywordIds.get(result.keyword.trim().toLowerCase()) ?? null,
+          reportId,
+          apiResponseId,
+          dataSource: 'api_response',
+          snapshotDate
+        });
+      };
+
       for (let i = 0; i < reports.length; i++) {
         const report = reports[i];
         const reportApiResponses = apiResponses.filter(ar => ar.report_id === report.id);
-        
-        // Transform each API response into historical snapshots
-        for (const apiResponse of reportApiResponses) {
-          if (apiResponse.raw_response && typeof apiResponse.raw_response === 'object') {
-            const rawData = apiResponse.raw_response as any;
-            
-            // Extract competitor data from the response
-            if (rawData.competitors && Array.isArray(rawData.competitors)) {
-              rawData.competitors.forEach((competitor: any, index: number) => {
-                historicalSnapshots.push({
-                  project_id: projectId,
-                  keyword_id: `keyword_${apiResponse.keyword}_${report.id}`, // Generate keyword ID
-                  competitor_name: competitor.name || `Competitor ${index + 1}`,
-                  position: competitor.position || index + 1,
-                  mention_count: competitor.mentions || 0,
-                  sentiment_score: competitor.sentiment || 0.5,
-                  market_share: competitor.market_share || 0,
-                  snapshot_date: report.created_at,
-                  data_source: 'api_response' as const,
-                  metadata: {
-                    original_report_id: report.id,
-                    original_api_response_id: apiResponse.id,
-                    keyword: apiResponse.keyword,
-                    provider: apiResponse.provider
-                  }
-                });
-              });
+
+        try {
+          if (reportApiResponses.length > 0) {
+            // Each stored answer carries the full brand and competitor outcome
+            for (const apiResponse of reportApiResponses) {
+              const result = resultFromApiResponse({ ...apiResponse, raw_response: null });
+              historicalSnapshots.push(...toSnapshots(result, report.id, apiResponse.id, apiResponse.created_at));
             }
+          } else if (migratedReportIds.has(report.id)) {
+            alreadyMigrated++;
+          } else {
+            const results = resultsFromReportSummary(report.results);
+            if (results.length === 0) {
+              errors.push(`Report from ${new Date(report.created_at).toLocaleDateString()} has no stored keyword results`);
+            }
+            results.forEach(result => {
+              historicalSnapshots.push(...toSnapshots(result, report.id, null, report.completed_at || report.created_at));
+            });
           }
+        } catch (error) {
+          errors.push(`Report from ${new Date(report.created_at).toLocaleDateString()}: ${errorMessage(error)}`);
         }
 
         updateStepStatus('transform', 'running', Math.round(((i + 1) / reports.length) * 100));
       }
 
       updateStepStatus('transform', 'completed', 100, 
-        `Transformed ${historicalSnapshots.length} data points`);
+        `Transformed ${historicalSnapshots.length} data points` +
+          (alreadyMigrated > 0 ? `, ${alreadyMigrated} reports already migrated` : ''),
+        errors);
 
       return historicalSnapshots;
     } catch (error) {
-      updateStepStatus('transform', 'error', 0, `Error: ${error.message}`);
+      updateStepStatus('transform', 'error', 0, `Error: ${errorMessage(error)}`);
       throw error;
     }
   };
 
-  const migrateHistoricalData = async (snapshots: any[]) => {
+  const migrateHistoricalData = async (snapshots: SnapshotRow[]) => {
     updateStepStatus('migrate', 'running', 0);
 
     try {
-      // Note: In a real implementation, you would insert into the historical_snapshots table
-      // Since this is a demo, we'll simulate the migration
-      
+      const errors: string[] = [];
       let processedCount = 0;
-      const batchSize = 100;
-      
-      for (let i = 0; i < snapshots.length; i += batchSize) {
-        const batch = snapshots.slice(i, i + batchSize);
-        
-        // Simulate API call delay
-        await new Promise(resolve => setTimeout(resolve, 500));
-        
+      let createdCount = 0;
+      let failedCount = 0;
+
+      for (const batch of chunk(snapshots, INSERT_BATCH_SIZE)) {
+        try {
+          createdCount += await HistoricalTrackingService.saveSnapshots(batch);
+        } catch (error) {
+          failedCount += batch.length;
+          errors.push(`${batch.length} snapshots could not be saved: ${errorMessage(error)}`);
+        }
+
         processedCount += batch.length;
         updateStepStatus('migrate', 'running', 
           Math.round((processedCount / snapshots.length) * 100));
       }
 
-      updateStepStatus('migrate', 'completed', 100, 
-        `Migrated ${snapshots.length} historical snapshots`);
+      // Answers migrated by an earlier run, or written by the tracking run itself, are left as they are
+      const alreadyPresent = snapshots.length - createdCount - failedCount;
+      updateStepStatus('migrate', failedCount > 0 && createdCount === 0 ? 'error' : 'completed', 100, 
+        `Migrated ${createdCount} historical snapshots` + (alreadyPresent > 0 ? `, ${alreadyPresent} already present` : ''),
+        errors);
 
-      return snapshots.length;
+      return createdCount;
     } catch (error) {
-      updateStepStatus('migrate', 'error', 0, `Error: ${error.message}`);
+      updateStepStatus('migrate', 'error', 0, `Error: ${errorMessage(error)}`);
       throw error;
     }
   };
-
-  const calculateInitialTrends = async (snapshotCount: number) => {
+  const calculateInitialTrends = async (source: MigrationSource) => {
     updateStepStatus('calculate', 'running', 0);
 
     try {
-      // Simulate trend calculations
-      const trendCalculations = Math.floor(snapshotCount / 10); // Approximate trends to calculate
-      
-      for (let i = 0; i < 5; i++) {
-        await new Promise(resolve => setTimeout(resolve, 300));
-        updateStepStatus('calculate', 'running', (i + 1) * 20);
+      const names = [source.project.brand_name, ...(source.project.competitors || [])];
+
+      // Baselines are only computed once; later trends come from the scheduled runs
+      const { data: existing, error } = await supabase
+        .from('trend_calculations')
+        .select('competitor_name')
+        .eq('project_id', projectId)
+        .is('keyword_id', null);
+
+      if (error) throw error;
+
+      const calculated = new Set((existing || []).map(t => t.competitor_name));
+      const pending = names.filter(name => !calculated.has(name));
+      const errors: string[] = [];
+      let trendCalculations = 0;
+
+      for (let i = 0; i < pending.length; i++) {
+        try {
+          const trends = await HistoricalTrackingService.calculateTrendMetrics(projectId, null, pending[i], '90d');
+          trendCalculations += trends.length;
+        } catch (error) {
+          errors.push(`${pending[i]}: ${errorMessage(error)}`);
+        }
+        updateStepStatus('calculate', 'running', Math.round(((i + 1) / pending.length) * 100));
       }
 
       updateStepStatus('calculate', 'completed', 100, 
-        `Calculated ${trendCalculations} trend metrics`);
+        `Calculated ${trendCalculations} trend metrics` +
+          (pending.length < names.length ? `, ${names.length - pending.length} brands already had baselines` : ''),
+        errors);
 
       return trendCalculations;
     } catch (error) {
-      updateStepStatus('calculate', 'error', 0, `Error: ${error.message}`);
+      updateStepStatus('calculate', 'error', 0, `Error: ${errorMessage(error)}`);
       throw error;
     }
   };
@@ -220,27 +349,28 @@ const HistoricalDataMigration = ({ projectId, onMigrationComplete }: HistoricalD
     updateStepStatus('schedule', 'running', 0);
 
     try {
-      // Get keywords for the project
-      const { data: keywords, error } = await supabase
-        .from('keywords')
-        .select('*')
+      const { count, error } = await supabase
+        .from('tracking_schedules')
+        .select('id', { count: 'exact', head: true })
         .eq('project_id', projectId);
 
       if (error) throw error;
 
-      const schedulesCreated = keywords?.length || 0;
-
       updateStepStatus('schedule', 'running', 50);
 
-      // Simulate schedule creation
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      if (count && count > 0) {
+        updateStepStatus('schedule', 'completed', 100, 
+          `Project already has ${count} tracking schedule${count === 1 ? '' : 's'}`);
+        return 0;
+      }
+
+      await HistoricalTrackingService.setupTrackingSchedule(projectId, null, 'weekly');
 
-      updateStepStatus('schedule', 'completed', 100, 
-        `Created ${schedulesCreated} tracking schedules`);
+      updateStepStatus('schedule', 'completed', 100, 'Created a weekly tracking schedule');
 
-      return schedulesCreated;
+      return 1;
     } catch (error) {
-      updateStepStatus('schedule', 'error', 0, `Error: ${error.message}`);
+      updateStepStatus('schedule', 'error', 0, `Error: ${errorMessage(error)}`);
       throw error;
     }
   };
@@ -250,14 +380,14 @@ const HistoricalDataMigration = ({ projectId, onMigrationComplete }: HistoricalD
     setMigrationResults(null);
 
     try {
-      const { reports, apiResponses } = await analyzeExistingData();
-      const snapshots = await transformDataStructure(reports, apiResponses);
+      const source = await analyzeExistingData();
+      const snapshots = await transformDataStructure(source);
       const snapshotsCreated = await migrateHistoricalData(snapshots);
-      const trendsCalculated = await calculateInitialTrends(snapshotsCreated);
+      const trendsCalculated = await calculateInitialTrends(source);
       const schedulesCreated = await setupTrackingSchedules();
 
       setMigrationResults({
-        reportsProcessed: reports.length,
+        reportsProcessed: source.reports.length,
         snapshotsCreated,
         trendsCalculated,
         schedulesCreated
@@ -311,7 +441,7 @@ const HistoricalDataMigration = ({ projectId, onMigrationComplete }: HistoricalD
               <AlertCircle className="h-4 w-4" />
               <AlertDescription>
                 This migration will analyze your existing reports and transform them into the new historical tracking format. 
-                The process may take several minutes depending on the amount of data.
+                The process may take several minutes depending on the amount of data. Running it again only adds what is missing.
               </AlertDescription>
             </Alert>
           )}
@@ -331,6 +461,16 @@ const HistoricalDataMigration = ({ projectId, onMigrationComplete }: HistoricalD
                   {step.details && (
                     <p className="text-xs text-muted-foreground mt-1">{step.details}</p>
                   )}
+                  {step.errors && step.errors.length > 0 && (
+                    <ul className="text-xs text-red-600 mt-1 space-y-0.5">
+                      {step.errors.slice(0, MAX_LISTED_ERRORS).map((message, index) => (
+                        <li key={index}>{message}</li>
+                      ))}
+                      {step.errors.length > MAX_LISTED_ERRORS && (
+                        <li>and {step.errors.length - MAX_LISTED_ERRORS} more</li>
+                      )}
+                    </ul>
+                  )}
                   {step.status === 'running' && (
                     <Progress value={step.progress} className="mt-2" />
                   )}
@@ -378,10 +518,10 @@ const HistoricalDataMigration = ({ projectId, onMigrationComplete }: HistoricalD
           <div className="flex justify-end">
             <Button 
               onClick={startMigration} 
-              disabled={isMigrating || !!migrationResults}
+              disabled={isMigrating}
               size="lg"
             >
-              {isMigrating ? 'Migrating...' : migrationResults ? 'Migration Complete' : 'Start Migration'}
+              {isMigrating ? 'Migrating...' : migrationResults ? 'Run Again' : 'Start Migration'}
             </Button>
           </div>
         </CardContent>
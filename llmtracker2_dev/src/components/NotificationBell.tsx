@@ -0,0 +1,109 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { toast } from '@/hooks/use-toast';
+import { Notification, useNotifications } from '@/hooks/useNotifications';
+import { NOTIFICATION_TYPES, NotificationType } from '@/lib/notifications';
+import { Bell, CheckCheck } from 'lucide-react';
+
+interface NotificationBellProps {
+  userId: string;
+}
+
+export const NotificationBell: React.FC<NotificationBellProps> = ({ userId }) => {
+  const navigate = useNavigate();
+  const { notifications, unreadCount, isLoading, markRead, markAllRead } = useNotifications(userId);
+
+  const handleOpen = async (notification: Notification) => {
+    if (notification.link) navigate(notification.link);
+    if (notification.read_at) return;
+    try {
+      await markRead(notification.id);
+    } catch (error) {
+      console.error('Error marking notification read:', error);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllRead();
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+      toast({
+        title: "Error",
+        description: "Failed to mark notifications as read",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" aria-label="Notifications">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-medium text-destructive-foreground">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={handleMarkAllRead}>
+              <CheckCheck className="mr-1 h-3 w-3" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {isLoading ? (
+          <div className="animate-pulse text-sm text-muted-foreground text-center py-4">Loading notifications...</div>
+        ) : notifications.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No notifications yet.
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map(notification => (
+              <DropdownMenuItem
+                key={notification.id}
+                className="flex items-start gap-2 py-2 cursor-pointer"
+                onClick={() => handleOpen(notification)}
+              >
+                <span
+                  className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${notification.read_at ? 'bg-transparent' : 'bg-primary'}`}
+                />
+                <div className="min-w-0 space-y-1">
+                  <p className={`text-sm ${notification.read_at ? 'text-muted-foreground' : 'font-medium'}`}>
+                    {notification.title}
+                  </p>
+                  {notification.body && (
+                    <p className="text-xs text-muted-foreground line-clamp-2">{notification.body}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {NOTIFICATION_TYPES[notification.type as NotificationType]?.label || notification.type}
+                    {' · '}
+                    {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                  </p>
+                </div>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,264 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import TrendVisualization from '@/components/TrendVisualization';
+import HistoricalDataMigration from '@/components/HistoricalDataMigration';
+import { TrendStatistics } from '@/components/TrendStatistics';
+import { AnomalyList } from '@/components/AnomalyList';
+import { ExportMenu } from '@/components/ExportMenu';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { HistoricalTrackingService } from '@/lib/historicalTracking';
+import { REPORT_TYPES, isReportType } from '@/lib/reportResults';
+import { trendExportTable } from '@/lib/dataExport';
+import { CompetitorTrendData, TimeRange, TrendAnnotation, TrendMetric } from '@/types/historical';
+import { Database, LineChart as LineChartIcon } from 'lucide-react';
+
+interface ProjectTrendsProps {
+  projectId: string;
+  keywords: { id: string; keyword: string }[];
+  // Preselected keyword, e.g. when opened from a notification
+  initialKeywordId?: string | null;
+}
+
+const TIME_RANGES: { value: TimeRange; label: string }[] = [
+  { value: '7d', label: 'Last 7 days' },
+  { value: '30d', label: 'Last 30 days' },
+  { value: '90d', label: 'Last 90 days' },
+  { value: '1y', label: 'Last year' },
+];
+
+const METRICS: { value: TrendMetric; label: string }[] = [
+  { value: 'position', label: 'Position' },
+  { value: 'mentions', label: 'Mentions' },
+  { value: 'sentiment', label: 'Sentiment' },
+];
+
+const ALL_KEYWORDS = 'all';
+
+export const ProjectTrends: React.FC<ProjectTrendsProps> = ({ projectId, keywords, initialKeywordId }) => {
+  const [timeRange, setTimeRange] = useState<TimeRange>('30d');
+  const [metric, setMetric] = useState<TrendMetric>('position');
+  const [keywordId, setKeywordId] = useState<string>(initialKeywordId || ALL_KEYWORDS);
+  const [hiddenCompetitors, setHiddenCompetitors] = useState<Set<string>>(new Set());
+  const [trendData, setTrendData] = useState<CompetitorTrendData[]>([]);
+  const [annotations, setAnnotations] = useState<TrendAnnotation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showMigration, setShowMigration] = useState(false);
+
+  const fetchTrends = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [history, { data: reports, error: reportsError }] = await Promise.all([
+        HistoricalTrackingService.getHistoricalData(
+          projectId,
+          keywordId === ALL_KEYWORDS ? undefined : keywordId,
+          timeRange
+        ),
+        supabase
+          .from('reports')
+          .select('report_type, created_at, completed_at')
+          .eq('project_id', projectId)
+          .eq('status', 'completed')
+          .gte('created_at', HistoricalTrackingService.getRangeStart(timeRange).toISOString())
+          .order('created_at', { ascending: true }),
+      ]);
+
+      if (reportsError) throw reportsError;
+
+      // One marker per day, naming the report when only one ran
+      const byDay = new Map<string, string[]>();
+      (reports || []).forEach(report => {
+        const day = (report.completed_at || report.created_at).split('T')[0];
+        const label = isReportType(report.report_type) ? REPORT_TYPES[report.report_type].label : report.report_type;
+        byDay.set(day, [...(byDay.get(day) || []), label]);
+      });
+
+      setTrendData(history);
+      setAnnotations(Array.from(byDay.entries()).map(([date, labels]) => ({
+        date,
+        label: labels.length === 1 ? labels[0] : `${labels.length} reports`,
+      })));
+    } catch (error) {
+      console.error('Error fetching trends:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load trend data",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, keywordId, timeRange]);
+
+  useEffect(() => {
+    fetchTrends();
+  }, [fetchTrends]);
+
+  const toggleCompetitor = (name: string) => {
+    setHiddenCompetitors(prev => {
+      const next = new Set(prev);
+      if (next.has(name)) {
+        next.delete(name);
+      } else {
+        next.add(name);
+      }
+      return next;
+    });
+  };
+
+  const visibleData = trendData.filter(competitor => !hiddenCompetitors.has(competitor.competitor));
+  const isEmpty = !loading && trendData.length === 0;
+
+  return (
+    <div className="space-y-6">
+      <Card className="card-gradient">
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <LineChartIcon className="h-5 w-5" />
+                Trends
+              </CardTitle>
+              <CardDescription>
+                How your brand and competitors move across completed runs. Dashed lines mark report runs.
+              </CardDescription>
+            </div>
+            {!isEmpty && (
+              <div className="flex gap-2">
+                <ExportMenu
+                  fileName="trend history"
+                  disabled={loading}
+                  getTable={async () => trendExportTable(await HistoricalTrackingService.getSnapshotExport(
+                    projectId,
+                    keywordId === ALL_KEYWORDS ? undefined : keywordId,
+                    timeRange
+                  ))}
+                />
+                <Button variant="outline" size="sm" onClick={() => setShowMigration(!showMigration)}>
+                  <Database className="mr-2 h-4 w-4" />
+                  {showMigration ? 'Hide Import' : 'Import Past Reports'}
+                </Button>
+              </div>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Time Range</Label>
+              <Select value={timeRange} onValueChange={(value) => setTimeRange(value as TimeRange)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIME_RANGES.map(range => (
+                    <SelectItem key={range.value} value={range.value}>{range.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Metric</Label>
+              <Select value={metric} onValueChange={(value) => setMetric(value as TrendMetric)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {METRICS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Keyword</Label>
+              <Select value={keywordId} onValueChange={setKeywordId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_KEYWORDS}>All keywords</SelectItem>
+                  {keywords.map(keyword => (
+                    <SelectItem key={keyword.id} value={keyword.id}>{keyword.keyword}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {trendData.length > 0 && (
+            <div className="space-y-2">
+              <Label>Competitors</Label>
+              <div className="flex flex-wrap gap-2">
+                {trendData.map(competitor => (
+                  <Badge
+                    key={competitor.competitor}
+                    variant={hiddenCompetitors.has(competitor.competitor) ? 'outline' : competitor.isBrand ? 'default' : 'secondary'}
+                    className="cursor-pointer"
+                    onClick={() => toggleCompetitor(competitor.competitor)}
+                  >
+                    {competitor.competitor}{competitor.isBrand && ' (You)'}
+                  </Badge>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">Click a name to show or hide it.</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-pulse text-muted-foreground">Loading trends...</div>
+        </div>
+      ) : isEmpty ? (
+        <Card className="card-gradient">
+          <CardContent className="py-8 text-center text-sm text-muted-foreground">
+            {keywordId === ALL_KEYWORDS
+              ? 'No history in this time range yet. Generate reports or import your past reports below.'
+              : 'No history for this keyword in this time range.'}
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <TrendVisualization
+            data={visibleData}
+            timeRange={timeRange}
+            metric={metric}
+            annotations={annotations}
+          />
+          <TrendStatistics data={visibleData} />
+        </>
+      )}
+
+      {!loading && (
+        <AnomalyList
+          projectId={projectId}
+          timeRange={timeRange}
+          keywordId={keywordId === ALL_KEYWORDS ? undefined : keywordId}
+        />
+      )}
+
+      {(showMigration || (isEmpty && keywordId === ALL_KEYWORDS)) && (
+        <HistoricalDataMigration
+          projectId={projectId}
+          onMigrationComplete={() => {
+            // Keep the results on screen while the charts reload
+            setShowMigration(true);
+            fetchTrends();
+          }}
+        />
+      )}
+    </div>
+  );
+};
@@ -9,6 +9,8 @@ import {
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
 import { BrandAnalysisResult } from '@/lib/openai';
+import { getEngineLabel } from '@/lib/providers';
+import { SampleStatsGrid } from '@/components/SampleStats';
 
 interface RawResponseDialogProps {
   isOpen: boolean;
@@ -34,7 +36,7 @@ export const RawResponseDialog: React.FC<RawResponseDialogProps> = ({
             </Badge>
           </DialogTitle>
           <DialogDescription>
-            Complete ChatGPT analysis response for this keyword
+            Complete {getEngineLabel(result)} response for this keyword
           </DialogDescription>
         </DialogHeader>
         
@@ -53,18 +55,66 @@ export const RawResponseDialog: React.FC<RawResponseDialogProps> = ({
               {result.position && (
                 <div>
                   <h4 className="font-medium text-sm text-muted-foreground">Position</h4>
-                  <p className="font-semibold">#{result.position}</p>
+                  <p className="font-semibold">
+                    #{result.position}
+                    {result.rankSource && (
+                      <span className="ml-2 text-xs font-normal text-muted-foreground">from {result.rankSource === 'appearance' ? 'order of appearance' : `${result.rankSource} list`}</span>
+                    )}
+                  </p>
                 </div>
               )}
             </div>
 
+            <SampleStatsGrid stats={result.stats} />
+
+            {/* Prompt */}
+            {result.prompt && (
+              <div>
+                <h4 className="font-medium mb-2">Prompt</h4>
+                <div className="whitespace-pre-wrap text-sm bg-muted/50 border rounded-lg p-4">
+                  {result.prompt}
+                </div>
+              </div>
+            )}
+
+            {/* Citations */}
+            {result.citations && result.citations.length > 0 && (
+              <div>
+                <h4 className="font-medium mb-2">Cited Sources</h4>
+                <div className="flex flex-wrap gap-2">
+                  {result.citations.map((citation) => {
+                    const label = citation.domain || citation.name || citation.url;
+                    const key = citation.url || label;
+                    return citation.url ? (
+                      <a key={key} href={citation.url} target="_blank" rel="noopener noreferrer">
+                        <Badge variant="outline" className="hover:bg-muted">{label}</Badge>
+                      </a>
+                    ) : (
+                      <Badge key={key} variant="outline">{label}</Badge>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             {/* Raw Response */}
-            <div>
-              <h4 className="font-medium mb-2">Complete Analysis</h4>
-              <div className="whitespace-pre-wrap text-sm bg-background border rounded-lg p-4">
-                {result.rawResponse}
+            {result.sampleResponses && result.sampleResponses.length > 1 ? (
+              result.sampleResponses.map((response, index) => (
+                <div key={index}>
+                  <h4 className="font-medium mb-2">Run {index + 1} of {result.sampleResponses!.length}</h4>
+                  <div className="whitespace-pre-wrap text-sm bg-background border rounded-lg p-4">
+                    {response}
+                  </div>
+                </div>
+              ))
+            ) : (
+              <div>
+                <h4 className="font-medium mb-2">Complete Analysis</h4>
+                <div className="whitespace-pre-wrap text-sm bg-background border rounded-lg p-4">
+                  {result.rawResponse}
+                </div>
               </div>
-            </div>
+            )}
           </div>
         </ScrollArea>
       </DialogContent>
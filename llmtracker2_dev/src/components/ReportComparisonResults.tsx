@@ -0,0 +1,211 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { AnswerDiffDialog } from '@/components/AnswerDiffDialog';
+import { BrandAnalysisResult } from '@/lib/openai';
+import { buildEntities, canonicalizeResults, EntityAliasMap } from '@/lib/entityMatcher';
+import { compareReports, ComparedEntity, KeywordComparison, MentionChange } from '@/lib/reportComparison';
+import { ArrowDown, ArrowUp, GitCompare } from 'lucide-react';
+
+interface ReportComparisonResultsProps {
+  base: BrandAnalysisResult[];
+  target: BrandAnalysisResult[];
+  baseLabel: string;
+  targetLabel: string;
+  brandName: string;
+  competitors?: string[];
+  aliases?: EntityAliasMap;
+}
+
+const changeBadge: Record<MentionChange, { label: string; className: string }> = {
+  gained: { label: 'Gained', className: 'bg-green-100 text-green-800 hover:bg-green-100' },
+  lost: { label: 'Lost', className: 'bg-red-100 text-red-800 hover:bg-red-100' },
+  kept: { label: 'Mentioned', className: 'bg-blue-100 text-blue-800 hover:bg-blue-100' },
+  absent: { label: 'Not mentioned', className: 'bg-gray-100 text-gray-800 hover:bg-gray-100' },
+  new: { label: 'New keyword', className: 'bg-purple-100 text-purple-800 hover:bg-purple-100' },
+  dropped: { label: 'Not re-run', className: 'bg-gray-100 text-gray-500 hover:bg-gray-100' },
+};
+
+const formatOutcome = (entity: ComparedEntity | null) => {
+  if (!entity) return '—';
+  if (!entity.mentioned) return 'Not mentioned';
+  return entity.position !== null ? `#${entity.position}` : 'Mentioned';
+};
+
+// Gained and lost mentions first, then the largest rank moves
+const changeOrder: Record<MentionChange, number> = { gained: 0, lost: 0, kept: 1, absent: 2, new: 3, dropped: 3 };
+
+const isChanged = (row: KeywordComparison) =>
+  (row.change !== 'kept' && row.change !== 'absent') || (row.positionDelta ?? 0) !== 0 ||
+  row.competitorsAppeared.length > 0 || row.competitorsVanished.length > 0 || row.competitorMoves.length > 0;
+
+export const ReportComparisonResults: React.FC<ReportComparisonResultsProps> = ({
+  base: rawBase,
+  target: rawTarget,
+  baseLabel,
+  targetLabel,
+  brandName,
+  competitors = [],
+  aliases,
+}) => {
+  const [showUnchanged, setShowUnchanged] = React.useState(false);
+  const [diffRow, setDiffRow] = React.useState<KeywordComparison | null>(null);
+
+  const comparison = React.useMemo(() => {
+    const competitorEntities = buildEntities(brandName, competitors, aliases).slice(1);
+    return compareReports(canonicalizeResults(rawBase, competitorEntities), canonicalizeResults(rawTarget, competitorEntities));
+  }, [rawBase, rawTarget, brandName, competitors, aliases]);
+
+  const rows = comparison.keywords
+    .filter(row => showUnchanged || isChanged(row))
+    .sort((a, b) => changeOrder[a.change] - changeOrder[b.change] ||
+      Math.abs(b.positionDelta ?? 0) - Math.abs(a.positionDelta ?? 0));
+
+  const summaryCards = [
+    { label: 'Mentions gained', value: comparison.summary.gained, className: 'text-green-600' },
+    { label: 'Mentions lost', value: comparison.summary.lost, className: 'text-red-600' },
+    { label: 'Ranked higher', value: comparison.summary.improved, className: 'text-green-600' },
+    { label: 'Ranked lower', value: comparison.summary.declined, className: 'text-red-600' },
+  ];
+
+  return (
+    <>
+      <div className="grid gap-4 md:grid-cols-4">
+        {summaryCards.map(card => (
+          <Card key={card.label} className="card-gradient">
+            <CardContent className="p-6">
+              <p className="text-sm text-muted-foreground">{card.label}</p>
+              <p className={`text-3xl font-bold ${card.value > 0 ? card.className : ''}`}>{card.value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card className="card-gradient">
+        <CardHeader>
+          <CardTitle>Competitor Changes</CardTitle>
+          <CardDescription>Competitors mentioned in only one of the two runs</CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-2">
+          <div>
+            <p className="text-sm font-medium mb-2">Appeared</p>
+            <div className="flex flex-wrap gap-2">
+              {comparison.competitorsAppeared.length > 0
+                ? comparison.competitorsAppeared.map(name => (
+                  <Badge key={name} className="bg-orange-100 text-orange-800 hover:bg-orange-100">{name}</Badge>
+                ))
+                : <span className="text-sm text-muted-foreground">None</span>}
+            </div>
+          </div>
+          <div>
+            <p className="text-sm font-medium mb-2">Vanished</p>
+            <div className="flex flex-wrap gap-2">
+              {comparison.competitorsVanished.length > 0
+                ? comparison.competitorsVanished.map(name => <Badge key={name} variant="outline">{name}</Badge>)
+                : <span className="text-sm text-muted-foreground">None</span>}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="card-gradient">
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Keyword Changes</CardTitle>
+            <CardDescription>
+              {baseLabel} → {targetLabel}
+              {comparison.summary.newKeywords + comparison.summary.droppedKeywords > 0 &&
+                ` · ${comparison.summary.newKeywords} only in the later run, ${comparison.summary.droppedKeywords} only in the earlier run`}
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setShowUnchanged(!showUnchanged)}>
+            {showUnchanged ? 'Hide unchanged' : 'Show unchanged'}
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {rows.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              Nothing changed between these runs.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Keyword</TableHead>
+                  <TableHead>Engine</TableHead>
+                  <TableHead>Brand</TableHead>
+                  <TableHead>Before</TableHead>
+                  <TableHead>After</TableHead>
+                  <TableHead>Competitors</TableHead>
+                  <TableHead className="text-right">Answers</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow key={`${row.keyword}-${row.engine}`}>
+                    <TableCell className="font-medium">{row.keyword}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{row.engine}</TableCell>
+                    <TableCell>
+                      <Badge className={`text-xs ${changeBadge[row.change].className}`}>{changeBadge[row.change].label}</Badge>
+                    </TableCell>
+                    <TableCell>{formatOutcome(row.before)}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        {formatOutcome(row.after)}
+                        {row.positionDelta !== null && row.positionDelta > 0 && (
+                          <span className="flex items-center text-xs text-green-600">
+                            <ArrowUp className="h-3 w-3" />{row.positionDelta}
+                          </span>
+                        )}
+                        {row.positionDelta !== null && row.positionDelta < 0 && (
+                          <span className="flex items-center text-xs text-red-600">
+                            <ArrowDown className="h-3 w-3" />{-row.positionDelta}
+                          </span>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {row.competitorsAppeared.map(name => (
+                          <Badge key={`+${name}`} className="text-xs bg-orange-100 text-orange-800 hover:bg-orange-100">+ {name}</Badge>
+                        ))}
+                        {row.competitorsVanished.map(name => (
+                          <Badge key={`-${name}`} variant="outline" className="text-xs">− {name}</Badge>
+                        ))}
+                        {row.competitorMoves.map(move => (
+                          <Badge key={`~${move.name}`} variant="secondary" className="text-xs">
+                            {move.name} {move.delta > 0 ? `↑${move.delta}` : `↓${-move.delta}`}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {row.baseResult && row.targetResult && (
+                        <Button variant="ghost" size="sm" onClick={() => setDiffRow(row)}>
+                          <GitCompare className="h-4 w-4 mr-1" />
+                          Diff
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <AnswerDiffDialog
+        isOpen={!!diffRow}
+        onClose={() => setDiffRow(null)}
+        title={diffRow ? `${diffRow.keyword} · ${diffRow.engine}` : ''}
+        beforeLabel={baseLabel}
+        afterLabel={targetLabel}
+        before={diffRow?.baseResult?.rawResponse || ''}
+        after={diffRow?.targetResult?.rawResponse || ''}
+      />
+    </>
+  );
+};
@@ -0,0 +1,42 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { MentionStats } from '@/lib/statistics';
+
+const formatNumber = (value: number | null, prefix = '') =>
+  value === null ? 'N/A' : `${prefix}${Number.isInteger(value) ? value : value.toFixed(1)}`;
+
+const stabilityVariant = (stability: number): 'default' | 'secondary' | 'destructive' =>
+  stability >= 70 ? 'default' : stability >= 40 ? 'secondary' : 'destructive';
+
+export const StabilityBadge: React.FC<{ stats?: MentionStats }> = ({ stats }) => {
+  if (!stats || stats.sampleCount < 2) return null;
+
+  return (
+    <Badge variant={stabilityVariant(stats.stability)} className="text-xs">
+      {stats.stability}% stable
+    </Badge>
+  );
+};
+
+export const SampleStatsGrid: React.FC<{ stats?: MentionStats }> = ({ stats }) => {
+  if (!stats || stats.sampleCount < 2) return null;
+
+  const items = [
+    { label: 'Mention Rate', value: `${Math.round(stats.mentionRate * 100)}% (${stats.mentionCount}/${stats.sampleCount})` },
+    { label: 'Mean Position', value: formatNumber(stats.meanPosition, '#') },
+    { label: 'Median Position', value: formatNumber(stats.medianPosition, '#') },
+    { label: 'Std Deviation', value: formatNumber(stats.positionStdDev, '±') },
+    { label: 'Stability', value: `${stats.stability}%` },
+  ];
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-5 gap-3 p-3 bg-muted/50 rounded-md">
+      {items.map(item => (
+        <div key={item.label}>
+          <h4 className="text-xs font-medium text-muted-foreground">{item.label}</h4>
+          <p className="text-sm font-semibold">{item.value}</p>
+        </div>
+      ))}
+    </div>
+  );
+};
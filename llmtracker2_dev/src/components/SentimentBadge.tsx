@@ -0,0 +1,65 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { MentionSentiment, SENTIMENT_LABELS, SentimentLabel, sentimentLabel } from '@/lib/sentiment';
+import { mean } from '@/lib/statistics';
+
+const sentimentClass: Record<SentimentLabel, string> = {
+  positive: 'bg-green-100 text-green-800 hover:bg-green-100',
+  neutral: 'bg-gray-100 text-gray-800 hover:bg-gray-100',
+  negative: 'bg-red-100 text-red-800 hover:bg-red-100',
+};
+
+const formatScore = (score: number) => (score > 0 ? `+${score.toFixed(2)}` : score.toFixed(2));
+
+// Label and score, with the pros and cons the answer gave on hover
+export const SentimentBadge: React.FC<{ sentiment?: MentionSentiment | null }> = ({ sentiment }) => {
+  if (!sentiment) return <span className="text-muted-foreground">N/A</span>;
+
+  const badge = (
+    <Badge className={`text-xs ${sentimentClass[sentiment.label]}`}>
+      {SENTIMENT_LABELS[sentiment.label]} {formatScore(sentiment.score)}
+    </Badge>
+  );
+  if (sentiment.pros.length === 0 && sentiment.cons.length === 0) return badge;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span className="cursor-help">{badge}</span>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-sm space-y-2">
+        {sentiment.pros.length > 0 && (
+          <div>
+            <p className="text-xs font-medium text-green-700">Pros</p>
+            <ul className="text-xs list-disc pl-4">
+              {sentiment.pros.map(reason => <li key={reason}>{reason}</li>)}
+            </ul>
+          </div>
+        )}
+        {sentiment.cons.length > 0 && (
+          <div>
+            <p className="text-xs font-medium text-red-700">Cons</p>
+            <ul className="text-xs list-disc pl-4">
+              {sentiment.cons.map(reason => <li key={reason}>{reason}</li>)}
+            </ul>
+          </div>
+        )}
+      </TooltipContent>
+    </Tooltip>
+  );
+};
+
+// Average score over several mentions, for summary rows
+export const AverageSentiment: React.FC<{ scores: number[] }> = ({ scores }) => {
+  const average = mean(scores);
+  if (average === null) return <span className="text-muted-foreground">N/A</span>;
+
+  const label = sentimentLabel(average);
+
+  return (
+    <Badge className={`text-xs ${sentimentClass[label]}`}>
+      {SENTIMENT_LABELS[label]} {formatScore(average)}
+    </Badge>
+  );
+};
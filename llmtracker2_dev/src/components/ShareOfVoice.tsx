@@ -0,0 +1,285 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AreaChart, Area, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { HistoricalTrackingService } from '@/lib/historicalTracking';
+import {
+  computeShareOfVoice,
+  OTHER_COMPETITORS,
+  SHARE_PERIODS,
+  ShareBreakdown,
+  ShareObservation,
+  SharePeriod,
+  shareOfVoiceBy,
+  shareOfVoiceSeries,
+  topCompetitors,
+  UNGROUPED,
+  UNKNOWN_ENGINE,
+} from '@/lib/shareOfVoice';
+import { PROVIDERS, ProviderId } from '@/lib/providers';
+import { TimeRange } from '@/types/historical';
+import { PieChart as PieChartIcon } from 'lucide-react';
+
+interface ShareOfVoiceProps {
+  projectId: string;
+  // Rendered next to the title, e.g. the dashboard's project picker
+  actions?: React.ReactNode;
+}
+
+const ALL = 'all';
+const MAX_SERIES = 6;
+
+const colors = [
+  '#8884d8', '#82ca9d', '#ffc658', '#ff7c7c', '#8dd1e1',
+  '#d084d0', '#ffb347', '#87ceeb', '#deb887', '#f0e68c'
+];
+
+const formatPercent = (value: number) => `${Math.round(value * 1000) / 10}%`;
+
+const engineLabel = (provider: string) =>
+  provider === UNKNOWN_ENGINE ? 'Unknown engine' : PROVIDERS[provider as ProviderId]?.label || provider;
+
+const BreakdownTable = ({ title, breakdowns, label }: {
+  title: string;
+  breakdowns: ShareBreakdown[];
+  label: (key: string) => string;
+}) => (
+  <Table>
+    <TableHeader>
+      <TableRow>
+        <TableHead>{title}</TableHead>
+        <TableHead className="text-right">Your Share</TableHead>
+        <TableHead>Leader</TableHead>
+      </TableRow>
+    </TableHeader>
+    <TableBody>
+      {breakdowns.map(({ key, entries }) => {
+        const brand = entries.find(entry => entry.isBrand);
+        const leader = entries[0];
+        return (
+          <TableRow key={key}>
+            <TableCell className="font-medium">{label(key)}</TableCell>
+            <TableCell className="text-right">{brand ? formatPercent(brand.share) : '-'}</TableCell>
+            <TableCell className={leader?.isBrand ? 'text-primary' : undefined}>
+              {leader && leader.share > 0 ? `${leader.competitor} (${formatPercent(leader.share)})` : '-'}
+            </TableCell>
+          </TableRow>
+        );
+      })}
+    </TableBody>
+  </Table>
+);
+
+export const ShareOfVoice: React.FC<ShareOfVoiceProps> = ({ projectId, actions }) => {
+  const [observations, setObservations] = useState<ShareObservation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [timeRange, setTimeRange] = useState<TimeRange>('30d');
+  const [period, setPeriod] = useState<SharePeriod>('week');
+  const [engine, setEngine] = useState(ALL);
+  const [group, setGroup] = useState(ALL);
+
+  // Engines and groups differ between projects
+  useEffect(() => {
+    setEngine(ALL);
+    setGroup(ALL);
+  }, [projectId]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchObservations = async () => {
+      setLoading(true);
+      try {
+        const data = await HistoricalTrackingService.getShareOfVoiceData(projectId, timeRange);
+        if (!cancelled) setObservations(data);
+      } catch (error) {
+        console.error('Error fetching share of voice:', error);
+        if (!cancelled) setObservations([]);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchObservations();
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, timeRange]);
+
+  const engines = useMemo(
+    () => Array.from(new Set(observations.map(o => o.provider || UNKNOWN_ENGINE))).sort(),
+    [observations]
+  );
+  const groups = useMemo(
+    () => Array.from(new Set(observations.map(o => o.keywordGroup || UNGROUPED))).sort(),
+    [observations]
+  );
+
+  const view = useMemo(() => {
+    const filtered = observations.filter(o =>
+      (engine === ALL || (o.provider || UNKNOWN_ENGINE) === engine) &&
+      (group === ALL || (o.keywordGroup || UNGROUPED) === group)
+    );
+    const overall = computeShareOfVoice(filtered);
+    const competitors = topCompetitors(overall, MAX_SERIES);
+    const series = shareOfVoiceSeries(filtered, period, competitors);
+    const hasOther = series.some(row => Number(row[OTHER_COMPETITORS]) > 0);
+
+    const kept = new Set(competitors);
+    const otherShare = overall.filter(entry => !kept.has(entry.competitor)).reduce((acc, entry) => acc + entry.share, 0);
+    const pieData = [
+      ...overall.filter(entry => kept.has(entry.competitor)).map(entry => ({ name: entry.competitor, value: entry.share })),
+      ...(otherShare > 0 ? [{ name: OTHER_COMPETITORS, value: otherShare }] : []),
+    ];
+
+    return {
+      brand: overall.find(entry => entry.isBrand),
+      leader: overall[0],
+      series,
+      seriesNames: hasOther ? [...competitors, OTHER_COMPETITORS] : competitors,
+      pieData,
+      byEngine: shareOfVoiceBy(filtered, 'engine'),
+      byGroup: shareOfVoiceBy(filtered, 'keyword_group'),
+      total: overall.reduce((acc, entry) => acc + entry.voice, 0),
+    };
+  }, [observations, engine, group, period]);
+
+  return (
+    <Card className="card-gradient">
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <PieChartIcon className="h-5 w-5" />
+              Share of Voice
+            </CardTitle>
+            <CardDescription>
+              Each brand's portion of AI visibility. Mentions count more the higher they rank and the higher the keyword's priority.
+            </CardDescription>
+          </div>
+          {actions}
+        </div>
+        <div className="flex flex-wrap gap-2 pt-2">
+          <Select value={timeRange} onValueChange={(value) => setTimeRange(value as TimeRange)}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7d">Last 7 days</SelectItem>
+              <SelectItem value="30d">Last 30 days</SelectItem>
+              <SelectItem value="90d">Last 90 days</SelectItem>
+              <SelectItem value="1y">Last year</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={period} onValueChange={(value) => setPeriod(value as SharePeriod)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SHARE_PERIODS) as SharePeriod[]).map(key => (
+                <SelectItem key={key} value={key}>{SHARE_PERIODS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={engine} onValueChange={setEngine}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All engines</SelectItem>
+              {engines.map(key => (
+                <SelectItem key={key} value={key}>{engineLabel(key)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={group} onValueChange={setGroup}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All keyword groups</SelectItem>
+              {groups.map(key => (
+                <SelectItem key={key} value={key}>{key}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="h-64 bg-muted/50 rounded-lg animate-pulse" />
+        ) : view.total === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No tracked mentions in this range yet. Run a report to start measuring share of voice.
+          </p>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <p className="text-sm text-muted-foreground">Your share of voice</p>
+                <div className="text-3xl font-bold text-primary">
+                  {view.brand ? formatPercent(view.brand.share) : '0%'}
+                </div>
+              </div>
+              {view.leader && !view.leader.isBrand && (
+                <div>
+                  <p className="text-sm text-muted-foreground">Leader</p>
+                  <div className="text-3xl font-bold">
+                    {view.leader.competitor} <span className="text-lg font-normal">{formatPercent(view.leader.share)}</span>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="lg:col-span-2">
+                <ResponsiveContainer width="100%" height={300}>
+                  <AreaChart data={view.series}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="period" />
+                    <YAxis domain={[0, 100]} unit="%" />
+                    <Tooltip formatter={(value: number) => `${value}%`} />
+                    <Legend />
+                    {view.seriesNames.map((name, index) => (
+                      <Area
+                        key={name}
+                        type="monotone"
+                        dataKey={name}
+                        stackId="share"
+                        stroke={colors[index % colors.length]}
+                        fill={colors[index % colors.length]}
+                        fillOpacity={0.6}
+                      />
+                    ))}
+                  </AreaChart>
+                </ResponsiveContainer>
+              </div>
+              <ResponsiveContainer width="100%" height={300}>
+                <PieChart>
+                  <Pie data={view.pieData} dataKey="value" nameKey="name" outerRadius={100} label={({ value }) => formatPercent(value)}>
+                    {view.pieData.map((entry) => (
+                      <Cell key={entry.name} fill={colors[view.seriesNames.indexOf(entry.name) % colors.length]} />
+                    ))}
+                  </Pie>
+                  <Tooltip formatter={(value: number) => formatPercent(value)} />
+                </PieChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <BreakdownTable title="Engine" breakdowns={view.byEngine} label={engineLabel} />
+              <BreakdownTable title="Keyword Group" breakdowns={view.byGroup} label={key => key} />
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
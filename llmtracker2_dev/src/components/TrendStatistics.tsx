@@ -0,0 +1,84 @@
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CompetitorTrendData } from '@/types/historical';
+import { computeTrends, MIN_TREND_POINTS, TrendMetricType, TrendResult } from '@/lib/trendEngine';
+
+interface TrendStatisticsProps {
+  data: CompetitorTrendData[];
+}
+
+const COLUMNS: { metric: TrendMetricType; label: string; unit: string }[] = [
+  { metric: 'position_velocity', label: 'Position', unit: 'pos/wk' },
+  { metric: 'mention_trend', label: 'Mention Rate', unit: 'pp/wk' },
+  { metric: 'market_share_change', label: 'Share of Voice', unit: 'pp/wk' },
+  { metric: 'sentiment_trend', label: 'Sentiment', unit: '/wk' },
+];
+
+// Below this the slope is reported but not coloured as a real movement
+const SIGNIFICANT_CONFIDENCE = 0.95;
+
+const formatSigned = (value: number) => (value > 0 ? `+${value.toFixed(2)}` : value.toFixed(2));
+
+const TrendCell = ({ trend, unit }: { trend?: TrendResult; unit: string }) => {
+  if (!trend) return <span className="text-muted-foreground">Not enough data</span>;
+
+  const [lower, upper] = trend.rawData.interval95 as number[];
+  const significant = trend.confidence >= SIGNIFICANT_CONFIDENCE;
+
+  return (
+    <div>
+      <span className={!significant ? 'text-muted-foreground' : trend.value > 0 ? 'text-green-600' : 'text-red-600'}>
+        {formatSigned(trend.value)} {unit}
+      </span>
+      <p className="text-xs text-muted-foreground">
+        95% CI {formatSigned(lower)} to {formatSigned(upper)} · {Math.round(trend.confidence * 100)}% confidence
+      </p>
+    </div>
+  );
+};
+
+export const TrendStatistics: React.FC<TrendStatisticsProps> = ({ data }) => {
+  const rows = useMemo(() => data.map(competitor => ({
+    competitor,
+    trends: new Map(computeTrends(competitor.data).map(trend => [trend.metric, trend])),
+  })), [data]);
+
+  return (
+    <Card className="card-gradient">
+      <CardHeader>
+        <CardTitle>Trend Statistics</CardTitle>
+        <CardDescription>
+          Weekly slopes fitted over the selected range. Positive means improving for position and growing for the other metrics.
+          Each needs at least {MIN_TREND_POINTS} days of data; movements under {SIGNIFICANT_CONFIDENCE * 100}% confidence are greyed out.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Brand</TableHead>
+              {COLUMNS.map(column => (
+                <TableHead key={column.metric}>{column.label}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(({ competitor, trends }) => (
+              <TableRow key={competitor.competitor} className={competitor.isBrand ? 'bg-primary/5' : undefined}>
+                <TableCell className={competitor.isBrand ? 'font-medium text-primary' : 'font-medium'}>
+                  {competitor.competitor}{competitor.isBrand && ' (You)'}
+                </TableCell>
+                {COLUMNS.map(column => (
+                  <TableCell key={column.metric}>
+                    <TrendCell trend={trends.get(column.metric)} unit={column.unit} />
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
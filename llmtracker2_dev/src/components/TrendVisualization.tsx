@@ -1,27 +1,32 @@
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, AreaChart, Area } from 'recharts';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, AreaChart, Area, ReferenceLine } from 'recharts';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
-import { CompetitorTrendData, HistoricalDataPoint } from '@/types/historical';
+import { CompetitorTrendData, TimeRange, TrendAnnotation, TrendMetric } from '@/types/historical';
 
 interface TrendVisualizationProps {
   data: CompetitorTrendData[];
-  timeRange: '7d' | '30d' | '90d' | '1y';
-  metric: 'position' | 'mentions' | 'sentiment';
+  timeRange: TimeRange;
+  metric: TrendMetric;
+  annotations?: TrendAnnotation[];
 }
 
-const TrendVisualization = ({ data, timeRange, metric }: TrendVisualizationProps) => {
-  // Transform data for chart consumption
-  const chartData = data[0]?.data.map(point => {
-    const dataPoint: any = { date: point.date };
+const TrendVisualization = ({ data, timeRange, metric, annotations = [] }: TrendVisualizationProps) => {
+  // Transform data for chart consumption, one row per day any competitor has data
+  const dates = Array.from(new Set(data.flatMap(competitor => competitor.data.map(point => point.date)))).sort();
+  const chartData = dates.map(date => {
+    const dataPoint: Record<string, string | number | null> = { date };
     data.forEach(competitor => {
-      const competitorPoint = competitor.data.find(d => d.date === point.date);
+      const competitorPoint = competitor.data.find(d => d.date === date);
       if (competitorPoint) {
         dataPoint[competitor.competitor] = competitorPoint[metric];
       }
     });
     return dataPoint;
-  }) || [];
+  });
+
+  // Annotations can only sit on days the chart has a point for
+  const chartAnnotations = annotations.filter(annotation => dates.includes(annotation.date));
 
   const getMetricLabel = () => {
     switch (metric) {
@@ -58,7 +63,7 @@ const TrendVisualization = ({ data, timeRange, metric }: TrendVisualizationProps
               {getTrendIcon(competitor.trendDirection)}
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{competitor.currentPosition}</div>
+              <div className="text-2xl font-bold">{competitor.currentPosition ?? 'N/A'}</div>
               <p className="text-xs text-muted-foreground">
                 {competitor.positionChange > 0 ? '+' : ''}{competitor.positionChange} from last period
               </p>
@@ -98,21 +103,31 @@ const TrendVisualization = ({ data, timeRange, metric }: TrendVisualizationProps
               />
               <Tooltip 
                 labelFormatter={(value) => new Date(value).toLocaleDateString()}
-                formatter={(value: number) => [
-                  metric === 'sentiment' ? value.toFixed(2) : value,
+                formatter={(value: number | null) => [
+                  value === null ? 'N/A' : metric === 'sentiment' ? value.toFixed(2) : value,
                   getMetricLabel()
                 ]}
               />
               <Legend />
+              {chartAnnotations.map(annotation => (
+                <ReferenceLine
+                  key={`${annotation.date}-${annotation.label}`}
+                  x={annotation.date}
+                  stroke="#94a3b8"
+                  strokeDasharray="4 4"
+                  label={{ value: annotation.label, position: 'insideTopLeft', fontSize: 10, fill: '#64748b' }}
+                />
+              ))}
               {data.map((competitor, index) => (
                 <Line
                   key={competitor.competitor}
                   type="monotone"
                   dataKey={competitor.competitor}
                   stroke={colors[index % colors.length]}
-                  strokeWidth={2}
+                  strokeWidth={competitor.isBrand ? 3 : 2}
                   dot={{ r: 4 }}
                   activeDot={{ r: 6 }}
+                  connectNulls
                 />
               ))}
             </LineChart>
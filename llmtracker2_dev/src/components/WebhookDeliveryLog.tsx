@@ -0,0 +1,151 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { toast } from '@/hooks/use-toast';
+import { MAX_DELIVERY_ATTEMPTS, WEBHOOK_EVENTS, WebhookEventType } from '@/lib/webhooks';
+import { Loader2, RefreshCw, RotateCcw } from 'lucide-react';
+
+interface WebhookDeliveryLogProps {
+  // Endpoint URLs by id, for labelling deliveries
+  endpointUrls: Map<string, string>;
+}
+
+type WebhookDelivery = Pick<
+  Tables<'webhook_deliveries'>,
+  'id' | 'endpoint_id' | 'event_type' | 'status' | 'attempt_count' | 'response_status' | 'error' | 'next_attempt_at' | 'replay_of' | 'created_at'
+>;
+
+const MAX_DELIVERIES = 50;
+
+const statusVariant = (status: string) =>
+  status === 'succeeded' ? 'default' : status === 'failed' ? 'destructive' : 'secondary';
+
+export const WebhookDeliveryLog: React.FC<WebhookDeliveryLogProps> = ({ endpointUrls }) => {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+
+  const fetchDeliveries = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('webhook_deliveries')
+        .select('id, endpoint_id, event_type, status, attempt_count, response_status, error, next_attempt_at, replay_of, created_at')
+        .order('created_at', { ascending: false })
+        .limit(MAX_DELIVERIES);
+      if (error) throw error;
+      setDeliveries(data || []);
+    } catch (error) {
+      console.error('Error fetching webhook deliveries:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDeliveries();
+  }, [fetchDeliveries]);
+
+  const handleReplay = async (delivery: WebhookDelivery) => {
+    setReplayingId(delivery.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('deliver-webhooks', {
+        body: { deliveryId: delivery.id }
+      });
+      if (error) throw error;
+
+      toast({
+        title: data?.succeeded ? "Delivery replayed" : "Replay failed",
+        description: data?.succeeded
+          ? "The receiver accepted the event."
+          : "The receiver did not accept the event; it will be retried automatically.",
+        variant: data?.succeeded ? undefined : "destructive",
+      });
+      await fetchDeliveries();
+    } catch (error) {
+      console.error('Error replaying webhook delivery:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to replay delivery",
+        variant: "destructive",
+      });
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium">Recent Deliveries</h4>
+        <Button variant="ghost" size="sm" onClick={fetchDeliveries} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {loading && deliveries.length === 0 ? (
+        <div className="animate-pulse text-sm text-muted-foreground text-center py-4">Loading deliveries...</div>
+      ) : deliveries.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">
+          No deliveries yet. Events are sent when tracking runs finish.
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Event</TableHead>
+              <TableHead>Endpoint</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Response</TableHead>
+              <TableHead>Created</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {deliveries.map(delivery => (
+              <TableRow key={delivery.id}>
+                <TableCell className="font-medium">
+                  {WEBHOOK_EVENTS[delivery.event_type as WebhookEventType]?.label || delivery.event_type}
+                  {delivery.replay_of && <Badge variant="outline" className="ml-2">Replay</Badge>}
+                </TableCell>
+                <TableCell className="max-w-[200px] truncate text-muted-foreground">
+                  {endpointUrls.get(delivery.endpoint_id) || 'Removed endpoint'}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={statusVariant(delivery.status)}>{delivery.status}</Badge>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {delivery.attempt_count}/{MAX_DELIVERY_ATTEMPTS} attempts
+                    {delivery.status === 'pending' && delivery.next_attempt_at &&
+                      ` · retry ${new Date(delivery.next_attempt_at).toLocaleTimeString()}`}
+                  </p>
+                </TableCell>
+                <TableCell className="max-w-[220px]">
+                  {delivery.response_status && <span className="text-sm">HTTP {delivery.response_status}</span>}
+                  {delivery.error && <p className="text-xs text-destructive truncate" title={delivery.error}>{delivery.error}</p>}
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {new Date(delivery.created_at).toLocaleString()}
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleReplay(delivery)}
+                    disabled={replayingId === delivery.id || !endpointUrls.has(delivery.endpoint_id)}
+                  >
+                    {replayingId === delivery.id ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-1" />}
+                    Replay
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,284 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { WebhookDeliveryLog } from '@/components/WebhookDeliveryLog';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+import { isValidWebhookUrl, SIGNATURE_HEADER, WEBHOOK_EVENTS, WebhookEventType } from '@/lib/webhooks';
+import { Copy, Eye, EyeOff, Loader2, Plus, Trash2, Webhook } from 'lucide-react';
+
+type WebhookEndpoint = Tables<'webhook_endpoints'>;
+
+const EVENT_TYPES = Object.keys(WEBHOOK_EVENTS) as WebhookEventType[];
+
+export const WebhookSettings: React.FC = () => {
+  const { user } = useAuth();
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [projects, setProjects] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [revealedId, setRevealedId] = useState<string | null>(null);
+  const [projectId, setProjectId] = useState('');
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [events, setEvents] = useState<WebhookEventType[]>(EVENT_TYPES);
+
+  const fetchEndpoints = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      const [endpointsResult, projectsResult] = await Promise.all([
+        supabase.from('webhook_endpoints').select('*').order('created_at', { ascending: true }),
+        supabase.from('projects').select('id, name').eq('user_id', user.id).order('name', { ascending: true }),
+      ]);
+      if (endpointsResult.error) throw endpointsResult.error;
+      if (projectsResult.error) throw projectsResult.error;
+      setEndpoints(endpointsResult.data || []);
+      setProjects(projectsResult.data || []);
+    } catch (error) {
+      console.error('Error fetching webhook endpoints:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchEndpoints();
+  }, [fetchEndpoints]);
+
+  const endpointUrls = useMemo(() => new Map(endpoints.map(e => [e.id, e.url])), [endpoints]);
+  const selectedProjectId = projectId || projects[0]?.id || '';
+
+  const toggleEvent = (event: WebhookEventType, checked: boolean) => {
+    setEvents(prev => (checked ? [...prev, event] : prev.filter(e => e !== event)));
+  };
+
+  const handleAdd = async () => {
+    if (!isValidWebhookUrl(url.trim(), { allowLocalHttp: import.meta.env.DEV })) {
+      toast({
+        title: "Invalid URL",
+        description: "Webhook endpoints must be public https URLs.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (events.length === 0) {
+      toast({
+        title: "No events selected",
+        description: "Choose at least one event to send to this endpoint.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from('webhook_endpoints')
+        .insert({
+          project_id: selectedProjectId,
+          url: url.trim(),
+          description: description.trim() || null,
+          events,
+        })
+        .select('*')
+        .single();
+      if (error) throw error;
+
+      setEndpoints(prev => [...prev, data]);
+      setRevealedId(data.id);
+      setUrl('');
+      setDescription('');
+      toast({
+        title: "Webhook added",
+        description: "Copy the signing secret to verify deliveries on your receiver.",
+      });
+    } catch (error) {
+      console.error('Error creating webhook endpoint:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add webhook",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (endpoint: WebhookEndpoint, isActive: boolean) => {
+    try {
+      const { error } = await supabase.from('webhook_endpoints').update({ is_active: isActive }).eq('id', endpoint.id);
+      if (error) throw error;
+      setEndpoints(prev => prev.map(e => (e.id === endpoint.id ? { ...e, is_active: isActive } : e)));
+    } catch (error) {
+      console.error('Error updating webhook endpoint:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update webhook",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (endpoint: WebhookEndpoint) => {
+    try {
+      const { error } = await supabase.from('webhook_endpoints').delete().eq('id', endpoint.id);
+      if (error) throw error;
+      setEndpoints(prev => prev.filter(e => e.id !== endpoint.id));
+    } catch (error) {
+      console.error('Error deleting webhook endpoint:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove webhook",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCopySecret = async (endpoint: WebhookEndpoint) => {
+    try {
+      await navigator.clipboard.writeText(endpoint.secret);
+      toast({ title: "Secret copied" });
+    } catch (error) {
+      console.error('Error copying webhook secret:', error);
+    }
+  };
+
+  return (
+    <Card className="card-gradient">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Webhook className="h-5 w-5" />
+          Webhooks
+        </CardTitle>
+        <CardDescription>
+          JSON events posted to your endpoints, signed with HMAC-SHA256 in the {SIGNATURE_HEADER} header. Failed deliveries are retried with backoff.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {projects.length === 0 && !loading ? (
+          <p className="text-sm text-muted-foreground">Create a project to add webhook endpoints.</p>
+        ) : (
+          <div className="space-y-4 p-4 rounded-md border">
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label>Project</Label>
+                <Select value={selectedProjectId} onValueChange={setProjectId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a project" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {projects.map(project => (
+                      <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="webhook_url">Endpoint URL</Label>
+                <Input
+                  id="webhook_url"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  placeholder="https://example.com/hooks/llm-tracker"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="webhook_description">Description</Label>
+                <Input
+                  id="webhook_description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="Slack bot"
+                />
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-4">
+              {EVENT_TYPES.map(event => (
+                <div key={event} className="flex items-center space-x-2" title={WEBHOOK_EVENTS[event].description}>
+                  <Checkbox
+                    id={`webhook-event-${event}`}
+                    checked={events.includes(event)}
+                    onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                  />
+                  <Label htmlFor={`webhook-event-${event}`} className="text-sm font-normal">{WEBHOOK_EVENTS[event].label}</Label>
+                </div>
+              ))}
+            </div>
+            <Button onClick={handleAdd} disabled={saving || loading || !selectedProjectId || !url.trim()}>
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+              Add Endpoint
+            </Button>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="animate-pulse text-sm text-muted-foreground text-center py-4">Loading webhooks...</div>
+        ) : endpoints.length > 0 && (
+          <div className="space-y-2">
+            {endpoints.map(endpoint => (
+              <div key={endpoint.id} className="space-y-2 p-3 rounded-md border">
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm font-medium break-all">{endpoint.url}</span>
+                      <Badge variant="secondary">
+                        {projects.find(p => p.id === endpoint.project_id)?.name || 'Project'}
+                      </Badge>
+                      {!endpoint.is_active && <Badge variant="outline">Paused</Badge>}
+                    </div>
+                    {endpoint.description && <p className="text-xs text-muted-foreground">{endpoint.description}</p>}
+                    <div className="flex flex-wrap gap-1">
+                      {endpoint.events.map(event => (
+                        <Badge key={event} variant="outline" className="text-xs">
+                          {WEBHOOK_EVENTS[event as WebhookEventType]?.label || event}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={endpoint.is_active}
+                      onCheckedChange={(checked) => handleToggle(endpoint, checked)}
+                      aria-label="Webhook active"
+                    />
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(endpoint)} aria-label="Remove webhook">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground">Signing secret</span>
+                  <code className="text-xs bg-muted px-2 py-1 rounded">
+                    {revealedId === endpoint.id ? endpoint.secret : `${endpoint.secret.slice(0, 10)}${'•'.repeat(16)}`}
+                  </code>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setRevealedId(revealedId === endpoint.id ? null : endpoint.id)}
+                    aria-label={revealedId === endpoint.id ? 'Hide secret' : 'Show secret'}
+                  >
+                    {revealedId === endpoint.id ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleCopySecret(endpoint)} aria-label="Copy secret">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {!loading && endpoints.length > 0 && <WebhookDeliveryLog endpointUrls={endpointUrls} />}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,102 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { toast } from '@/hooks/use-toast';
+import { MAX_NOTIFICATIONS } from '@/lib/notifications';
+
+export type Notification = Tables<'notifications'>;
+
+interface NotificationsState {
+  notifications: Notification[];
+  unreadCount: number;
+  isLoading: boolean;
+  markRead: (id: string) => Promise<void>;
+  markAllRead: () => Promise<void>;
+}
+
+// The user's latest notifications, kept current through Realtime instead of polling
+export const useNotifications = (userId: string | null): NotificationsState => {
+  const queryClient = useQueryClient();
+  const queryKey = ['notifications', userId];
+
+  const { data, isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const [{ data: notifications, error }, { count, error: countError }] = await Promise.all([
+        supabase
+          .from('notifications')
+          .select('*')
+          .eq('user_id', userId!)
+          .order('created_at', { ascending: false })
+          .limit(MAX_NOTIFICATIONS),
+        supabase
+          .from('notifications')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', userId!)
+          .is('read_at', null),
+      ]);
+
+      if (error) throw error;
+      if (countError) throw countError;
+
+      return { notifications: notifications || [], unreadCount: count ?? 0 };
+    },
+    enabled: !!userId,
+  });
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`notifications:${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        (payload) => {
+          queryClient.invalidateQueries({ queryKey: ['notifications', userId] });
+          // Run outcomes already toast on the page that started the run; alerts arrive unprompted
+          const notification = payload.new as Notification;
+          if (payload.eventType === 'INSERT' && notification.type === 'alert') {
+            toast({
+              title: notification.title,
+              description: notification.body ?? undefined,
+            });
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, queryClient]);
+
+  const markRead = async (id: string) => {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('id', id)
+      .is('read_at', null);
+    if (error) throw error;
+    await queryClient.invalidateQueries({ queryKey });
+  };
+
+  const markAllRead = async () => {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', userId!)
+      .is('read_at', null);
+    if (error) throw error;
+    await queryClient.invalidateQueries({ queryKey });
+  };
+
+  return {
+    notifications: data?.notifications ?? [],
+    unreadCount: data?.unreadCount ?? 0,
+    isLoading,
+    markRead,
+    markAllRead,
+  };
+};
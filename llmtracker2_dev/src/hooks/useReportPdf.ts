@@ -0,0 +1,47 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+
+export interface ReportPdfState {
+  id: string;
+  pdf_path: string | null;
+  pdf_url: string | null;
+  pdf_expires_at: string | null;
+}
+
+// Opens a report's PDF. Signed links expire, so a stale one is re-signed (or the PDF rendered) first.
+export const useReportPdf = () => {
+  const queryClient = useQueryClient();
+  const [loadingReportId, setLoadingReportId] = useState<string | null>(null);
+
+  const openPdf = async (report: ReportPdfState) => {
+    if (report.pdf_path && report.pdf_url && report.pdf_expires_at && new Date(report.pdf_expires_at) > new Date()) {
+      window.open(report.pdf_url, '_blank');
+      return;
+    }
+
+    setLoadingReportId(report.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('generate-report-pdf', {
+        body: { reportId: report.id, regenerate: !report.pdf_path }
+      });
+      if (error) throw error;
+
+      if (data?.url) window.open(data.url, '_blank');
+      queryClient.invalidateQueries({ queryKey: ['reports'] });
+      queryClient.invalidateQueries({ queryKey: ['report', report.id] });
+    } catch (error) {
+      console.error('Error generating PDF:', error);
+      toast({
+        title: "PDF Error",
+        description: error instanceof Error ? error.message : "Failed to generate the PDF report.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingReportId(null);
+    }
+  };
+
+  return { openPdf, loadingReportId };
+};
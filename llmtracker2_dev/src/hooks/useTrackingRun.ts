@@ -0,0 +1,85 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { BrandAnalysisResult } from '@/lib/openai';
+import {
+  ApiResponseRecord,
+  isReportType,
+  readRunProgress,
+  ReportType,
+  resultFromApiResponse,
+  RunProgress,
+} from '@/lib/reportResults';
+import type { Json } from '@/integrations/supabase/types';
+
+interface TrackingRunState {
+  status: string | null;
+  reportType: ReportType | null;
+  reportResults: Json | null;
+  completedAt: string | null;
+  progress: RunProgress | null;
+  results: BrandAnalysisResult[];
+  isRunning: boolean;
+  isLoading: boolean;
+}
+
+const POLL_INTERVAL_MS = 3000;
+// PostgREST caps a single response, so a large run's answers are read in pages
+const PAGE_SIZE = 1000;
+
+// A run whose worker died stays 'processing' until the server fails it; its lapsed lease already says so
+const readStatus = (report: { status: string; locked_until: string | null }) => {
+  const active = report.status === 'pending' || report.status === 'processing';
+  return active && report.locked_until && new Date(report.locked_until) < new Date() ? 'failed' : report.status;
+};
+
+// Watches a server-side tracking run until the report leaves the pending/processing states
+export const useTrackingRun = (reportId: string | null): TrackingRunState => {
+  const { data, isLoading } = useQuery({
+    queryKey: ['tracking-run', reportId],
+    queryFn: async () => {
+      const { data: report, error: reportError } = await supabase
+        .from('reports')
+        .select('id, status, locked_until, metadata, report_type, results, completed_at')
+        .eq('id', reportId!)
+        .single();
+
+      if (reportError) throw reportError;
+
+      const responses: ApiResponseRecord[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('api_responses')
+          .select('id, keyword, provider, raw_response, response_metadata, citations, created_at')
+          .eq('report_id', reportId!)
+          .order('created_at', { ascending: true })
+          .order('id', { ascending: true })
+          .range(from, from + PAGE_SIZE - 1);
+
+        if (error) throw error;
+        responses.push(...(data || []));
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+
+      return { report, responses };
+    },
+    enabled: !!reportId,
+    refetchInterval: (query) => {
+      const report = query.state.data?.report;
+      const status = report ? readStatus(report) : null;
+      return status === 'completed' || status === 'failed' ? false : POLL_INTERVAL_MS;
+    },
+  });
+
+  const status = data ? readStatus(data.report) : null;
+
+  return {
+    status,
+    reportType: data && isReportType(data.report.report_type) ? data.report.report_type : null,
+    reportResults: data?.report.results ?? null,
+    completedAt: data?.report.completed_at ?? null,
+    progress: data ? readRunProgress(data.report.metadata) : null,
+    results: data ? data.responses.map(resultFromApiResponse) : [],
+    isRunning: !!reportId && (status === null || status === 'pending' || status === 'processing'),
+    isLoading,
+  };
+};
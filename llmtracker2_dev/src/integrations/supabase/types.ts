@@ -14,8 +14,182 @@ export type Database = {
   }
   public: {
     Tables: {
+      alert_events: {
+        Row: {
+          acknowledged_at: string | null
+          channels: string[]
+          created_at: string
+          dedup_keys: string[]
+          delivery_errors: Json | null
+          id: string
+          matches: Json
+          message: string
+          project_id: string
+          report_id: string | null
+          rule_id: string
+        }
+        Insert: {
+          acknowledged_at?: string | null
+          channels?: string[]
+          created_at?: string
+          dedup_keys?: string[]
+          delivery_errors?: Json | null
+          id?: string
+          matches?: Json
+          message: string
+          project_id: string
+          report_id?: string | null
+          rule_id: string
+        }
+        Update: {
+          acknowledged_at?: string | null
+          channels?: string[]
+          created_at?: string
+          dedup_keys?: string[]
+          delivery_errors?: Json | null
+          id?: string
+          matches?: Json
+          message?: string
+          project_id?: string
+          report_id?: string | null
+          rule_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_events_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_events_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_events_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "alert_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alert_rules: {
+        Row: {
+          channels: string[]
+          competitor_name: string | null
+          cooldown_hours: number
+          created_at: string
+          id: string
+          is_active: boolean
+          last_triggered_at: string | null
+          metric: string
+          min_priority: number | null
+          name: string
+          period_days: number
+          project_id: string
+          threshold: number
+          updated_at: string
+        }
+        Insert: {
+          channels?: string[]
+          competitor_name?: string | null
+          cooldown_hours?: number
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          last_triggered_at?: string | null
+          metric: string
+          min_priority?: number | null
+          name: string
+          period_days?: number
+          project_id: string
+          threshold: number
+          updated_at?: string
+        }
+        Update: {
+          channels?: string[]
+          competitor_name?: string | null
+          cooldown_hours?: number
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          last_triggered_at?: string | null
+          metric?: string
+          min_priority?: number | null
+          name?: string
+          period_days?: number
+          project_id?: string
+          threshold?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_rules_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      api_keys: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          id: string
+          key_hash: string
+          key_prefix: string
+          last_used_at: string | null
+          name: string
+          project_id: string | null
+          revoked_at: string | null
+          scopes: string[]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          key_hash: string
+          key_prefix: string
+          last_used_at?: string | null
+          name: string
+          project_id?: string | null
+          revoked_at?: string | null
+          scopes: string[]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          key_hash?: string
+          key_prefix?: string
+          last_used_at?: string | null
+          name?: string
+          project_id?: string | null
+          revoked_at?: string | null
+          scopes?: string[]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_keys_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       api_responses: {
         Row: {
+          citations: Json
           created_at: string
           id: string
           keyword: string
@@ -25,6 +199,7 @@ export type Database = {
           response_metadata: Json | null
         }
         Insert: {
+          citations?: Json
           created_at?: string
           id?: string
           keyword: string
@@ -34,6 +209,7 @@ export type Database = {
           response_metadata?: Json | null
         }
         Update: {
+          citations?: Json
           created_at?: string
           id?: string
           keyword?: string
@@ -52,11 +228,201 @@ export type Database = {
           },
         ]
       }
+      data_retention_policies: {
+        Row: {
+          archive_after_days: number | null
+          compression_enabled: boolean
+          created_at: string
+          data_type: string
+          id: string
+          project_id: string
+          retention_days: number
+          updated_at: string
+        }
+        Insert: {
+          archive_after_days?: number | null
+          compression_enabled?: boolean
+          created_at?: string
+          data_type: string
+          id?: string
+          project_id: string
+          retention_days: number
+          updated_at?: string
+        }
+        Update: {
+          archive_after_days?: number | null
+          compression_enabled?: boolean
+          created_at?: string
+          data_type?: string
+          id?: string
+          project_id?: string
+          retention_days?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "data_retention_policies_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      digest_subscriptions: {
+        Row: {
+          created_at: string
+          failure_count: number
+          frequency: string
+          id: string
+          is_active: boolean
+          last_error: string | null
+          last_sent_at: string | null
+          locked_until: string | null
+          next_send_at: string
+          project_id: string | null
+          recipients: string[]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          failure_count?: number
+          frequency: string
+          id?: string
+          is_active?: boolean
+          last_error?: string | null
+          last_sent_at?: string | null
+          locked_until?: string | null
+          next_send_at: string
+          project_id?: string | null
+          recipients?: string[]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          failure_count?: number
+          frequency?: string
+          id?: string
+          is_active?: boolean
+          last_error?: string | null
+          last_sent_at?: string | null
+          locked_until?: string | null
+          next_send_at?: string
+          project_id?: string | null
+          recipients?: string[]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "digest_subscriptions_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      historical_snapshots: {
+        Row: {
+          api_response_id: string | null
+          competitor_name: string
+          created_at: string
+          data_source: string
+          id: string
+          is_brand: boolean
+          keyword: string
+          keyword_id: string | null
+          market_share: number
+          mention_count: number
+          metadata: Json
+          position: number | null
+          project_id: string
+          provider: string | null
+          report_id: string | null
+          sample_count: number
+          sentiment_score: number | null
+          snapshot_date: string
+        }
+        Insert: {
+          api_response_id?: string | null
+          competitor_name: string
+          created_at?: string
+          data_source?: string
+          id?: string
+          is_brand?: boolean
+          keyword: string
+          keyword_id?: string | null
+          market_share?: number
+          mention_count?: number
+          metadata?: Json
+          position?: number | null
+          project_id: string
+          provider?: string | null
+          report_id?: string | null
+          sample_count?: number
+          sentiment_score?: number | null
+          snapshot_date?: string
+        }
+        Update: {
+          api_response_id?: string | null
+          competitor_name?: string
+          created_at?: string
+          data_source?: string
+          id?: string
+          is_brand?: boolean
+          keyword?: string
+          keyword_id?: string | null
+          market_share?: number
+          mention_count?: number
+          metadata?: Json
+          position?: number | null
+          project_id?: string
+          provider?: string | null
+          report_id?: string | null
+          sample_count?: number
+          sentiment_score?: number | null
+          snapshot_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "historical_snapshots_api_response_id_fkey"
+            columns: ["api_response_id"]
+            isOneToOne: false
+            referencedRelation: "api_responses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "historical_snapshots_keyword_id_fkey"
+            columns: ["keyword_id"]
+            isOneToOne: false
+            referencedRelation: "keywords"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "historical_snapshots_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "historical_snapshots_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       keywords: {
         Row: {
           created_at: string
           id: string
           keyword: string
+          keyword_group: string | null
           priority: number | null
           project_id: string
         }
@@ -64,6 +430,7 @@ export type Database = {
           created_at?: string
           id?: string
           keyword: string
+          keyword_group?: string | null
           priority?: number | null
           project_id: string
         }
@@ -71,6 +438,7 @@ export type Database = {
           created_at?: string
           id?: string
           keyword?: string
+          keyword_group?: string | null
           priority?: number | null
           project_id?: string
         }
@@ -84,6 +452,70 @@ export type Database = {
           },
         ]
       }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          id: string
+          keyword_id: string | null
+          link: string | null
+          project_id: string | null
+          read_at: string | null
+          report_id: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          keyword_id?: string | null
+          link?: string | null
+          project_id?: string | null
+          read_at?: string | null
+          report_id?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          keyword_id?: string | null
+          link?: string | null
+          project_id?: string | null
+          read_at?: string | null
+          report_id?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_keyword_id_fkey"
+            columns: ["keyword_id"]
+            isOneToOne: false
+            referencedRelation: "keywords"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           company: string | null
@@ -135,8 +567,11 @@ export type Database = {
           competitors: string[] | null
           created_at: string
           description: string | null
+          engines: Json
+          entity_aliases: Json
           id: string
           name: string
+          sample_count: number
           updated_at: string
           user_id: string
         }
@@ -145,8 +580,11 @@ export type Database = {
           competitors?: string[] | null
           created_at?: string
           description?: string | null
+          engines?: Json
+          entity_aliases?: Json
           id?: string
           name: string
+          sample_count?: number
           updated_at?: string
           user_id: string
         }
@@ -155,8 +593,11 @@ export type Database = {
           competitors?: string[] | null
           created_at?: string
           description?: string | null
+          engines?: Json
+          entity_aliases?: Json
           id?: string
           name?: string
+          sample_count?: number
           updated_at?: string
           user_id?: string
         }
@@ -167,7 +608,10 @@ export type Database = {
           completed_at: string | null
           created_at: string
           id: string
+          locked_until: string | null
           metadata: Json | null
+          pdf_expires_at: string | null
+          pdf_path: string | null
           pdf_url: string | null
           project_id: string
           report_type: string
@@ -179,7 +623,10 @@ export type Database = {
           completed_at?: string | null
           created_at?: string
           id?: string
+          locked_until?: string | null
           metadata?: Json | null
+          pdf_expires_at?: string | null
+          pdf_path?: string | null
           pdf_url?: string | null
           project_id: string
           report_type: string
@@ -191,7 +638,10 @@ export type Database = {
           completed_at?: string | null
           created_at?: string
           id?: string
+          locked_until?: string | null
           metadata?: Json | null
+          pdf_expires_at?: string | null
+          pdf_path?: string | null
           pdf_url?: string | null
           project_id?: string
           report_type?: string
@@ -245,6 +695,348 @@ export type Database = {
         }
         Relationships: []
       }
+      tracking_schedules: {
+        Row: {
+          created_at: string
+          failure_count: number
+          frequency: string
+          id: string
+          is_active: boolean
+          keyword_id: string | null
+          last_error: string | null
+          last_report_id: string | null
+          last_run: string | null
+          locked_until: string | null
+          next_run: string
+          priority: string
+          project_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          failure_count?: number
+          frequency: string
+          id?: string
+          is_active?: boolean
+          keyword_id?: string | null
+          last_error?: string | null
+          last_report_id?: string | null
+          last_run?: string | null
+          locked_until?: string | null
+          next_run: string
+          priority?: string
+          project_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          failure_count?: number
+          frequency?: string
+          id?: string
+          is_active?: boolean
+          keyword_id?: string | null
+          last_error?: string | null
+          last_report_id?: string | null
+          last_run?: string | null
+          locked_until?: string | null
+          next_run?: string
+          priority?: string
+          project_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tracking_schedules_keyword_id_fkey"
+            columns: ["keyword_id"]
+            isOneToOne: false
+            referencedRelation: "keywords"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tracking_schedules_last_report_id_fkey"
+            columns: ["last_report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tracking_schedules_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trend_calculations: {
+        Row: {
+          calculation_date: string
+          competitor_name: string
+          confidence_score: number
+          created_at: string
+          id: string
+          keyword_id: string | null
+          metric_type: string
+          project_id: string
+          raw_data: Json
+          time_period: string
+          trend_value: number
+        }
+        Insert: {
+          calculation_date?: string
+          competitor_name: string
+          confidence_score: number
+          created_at?: string
+          id?: string
+          keyword_id?: string | null
+          metric_type: string
+          project_id: string
+          raw_data?: Json
+          time_period: string
+          trend_value: number
+        }
+        Update: {
+          calculation_date?: string
+          competitor_name?: string
+          confidence_score?: number
+          created_at?: string
+          id?: string
+          keyword_id?: string | null
+          metric_type?: string
+          project_id?: string
+          raw_data?: Json
+          time_period?: string
+          trend_value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trend_calculations_keyword_id_fkey"
+            columns: ["keyword_id"]
+            isOneToOne: false
+            referencedRelation: "keywords"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "trend_calculations_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      visibility_anomalies: {
+        Row: {
+          acknowledged_at: string | null
+          anomaly_type: string
+          api_response_id: string | null
+          baseline_value: number | null
+          competitor_name: string
+          created_at: string
+          details: Json
+          detected_at: string
+          id: string
+          keyword: string
+          keyword_id: string | null
+          observed_value: number | null
+          project_id: string
+          provider: string | null
+          report_id: string | null
+          severity: string
+        }
+        Insert: {
+          acknowledged_at?: string | null
+          anomaly_type: string
+          api_response_id?: string | null
+          baseline_value?: number | null
+          competitor_name: string
+          created_at?: string
+          details?: Json
+          detected_at?: string
+          id?: string
+          keyword: string
+          keyword_id?: string | null
+          observed_value?: number | null
+          project_id: string
+          provider?: string | null
+          report_id?: string | null
+          severity: string
+        }
+        Update: {
+          acknowledged_at?: string | null
+          anomaly_type?: string
+          api_response_id?: string | null
+          baseline_value?: number | null
+          competitor_name?: string
+          created_at?: string
+          details?: Json
+          detected_at?: string
+          id?: string
+          keyword?: string
+          keyword_id?: string | null
+          observed_value?: number | null
+          project_id?: string
+          provider?: string | null
+          report_id?: string | null
+          severity?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "visibility_anomalies_api_response_id_fkey"
+            columns: ["api_response_id"]
+            isOneToOne: false
+            referencedRelation: "api_responses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "visibility_anomalies_keyword_id_fkey"
+            columns: ["keyword_id"]
+            isOneToOne: false
+            referencedRelation: "keywords"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "visibility_anomalies_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "visibility_anomalies_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_deliveries: {
+        Row: {
+          attempt_count: number
+          created_at: string
+          delivered_at: string | null
+          duration_ms: number | null
+          endpoint_id: string
+          error: string | null
+          event_id: string
+          event_type: string
+          id: string
+          last_attempt_at: string | null
+          locked_until: string | null
+          next_attempt_at: string | null
+          payload: Json
+          project_id: string
+          replay_of: string | null
+          response_status: number | null
+          status: string
+        }
+        Insert: {
+          attempt_count?: number
+          created_at?: string
+          delivered_at?: string | null
+          duration_ms?: number | null
+          endpoint_id: string
+          error?: string | null
+          event_id: string
+          event_type: string
+          id?: string
+          last_attempt_at?: string | null
+          locked_until?: string | null
+          next_attempt_at?: string | null
+          payload: Json
+          project_id: string
+          replay_of?: string | null
+          response_status?: number | null
+          status?: string
+        }
+        Update: {
+          attempt_count?: number
+          created_at?: string
+          delivered_at?: string | null
+          duration_ms?: number | null
+          endpoint_id?: string
+          error?: string | null
+          event_id?: string
+          event_type?: string
+          id?: string
+          last_attempt_at?: string | null
+          locked_until?: string | null
+          next_attempt_at?: string | null
+          payload?: Json
+          project_id?: string
+          replay_of?: string | null
+          response_status?: number | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_endpoint_id_fkey"
+            columns: ["endpoint_id"]
+            isOneToOne: false
+            referencedRelation: "webhook_endpoints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_replay_of_fkey"
+            columns: ["replay_of"]
+            isOneToOne: false
+            referencedRelation: "webhook_deliveries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_endpoints: {
+        Row: {
+          created_at: string
+          description: string | null
+          events: string[]
+          id: string
+          is_active: boolean
+          project_id: string
+          secret: string
+          updated_at: string
+          url: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          events?: string[]
+          id?: string
+          is_active?: boolean
+          project_id: string
+          secret?: string
+          updated_at?: string
+          url: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          events?: string[]
+          id?: string
+          is_active?: boolean
+          project_id?: string
+          secret?: string
+          updated_at?: string
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_endpoints_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
@@ -0,0 +1,228 @@
+// User-defined alert rules evaluated after every run.
+// Each rule yields matches keyed for deduplication; the caller drops keys still inside the rule's cooldown.
+
+import { BrandAnalysisResult } from './openai.ts';
+import { getEngineLabel } from './providers.ts';
+import { priorityWeight } from './shareOfVoice.ts';
+
+export type AlertMetric = 'brand_position' | 'brand_mention_rate' | 'competitor_mention_rate' | 'mention_rate_drop';
+export type AlertChannel = 'in_app' | 'email' | 'webhook';
+
+export const ALERT_METRICS: Record<AlertMetric, { label: string; description: string; unit: 'position' | 'percent' }> = {
+  brand_position: {
+    label: 'Brand position worse than',
+    description: 'Each answer that ranks your brand below this position, or leaves it out',
+    unit: 'position',
+  },
+  brand_mention_rate: {
+    label: 'Brand mention rate below',
+    description: 'Share of the run\'s answers that mention your brand',
+    unit: 'percent',
+  },
+  competitor_mention_rate: {
+    label: 'Competitor mention rate above',
+    description: 'Share of the run\'s answers that mention a competitor',
+    unit: 'percent',
+  },
+  mention_rate_drop: {
+    label: 'Brand mention rate drops by',
+    description: 'Relative drop of your brand\'s mention rate against the previous period of the same length',
+    unit: 'percent',
+  },
+};
+
+export const ALERT_CHANNELS: Record<AlertChannel, { label: string }> = {
+  in_app: { label: 'In-app' },
+  email: { label: 'Email' },
+  webhook: { label: 'Webhook' },
+};
+
+export const isAlertMetric = (value: unknown): value is AlertMetric =>
+  typeof value === 'string' && value in ALERT_METRICS;
+
+export const DEFAULT_COOLDOWN_HOURS = 24;
+export const DEFAULT_PERIOD_DAYS = 7;
+// Matches listed in one alert; the rest are summarised as a count
+export const MAX_ALERT_MATCHES = 10;
+
+// Minimal alert_rules row the engine needs
+export interface AlertRule {
+  id: string;
+  name: string;
+  metric: string;
+  threshold: number;
+  competitor_name: string | null;
+  min_priority: number | null;
+  period_days: number;
+  cooldown_hours: number;
+  channels: string[];
+}
+
+export interface AlertSnapshot {
+  keyword: string;
+  is_brand: boolean;
+  mention_count: number;
+  sample_count: number;
+  snapshot_date: string;
+}
+
+export interface AlertRunInput {
+  brandName: string;
+  // Competitor names already canonicalized to the project's list
+  results: BrandAnalysisResult[];
+  priorities: Map<string, number | null>;
+  // Brand snapshots covering at least two periods of the longest mention_rate_drop rule
+  brandHistory: AlertSnapshot[];
+  now: Date;
+}
+
+export interface AlertMatch {
+  // Stable across runs for the same condition, e.g. keyword and engine
+  key: string;
+  entity: string;
+  keyword: string | null;
+  engine: string | null;
+  observed: number | null;
+  previous?: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number, digits = 4) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const keywordMatches = (rule: AlertRule, priorities: Map<string, number | null>, keyword: string) =>
+  !rule.min_priority || priorityWeight(priorities.get(keyword) ?? null) >= rule.min_priority;
+
+const mentionRate = (mentioned: boolean, rate: number | undefined) => rate ?? (mentioned ? 1 : 0);
+
+const snapshotRate = (snapshots: AlertSnapshot[]) => {
+  const samples = snapshots.reduce((acc, s) => acc + s.sample_count, 0);
+  return samples > 0 ? snapshots.reduce((acc, s) => acc + Math.min(s.mention_count, s.sample_count), 0) / samples : null;
+};
+
+export const evaluateAlertRule = (rule: AlertRule, input: AlertRunInput): AlertMatch[] => {
+  const results = input.results.filter(result => keywordMatches(rule, input.priorities, result.keyword));
+
+  switch (rule.metric) {
+    case 'brand_position':
+      // Mentioned but unranked answers say nothing about position and never match
+      return results
+        .filter(result => !result.brandMentioned || (result.position !== null && result.position > rule.threshold))
+        .map(result => ({
+          key: `${result.keyword}|${result.provider}`,
+          entity: input.brandName,
+          keyword: result.keyword,
+          engine: getEngineLabel(result),
+          observed: result.brandMentioned ? result.position : null,
+        }));
+
+    case 'brand_mention_rate': {
+      if (results.length === 0) return [];
+      const rate = results.reduce((acc, r) => acc + mentionRate(r.brandMentioned, r.stats?.mentionRate), 0) / results.length;
+      return rate * 100 < rule.threshold
+        ? [{ key: 'brand', entity: input.brandName, keyword: null, engine: null, observed: round(rate) }]
+        : [];
+    }
+
+    case 'competitor_mention_rate': {
+      if (results.length === 0) return [];
+      const names = rule.competitor_name
+        ? [rule.competitor_name]
+        : Array.from(new Set(results.flatMap(r => r.competitors.map(c => c.name))));
+      return names.flatMap(name => {
+        const rate = results.reduce((acc, r) => {
+          const competitor = r.competitors.find(c => c.name.toLowerCase() === name.toLowerCase());
+          return acc + (competitor ? mentionRate(competitor.mentioned, competitor.stats?.mentionRate) : 0);
+        }, 0) / results.length;
+        return rate * 100 > rule.threshold
+          ? [{ key: `competitor:${name.toLowerCase()}`, entity: name, keyword: null, engine: null, observed: round(rate) }]
+          : [];
+      });
+    }
+
+    case 'mention_rate_drop': {
+      const periodMs = Math.max(rule.period_days, 1) * DAY_MS;
+      const periodStart = input.now.getTime() - periodMs;
+      const brand = input.brandHistory.filter(s => s.is_brand && keywordMatches(rule, input.priorities, s.keyword));
+      const current = snapshotRate(brand.filter(s => new Date(s.snapshot_date).getTime() >= periodStart));
+      const previous = snapshotRate(brand.filter(s => {
+        const time = new Date(s.snapshot_date).getTime();
+        return time < periodStart && time >= periodStart - periodMs;
+      }));
+      if (current === null || previous === null || previous === 0) return [];
+
+      const drop = (previous - current) / previous;
+      return drop * 100 >= rule.threshold
+        ? [{ key: 'brand', entity: input.brandName, keyword: null, engine: null, observed: round(current), previous: round(previous) }]
+        : [];
+    }
+
+    default:
+      return [];
+  }
+};
+
+const percent = (value: number | null | undefined) => (value === null || value === undefined ? 'n/a' : `${Math.round(value * 100)}%`);
+
+export const describeRule = (rule: Pick<AlertRule, 'metric' | 'threshold' | 'competitor_name' | 'min_priority' | 'period_days'>) => {
+  const metric = isAlertMetric(rule.metric) ? ALERT_METRICS[rule.metric] : null;
+  if (!metric) return rule.metric;
+  const threshold = metric.unit === 'position' ? `#${rule.threshold}` : `${rule.threshold}%`;
+  const subject = rule.metric === 'competitor_mention_rate' ? `${rule.competitor_name || 'Any competitor'}: ` : '';
+  const scope = rule.min_priority ? ` on priority ${rule.min_priority}+ keywords` : '';
+  const period = rule.metric === 'mention_rate_drop' ? ` over ${rule.period_days} days` : '';
+  return `${subject}${metric.label.toLowerCase()} ${threshold}${period}${scope}`;
+};
+
+export const describeMatch = (rule: Pick<AlertRule, 'metric'>, match: AlertMatch) => {
+  switch (rule.metric) {
+    case 'brand_position':
+      return `"${match.keyword}" on ${match.engine}: ${match.observed === null ? 'not mentioned' : `#${match.observed}`}`;
+    case 'mention_rate_drop':
+      return `${match.entity}: ${percent(match.previous)} -> ${percent(match.observed)}`;
+    default:
+      return `${match.entity}: ${percent(match.observed)} of answers`;
+  }
+};
+
+// One-line summary used as the in-app message, email subject and webhook summary
+export const summarizeAlert = (rule: AlertRule, matches: AlertMatch[]) => {
+  const [first] = matches;
+  const rest = matches.length > 1 ? ` and ${matches.length - 1} more` : '';
+  return `${rule.name}: ${describeMatch(rule, first)}${rest}`;
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const renderAlertEmail = (
+  rule: AlertRule,
+  matches: AlertMatch[],
+  context: { projectName: string; reportUrl: string; settingsUrl: string }
+): { subject: string; html: string; text: string } => {
+  const lines = matches.slice(0, MAX_ALERT_MATCHES).map(match => describeMatch(rule, match));
+  const more = matches.length > MAX_ALERT_MATCHES ? `...and ${matches.length - MAX_ALERT_MATCHES} more` : null;
+  const condition = describeRule(rule);
+
+  return {
+    subject: `[${context.projectName}] ${summarizeAlert(rule, matches)}`,
+    text: [
+      `Alert "${rule.name}" matched in ${context.projectName}.`,
+      `Condition: ${condition}`,
+      '',
+      ...lines.map(line => `- ${line}`),
+      ...(more ? [more] : []),
+      '',
+      `Report: ${context.reportUrl}`,
+      `Manage alert rules: ${context.settingsUrl}`,
+    ].join('\n'),
+    html: `<!DOCTYPE html><html><body style="font-family:Helvetica,Arial,sans-serif;color:#111;max-width:640px;margin:0 auto;padding:24px;">
+  <h1 style="font-size:20px;color:#7c3bed;margin:0;">${escapeHtml(rule.name)}</h1>
+  <p style="color:#666;font-size:14px;margin:4px 0 16px;">${escapeHtml(context.projectName)} &middot; ${escapeHtml(condition)}</p>
+  <ul style="font-size:14px;padding-left:20px;">${lines.map(line => `<li style="margin:4px 0;">${escapeHtml(line)}</li>`).join('')}</ul>
+  ${more ? `<p style="font-size:14px;color:#666;">${escapeHtml(more)}</p>` : ''}
+  <p style="font-size:14px;"><a href="${escapeHtml(context.reportUrl)}" style="color:#7c3bed;">Open the report</a></p>
+  <p style="color:#999;font-size:12px;margin-top:24px;">Sent because this rule delivers by email. <a href="${escapeHtml(context.settingsUrl)}" style="color:#999;">Manage alert rules</a></p>
+</body></html>`,
+  };
+};
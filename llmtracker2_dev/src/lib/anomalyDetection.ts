@@ -0,0 +1,187 @@
+// Flags unusual movements in one answer against the rolling history of the same keyword and engine.
+
+import { BrandEntity, createEntityMatcher, normalizeText, resolveEntityName } from './entityMatcher.ts';
+import { parseAnswerStructure } from './mentionDetector.ts';
+import { mean, median, standardDeviation } from './statistics.ts';
+
+export type AnomalyType = 'rank_drop' | 'brand_disappeared' | 'new_competitor' | 'sentiment_swing';
+export type AnomalySeverity = 'low' | 'medium' | 'high';
+
+export const ANOMALY_TYPES: Record<AnomalyType, { label: string; description: string }> = {
+  rank_drop: {
+    label: 'Rank Drop',
+    description: 'Ranked well below its recent positions for this keyword',
+  },
+  brand_disappeared: {
+    label: 'Brand Disappeared',
+    description: 'Your brand was missing from an answer it usually appears in',
+  },
+  new_competitor: {
+    label: 'New Competitor',
+    description: 'A brand entered the top answers that was not there before',
+  },
+  sentiment_swing: {
+    label: 'Sentiment Swing',
+    description: 'The tone towards a brand changed sharply',
+  },
+};
+
+export interface SeriesObservation {
+  date: string;
+  position: number | null;
+  mentionRate: number;
+  sentiment: number | null;
+}
+
+export interface EntityObservation extends SeriesObservation {
+  name: string;
+  isBrand: boolean;
+}
+
+export interface DetectedAnomaly {
+  type: AnomalyType;
+  severity: AnomalySeverity;
+  competitorName: string;
+  baselineValue: number | null;
+  observedValue: number | null;
+  details: Record<string, unknown>;
+}
+
+// Rolling baseline: the most recent observations before the one being checked
+export const BASELINE_WINDOW = 10;
+export const MIN_BASELINE_OBSERVATIONS = 3;
+// Answers compared when looking for new names near the top
+export const TOP_ANSWER_COUNT = 3;
+export const MIN_BASELINE_ANSWERS = 2;
+// Samples of one run a new name must appear in before its severity is raised
+export const MIN_RECURRING_SAMPLES = 2;
+
+const MIN_RANK_DROP = 2;
+const BRAND_PRESENCE_THRESHOLD = 0.8;
+const MIN_SENTIMENT_SWING = 0.4;
+// Deviations are measured in robust standard deviations (scaled median absolute deviation)
+const DEVIATION_THRESHOLD = 3;
+const MAD_SCALE = 1.4826;
+const MIN_RANK_SPREAD = 0.5;
+
+const round = (value: number, digits = 3) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const medianAbsoluteDeviation = (values: number[], center: number) =>
+  median(values.map(v => Math.abs(v - center))) ?? 0;
+
+const baselineWindow = (history: SeriesObservation[]) =>
+  [...history].sort((a, b) => a.date.localeCompare(b.date)).slice(-BASELINE_WINDOW);
+
+export const detectSeriesAnomalies = (current: EntityObservation, history: SeriesObservation[]): DetectedAnomaly[] => {
+  const baseline = baselineWindow(history);
+  if (baseline.length < MIN_BASELINE_OBSERVATIONS) return [];
+
+  const anomalies: DetectedAnomaly[] = [];
+  const details = { baselineObservations: baseline.length, since: baseline[0].date };
+
+  // Rank drop: ranked much lower than the usual position
+  const ranked = baseline.map(o => o.position).filter((p): p is number => p !== null);
+  if (current.position !== null && ranked.length >= MIN_BASELINE_OBSERVATIONS) {
+    const usual = median(ranked)!;
+    const spread = Math.max(MAD_SCALE * medianAbsoluteDeviation(ranked, usual), MIN_RANK_SPREAD);
+    const drop = current.position - usual;
+    if (drop >= Math.max(MIN_RANK_DROP, DEVIATION_THRESHOLD * spread)) {
+      anomalies.push({
+        type: 'rank_drop',
+        severity: drop >= 5 ? 'high' : drop >= 3 ? 'medium' : 'low',
+        competitorName: current.name,
+        baselineValue: usual,
+        observedValue: current.position,
+        details: { ...details, drop: round(drop), deviations: round(drop / spread, 2) },
+      });
+    }
+  }
+
+  // Brand disappearance: missing from an answer that nearly always includes it
+  if (current.isBrand && current.mentionRate === 0) {
+    const presence = mean(baseline.map(o => o.mentionRate))!;
+    if (presence >= BRAND_PRESENCE_THRESHOLD) {
+      anomalies.push({
+        type: 'brand_disappeared',
+        severity: presence >= 0.95 ? 'high' : 'medium',
+        competitorName: current.name,
+        baselineValue: round(presence),
+        observedValue: 0,
+        details,
+      });
+    }
+  }
+
+  // Sentiment swing: tone far outside its usual range
+  const sentiments = baseline.map(o => o.sentiment).filter((s): s is number => s !== null);
+  if (current.sentiment !== null && sentiments.length >= MIN_BASELINE_OBSERVATIONS) {
+    const usual = mean(sentiments)!;
+    const spread = standardDeviation(sentiments) ?? 0;
+    const swing = current.sentiment - usual;
+    if (Math.abs(swing) >= Math.max(MIN_SENTIMENT_SWING, DEVIATION_THRESHOLD * spread)) {
+      anomalies.push({
+        type: 'sentiment_swing',
+        severity: Math.abs(swing) >= 1 ? 'high' : Math.abs(swing) >= 0.6 ? 'medium' : 'low',
+        competitorName: current.name,
+        baselineValue: round(usual),
+        observedValue: current.sentiment,
+        details: { ...details, swing: round(swing), direction: swing > 0 ? 'positive' : 'negative' },
+      });
+    }
+  }
+
+  return anomalies;
+};
+
+// Names of the first ranked items of an answer, resolved to tracked entities where they match one
+export const topAnswerNames = (content: string, entities: BrandEntity[]): string[] => {
+  const matchers = entities.map(createEntityMatcher);
+  return parseAnswerStructure(content).items
+    .slice(0, TOP_ANSWER_COUNT)
+    .map(item => resolveEntityName(item.lead, matchers))
+    .filter(name => name.length > 0);
+};
+
+// Brands in the top of this run's answers that never reached the top of the earlier answers for the keyword.
+// A name from a single sample is often a generic list lead, so untracked names start low and a name
+// only gains severity when it recurs across the samples.
+export const detectNewCompetitors = (
+  contents: string[],
+  baselineContents: string[],
+  entities: BrandEntity[]
+): DetectedAnomaly[] => {
+  if (baselineContents.length < MIN_BASELINE_ANSWERS || contents.length === 0) return [];
+
+  const [brand] = entities;
+  const tracked = new Set(entities.map(e => e.name));
+  const seen = new Set(baselineContents.flatMap(c => topAnswerNames(c, entities)).map(normalizeText));
+
+  const found = new Map<string, { name: string; position: number; samples: number }>();
+  contents.forEach(content => {
+    const counted = new Set<string>();
+    topAnswerNames(content, entities).forEach((name, index) => {
+      const key = normalizeText(name);
+      if (name === brand?.name || seen.has(key)) return;
+      const entry = found.get(key) ?? { name, position: index + 1, samples: 0 };
+      entry.position = Math.min(entry.position, index + 1);
+      // Once per sample, even when an answer lists the name twice
+      if (!counted.has(key)) entry.samples++;
+      counted.add(key);
+      found.set(key, entry);
+    });
+  });
+
+  return Array.from(found.values()).map(({ name, position, samples }) => {
+    const isTracked = tracked.has(name);
+    const recurring = samples >= MIN_RECURRING_SAMPLES && samples * 2 >= contents.length;
+    const severity: AnomalySeverity = isTracked ? (recurring ? 'high' : 'medium') : recurring ? 'medium' : 'low';
+    return {
+      type: 'new_competitor' as const,
+      severity,
+      competitorName: name,
+      baselineValue: null,
+      observedValue: position,
+      details: { tracked: isTracked, samples, sampleCount: contents.length, baselineAnswers: baselineContents.length },
+    };
+  });
+};
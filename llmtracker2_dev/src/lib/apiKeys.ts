@@ -0,0 +1,56 @@
+// API keys for the public REST API: scopes, key generation and hashing.
+// Keys are generated in the browser and only their hash is stored; the api-v1 edge function hashes
+// the presented key the same way to look it up.
+
+export type ApiScope = 'projects:read' | 'projects:write' | 'runs:write' | 'reports:read';
+
+export const API_SCOPES: Record<ApiScope, { label: string; description: string }> = {
+  'projects:read': {
+    label: 'Read projects',
+    description: 'List projects, keywords and competitors',
+  },
+  'projects:write': {
+    label: 'Manage projects',
+    description: 'Create and update projects, keywords and competitors',
+  },
+  'runs:write': {
+    label: 'Start runs',
+    description: 'Trigger tracking runs',
+  },
+  'reports:read': {
+    label: 'Read results',
+    description: 'Poll runs and fetch reports and historical snapshots',
+  },
+};
+
+export const isApiScope = (value: unknown): value is ApiScope =>
+  typeof value === 'string' && value in API_SCOPES;
+
+export const API_VERSION = 'v1';
+// Edge function serving the API; its path is <SUPABASE_URL>/functions/v1/api-v1
+export const API_FUNCTION = `api-${API_VERSION}`;
+export const API_KEY_HEADER = 'X-API-Key';
+
+const KEY_PREFIX = 'llmt_';
+const KEY_BYTES = 24;
+// Characters of the key kept in clear to tell keys apart in the settings list
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 6;
+
+const toHex = (buffer: ArrayBuffer | Uint8Array) =>
+  Array.from(buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export const generateApiKey = () => `${KEY_PREFIX}${toHex(crypto.getRandomValues(new Uint8Array(KEY_BYTES)))}`;
+
+export const apiKeyPrefix = (key: string) => key.slice(0, DISPLAY_PREFIX_LENGTH);
+
+export const looksLikeApiKey = (value: string) => value.startsWith(KEY_PREFIX) && value.length === KEY_PREFIX.length + KEY_BYTES * 2;
+
+// Keys are random, so a plain SHA-256 is enough; no salt or slow hash is needed
+export const hashApiKey = async (key: string) =>
+  toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key)));
+
+// Accepts "Authorization: Bearer <key>" or the X-API-Key header
+export const readApiKey = (headers: Headers): string | null => {
+  const header = headers.get(API_KEY_HEADER) || headers.get('Authorization')?.replace(/^Bearer\s+/i, '') || '';
+  return looksLikeApiKey(header.trim()) ? header.trim() : null;
+};
@@ -0,0 +1,245 @@
+// Extraction of cited URLs, domains and named sources from assistant answers,
+// and the aggregation behind citation_analysis reports.
+
+import { BrandEntity, entityDomains, normalizeDomain } from './entityMatcher.ts';
+
+export type CitationKind = 'provider' | 'link' | 'url' | 'domain' | 'named';
+
+export interface Citation {
+  kind: CitationKind;
+  url: string | null;
+  domain: string | null;
+  name: string | null;
+  // Number of samples of the same prompt that cited it
+  count: number;
+}
+
+const MARKDOWN_LINK = /\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g;
+const BARE_URL = /https?:\/\/[^\s<>()[\]"'`]+/g;
+const TLDS = 'com|org|net|io|co|ai|app|dev|edu|gov|info|biz|me|tv|us|uk|ca|de|fr|es|it|nl|au|in|jp|eu|ch|se|no|dk|fi|pl|br|mx|ly|so|gg|tech|cloud|software|tools|health|news|blog';
+const BARE_DOMAIN = new RegExp(`(?<![\\w@.-])((?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\\.)+(?:${TLDS}))(?![\\w-]|\\.[a-z])`, 'gi');
+const NAMED_SOURCES = [
+  /\b[Aa]ccording to (?:the )?((?:[A-Z][\w&'.-]*)(?:\s+(?:of\s+|&\s+)?[A-Z][\w&'.-]*){0,4})/g,
+  /\b(?:[Aa]s )?[Rr]eported by (?:the )?((?:[A-Z][\w&'.-]*)(?:\s+(?:of\s+|&\s+)?[A-Z][\w&'.-]*){0,4})/g,
+  /^\s*[-*]?\s*\**sources?\**:\**\s*(.+)$/gim,
+];
+
+const isDomain = (value: string) => new RegExp(`^${BARE_DOMAIN.source}$`, 'i').test(value);
+
+const trimUrl = (url: string) => url.replace(/[.,;:!?*_]+$/, '');
+
+const domainOf = (url: string): string | null => {
+  const domain = normalizeDomain(url);
+  return domain.includes('.') ? domain : null;
+};
+
+const citationKey = (citation: Citation) =>
+  (citation.url ? trimUrl(citation.url).toLowerCase() : citation.domain || citation.name?.toLowerCase()) ?? '';
+
+export const extractCitations = (content: string, providerCitations: string[] = []): Citation[] => {
+  const citations: Citation[] = [];
+  const add = (citation: Omit<Citation, 'count'>) => citations.push({ ...citation, count: 1 });
+
+  providerCitations.forEach(url => add({ kind: 'provider', url, domain: domainOf(url), name: null }));
+
+  // Links first, then blank them out so their URLs are not picked up again as bare URLs or domains
+  let remaining = content.replace(MARKDOWN_LINK, (match, title: string, url: string) => {
+    add({ kind: 'link', url: trimUrl(url), domain: domainOf(url), name: title.trim() });
+    return ' '.repeat(match.length);
+  });
+  remaining = remaining.replace(BARE_URL, match => {
+    const url = trimUrl(match);
+    add({ kind: 'url', url, domain: domainOf(url), name: null });
+    return ' '.repeat(match.length);
+  });
+  // A bare domain adds nothing when the answer already links to a page on it
+  for (const match of remaining.matchAll(BARE_DOMAIN)) {
+    const domain = normalizeDomain(match[1]);
+    if (!citations.some(c => c.domain === domain)) {
+      add({ kind: 'domain', url: null, domain, name: null });
+    }
+  }
+
+  for (const pattern of NAMED_SOURCES) {
+    for (const match of remaining.matchAll(pattern)) {
+      const name = match[1].replace(/[*_`]/g, '').replace(/[.,;:]+$/, '').trim();
+      // Source lines that only held URLs or domains are already covered above
+      if (name.length > 1 && !isDomain(name)) {
+        add({ kind: 'named', url: null, domain: null, name });
+      }
+    }
+  }
+
+  return mergeCitations([citations]).map(c => ({ ...c, count: 1 }));
+};
+
+// Combines the citations of several samples, counting how many samples cited each source
+export const mergeCitations = (lists: Citation[][]): Citation[] => {
+  const merged = new Map<string, Citation>();
+
+  lists.forEach(list => {
+    const seen = new Set<string>();
+    list.forEach(citation => {
+      const key = citationKey(citation);
+      if (!key || seen.has(key)) return;
+      seen.add(key);
+
+      const existing = merged.get(key);
+      merged.set(key, existing
+        ? { ...existing, name: existing.name || citation.name, count: existing.count + citation.count }
+        : { ...citation });
+    });
+  });
+
+  return Array.from(merged.values());
+};
+
+export const parseCitations = (value: unknown): Citation[] =>
+  Array.isArray(value)
+    ? value
+        .filter((c): c is Record<string, unknown> => !!c && typeof c === 'object')
+        .map(c => ({
+          kind: (typeof c.kind === 'string' ? c.kind : 'url') as CitationKind,
+          url: typeof c.url === 'string' ? c.url : null,
+          domain: typeof c.domain === 'string' ? c.domain : null,
+          name: typeof c.name === 'string' ? c.name : null,
+          count: typeof c.count === 'number' ? c.count : 1,
+        }))
+    : [];
+
+// --- citation_analysis report ---
+
+export interface CitedResponse {
+  keyword: string;
+  provider: string;
+  citations: Citation[];
+}
+
+export interface CitationHistoryEntry {
+  reportId: string;
+  date: string;
+  responses: CitedResponse[];
+}
+
+export interface CitationAnalysisResults {
+  summary: {
+    totalResponses: number;
+    responsesWithCitations: number;
+    uniqueDomains: number;
+    namedSources: number;
+    brandCitationRate: number;
+  };
+  domains: { domain: string; owner: string | null; citations: number; responses: number; keywords: string[] }[];
+  namedSources: { name: string; citations: number; keywords: string[] }[];
+  keywords: { keyword: string; responses: number; brandCited: boolean; domains: { domain: string; owner: string | null; citations: number }[] }[];
+  entities: { name: string; isBrand: boolean; domains: string[]; citations: number; responseRate: number }[];
+  timeline: { reportId: string; date: string; responses: number; rates: Record<string, number> }[];
+}
+
+const domainMatches = (domain: string, owned: string) => domain === owned || domain.endsWith(`.${owned}`);
+
+const ownerOf = (domain: string, entities: BrandEntity[]): string | null =>
+  entities.find(entity => entityDomains(entity).some(owned => domainMatches(domain, owned)))?.name ?? null;
+
+const citesEntity = (response: CitedResponse, entity: BrandEntity) => {
+  const owned = entityDomains(entity);
+  return response.citations.some(c => c.domain && owned.some(d => domainMatches(c.domain!, d)));
+};
+
+const rate = (count: number, total: number) => (total > 0 ? Math.round((count / total) * 1000) / 1000 : 0);
+
+// entities[0] is the project's own brand, the rest are competitors
+export const buildCitationAnalysis = (
+  responses: CitedResponse[],
+  entities: BrandEntity[],
+  history: CitationHistoryEntry[] = []
+): CitationAnalysisResults => {
+  const domainStats = new Map<string, { citations: number; responses: number; keywords: Set<string> }>();
+  const namedStats = new Map<string, { name: string; citations: number; keywords: Set<string> }>();
+  const keywordStats = new Map<string, { responses: number; brandCited: boolean; domains: Map<string, number> }>();
+
+  responses.forEach(response => {
+    const keyword = keywordStats.get(response.keyword) || { responses: 0, brandCited: false, domains: new Map() };
+    keyword.responses++;
+    keyword.brandCited = keyword.brandCited || (entities.length > 0 && citesEntity(response, entities[0]));
+
+    const responseDomains = new Set<string>();
+    response.citations.forEach(citation => {
+      if (citation.domain) {
+        responseDomains.add(citation.domain);
+        const stats = domainStats.get(citation.domain) || { citations: 0, responses: 0, keywords: new Set<string>() };
+        stats.citations += citation.count;
+        stats.keywords.add(response.keyword);
+        domainStats.set(citation.domain, stats);
+        keyword.domains.set(citation.domain, (keyword.domains.get(citation.domain) || 0) + citation.count);
+      } else if (citation.name) {
+        const key = citation.name.toLowerCase();
+        const stats = namedStats.get(key) || { name: citation.name, citations: 0, keywords: new Set<string>() };
+        stats.citations += citation.count;
+        stats.keywords.add(response.keyword);
+        namedStats.set(key, stats);
+      }
+    });
+    responseDomains.forEach(domain => domainStats.get(domain)!.responses++);
+
+    keywordStats.set(response.keyword, keyword);
+  });
+
+  const entityRates = (items: CitedResponse[]) =>
+    Object.fromEntries(entities.map(entity => [entity.name, rate(items.filter(r => citesEntity(r, entity)).length, items.length)]));
+
+  return {
+    summary: {
+      totalResponses: responses.length,
+      responsesWithCitations: responses.filter(r => r.citations.length > 0).length,
+      uniqueDomains: domainStats.size,
+      namedSources: namedStats.size,
+      brandCitationRate: entities.length > 0 ? rate(responses.filter(r => citesEntity(r, entities[0])).length, responses.length) : 0,
+    },
+    domains: Array.from(domainStats.entries())
+      .map(([domain, stats]) => ({
+        domain,
+        owner: ownerOf(domain, entities),
+        citations: stats.citations,
+        responses: stats.responses,
+        keywords: Array.from(stats.keywords),
+      }))
+      .sort((a, b) => b.citations - a.citations),
+    namedSources: Array.from(namedStats.values())
+      .map(stats => ({ name: stats.name, citations: stats.citations, keywords: Array.from(stats.keywords) }))
+      .sort((a, b) => b.citations - a.citations),
+    keywords: Array.from(keywordStats.entries()).map(([keyword, stats]) => ({
+      keyword,
+      responses: stats.responses,
+      brandCited: stats.brandCited,
+      domains: Array.from(stats.domains.entries())
+        .map(([domain, citations]) => ({ domain, owner: ownerOf(domain, entities), citations }))
+        .sort((a, b) => b.citations - a.citations),
+    })),
+    entities: entities.map((entity, index) => ({
+      name: entity.name,
+      isBrand: index === 0,
+      domains: entityDomains(entity),
+      citations: responses.reduce((acc, r) => acc + r.citations
+        .filter(c => c.domain && entityDomains(entity).some(d => domainMatches(c.domain!, d)))
+        .reduce((sum, c) => sum + c.count, 0), 0),
+      responseRate: rate(responses.filter(r => citesEntity(r, entity)).length, responses.length),
+    })),
+    timeline: history
+      .filter(entry => entry.responses.length > 0)
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map(entry => ({ reportId: entry.reportId, date: entry.date, responses: entry.responses.length, rates: entityRates(entry.responses) })),
+  };
+};
+
+export const parseCitationAnalysis = (value: unknown): CitationAnalysisResults | null => {
+  const record = value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+  if (!record || !record.summary || !Array.isArray(record.domains) || !Array.isArray(record.entities)) return null;
+
+  return {
+    ...(record as unknown as CitationAnalysisResults),
+    namedSources: Array.isArray(record.namedSources) ? (record.namedSources as CitationAnalysisResults['namedSources']) : [],
+    keywords: Array.isArray(record.keywords) ? (record.keywords as CitationAnalysisResults['keywords']) : [],
+    timeline: Array.isArray(record.timeline) ? (record.timeline as CitationAnalysisResults['timeline']) : [],
+  };
+};
@@ -0,0 +1,128 @@
+// Head-to-head metrics between the project's brand and each competitor for competitor_analysis reports.
+
+import { BrandAnalysisResult } from './openai.ts';
+import { mean } from './statistics.ts';
+
+export type HeadToHeadOutcome = 'won' | 'lost' | 'tied';
+
+export interface CompetitorHeadToHead {
+  name: string;
+  mentions: number;
+  mentionRate: number;
+  shareOfVoice: number;
+  coMentionRate: number;
+  averagePosition: number | null;
+  // Competitor rank minus brand rank where both are ranked; positive means the brand ranks ahead
+  averageRankDelta: number | null;
+  keywordsWon: string[];
+  keywordsLost: string[];
+  keywordsTied: string[];
+}
+
+export interface CompetitorAnalysisResults {
+  summary: {
+    totalKeywords: number;
+    analyses: number;
+    engines: string[];
+    brand: {
+      name: string;
+      mentions: number;
+      mentionRate: number;
+      shareOfVoice: number;
+      averagePosition: number | null;
+    };
+  };
+  competitors: CompetitorHeadToHead[];
+}
+
+const round = (value: number | null, digits = 3) =>
+  value === null ? null : Math.round(value * 10 ** digits) / 10 ** digits;
+
+// Multi-sample results weigh a mention by how many samples contained it
+const mentionWeight = (mentioned: boolean, mentionRate?: number) => mentionRate ?? (mentioned ? 1 : 0);
+
+// +1 when the brand beats the competitor in one answer, -1 when it loses, 0 when neither is ahead
+const compare = (
+  brand: { mentioned: boolean; position: number | null },
+  competitor: { mentioned: boolean; position: number | null }
+): number => {
+  if (brand.mentioned && !competitor.mentioned) return 1;
+  if (!brand.mentioned && competitor.mentioned) return -1;
+  if (!brand.mentioned || brand.position === null || competitor.position === null) return 0;
+  return Math.sign(competitor.position - brand.position);
+};
+
+// Expects competitor names already resolved to the project's competitor list
+export const buildCompetitorAnalysis = (
+  results: BrandAnalysisResult[],
+  brandName: string,
+  competitors: string[]
+): CompetitorAnalysisResults => {
+  const keywords = Array.from(new Set(results.map(r => r.keyword)));
+  const brandWeight = results.reduce((acc, r) => acc + mentionWeight(r.brandMentioned, r.stats?.mentionRate), 0);
+
+  const perCompetitor = competitors.map(name => {
+    const entries = results.map(result => ({
+      result,
+      mention: result.competitors.find(c => c.name === name) || { mentioned: false, position: null, stats: undefined },
+    }));
+    const mentioned = entries.filter(e => e.mention.mentioned);
+    const bothRanked = mentioned.filter(e => e.result.brandMentioned && e.result.position !== null && e.mention.position !== null);
+
+    const netByKeyword = new Map<string, number>();
+    entries.forEach(({ result, mention }) => {
+      netByKeyword.set(result.keyword, (netByKeyword.get(result.keyword) || 0) + compare(
+        { mentioned: result.brandMentioned, position: result.position },
+        mention
+      ));
+    });
+
+    return {
+      name,
+      weight: entries.reduce((acc, e) => acc + mentionWeight(e.mention.mentioned, e.mention.stats?.mentionRate), 0),
+      mentions: mentioned.length,
+      mentionRate: results.length > 0 ? mentioned.length / results.length : 0,
+      coMentionRate: mentioned.length > 0 ? mentioned.filter(e => e.result.brandMentioned).length / mentioned.length : 0,
+      averagePosition: mean(mentioned.map(e => e.mention.position).filter((p): p is number => p !== null)),
+      averageRankDelta: mean(bothRanked.map(e => e.mention.position! - e.result.position!)),
+      keywordsWon: keywords.filter(k => (netByKeyword.get(k) || 0) > 0),
+      keywordsLost: keywords.filter(k => (netByKeyword.get(k) || 0) < 0),
+      keywordsTied: keywords.filter(k => (netByKeyword.get(k) || 0) === 0),
+    };
+  });
+
+  const totalWeight = brandWeight + perCompetitor.reduce((acc, c) => acc + c.weight, 0);
+  const share = (weight: number) => (totalWeight > 0 ? round(weight / totalWeight)! : 0);
+  const brandMentions = results.filter(r => r.brandMentioned);
+
+  return {
+    summary: {
+      totalKeywords: keywords.length,
+      analyses: results.length,
+      engines: Array.from(new Set(results.map(r => r.provider))),
+      brand: {
+        name: brandName,
+        mentions: brandMentions.length,
+        mentionRate: results.length > 0 ? round(brandMentions.length / results.length)! : 0,
+        shareOfVoice: share(brandWeight),
+        averagePosition: round(mean(brandMentions.map(r => r.position).filter((p): p is number => p !== null)), 2),
+      },
+    },
+    competitors: perCompetitor
+      .map(({ weight, ...competitor }) => ({
+        ...competitor,
+        mentionRate: round(competitor.mentionRate)!,
+        shareOfVoice: share(weight),
+        coMentionRate: round(competitor.coMentionRate)!,
+        averagePosition: round(competitor.averagePosition, 2),
+        averageRankDelta: round(competitor.averageRankDelta, 2),
+      }))
+      .sort((a, b) => b.shareOfVoice - a.shareOfVoice),
+  };
+};
+
+export const parseCompetitorAnalysis = (value: unknown): CompetitorAnalysisResults | null => {
+  const record = value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+  if (!record || !record.summary || !Array.isArray(record.competitors)) return null;
+  return record as unknown as CompetitorAnalysisResults;
+};
@@ -0,0 +1,212 @@
+// Tabular exports of tracking results and trend history in CSV, XLSX and JSON.
+// Column lists are part of the contract with analysts' spreadsheets: append new columns, never reorder.
+
+import { BrandAnalysisResult } from './openai.ts';
+import { getEngineLabel } from './providers.ts';
+import { CellValue, buildXlsx } from './xlsx.ts';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  xlsx: {
+    label: 'Excel (XLSX)',
+    extension: 'xlsx',
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+};
+
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export const RESULT_EXPORT_COLUMNS = [
+  'report_id',
+  'report_type',
+  'timestamp',
+  'keyword',
+  'provider',
+  'model',
+  'engine',
+  'entity',
+  'entity_type',
+  'mentioned',
+  'position',
+  'rank_source',
+  'confidence',
+  'mention_rate',
+  'sample_count',
+  'sentiment_label',
+  'sentiment_score',
+  'context',
+] as const;
+
+export const TREND_EXPORT_COLUMNS = [
+  'snapshot_date',
+  'keyword',
+  'provider',
+  'entity',
+  'entity_type',
+  'position',
+  'mention_count',
+  'sample_count',
+  'mention_rate',
+  'sentiment_score',
+  'market_share',
+  'data_source',
+  'report_id',
+] as const;
+
+export type ExportRow<C extends string = string> = Record<C, CellValue>;
+
+export interface ExportTable<C extends string = string> {
+  // Identifies the column schema in JSON exports and names the XLSX sheet
+  name: string;
+  columns: readonly C[];
+  rows: ExportRow<C>[];
+}
+
+export interface ResultExportContext {
+  reportId?: string | null;
+  reportType?: string | null;
+  // When the answers were collected, usually the report's completion time
+  timestamp?: string | null;
+}
+
+// Minimal historical_snapshots row exported by the trends view
+export interface SnapshotExportRecord {
+  snapshot_date: string;
+  keyword: string;
+  provider: string | null;
+  competitor_name: string;
+  is_brand: boolean;
+  position: number | null;
+  mention_count: number;
+  sample_count: number;
+  sentiment_score: number | null;
+  market_share: number;
+  data_source: string;
+  report_id: string | null;
+}
+
+const round = (value: number | null | undefined, digits = 4): number | null =>
+  value === null || value === undefined || !Number.isFinite(value) ? null : Math.round(value * 10 ** digits) / 10 ** digits;
+
+// One row per answer and entity (brand first, then each competitor), the long format pivot tables expect.
+// Competitor names should already be resolved to the project's competitor list.
+export const resultExportTable = (
+  results: BrandAnalysisResult[],
+  brandName: string,
+  context: ResultExportContext = {}
+): ExportTable<typeof RESULT_EXPORT_COLUMNS[number]> => ({
+  name: 'tracking_results',
+  columns: RESULT_EXPORT_COLUMNS,
+  rows: results.flatMap(result => {
+    const shared = {
+      report_id: context.reportId ?? null,
+      report_type: context.reportType ?? null,
+      timestamp: context.timestamp ?? null,
+      keyword: result.keyword,
+      provider: result.provider,
+      model: result.model || null,
+      engine: getEngineLabel(result),
+    };
+
+    return [
+      {
+        ...shared,
+        entity: brandName,
+        entity_type: 'brand',
+        mentioned: result.brandMentioned,
+        position: result.position,
+        rank_source: result.rankSource ?? null,
+        confidence: round(result.confidence),
+        mention_rate: round(result.stats?.mentionRate ?? (result.brandMentioned ? 1 : 0)),
+        sample_count: result.stats?.sampleCount ?? 1,
+        sentiment_label: result.sentiment?.label ?? null,
+        sentiment_score: round(result.sentiment?.score),
+        context: result.context || null,
+      },
+      ...result.competitors.map(competitor => ({
+        ...shared,
+        entity: competitor.name,
+        entity_type: 'competitor',
+        mentioned: competitor.mentioned,
+        position: competitor.mentioned ? competitor.position : null,
+        rank_source: competitor.rankSource ?? null,
+        // Detection confidence is only scored for the brand
+        confidence: null,
+        mention_rate: round(competitor.stats?.mentionRate ?? (competitor.mentioned ? 1 : 0)),
+        sample_count: competitor.stats?.sampleCount ?? result.stats?.sampleCount ?? 1,
+        sentiment_label: competitor.sentiment?.label ?? null,
+        sentiment_score: round(competitor.sentiment?.score),
+        context: competitor.context || null,
+      })),
+    ];
+  }),
+});
+
+export const trendExportTable = (snapshots: SnapshotExportRecord[]): ExportTable<typeof TREND_EXPORT_COLUMNS[number]> => ({
+  name: 'trend_history',
+  columns: TREND_EXPORT_COLUMNS,
+  rows: snapshots.map(snapshot => ({
+    snapshot_date: snapshot.snapshot_date,
+    keyword: snapshot.keyword,
+    provider: snapshot.provider,
+    entity: snapshot.competitor_name,
+    entity_type: snapshot.is_brand ? 'brand' : 'competitor',
+    position: snapshot.position,
+    mention_count: snapshot.mention_count,
+    sample_count: snapshot.sample_count,
+    mention_rate: snapshot.sample_count > 0 ? round(Math.min(snapshot.mention_count, snapshot.sample_count) / snapshot.sample_count) : null,
+    sentiment_score: round(snapshot.sentiment_score),
+    market_share: round(snapshot.market_share),
+    data_source: snapshot.data_source,
+    report_id: snapshot.report_id,
+  })),
+});
+
+// Spreadsheets evaluate text starting with these as formulas, and LLM answers are untrusted input
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (value: CellValue) => {
+  if (value === null) return '';
+  if (typeof value !== 'string') return String(value);
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (table: ExportTable): string =>
+  [table.columns, ...table.rows.map(row => table.columns.map(column => row[column]))]
+    .map(cells => cells.map(csvCell).join(','))
+    .join('\r\n') + '\r\n';
+
+export const toJson = (table: ExportTable, exportedAt = new Date().toISOString()): string =>
+  JSON.stringify({
+    schema: table.name,
+    version: EXPORT_SCHEMA_VERSION,
+    exportedAt,
+    columns: table.columns,
+    rows: table.rows,
+  }, null, 2);
+
+export const toXlsx = (table: ExportTable): Uint8Array =>
+  buildXlsx([{
+    name: table.name,
+    columns: table.columns,
+    rows: table.rows.map(row => table.columns.map(column => row[column])),
+  }]);
+
+export const serializeExport = (table: ExportTable, format: ExportFormat): string | Uint8Array => {
+  switch (format) {
+    case 'csv':
+      // BOM so Excel opens UTF-8 text (brand names, answers) without mangling it
+      return `\uFEFF${toCsv(table)}`;
+    case 'xlsx':
+      return toXlsx(table);
+    case 'json':
+      return toJson(table);
+  }
+};
+
+export const exportFileName = (base: string, format: ExportFormat, date = new Date()) =>
+  `${base.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'export'}-${date.toISOString().slice(0, 10)}.${EXPORT_FORMATS[format].extension}`;
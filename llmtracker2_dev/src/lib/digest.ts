@@ -0,0 +1,319 @@
+// Email digests: what changed for each project over the digest period, and the email that reports it.
+// Built by the send-digests function; the frequencies and recipient parsing are shared with the settings page.
+
+import { isReportType, REPORT_TYPES } from './reportResults.ts';
+import { mean } from './statistics.ts';
+
+export type DigestFrequency = 'daily' | 'weekly' | 'monthly';
+
+export const DIGEST_FREQUENCIES: Record<DigestFrequency, { label: string; period: string }> = {
+  daily: { label: 'Daily', period: 'day' },
+  weekly: { label: 'Weekly', period: 'week' },
+  monthly: { label: 'Monthly', period: 'month' },
+};
+
+export const isDigestFrequency = (value: unknown): value is DigestFrequency =>
+  typeof value === 'string' && value in DIGEST_FREQUENCIES;
+
+export const MAX_DIGEST_RECIPIENTS = 20;
+// "Send now" is limited to one send per digest in this window, counting scheduled sends
+export const MANUAL_SEND_INTERVAL_MINUTES = 60;
+export const DIGEST_TOP_MOVERS = 5;
+// Mention-rate changes smaller than this are noise, not movement
+export const MIN_MOVER_CHANGE = 0.05;
+
+// Minimal historical_snapshots row the digest is computed from
+export interface DigestSnapshot {
+  keyword: string;
+  competitor_name: string;
+  is_brand: boolean;
+  position: number | null;
+  mention_count: number;
+  sample_count: number;
+}
+
+export interface DigestReport {
+  id: string;
+  report_type: string;
+  completed_at: string | null;
+  created_at: string;
+}
+
+export interface DigestProjectInput {
+  projectId: string;
+  projectName: string;
+  brandName: string;
+  current: DigestSnapshot[];
+  previous: DigestSnapshot[];
+  // Names from new_competitor anomalies above low severity detected during the period
+  anomalyCompetitors: string[];
+  reports: DigestReport[];
+}
+
+export interface DigestMetric {
+  current: number | null;
+  previous: number | null;
+}
+
+export interface DigestMover {
+  name: string;
+  isBrand: boolean;
+  // Brand movers are per keyword; competitor movers are across all keywords
+  keyword: string | null;
+  mentionRate: DigestMetric;
+  position: DigestMetric;
+  change: number;
+}
+
+export interface ProjectDigest {
+  projectId: string;
+  projectName: string;
+  brandName: string;
+  answers: number;
+  visibility: DigestMetric;
+  averagePosition: DigestMetric;
+  topMovers: DigestMover[];
+  newCompetitors: string[];
+  reports: { id: string; label: string; completedAt: string }[];
+}
+
+export interface Digest {
+  frequency: DigestFrequency;
+  periodStart: string;
+  periodEnd: string;
+  projects: ProjectDigest[];
+}
+
+export interface DigestEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// The digest covers the last day, week or month up to its send time
+export const digestPeriodStart = (frequency: DigestFrequency, end: Date): Date => {
+  const start = new Date(end);
+  if (frequency === 'daily') start.setUTCDate(start.getUTCDate() - 1);
+  if (frequency === 'weekly') start.setUTCDate(start.getUTCDate() - 7);
+  if (frequency === 'monthly') {
+    // Clamp to the month's last day so Mar 31 goes back to Feb 28, not Mar 3
+    const day = start.getUTCDate();
+    start.setUTCDate(1);
+    start.setUTCMonth(start.getUTCMonth() - 1);
+    start.setUTCDate(Math.min(day, new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 0)).getUTCDate()));
+  }
+  return start;
+};
+
+const mentionRate = (snapshots: DigestSnapshot[]): number | null => {
+  const samples = snapshots.reduce((acc, s) => acc + s.sample_count, 0);
+  if (samples === 0) return null;
+  return snapshots.reduce((acc, s) => acc + Math.min(s.mention_count, s.sample_count), 0) / samples;
+};
+
+const averagePosition = (snapshots: DigestSnapshot[]) =>
+  mean(snapshots.filter(s => s.mention_count > 0).map(s => s.position).filter((p): p is number => p !== null));
+
+const groupBy = (snapshots: DigestSnapshot[], key: (snapshot: DigestSnapshot) => string) => {
+  const groups = new Map<string, DigestSnapshot[]>();
+  snapshots.forEach(snapshot => {
+    const group = groups.get(key(snapshot));
+    if (group) group.push(snapshot);
+    else groups.set(key(snapshot), [snapshot]);
+  });
+  return groups;
+};
+
+const buildMovers = (input: DigestProjectInput): DigestMover[] => {
+  const brandKey = (s: DigestSnapshot) => s.keyword;
+  const currentBrand = groupBy(input.current.filter(s => s.is_brand), brandKey);
+  const previousBrand = groupBy(input.previous.filter(s => s.is_brand), brandKey);
+  const currentCompetitors = groupBy(input.current.filter(s => !s.is_brand), s => s.competitor_name);
+  const previousCompetitors = groupBy(input.previous.filter(s => !s.is_brand), s => s.competitor_name);
+
+  const mover = (name: string, isBrand: boolean, keyword: string | null, current: DigestSnapshot[], previous: DigestSnapshot[]) => {
+    const rate = { current: mentionRate(current), previous: mentionRate(previous) };
+    return {
+      name,
+      isBrand,
+      keyword,
+      mentionRate: rate,
+      position: { current: averagePosition(current), previous: averagePosition(previous) },
+      change: rate.current !== null && rate.previous !== null ? rate.current - rate.previous : 0,
+    };
+  };
+
+  // Only keywords and competitors observed in both periods can have moved
+  return [
+    ...Array.from(currentBrand.entries())
+      .filter(([keyword]) => previousBrand.has(keyword))
+      .map(([keyword, current]) => mover(input.brandName, true, keyword, current, previousBrand.get(keyword)!)),
+    ...Array.from(currentCompetitors.entries())
+      .filter(([name]) => previousCompetitors.has(name))
+      .map(([name, current]) => mover(name, false, null, current, previousCompetitors.get(name)!)),
+  ]
+    .filter(m => Math.abs(m.change) >= MIN_MOVER_CHANGE)
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change))
+    .slice(0, DIGEST_TOP_MOVERS);
+};
+
+export const buildProjectDigest = (input: DigestProjectInput): ProjectDigest => {
+  const brandCurrent = input.current.filter(s => s.is_brand);
+  const brandPrevious = input.previous.filter(s => s.is_brand);
+
+  const mentionedBefore = new Set(input.previous.filter(s => !s.is_brand && s.mention_count > 0).map(s => s.competitor_name));
+  const trackedNew = input.current
+    .filter(s => !s.is_brand && s.mention_count > 0 && !mentionedBefore.has(s.competitor_name))
+    .map(s => s.competitor_name);
+
+  return {
+    projectId: input.projectId,
+    projectName: input.projectName,
+    brandName: input.brandName,
+    answers: brandCurrent.reduce((acc, s) => acc + s.sample_count, 0),
+    visibility: { current: mentionRate(brandCurrent), previous: mentionRate(brandPrevious) },
+    averagePosition: { current: averagePosition(brandCurrent), previous: averagePosition(brandPrevious) },
+    topMovers: buildMovers(input),
+    newCompetitors: Array.from(new Set([...trackedNew, ...input.anomalyCompetitors]))
+      .filter(name => name !== input.brandName)
+      .sort((a, b) => a.localeCompare(b)),
+    reports: input.reports
+      .map(report => ({
+        id: report.id,
+        label: isReportType(report.report_type) ? REPORT_TYPES[report.report_type].label : report.report_type,
+        completedAt: report.completed_at || report.created_at,
+      }))
+      .sort((a, b) => b.completedAt.localeCompare(a.completedAt)),
+  };
+};
+
+const formatPercent = (value: number | null) => (value === null ? 'n/a' : `${Math.round(value * 100)}%`);
+
+const formatPoints = (change: number) => {
+  const points = Math.round(change * 100);
+  return `${points > 0 ? '+' : ''}${points} pts`;
+};
+
+const formatPosition = (value: number | null) => (value === null ? 'not ranked' : `#${value.toFixed(1)}`);
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const metricChange = (metric: DigestMetric) =>
+  metric.current !== null && metric.previous !== null ? metric.current - metric.previous : null;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const moverLabel = (m: DigestMover) => (m.keyword ? `${m.name} for "${m.keyword}"` : m.name);
+
+export const digestHasActivity = (digest: Digest) =>
+  digest.projects.some(p => p.answers > 0 || p.reports.length > 0);
+
+const projectText = (project: ProjectDigest, appUrl: string) => {
+  const visibilityChange = metricChange(project.visibility);
+  const lines = [
+    `${project.projectName} (${project.brandName})`,
+    `  Visibility: ${formatPercent(project.visibility.current)}${visibilityChange !== null ? ` (${formatPoints(visibilityChange)})` : ''} across ${project.answers} answers`,
+    `  Average position: ${formatPosition(project.averagePosition.current)} (previously ${formatPosition(project.averagePosition.previous)})`,
+  ];
+  if (project.topMovers.length > 0) {
+    lines.push('  Top movers:');
+    project.topMovers.forEach(m => lines.push(`    - ${moverLabel(m)}: ${formatPercent(m.mentionRate.previous)} -> ${formatPercent(m.mentionRate.current)} (${formatPoints(m.change)})`));
+  }
+  if (project.newCompetitors.length > 0) lines.push(`  New competitors: ${project.newCompetitors.join(', ')}`);
+  project.reports.slice(0, 3).forEach(r => lines.push(`  ${r.label} report, ${formatDate(r.completedAt)}: ${appUrl}/reports/${r.id}`));
+  return lines.join('\n');
+};
+
+const cell = 'padding:6px 8px;border-bottom:1px solid #eee;font-size:14px;';
+
+const projectHtml = (project: ProjectDigest, appUrl: string) => {
+  const visibilityChange = metricChange(project.visibility);
+  const changeColor = visibilityChange === null || visibilityChange === 0 ? '#666' : visibilityChange > 0 ? '#15803d' : '#b91c1c';
+
+  const movers = project.topMovers.length > 0
+    ? `<h3 style="font-size:15px;margin:16px 0 6px;">Top movers</h3>
+      <table style="border-collapse:collapse;width:100%;">
+        ${project.topMovers.map(m => `<tr>
+          <td style="${cell}">${escapeHtml(moverLabel(m))}</td>
+          <td style="${cell}text-align:right;">${formatPercent(m.mentionRate.previous)} &rarr; ${formatPercent(m.mentionRate.current)}</td>
+          <td style="${cell}text-align:right;color:${m.change > 0 ? '#15803d' : '#b91c1c'};">${formatPoints(m.change)}</td>
+        </tr>`).join('')}
+      </table>`
+    : '';
+
+  const competitors = project.newCompetitors.length > 0
+    ? `<p style="font-size:14px;margin:12px 0;"><strong>New competitor appearances:</strong> ${project.newCompetitors.map(escapeHtml).join(', ')}</p>`
+    : '';
+
+  const reports = project.reports.length > 0
+    ? `<p style="font-size:14px;margin:12px 0;">${project.reports.slice(0, 3).map(r =>
+      `<a href="${escapeHtml(`${appUrl}/reports/${r.id}`)}" style="color:#7c3bed;">${escapeHtml(r.label)} report, ${formatDate(r.completedAt)}</a>`
+    ).join('<br>')}</p>`
+    : '';
+
+  return `<div style="border:1px solid #e5e7eb;border-radius:8px;padding:16px;margin:16px 0;">
+    <h2 style="font-size:18px;margin:0 0 4px;">${escapeHtml(project.projectName)}</h2>
+    <p style="color:#666;font-size:13px;margin:0 0 12px;">${escapeHtml(project.brandName)} &middot; ${project.answers} answers analysed</p>
+    <table style="border-collapse:collapse;width:100%;">
+      <tr>
+        <td style="${cell}">Visibility</td>
+        <td style="${cell}text-align:right;font-weight:bold;">${formatPercent(project.visibility.current)}</td>
+        <td style="${cell}text-align:right;color:${changeColor};">${visibilityChange !== null ? formatPoints(visibilityChange) : 'n/a'}</td>
+      </tr>
+      <tr>
+        <td style="${cell}">Average position</td>
+        <td style="${cell}text-align:right;font-weight:bold;">${formatPosition(project.averagePosition.current)}</td>
+        <td style="${cell}text-align:right;color:#666;">was ${formatPosition(project.averagePosition.previous)}</td>
+      </tr>
+    </table>
+    ${movers}
+    ${competitors}
+    ${reports}
+  </div>`;
+};
+
+// Page where an extra recipient confirms leaving a digest; the signature is checked by send-digests
+export const digestUnsubscribeUrl = (appUrl: string, digestId: string, email: string, signature: string) =>
+  `${appUrl}/digests/unsubscribe?${new URLSearchParams({ digest: digestId, email, sig: signature })}`;
+
+// Extra recipients get their own copy with an unsubscribe link; the account owner manages digests in settings
+export const renderDigestEmail = (digest: Digest, appUrl: string, unsubscribeUrl?: string): DigestEmail => {
+  const { label, period } = DIGEST_FREQUENCIES[digest.frequency];
+  const range = `${formatDate(digest.periodStart)} - ${formatDate(digest.periodEnd)}`;
+  const [single] = digest.projects;
+  const headline = digest.projects.length === 1 && single.visibility.current !== null
+    ? `${single.brandName} visibility ${formatPercent(single.visibility.current)}`
+    : `${digest.projects.length} projects`;
+  const settingsUrl = `${appUrl}/settings`;
+
+  return {
+    subject: `${label} LLM Tracker digest: ${headline}`,
+    text: [
+      `${label} LLM Tracker digest, ${range}`,
+      `Changes are compared with the previous ${period}.`,
+      '',
+      ...digest.projects.map(project => `${projectText(project, appUrl)}\n`),
+      unsubscribeUrl ? `Unsubscribe: ${unsubscribeUrl}` : `Manage digests: ${settingsUrl}`,
+    ].join('\n'),
+    html: `<!DOCTYPE html><html><body style="font-family:Helvetica,Arial,sans-serif;color:#111;max-width:640px;margin:0 auto;padding:24px;">
+  <h1 style="font-size:22px;color:#7c3bed;margin:0;">LLM Tracker</h1>
+  <p style="color:#666;font-size:14px;margin:4px 0 0;">${label} digest &middot; ${range} &middot; compared with the previous ${period}</p>
+  ${digest.projects.map(project => projectHtml(project, appUrl)).join('')}
+  <p style="color:#999;font-size:12px;margin-top:24px;">${unsubscribeUrl
+    ? `You receive this digest because an LLM Tracker user added you as a recipient. <a href="${escapeHtml(unsubscribeUrl)}" style="color:#999;">Unsubscribe</a>.`
+    : `You receive this digest because it is enabled in <a href="${escapeHtml(settingsUrl)}" style="color:#999;">your LLM Tracker settings</a>.`}</p>
+</body></html>`,
+  };
+};
+
+// Comma, semicolon or whitespace separated addresses, de-duplicated; invalid entries are returned separately
+export const parseRecipients = (value: string): { valid: string[]; invalid: string[] } => {
+  const entries = value.split(/[\s,;]+/).map(entry => entry.trim().toLowerCase()).filter(Boolean);
+  const unique = Array.from(new Set(entries));
+  return {
+    valid: unique.filter(entry => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(entry)),
+    invalid: unique.filter(entry => !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(entry)),
+  };
+};
@@ -0,0 +1,208 @@
+// Alias-aware, accent- and case-insensitive matching of brand entities in free text.
+
+export interface EntityAliases {
+  aliases: string[];
+  products: string[];
+  domains: string[];
+  misspellings: string[];
+}
+
+export interface BrandEntity extends EntityAliases {
+  name: string;
+}
+
+// Stored in projects.entity_aliases; competitors are keyed by their name in projects.competitors
+export interface EntityAliasMap {
+  brand: EntityAliases;
+  competitors: Record<string, EntityAliases>;
+}
+
+export interface TermMatch {
+  index: number;
+  length: number;
+  term: string;
+}
+
+export interface EntityMatcher {
+  entity: BrandEntity;
+  find(text: string): TermMatch | null;
+  test(text: string): boolean;
+}
+
+export const EMPTY_ALIASES: EntityAliases = { aliases: [], products: [], domains: [], misspellings: [] };
+
+const ALIAS_FIELDS: (keyof EntityAliases)[] = ['aliases', 'products', 'domains', 'misspellings'];
+
+const asStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim().length > 0).map(v => v.trim()) : [];
+
+const parseAliases = (value: unknown): EntityAliases => {
+  const record = value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+  return {
+    aliases: asStringList(record.aliases),
+    products: asStringList(record.products),
+    domains: asStringList(record.domains),
+    misspellings: asStringList(record.misspellings),
+  };
+};
+
+export const parseEntityAliases = (value: unknown): EntityAliasMap => {
+  const record = value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+  const competitors = record.competitors && typeof record.competitors === 'object'
+    ? Object.fromEntries(Object.entries(record.competitors as Record<string, unknown>).map(([name, aliases]) => [name, parseAliases(aliases)]))
+    : {};
+
+  return { brand: parseAliases(record.brand), competitors };
+};
+
+export const buildEntities = (brandName: string, competitors: string[], aliasMap?: EntityAliasMap): BrandEntity[] => [
+  { name: brandName, ...(aliasMap?.brand || EMPTY_ALIASES) },
+  ...competitors.map(name => ({ name, ...(aliasMap?.competitors[name] || EMPTY_ALIASES) })),
+];
+
+// Lowercases and strips diacritics, keeping a map back to offsets in the original text
+const normalizeWithOffsets = (text: string): { normalized: string; offsets: number[] } => {
+  let normalized = '';
+  const offsets: number[] = [];
+  let index = 0;
+
+  for (const char of text) {
+    const folded = char.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+    for (let i = 0; i < folded.length; i++) {
+      offsets.push(index);
+    }
+    normalized += folded;
+    index += char.length;
+  }
+  offsets.push(text.length);
+
+  return { normalized, offsets };
+};
+
+export const normalizeText = (text: string): string => normalizeWithOffsets(text).normalized.replace(/\s+/g, ' ').trim();
+
+const domainStem = (domain: string): string | null => {
+  const host = domain.replace(/^https?:\/\//i, '').replace(/^www\./i, '').split('/')[0];
+  const parts = host.split('.');
+  return parts.length >= 2 ? parts.slice(0, -1).join('.') : null;
+};
+
+const looksLikeDomain = (value: string) => /^(https?:\/\/)?(www\.)?[\p{L}\p{N}-]+(\.[\p{L}\p{N}-]+)+\/?$/iu.test(value.trim());
+
+export const normalizeDomain = (value: string): string =>
+  value.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').split(/[/?#]/)[0].replace(/\.$/, '');
+
+// Hostnames that belong to an entity, from its domain list or a name like "acme.com"
+export const entityDomains = (entity: BrandEntity): string[] =>
+  Array.from(new Set([...entity.domains, ...(looksLikeDomain(entity.name) ? [entity.name] : [])].map(normalizeDomain)))
+    .filter(domain => domain.includes('.'));
+
+export const entityTerms = (entity: BrandEntity): string[] => {
+  const terms = [entity.name, ...ALIAS_FIELDS.flatMap(field => entity[field])];
+
+  // "hubspot.com" should also match plain "HubSpot"
+  const stems = [...entity.domains, ...(looksLikeDomain(entity.name) ? [entity.name] : [])]
+    .map(domainStem)
+    .filter((stem): stem is string => !!stem && stem.length >= 3);
+
+  return Array.from(new Set([...terms, ...stems].map(normalizeText).filter(term => term.length > 0)));
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const termPattern = (term: string) =>
+  escapeRegExp(term).replace(/\\?[\s-]+/g, '[\\s\\-]+');
+
+const TOKEN = /[\p{L}\p{N}]+(?:[.'’&][\p{L}\p{N}]+)*/gu;
+
+export const createEntityMatcher = (entity: BrandEntity): EntityMatcher => {
+  const terms = entityTerms(entity);
+  const exact = terms.map(term => new RegExp(`(?<![\\p{L}\\p{N}])${termPattern(term)}(?![\\p{L}\\p{N}])`, 'u'));
+  // Typos only match when listed as misspellings: generic fuzzy matching turns ordinary words
+  // ("motion", "stack") into mentions of similar brand names
+  const joinedTerms = terms.map(term => ({ term, compact: term.replace(/[\s-]+/g, ''), words: term.split(/[\s-]+/).length }));
+
+  const find = (text: string): TermMatch | null => {
+    const { normalized, offsets } = normalizeWithOffsets(text);
+    let best: { start: number; end: number; term: string } | null = null;
+    const consider = (start: number, end: number, term: string) => {
+      if (!best || start < best.start) best = { start, end, term };
+    };
+
+    exact.forEach((pattern, i) => {
+      const match = pattern.exec(normalized);
+      if (match) consider(match.index, match.index + match[0].length, terms[i]);
+    });
+
+    // A term written with one more word break, such as "Hub Spot" for HubSpot
+    const tokens = Array.from(normalized.matchAll(TOKEN)).map(m => ({ start: m.index!, end: m.index! + m[0].length, text: m[0] }));
+    for (const { term, compact, words } of joinedTerms) {
+      for (let i = 0; i + words + 1 <= tokens.length; i++) {
+        if (best && tokens[i].start >= best.start) break;
+        const window = tokens.slice(i, i + words + 1);
+        if (window.map(t => t.text).join('') === compact) {
+          consider(window[0].start, window[window.length - 1].end, term);
+          break;
+        }
+      }
+    }
+
+    if (!best) return null;
+    const { start, end, term } = best;
+    return { index: offsets[start], length: offsets[end] - offsets[start], term };
+  };
+
+  return {
+    entity,
+    find,
+    test: (text: string) => find(text) !== null,
+  };
+};
+
+// Maps a free-form name (e.g. one written by a model in an older report) to a tracked entity
+export const resolveEntityName = (name: string, matchers: EntityMatcher[]): string => {
+  const normalized = normalizeText(name);
+  const direct = matchers.find(m => normalizeText(m.entity.name) === normalized);
+  if (direct) return direct.entity.name;
+
+  const matched = matchers.find(m => m.test(name));
+  return matched ? matched.entity.name : name;
+};
+
+interface MentionLike {
+  name: string;
+  mentioned: boolean;
+  position: number | null;
+  context: string;
+}
+
+// Folds mentions that refer to the same entity into one, keeping the best rank
+export const canonicalizeMentions = <T extends MentionLike>(mentions: T[], matchers: EntityMatcher[]): T[] => {
+  const merged = new Map<string, T>();
+
+  mentions.forEach(mention => {
+    const name = resolveEntityName(mention.name, matchers);
+    const existing = merged.get(name);
+
+    if (!existing) {
+      merged.set(name, { ...mention, name });
+      return;
+    }
+
+    const positions = [existing.position, mention.position].filter((p): p is number => p !== null);
+    merged.set(name, {
+      ...existing,
+      mentioned: existing.mentioned || mention.mentioned,
+      position: positions.length > 0 ? Math.min(...positions) : null,
+      context: existing.context || mention.context,
+    });
+  });
+
+  return Array.from(merged.values());
+};
+
+export const canonicalizeResults = <T extends { competitors: MentionLike[] }>(results: T[], competitors: BrandEntity[]): T[] => {
+  if (competitors.length === 0) return results;
+  const matchers = competitors.map(createEntityMatcher);
+  return results.map(result => ({ ...result, competitors: canonicalizeMentions(result.competitors, matchers) }));
+};
@@ -1,248 +1,394 @@
 import { supabase } from '@/integrations/supabase/client';
-import { HistoricalSnapshot, TrendCalculation, TrackingSchedule, CompetitorTrendData } from '@/types/historical';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  HistoricalSnapshot,
+  TrendCalculation,
+  TrackingSchedule,
+  CompetitorTrendData,
+  DataRetentionPolicy,
+  HistoricalDataPoint,
+  TimeRange,
+} from '@/types/historical';
+import { BrandAnalysisResult } from '@/lib/openai';
+import { buildSnapshots, SnapshotContext, SnapshotRow } from '@/lib/snapshotBuilder';
+import { computeNextRun, ScheduleFrequency, SchedulePriority } from '@/lib/schedules';
+import { mean } from '@/lib/statistics';
+import { computeTrends } from '@/lib/trendEngine';
+import { ShareObservation } from '@/lib/shareOfVoice';
+import { SnapshotExportRecord } from '@/lib/dataExport';
+
+const TIME_RANGE_DAYS: Record<TimeRange, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  '1y': 365
+};
+
+// PostgREST caps a single response, so history is read in pages
+const PAGE_SIZE = 1000;
+
+type SnapshotPoint = Pick<
+  HistoricalSnapshot,
+  'competitor_name' | 'is_brand' | 'position' | 'mention_count' | 'sample_count' | 'sentiment_score' | 'market_share' | 'snapshot_date'
+>;
 
 export class HistoricalTrackingService {
   // Create historical snapshot from API response
   static async createSnapshot(data: {
     projectId: string;
-    keywordId: string;
+    keywordId: string | null;
+    keyword: string;
     competitorName: string;
-    position: number;
+    isBrand?: boolean;
+    position: number | null;
     mentionCount: number;
-    sentimentScore: number;
+    sentimentScore: number | null;
     marketShare: number;
     dataSource: 'api_response' | 'manual' | 'scheduled';
-    metadata?: Record<string, any>;
+    reportId?: string;
+    apiResponseId?: string;
+    provider?: string;
+    metadata?: Record<string, unknown>;
   }): Promise<HistoricalSnapshot> {
-    const snapshot: Omit<HistoricalSnapshot, 'id' | 'created_at'> = {
-      project_id: data.projectId,
-      keyword_id: data.keywordId,
-      competitor_name: data.competitorName,
-      position: data.position,
-      mention_count: data.mentionCount,
-      sentiment_score: data.sentimentScore,
-      market_share: data.marketShare,
-      snapshot_date: new Date().toISOString(),
-      data_source: data.dataSource,
-      metadata: data.metadata || {}
-    };
+    const { data: snapshot, error } = await supabase
+      .from('historical_snapshots')
+      .insert({
+        project_id: data.projectId,
+        keyword_id: data.keywordId,
+        keyword: data.keyword,
+        competitor_name: data.competitorName,
+        is_brand: data.isBrand ?? false,
+        position: data.position,
+        mention_count: data.mentionCount,
+        sentiment_score: data.sentimentScore,
+        market_share: data.marketShare,
+        data_source: data.dataSource,
+        report_id: data.reportId ?? null,
+        api_response_id: data.apiResponseId ?? null,
+        provider: data.provider ?? null,
+        metadata: (data.metadata || {}) as Json
+      })
+      .select()
+      .single();
 
-    // In a real implementation, this would insert into the historical_snapshots table
-    // For demo purposes, we'll simulate the creation
-    const createdSnapshot: HistoricalSnapshot = {
-      ...snapshot,
-      id: `snapshot_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      created_at: new Date().toISOString()
-    };
+    if (error) throw error;
+    return snapshot as HistoricalSnapshot;
+  }
+
+  // Write one snapshot per tracked entity for an analysed answer; existing ones are left untouched
+  static async createSnapshotsFromResult(
+    result: BrandAnalysisResult,
+    context: SnapshotContext
+  ): Promise<number> {
+    return this.saveSnapshots(buildSnapshots(result, context));
+  }
+
+  // Returns how many rows were new. Rows tied to an api_response are skipped when already stored.
+  static async saveSnapshots(rows: SnapshotRow[]): Promise<number> {
+    if (rows.length === 0) return 0;
 
-    return createdSnapshot;
+    const { data, error } = await supabase
+      .from('historical_snapshots')
+      .upsert(rows.map(row => ({ ...row, metadata: row.metadata as Json })), {
+        onConflict: 'api_response_id,competitor_name',
+        ignoreDuplicates: true
+      })
+      .select('id');
+
+    if (error) throw error;
+    return data?.length || 0;
+  }
+
+  static getRangeStart(timeRange: TimeRange): Date {
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - TIME_RANGE_DAYS[timeRange]);
+    return startDate;
   }
 
   // Get historical data for trend analysis
   static async getHistoricalData(
     projectId: string,
     keywordId?: string,
-    timeRange: '7d' | '30d' | '90d' | '1y' = '30d',
+    timeRange: TimeRange = '30d',
     competitors?: string[]
   ): Promise<CompetitorTrendData[]> {
-    const days = {
-      '7d': 7,
-      '30d': 30,
-      '90d': 90,
-      '1y': 365
-    };
+    const startDate = this.getRangeStart(timeRange);
 
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - days[timeRange]);
-
-    // In a real implementation, this would query the historical_snapshots table
-    // For demo purposes, we'll generate sample data
-    const sampleCompetitors = competitors || ['Competitor A', 'Competitor B', 'Competitor C'];
-    
-    return sampleCompetitors.map((competitor, index) => {
-      const data = this.generateSampleHistoricalData(startDate, new Date(), competitor, index);
-      const currentPosition = data[data.length - 1]?.position || 1;
-      const previousPosition = data[data.length - 8]?.position || currentPosition;
-      const positionChange = previousPosition - currentPosition; // Negative means improvement
-      
-      return {
-        competitor,
-        data,
-        currentPosition,
-        positionChange,
-        trendDirection: positionChange > 0 ? 'up' : positionChange < 0 ? 'down' : 'stable'
-      };
+    const snapshots: SnapshotPoint[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabase
+        .from('historical_snapshots')
+        .select('competitor_name, is_brand, position, mention_count, sample_count, sentiment_score, market_share, snapshot_date')
+        .eq('project_id', projectId)
+        .gte('snapshot_date', startDate.toISOString())
+        .order('snapshot_date', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (keywordId) query = query.eq('keyword_id', keywordId);
+      if (competitors && competitors.length > 0) query = query.in('competitor_name', competitors);
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      snapshots.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    const byCompetitor = new Map<string, { isBrand: boolean; snapshots: SnapshotPoint[] }>();
+    snapshots.forEach(snapshot => {
+      const entry = byCompetitor.get(snapshot.competitor_name) || { isBrand: snapshot.is_brand, snapshots: [] };
+      entry.snapshots.push(snapshot);
+      byCompetitor.set(snapshot.competitor_name, entry);
     });
+
+    return Array.from(byCompetitor.entries())
+      .sort(([, a], [, b]) => Number(b.isBrand) - Number(a.isBrand))
+      .map(([competitor, entry]) => {
+        const data = this.aggregateByDay(competitor, entry.snapshots);
+        const ranked = data.filter(d => d.position !== null);
+        const currentPosition = ranked[ranked.length - 1]?.position ?? null;
+        const previousPosition = ranked[Math.max(0, ranked.length - 8)]?.position ?? currentPosition;
+        const positionChange = currentPosition !== null && previousPosition !== null
+          ? previousPosition - currentPosition // Positive means improvement
+          : 0;
+
+        return {
+          competitor,
+          isBrand: entry.isBrand,
+          data,
+          currentPosition,
+          positionChange,
+          trendDirection: positionChange > 0 ? 'up' : positionChange < 0 ? 'down' : 'stable'
+        };
+      });
+  }
+
+  // Snapshots with their keyword's priority and group, for share-of-voice weighting
+  static async getShareOfVoiceData(projectId: string, timeRange: TimeRange = '30d'): Promise<ShareObservation[]> {
+    const startDate = this.getRangeStart(timeRange);
+
+    const observations: ShareObservation[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('historical_snapshots')
+        .select('snapshot_date, provider, keyword_id, competitor_name, is_brand, position, mention_count, sample_count, keywords(priority, keyword_group)')
+        .eq('project_id', projectId)
+        .gte('snapshot_date', startDate.toISOString())
+        .order('snapshot_date', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      (data || []).forEach(row => observations.push({
+        date: row.snapshot_date,
+        provider: row.provider,
+        keywordId: row.keyword_id,
+        keywordGroup: row.keywords?.keyword_group ?? null,
+        priority: row.keywords?.priority ?? null,
+        competitor: row.competitor_name,
+        isBrand: row.is_brand,
+        position: row.position,
+        mentionCount: row.mention_count,
+        sampleCount: row.sample_count
+      }));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return observations;
+  }
+
+  // Raw snapshot rows for the trends export, oldest first
+  static async getSnapshotExport(
+    projectId: string,
+    keywordId?: string,
+    timeRange: TimeRange = '30d'
+  ): Promise<SnapshotExportRecord[]> {
+    const startDate = this.getRangeStart(timeRange);
+
+    const rows: SnapshotExportRecord[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabase
+        .from('historical_snapshots')
+        .select('snapshot_date, keyword, provider, competitor_name, is_brand, position, mention_count, sample_count, sentiment_score, market_share, data_source, report_id')
+        .eq('project_id', projectId)
+        .gte('snapshot_date', startDate.toISOString())
+        .order('snapshot_date', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (keywordId) query = query.eq('keyword_id', keywordId);
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      rows.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return rows;
   }
 
   // Calculate trend metrics
   static async calculateTrendMetrics(
     projectId: string,
-    keywordId: string,
+    keywordId: string | null,
     competitorName: string,
     timeRange: '7d' | '30d' | '90d' = '30d'
   ): Promise<TrendCalculation[]> {
     // Get historical data for calculations
-    const historicalData = await this.getHistoricalData(projectId, keywordId, timeRange, [competitorName]);
+    const historicalData = await this.getHistoricalData(projectId, keywordId ?? undefined, timeRange, [competitorName]);
     const competitorData = historicalData[0];
 
-    if (!competitorData || competitorData.data.length < 2) {
+    if (!competitorData) {
       return [];
     }
 
-    const trends: Omit<TrendCalculation, 'id' | 'created_at'>[] = [
-      {
-        project_id: projectId,
-        keyword_id: keywordId,
-        competitor_name: competitorName,
-        metric_type: 'position_velocity',
-        time_period: timeRange === '7d' ? 'daily' : timeRange === '30d' ? 'weekly' : 'monthly',
-        trend_value: this.calculatePositionVelocity(competitorData.data),
-        confidence_score: 0.85,
-        calculation_date: new Date().toISOString(),
-        raw_data: { dataPoints: competitorData.data.length }
-      },
-      {
-        project_id: projectId,
-        keyword_id: keywordId,
-        competitor_name: competitorName,
-        metric_type: 'mention_trend',
-        time_period: timeRange === '7d' ? 'daily' : timeRange === '30d' ? 'weekly' : 'monthly',
-        trend_value: this.calculateMentionTrend(competitorData.data),
-        confidence_score: 0.78,
-        calculation_date: new Date().toISOString(),
-        raw_data: { averageMentions: competitorData.data.reduce((sum, d) => sum + d.mentions, 0) / competitorData.data.length }
-      },
-      {
-        project_id: projectId,
-        keyword_id: keywordId,
-        competitor_name: competitorName,
-        metric_type: 'sentiment_trend',
-        time_period: timeRange === '7d' ? 'daily' : timeRange === '30d' ? 'weekly' : 'monthly',
-        trend_value: this.calculateSentimentTrend(competitorData.data),
-        confidence_score: 0.82,
-        calculation_date: new Date().toISOString(),
-        raw_data: { averageSentiment: competitorData.data.reduce((sum, d) => sum + d.sentiment, 0) / competitorData.data.length }
-      }
-    ];
-
-    // In real implementation, save to trend_calculations table
-    return trends.map((trend, index) => ({
-      ...trend,
-      id: `trend_${Date.now()}_${index}`,
-      created_at: new Date().toISOString()
+    // Metrics with too few daily points are skipped by the engine
+    const results = computeTrends(competitorData.data);
+    if (results.length === 0) {
+      return [];
+    }
+
+    const timePeriod = timeRange === '7d' ? 'daily' : timeRange === '30d' ? 'weekly' : 'monthly';
+    const calculationDate = new Date().toISOString();
+    const dayStart = `${calculationDate.slice(0, 10)}T00:00:00.000Z`;
+
+    const trends = results.map(result => ({
+      project_id: projectId,
+      keyword_id: keywordId,
+      competitor_name: competitorName,
+      metric_type: result.metric,
+      time_period: timePeriod,
+      trend_value: result.value,
+      confidence_score: result.confidence,
+      calculation_date: calculationDate,
+      raw_data: result.rawData as Json
     }));
+
+    // Recalculating on the same day replaces that day's values instead of adding another set
+    let staleQuery = supabase
+      .from('trend_calculations')
+      .delete()
+      .eq('project_id', projectId)
+      .eq('competitor_name', competitorName)
+      .eq('time_period', timePeriod)
+      .in('metric_type', trends.map(trend => trend.metric_type))
+      .gte('calculation_date', dayStart);
+    staleQuery = keywordId ? staleQuery.eq('keyword_id', keywordId) : staleQuery.is('keyword_id', null);
+
+    const { error: staleError } = await staleQuery;
+    if (staleError) throw staleError;
+
+    const { data, error } = await supabase
+      .from('trend_calculations')
+      .insert(trends)
+      .select();
+
+    if (error) throw error;
+    return (data || []) as TrendCalculation[];
   }
 
-  // Setup tracking schedule for a keyword
+  // Setup tracking schedule for a keyword, or for the whole project when keywordId is null
   static async setupTrackingSchedule(
     projectId: string,
-    keywordId: string,
-    frequency: 'daily' | 'weekly' | 'monthly' | 'on_demand',
-    priority: 'high' | 'medium' | 'low' = 'medium'
+    keywordId: string | null,
+    frequency: ScheduleFrequency,
+    priority: SchedulePriority = 'medium'
   ): Promise<TrackingSchedule> {
-    const now = new Date();
-    const nextRun = new Date(now);
-
-    // Calculate next run time based on frequency
-    switch (frequency) {
-      case 'daily':
-        nextRun.setHours(9, 0, 0, 0); // 9 AM daily
-        if (nextRun <= now) nextRun.setDate(nextRun.getDate() + 1);
-        break;
-      case 'weekly':
-        nextRun.setDate(nextRun.getDate() + (7 - nextRun.getDay())); // Next Sunday
-        nextRun.setHours(9, 0, 0, 0);
-        break;
-      case 'monthly':
-        nextRun.setMonth(nextRun.getMonth() + 1, 1); // First of next month
-        nextRun.setHours(9, 0, 0, 0);
-        break;
-      case 'on_demand':
-        nextRun.setFullYear(2099); // Far future for on-demand
-        break;
-    }
+    const nextRun = computeNextRun(frequency);
+
+    let existingQuery = supabase
+      .from('tracking_schedules')
+      .select('id')
+      .eq('project_id', projectId);
+    existingQuery = keywordId ? existingQuery.eq('keyword_id', keywordId) : existingQuery.is('keyword_id', null);
 
-    const schedule: TrackingSchedule = {
-      id: `schedule_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    const { data: existing, error: existingError } = await existingQuery.maybeSingle();
+    if (existingError) throw existingError;
+
+    const values = {
       project_id: projectId,
       keyword_id: keywordId,
       frequency,
       priority,
-      last_run: now.toISOString(),
       next_run: nextRun.toISOString(),
-      is_active: true,
-      created_at: now.toISOString(),
-      updated_at: now.toISOString()
+      is_active: true
     };
 
-    // In real implementation, save to tracking_schedules table
-    return schedule;
+    const { data, error } = existing
+      ? await supabase.from('tracking_schedules').update(values).eq('id', existing.id).select().single()
+      : await supabase.from('tracking_schedules').insert(values).select().single();
+
+    if (error) throw error;
+    return data as TrackingSchedule;
   }
 
-  // Helper methods for trend calculations
-  private static calculatePositionVelocity(data: any[]): number {
-    if (data.length < 2) return 0;
-    
-    const recent = data.slice(-7); // Last 7 data points
-    const older = data.slice(-14, -7); // Previous 7 data points
-    
-    const recentAvg = recent.reduce((sum, d) => sum + d.position, 0) / recent.length;
-    const olderAvg = older.reduce((sum, d) => sum + d.position, 0) / older.length;
-    
-    return olderAvg - recentAvg; // Positive means improvement (lower position number)
+  static async getTrackingSchedules(projectId: string): Promise<TrackingSchedule[]> {
+    const { data, error } = await supabase
+      .from('tracking_schedules')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('next_run', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as TrackingSchedule[];
   }
 
-  private static calculateMentionTrend(data: any[]): number {
-    if (data.length < 2) return 0;
-    
-    const recent = data.slice(-7);
-    const older = data.slice(-14, -7);
-    
-    const recentAvg = recent.reduce((sum, d) => sum + d.mentions, 0) / recent.length;
-    const olderAvg = older.reduce((sum, d) => sum + d.mentions, 0) / older.length;
-    
-    return ((recentAvg - olderAvg) / olderAvg) * 100; // Percentage change
+  static async getRetentionPolicies(projectId: string): Promise<DataRetentionPolicy[]> {
+    const { data, error } = await supabase
+      .from('data_retention_policies')
+      .select('*')
+      .eq('project_id', projectId);
+
+    if (error) throw error;
+    return (data || []) as DataRetentionPolicy[];
   }
 
-  private static calculateSentimentTrend(data: any[]): number {
-    if (data.length < 2) return 0;
-    
-    const recent = data.slice(-7);
-    const older = data.slice(-14, -7);
-    
-    const recentAvg = recent.reduce((sum, d) => sum + d.sentiment, 0) / recent.length;
-    const olderAvg = older.reduce((sum, d) => sum + d.sentiment, 0) / older.length;
-    
-    return recentAvg - olderAvg; // Direct sentiment difference
+  static async setRetentionPolicy(
+    projectId: string,
+    dataType: DataRetentionPolicy['data_type'],
+    retentionDays: number,
+    options: { compressionEnabled?: boolean; archiveAfterDays?: number | null } = {}
+  ): Promise<DataRetentionPolicy> {
+    const { data, error } = await supabase
+      .from('data_retention_policies')
+      .upsert({
+        project_id: projectId,
+        data_type: dataType,
+        retention_days: retentionDays,
+        compression_enabled: options.compressionEnabled ?? false,
+        archive_after_days: options.archiveAfterDays ?? null
+      }, { onConflict: 'project_id,data_type' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as DataRetentionPolicy;
   }
 
-  // Generate sample data for demo purposes
-  private static generateSampleHistoricalData(startDate: Date, endDate: Date, competitor: string, index: number) {
-    const data = [];
-    const current = new Date(startDate);
-    const basePosition = 3 + index; // Start at different positions
-    const baseMentions = 50 + (index * 20);
-    const baseSentiment = 0.6 + (index * 0.1);
-
-    while (current <= endDate) {
-      // Add some realistic variation
-      const dayOffset = (current.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24);
-      const positionVariation = Math.sin(dayOffset * 0.1) * 2 + Math.random() * 2 - 1;
-      const mentionVariation = Math.sin(dayOffset * 0.15) * 10 + Math.random() * 20 - 10;
-      const sentimentVariation = Math.sin(dayOffset * 0.08) * 0.1 + Math.random() * 0.2 - 0.1;
-
-      data.push({
-        date: current.toISOString().split('T')[0],
-        position: Math.max(1, Math.round(basePosition + positionVariation)),
-        mentions: Math.max(0, Math.round(baseMentions + mentionVariation)),
-        sentiment: Math.max(0, Math.min(1, baseSentiment + sentimentVariation)),
-        competitor
-      });
+  // One data point per day: average rank where ranked, total mentions and samples, average sentiment and share
+  private static aggregateByDay(competitor: string, snapshots: SnapshotPoint[]): HistoricalDataPoint[] {
+    const days = new Map<string, SnapshotPoint[]>();
+    snapshots.forEach(snapshot => {
+      const day = snapshot.snapshot_date.split('T')[0];
+      days.set(day, [...(days.get(day) || []), snapshot]);
+    });
 
-      current.setDate(current.getDate() + 1);
-    }
+    return Array.from(days.entries()).map(([date, daySnapshots]) => {
+      const position = mean(daySnapshots.map(s => s.position).filter((p): p is number => p !== null));
+      const sentiment = mean(daySnapshots.map(s => s.sentiment_score).filter((s): s is number => s !== null));
 
-    return data;
+      return {
+        date,
+        position: position === null ? null : Math.round(position * 100) / 100,
+        mentions: daySnapshots.reduce((sum, s) => sum + s.mention_count, 0),
+        samples: daySnapshots.reduce((sum, s) => sum + s.sample_count, 0),
+        sentiment,
+        marketShare: mean(daySnapshots.map(s => Number(s.market_share))),
+        competitor
+      };
+    });
   }
-}
\ No newline at end of file
+}
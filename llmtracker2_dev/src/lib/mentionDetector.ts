@@ -0,0 +1,216 @@
+// Deterministic mention and rank detection over a plain assistant answer.
+// The model is never asked about the brands; everything here is derived from the answer text.
+
+import { BrandEntity, createEntityMatcher } from './entityMatcher.ts';
+
+export type RankSource = 'numbered' | 'heading' | 'bold' | 'bulleted' | 'appearance';
+
+export interface AnswerItem {
+  lead: string;
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface AnswerStructure {
+  source: Exclude<RankSource, 'appearance'> | null;
+  items: AnswerItem[];
+}
+
+export interface EntityDetection {
+  name: string;
+  mentioned: boolean;
+  position: number | null;
+  rankSource: RankSource | null;
+  context: string;
+}
+
+const CONTEXT_RADIUS = 150;
+const MAX_CONTEXT_LENGTH = 400;
+
+// The prompt deliberately reads like a real user and never names the tracked brands
+export const buildUserPrompt = (keyword: string): string =>
+  `I'm researching ${keyword}. Which brands, products or services would you recommend, and why?`;
+
+const stripMarkdown = (value: string) =>
+  value.replace(/[*_`#>]/g, '').replace(/\[([^\]]+)\]\([^)]*\)/g, '$1').replace(/\s+/g, ' ').trim();
+
+interface Line {
+  text: string;
+  start: number;
+}
+
+const splitLines = (content: string): Line[] => {
+  const lines: Line[] = [];
+  let start = 0;
+  for (const text of content.split('\n')) {
+    lines.push({ text, start });
+    start += text.length + 1;
+  }
+  return lines;
+};
+
+const NUMBERED = /^(\s*)\d{1,2}[.)]\s+(.+)$/;
+const BULLETED = /^(\s*)[-*•+]\s+(.+)$/;
+const HEADING = /^(#{1,6})\s+(.+)$/;
+const BOLD_LINE = /^\*\*(.+?)\*\*/;
+
+interface Candidate {
+  line: Line;
+  body: string;
+  group: string;
+}
+
+// Only top-level list items count; nested bullets are details of their parent item
+const topLevel = (candidates: (Candidate & { indent: number })[]): Candidate[] => {
+  if (candidates.length === 0) return [];
+  const minIndent = Math.min(...candidates.map(c => c.indent));
+  return candidates.filter(c => c.indent === minIndent);
+};
+
+const findLead = (rawBody: string): string => {
+  const body = rawBody.replace(/^\d{1,2}[.)]\s*/, '');
+  const bold = body.match(/\*\*(.+?)\*\*|__(.+?)__/);
+  if (bold) return stripMarkdown(bold[1] || bold[2]);
+
+  const plain = stripMarkdown(body);
+  const separator = plain.search(/:|\s[-–—]\s/);
+  return (separator > 0 ? plain.slice(0, separator) : plain).slice(0, 80).trim();
+};
+
+export const parseAnswerStructure = (content: string): AnswerStructure => {
+  const lines = splitLines(content);
+  const numbered: (Candidate & { indent: number })[] = [];
+  const bulleted: (Candidate & { indent: number })[] = [];
+  const headings: Candidate[] = [];
+  const boldLines: Candidate[] = [];
+
+  for (const line of lines) {
+    let match: RegExpMatchArray | null;
+    if ((match = line.text.match(NUMBERED))) {
+      numbered.push({ line, body: match[2], group: 'numbered', indent: match[1].length });
+    } else if ((match = line.text.match(HEADING))) {
+      headings.push({ line, body: match[2], group: `h${match[1].length}` });
+    } else if ((match = line.text.match(BULLETED))) {
+      bulleted.push({ line, body: match[2], group: 'bulleted', indent: match[1].length });
+    } else if (BOLD_LINE.test(line.text)) {
+      boldLines.push({ line, body: line.text, group: 'bold' });
+    }
+  }
+
+  // Headings only enumerate options when a level repeats; a single title heading is ignored
+  const headingLevels = new Map<string, Candidate[]>();
+  headings.forEach(h => headingLevels.set(h.group, [...(headingLevels.get(h.group) || []), h]));
+  const repeatedHeadings = Array.from(headingLevels.values())
+    .filter(level => level.length >= 2)
+    .sort((a, b) => b.length - a.length)[0] || [];
+
+  const structures: [AnswerStructure['source'], Candidate[]][] = [
+    ['numbered', topLevel(numbered)],
+    ['heading', repeatedHeadings],
+    ['bold', boldLines],
+    ['bulleted', topLevel(bulleted)],
+  ];
+  const [source, candidates] = structures.find(([, items]) => items.length >= 2) || [null, []];
+  if (!source) return { source: null, items: [] };
+
+  // An item runs until the next item or the next heading that is not itself an item
+  const boundaries = new Set(candidates.map(c => c.line.start));
+  headings.forEach(h => boundaries.add(h.line.start));
+  const sortedBoundaries = Array.from(boundaries).sort((a, b) => a - b);
+
+  const items = candidates.map(candidate => {
+    const start = candidate.line.start;
+    const end = sortedBoundaries.find(b => b > start) ?? content.length;
+    return {
+      lead: findLead(candidate.body),
+      text: content.slice(start, end).trim(),
+      start,
+      end,
+    };
+  });
+
+  return { source, items };
+};
+
+const SENTENCE_BREAK = /[.!?](?=\s)|\n/g;
+
+// The sentence around a mention, at most CONTEXT_RADIUS either side of it. Sentiment is read from
+// the context, so it must not reach into the sentences an answer wrote about neighbouring brands.
+const extractContext = (content: string, index: number, length: number): string => {
+  let start = 0;
+  let end = content.length;
+  for (const match of content.matchAll(SENTENCE_BREAK)) {
+    if (match.index! < index) {
+      start = match.index! + match[0].length;
+    } else if (match.index! >= index + length) {
+      end = match[0] === '\n' ? match.index! : match.index! + 1;
+      break;
+    }
+  }
+  return stripMarkdown(content.substring(Math.max(start, index - CONTEXT_RADIUS), Math.min(end, index + length + CONTEXT_RADIUS)));
+};
+
+const clip = (value: string) =>
+  value.length > MAX_CONTEXT_LENGTH ? `${value.slice(0, MAX_CONTEXT_LENGTH).trim()}…` : value;
+
+// Detects each entity in the answer. Positions are ordinal ranks in the answer's primary list,
+// or first-appearance order among the tracked entities when the answer has no list.
+// Entities match on their name and any alias, product, domain or known misspelling.
+export const detectMentions = (content: string, entities: BrandEntity[]): EntityDetection[] => {
+  const structure = parseAnswerStructure(content);
+
+  const detections = entities.map((entity): EntityDetection & { firstIndex: number } => {
+    const { name } = entity;
+    const matcher = createEntityMatcher(entity);
+    const match = matcher.find(content);
+
+    if (!match) {
+      return { name, mentioned: false, position: null, rankSource: null, context: '', firstIndex: -1 };
+    }
+
+    const leadIndex = structure.items.findIndex(item => matcher.test(item.lead));
+
+    return {
+      name,
+      mentioned: true,
+      position: leadIndex >= 0 ? leadIndex + 1 : null,
+      rankSource: leadIndex >= 0 ? structure.source : null,
+      // The entity's own list item, or else the sentence that mentions it (another brand's item
+      // only speaks about this one in that sentence)
+      context: clip(leadIndex >= 0
+        ? stripMarkdown(structure.items[leadIndex].text)
+        : extractContext(content, match.index, match.length)),
+      firstIndex: match.index,
+    };
+  });
+
+  if (!structure.source) {
+    const byAppearance = detections
+      .filter(d => d.mentioned)
+      .sort((a, b) => a.firstIndex - b.firstIndex);
+    byAppearance.forEach((detection, index) => {
+      detection.position = index + 1;
+      detection.rankSource = 'appearance';
+    });
+  }
+
+  return detections.map(({ firstIndex, ...detection }) => detection);
+};
+
+// How much a detected rank can be relied upon, on the 0-100 scale reports already use
+export const detectionConfidence = (detection: EntityDetection): number => {
+  if (!detection.mentioned) return 100;
+  switch (detection.rankSource) {
+    case 'numbered':
+    case 'heading':
+      return 100;
+    case 'bold':
+    case 'bulleted':
+      return 90;
+    case 'appearance':
+      return 75;
+    default:
+      return 60;
+  }
+};
@@ -0,0 +1,19 @@
+// In-app notifications: types and the app paths they open.
+// Links are stored app-relative so the same row works on every deployment.
+
+export type NotificationType = 'report_completed' | 'report_failed' | 'alert';
+
+export const NOTIFICATION_TYPES: Record<NotificationType, { label: string }> = {
+  report_completed: { label: 'Report completed' },
+  report_failed: { label: 'Report failed' },
+  alert: { label: 'Alert' },
+};
+
+// Notifications listed in the bell menu; older ones stay in the table but are not shown
+export const MAX_NOTIFICATIONS = 30;
+
+export const reportLink = (reportId: string) => `/reports/${reportId}`;
+
+// Opens the project's trends tab with the keyword selected
+export const keywordLink = (projectId: string, keywordId: string) =>
+  `/project/${projectId}?tab=trends&keyword=${encodeURIComponent(keywordId)}`;
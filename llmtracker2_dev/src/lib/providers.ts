@@ -0,0 +1,266 @@
+export type ProviderId = 'openai' | 'anthropic' | 'gemini' | 'perplexity' | 'openai_compatible';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+  // Source URLs some engines (e.g. Perplexity) return alongside the answer
+  citations?: string[];
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  model: string;
+  complete(messages: ChatMessage[], options?: CompletionOptions): Promise<CompletionResult>;
+}
+
+// An engine is a provider/model pair a project has chosen to track.
+export interface EngineConfig {
+  provider: ProviderId;
+  model?: string;
+  baseUrl?: string;
+}
+
+interface ProviderInfo {
+  label: string;
+  defaultModel: string;
+  requiresApiKey: boolean;
+  requiresBaseUrl: boolean;
+}
+
+export const PROVIDERS: Record<ProviderId, ProviderInfo> = {
+  openai: { label: 'ChatGPT (OpenAI)', defaultModel: 'gpt-4o', requiresApiKey: true, requiresBaseUrl: false },
+  anthropic: { label: 'Claude (Anthropic)', defaultModel: 'claude-3-5-sonnet-latest', requiresApiKey: true, requiresBaseUrl: false },
+  gemini: { label: 'Gemini (Google)', defaultModel: 'gemini-1.5-pro', requiresApiKey: true, requiresBaseUrl: false },
+  perplexity: { label: 'Perplexity', defaultModel: 'sonar', requiresApiKey: true, requiresBaseUrl: false },
+  openai_compatible: { label: 'OpenAI-compatible', defaultModel: 'llama3.1', requiresApiKey: false, requiresBaseUrl: true },
+};
+
+export const PROVIDER_IDS = Object.keys(PROVIDERS) as ProviderId[];
+
+export const DEFAULT_ENGINES: EngineConfig[] = [{ provider: 'openai', model: PROVIDERS.openai.defaultModel }];
+
+export const getEngineLabel = (engine: Pick<EngineConfig, 'provider' | 'model'>): string => {
+  const info = PROVIDERS[engine.provider];
+  if (!info) return engine.provider;
+  return engine.model ? `${info.label} · ${engine.model}` : info.label;
+};
+
+// projects.engines is free-form JSON, so anything unrecognised is dropped here
+export const parseEngines = (value: unknown): EngineConfig[] => {
+  if (!Array.isArray(value)) return DEFAULT_ENGINES;
+
+  const engines = value
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object')
+    .filter(item => PROVIDER_IDS.includes(item.provider as ProviderId))
+    .map(item => ({
+      provider: item.provider as ProviderId,
+      model: typeof item.model === 'string' && item.model.trim() ? item.model.trim() : undefined,
+      baseUrl: typeof item.baseUrl === 'string' && item.baseUrl.trim() ? item.baseUrl.trim() : undefined,
+    }));
+
+  return engines.length > 0 ? engines : DEFAULT_ENGINES;
+};
+
+async function postJson<T>(providerName: string, url: string, headers: Record<string, string>, body: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new Error(`${providerName} API error: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json() as Promise<T>;
+}
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices: {
+    message: {
+      content: string;
+    };
+  }[];
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+  citations?: unknown;
+}
+
+function createChatCompletionsProvider(
+  id: ProviderId,
+  providerName: string,
+  baseUrl: string,
+  model: string,
+  apiKey?: string
+): LLMProvider {
+  return {
+    id,
+    model,
+    async complete(messages, options = {}) {
+      const data = await postJson<ChatCompletionResponse>(
+        providerName,
+        `${baseUrl.replace(/\/+$/, '')}/chat/completions`,
+        apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        {
+          model,
+          messages,
+          temperature: options.temperature ?? 0.7,
+          max_tokens: options.maxTokens ?? 4096,
+        }
+      );
+
+      return {
+        content: data.choices[0]?.message?.content || '',
+        model: data.model || model,
+        usage: data.usage && {
+          promptTokens: data.usage.prompt_tokens,
+          completionTokens: data.usage.completion_tokens,
+          totalTokens: data.usage.total_tokens,
+        },
+        citations: Array.isArray(data.citations)
+          ? data.citations.filter((url): url is string => typeof url === 'string')
+          : undefined,
+      };
+    },
+  };
+}
+
+interface AnthropicResponse {
+  model?: string;
+  content: { type: string; text?: string }[];
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+function createAnthropicProvider(model: string, apiKey: string): LLMProvider {
+  return {
+    id: 'anthropic',
+    model,
+    async complete(messages, options = {}) {
+      const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+      const data = await postJson<AnthropicResponse>(
+        'Anthropic',
+        'https://api.anthropic.com/v1/messages',
+        {
+          'x-api-key': apiKey,
+          'anthropic-version': '2023-06-01',
+        },
+        {
+          model,
+          system: system || undefined,
+          messages: messages.filter(m => m.role !== 'system'),
+          temperature: options.temperature ?? 0.7,
+          max_tokens: options.maxTokens ?? 4096,
+        }
+      );
+
+      return {
+        content: data.content.filter(block => block.type === 'text').map(block => block.text).join(''),
+        model: data.model || model,
+        usage: data.usage && {
+          promptTokens: data.usage.input_tokens,
+          completionTokens: data.usage.output_tokens,
+          totalTokens: data.usage.input_tokens + data.usage.output_tokens,
+        },
+      };
+    },
+  };
+}
+
+interface GeminiResponse {
+  candidates?: {
+    content?: {
+      parts?: { text?: string }[];
+    };
+  }[];
+  usageMetadata?: {
+    promptTokenCount: number;
+    candidatesTokenCount: number;
+    totalTokenCount: number;
+  };
+}
+
+function createGeminiProvider(model: string, apiKey: string): LLMProvider {
+  return {
+    id: 'gemini',
+    model,
+    async complete(messages, options = {}) {
+      const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+      const data = await postJson<GeminiResponse>(
+        'Gemini',
+        `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(model)}:generateContent?key=${encodeURIComponent(apiKey)}`,
+        {},
+        {
+          systemInstruction: system ? { parts: [{ text: system }] } : undefined,
+          contents: messages
+            .filter(m => m.role !== 'system')
+            .map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] })),
+          generationConfig: {
+            temperature: options.temperature ?? 0.7,
+            maxOutputTokens: options.maxTokens ?? 4096,
+          },
+        }
+      );
+
+      return {
+        content: data.candidates?.[0]?.content?.parts?.map(part => part.text || '').join('') || '',
+        model,
+        usage: data.usageMetadata && {
+          promptTokens: data.usageMetadata.promptTokenCount,
+          completionTokens: data.usageMetadata.candidatesTokenCount,
+          totalTokens: data.usageMetadata.totalTokenCount,
+        },
+      };
+    },
+  };
+}
+
+export function createProvider(engine: EngineConfig, apiKey?: string): LLMProvider {
+  const info = PROVIDERS[engine.provider];
+  if (!info) {
+    throw new Error(`Unknown provider: ${engine.provider}`);
+  }
+
+  const model = engine.model || info.defaultModel;
+
+  if (info.requiresApiKey && !apiKey) {
+    throw new Error(`${info.label} requires an API key`);
+  }
+
+  switch (engine.provider) {
+    case 'openai':
+      return createChatCompletionsProvider('openai', 'OpenAI', 'https://api.openai.com/v1', model, apiKey);
+    case 'anthropic':
+      return createAnthropicProvider(model, apiKey!);
+    case 'gemini':
+      return createGeminiProvider(model, apiKey!);
+    case 'perplexity':
+      return createChatCompletionsProvider('perplexity', 'Perplexity', 'https://api.perplexity.ai', model, apiKey);
+    case 'openai_compatible':
+      if (!engine.baseUrl) {
+        throw new Error('OpenAI-compatible engines require a base URL');
+      }
+      return createChatCompletionsProvider('openai_compatible', 'OpenAI-compatible', engine.baseUrl, model, apiKey);
+  }
+}
@@ -0,0 +1,188 @@
+// Differences between two runs of the same project: mentions gained or lost, rank moves, competitors
+// entering or leaving the answers, and a passage-level diff of the answers themselves.
+
+import { BrandAnalysisResult } from './openai.ts';
+import { getEngineLabel } from './providers.ts';
+
+export type MentionChange = 'gained' | 'lost' | 'kept' | 'absent' | 'new' | 'dropped';
+
+export interface ComparedEntity {
+  mentioned: boolean;
+  position: number | null;
+}
+
+export interface KeywordComparison {
+  keyword: string;
+  engine: string;
+  change: MentionChange;
+  before: ComparedEntity | null;
+  after: ComparedEntity | null;
+  // Old rank minus new rank where both are ranked; positive means the brand moved up
+  positionDelta: number | null;
+  competitorsAppeared: string[];
+  competitorsVanished: string[];
+  // Rank moves of competitors mentioned in both runs, same sign convention as positionDelta
+  competitorMoves: { name: string; delta: number }[];
+  baseResult: BrandAnalysisResult | null;
+  targetResult: BrandAnalysisResult | null;
+}
+
+export interface ReportComparison {
+  keywords: KeywordComparison[];
+  summary: {
+    gained: number;
+    lost: number;
+    improved: number;
+    declined: number;
+    newKeywords: number;
+    droppedKeywords: number;
+  };
+  // Competitors mentioned anywhere in one run but nowhere in the other
+  competitorsAppeared: string[];
+  competitorsVanished: string[];
+}
+
+export type DiffKind = 'same' | 'added' | 'removed';
+
+export interface DiffSegment {
+  kind: DiffKind;
+  text: string;
+}
+
+// LCS tables beyond this many cells are too slow for the browser; larger answers diff by paragraph
+export const MAX_DIFF_CELLS = 250_000;
+
+const resultKey = (result: BrandAnalysisResult) => `${result.keyword}\u0000${getEngineLabel(result)}`;
+
+const mentionedCompetitors = (result: BrandAnalysisResult | null) =>
+  new Set((result?.competitors || []).filter(c => c.mentioned).map(c => c.name));
+
+const mentionChange = (before: BrandAnalysisResult | null, after: BrandAnalysisResult | null): MentionChange => {
+  if (!before) return 'new';
+  if (!after) return 'dropped';
+  if (before.brandMentioned && after.brandMentioned) return 'kept';
+  if (after.brandMentioned) return 'gained';
+  if (before.brandMentioned) return 'lost';
+  return 'absent';
+};
+
+const rankDelta = (before: ComparedEntity | null, after: ComparedEntity | null) =>
+  before?.mentioned && after?.mentioned && before.position !== null && after.position !== null
+    ? before.position - after.position
+    : null;
+
+const compareKeyword = (base: BrandAnalysisResult | null, target: BrandAnalysisResult | null): KeywordComparison => {
+  const reference = (target || base)!;
+  const before = base && { mentioned: base.brandMentioned, position: base.position };
+  const after = target && { mentioned: target.brandMentioned, position: target.position };
+  const beforeCompetitors = mentionedCompetitors(base);
+  const afterCompetitors = mentionedCompetitors(target);
+
+  return {
+    keyword: reference.keyword,
+    engine: getEngineLabel(reference),
+    change: mentionChange(base, target),
+    before,
+    after,
+    positionDelta: rankDelta(before, after),
+    // Only meaningful when both runs asked this keyword on this engine
+    competitorsAppeared: base && target ? Array.from(afterCompetitors).filter(name => !beforeCompetitors.has(name)) : [],
+    competitorsVanished: base && target ? Array.from(beforeCompetitors).filter(name => !afterCompetitors.has(name)) : [],
+    competitorMoves: base && target
+      ? target.competitors
+        .map(competitor => {
+          const previous = base.competitors.find(c => c.name === competitor.name);
+          return { name: competitor.name, delta: rankDelta(previous || null, competitor) };
+        })
+        .filter((move): move is { name: string; delta: number } => move.delta !== null && move.delta !== 0)
+      : [],
+    baseResult: base,
+    targetResult: target,
+  };
+};
+
+// Both result lists should have competitor names resolved to the project's competitor list
+export const compareReports = (base: BrandAnalysisResult[], target: BrandAnalysisResult[]): ReportComparison => {
+  const baseByKey = new Map(base.map(result => [resultKey(result), result]));
+  const targetByKey = new Map(target.map(result => [resultKey(result), result]));
+  const keys = Array.from(new Set([...baseByKey.keys(), ...targetByKey.keys()]));
+
+  const keywords = keys
+    .map(key => compareKeyword(baseByKey.get(key) || null, targetByKey.get(key) || null))
+    .sort((a, b) => a.keyword.localeCompare(b.keyword) || a.engine.localeCompare(b.engine));
+
+  const baseCompetitors = new Set(base.flatMap(result => Array.from(mentionedCompetitors(result))));
+  const targetCompetitors = new Set(target.flatMap(result => Array.from(mentionedCompetitors(result))));
+
+  return {
+    keywords,
+    summary: {
+      gained: keywords.filter(k => k.change === 'gained').length,
+      lost: keywords.filter(k => k.change === 'lost').length,
+      improved: keywords.filter(k => k.positionDelta !== null && k.positionDelta > 0).length,
+      declined: keywords.filter(k => k.positionDelta !== null && k.positionDelta < 0).length,
+      newKeywords: keywords.filter(k => k.change === 'new').length,
+      droppedKeywords: keywords.filter(k => k.change === 'dropped').length,
+    },
+    competitorsAppeared: Array.from(targetCompetitors).filter(name => !baseCompetitors.has(name)).sort(),
+    competitorsVanished: Array.from(baseCompetitors).filter(name => !targetCompetitors.has(name)).sort(),
+  };
+};
+
+// Sentences (or list items) keep their trailing whitespace so the segments re-join into the original text
+const splitPassages = (text: string): string[] => text.match(/[^\n.!?]*(?:[.!?]+|\n+|$)\s*/g)?.filter(Boolean) || [];
+
+const splitParagraphs = (text: string): string[] => text.match(/[^\n]*(?:\n+|$)/g)?.filter(Boolean) || [];
+
+const normalizePassage = (passage: string) => passage.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const diffTokens = (before: string[], after: string[]): DiffSegment[] => {
+  const a = before.map(normalizePassage);
+  const b = after.map(normalizePassage);
+  const width = b.length + 1;
+
+  // lengths[i * width + j] is the LCS length of a[i..] and b[j..]
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (kind: DiffKind, text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.kind === kind) last.text += text;
+    else segments.push({ kind, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', after[j]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      push('removed', before[i++]);
+    } else {
+      push('added', after[j++]);
+    }
+  }
+  while (i < a.length) push('removed', before[i++]);
+  while (j < b.length) push('added', after[j++]);
+
+  return segments;
+};
+
+// Passage-level diff of two answers: unchanged text once, then what was removed and what was added
+export const diffAnswers = (before: string, after: string): DiffSegment[] => {
+  const passagesBefore = splitPassages(before);
+  const passagesAfter = splitPassages(after);
+  if (passagesBefore.length * passagesAfter.length <= MAX_DIFF_CELLS) {
+    return diffTokens(passagesBefore, passagesAfter);
+  }
+  return diffTokens(splitParagraphs(before), splitParagraphs(after));
+};
@@ -0,0 +1,193 @@
+// Everything a finished report shows, laid out independently of how it is rendered (PDF, exports).
+
+import { BrandAnalysisResult } from './openai.ts';
+import { getEngineLabel } from './providers.ts';
+import { isReportType, REPORT_TYPES } from './reportResults.ts';
+import { MentionSentiment, SENTIMENT_LABELS, sentimentLabel } from './sentiment.ts';
+import { mean } from './statistics.ts';
+
+export interface ReportDocumentInput {
+  reportType: string;
+  projectName: string;
+  brandName: string;
+  competitors: string[];
+  createdAt: string;
+  completedAt: string | null;
+  // Competitor names already resolved to the project's competitor list
+  results: BrandAnalysisResult[];
+  snapshots: TrendSnapshot[];
+}
+
+// Minimal historical_snapshots row used for the trend charts
+export interface TrendSnapshot {
+  competitor_name: string;
+  is_brand: boolean;
+  position: number | null;
+  mention_count: number;
+  sample_count: number;
+  snapshot_date: string;
+}
+
+export interface MatrixCell {
+  mentioned: boolean;
+  position: number | null;
+}
+
+export interface MatrixRow {
+  keyword: string;
+  engine: string;
+  // Aligned with ReportDocument.entities
+  cells: MatrixCell[];
+}
+
+export interface KeywordRow {
+  keyword: string;
+  engine: string;
+  mentioned: boolean;
+  position: number | null;
+  sentiment: MentionSentiment | null;
+  context: string;
+}
+
+export interface TrendPoint {
+  date: string;
+  mentionRate: number;
+  position: number | null;
+}
+
+export interface TrendSeries {
+  entity: string;
+  isBrand: boolean;
+  points: TrendPoint[];
+}
+
+export interface ReportDocument {
+  title: string;
+  projectName: string;
+  brandName: string;
+  createdAt: string;
+  completedAt: string | null;
+  // Brand first, then competitors
+  entities: string[];
+  summary: { label: string; value: string }[];
+  matrix: MatrixRow[];
+  keywords: KeywordRow[];
+  trends: TrendSeries[];
+}
+
+// Trend charts cover this many days up to the report
+export const TREND_WINDOW_DAYS = 90;
+export const MAX_CONTEXT_EXCERPT = 280;
+
+const excerpt = (value: string) =>
+  value.length > MAX_CONTEXT_EXCERPT ? `${value.slice(0, MAX_CONTEXT_EXCERPT).trim()}…` : value;
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const byKeywordAndEngine = (a: BrandAnalysisResult, b: BrandAnalysisResult) =>
+  a.keyword.localeCompare(b.keyword) || getEngineLabel(a).localeCompare(getEngineLabel(b));
+
+const buildSummary = (input: ReportDocumentInput, entities: string[]) => {
+  const { results } = input;
+  const mentioned = results.filter(r => r.brandMentioned);
+  const positions = mentioned.map(r => r.position).filter((p): p is number => p !== null);
+  const sentiments = mentioned.map(r => r.sentiment?.score).filter((s): s is number => typeof s === 'number');
+  const averagePosition = mean(positions);
+  const averageSentiment = mean(sentiments);
+
+  const competitorMentions = entities.slice(1)
+    .map(name => ({
+      name,
+      mentions: results.filter(r => r.competitors.some(c => c.name === name && c.mentioned)).length,
+    }))
+    .sort((a, b) => b.mentions - a.mentions);
+  const topCompetitor = competitorMentions.find(c => c.mentions > 0);
+
+  return [
+    { label: 'Keywords analysed', value: String(new Set(results.map(r => r.keyword)).size) },
+    { label: 'Engines', value: Array.from(new Set(results.map(r => getEngineLabel(r)))).join(', ') || 'None' },
+    { label: 'Answers analysed', value: String(results.length) },
+    {
+      label: `${input.brandName} mentioned`,
+      value: results.length > 0 ? `${mentioned.length}/${results.length} (${formatPercent(mentioned.length / results.length)})` : '0',
+    },
+    { label: 'Average position', value: averagePosition === null ? 'Not ranked' : `#${averagePosition.toFixed(1)}` },
+    {
+      label: 'Average sentiment',
+      value: averageSentiment === null
+        ? 'N/A'
+        : `${SENTIMENT_LABELS[sentimentLabel(averageSentiment)]} (${averageSentiment.toFixed(2)})`,
+    },
+    {
+      label: 'Most mentioned competitor',
+      value: topCompetitor ? `${topCompetitor.name} (${topCompetitor.mentions}/${results.length})` : 'None',
+    },
+  ];
+};
+
+// One point per day and entity: share of samples that mentioned it and its average rank
+const buildTrends = (snapshots: TrendSnapshot[], entities: string[]): TrendSeries[] => {
+  const byEntity = new Map<string, { isBrand: boolean; days: Map<string, TrendSnapshot[]> }>();
+  snapshots.forEach(snapshot => {
+    const entry = byEntity.get(snapshot.competitor_name) || { isBrand: snapshot.is_brand, days: new Map() };
+    const day = snapshot.snapshot_date.slice(0, 10);
+    const daySnapshots = entry.days.get(day) || [];
+    daySnapshots.push(snapshot);
+    entry.days.set(day, daySnapshots);
+    byEntity.set(snapshot.competitor_name, entry);
+  });
+
+  return entities
+    .filter(name => byEntity.has(name))
+    .map(name => {
+      const entry = byEntity.get(name)!;
+      return {
+        entity: name,
+        isBrand: entry.isBrand,
+        points: Array.from(entry.days.entries())
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([date, day]) => {
+            const samples = day.reduce((acc, s) => acc + s.sample_count, 0);
+            const mentions = day.reduce((acc, s) => acc + Math.min(s.mention_count, s.sample_count), 0);
+            return {
+              date,
+              mentionRate: samples > 0 ? mentions / samples : 0,
+              position: mean(day.map(s => s.position).filter((p): p is number => p !== null)),
+            };
+          }),
+      };
+    });
+};
+
+export const buildReportDocument = (input: ReportDocumentInput): ReportDocument => {
+  const entities = [input.brandName, ...input.competitors];
+  const results = [...input.results].sort(byKeywordAndEngine);
+
+  return {
+    title: `${isReportType(input.reportType) ? REPORT_TYPES[input.reportType].label : input.reportType} Report`,
+    projectName: input.projectName,
+    brandName: input.brandName,
+    createdAt: input.createdAt,
+    completedAt: input.completedAt,
+    entities,
+    summary: buildSummary(input, entities),
+    matrix: results.map(result => ({
+      keyword: result.keyword,
+      engine: getEngineLabel(result),
+      cells: entities.map((name, index) => {
+        if (index === 0) return { mentioned: result.brandMentioned, position: result.position };
+        const competitor = result.competitors.find(c => c.name === name);
+        return { mentioned: !!competitor?.mentioned, position: competitor?.mentioned ? competitor.position : null };
+      }),
+    })),
+    keywords: results.map(result => ({
+      keyword: result.keyword,
+      engine: getEngineLabel(result),
+      mentioned: result.brandMentioned,
+      position: result.position,
+      sentiment: result.brandMentioned ? result.sentiment ?? null : null,
+      context: excerpt(result.context || ''),
+    })),
+    trends: buildTrends(input.snapshots, entities),
+  };
+};
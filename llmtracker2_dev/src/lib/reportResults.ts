@@ -0,0 +1,159 @@
+import { parseCitations } from './citations.ts';
+import { RankSource } from './mentionDetector.ts';
+import { BrandAnalysisResult, CompetitorMention } from './openai.ts';
+import { EngineConfig, PROVIDER_IDS, ProviderId } from './providers.ts';
+import { analyzeSentiment, parseSentiment } from './sentiment.ts';
+import { MentionStats } from './statistics.ts';
+
+// Shape of an api_responses row as far as rebuilding results is concerned
+export interface ApiResponseRecord {
+  id?: string;
+  keyword: string;
+  provider: string;
+  raw_response: unknown;
+  response_metadata: unknown;
+  citations?: unknown;
+  created_at?: string;
+}
+
+export type ReportType = 'keyword_tracking' | 'competitor_analysis' | 'citation_analysis';
+
+export const REPORT_TYPES: Record<ReportType, { label: string; description: string }> = {
+  keyword_tracking: {
+    label: 'Keyword Tracking',
+    description: 'Brand and competitor mentions and positions for every keyword',
+  },
+  competitor_analysis: {
+    label: 'Competitor Analysis',
+    description: 'Share of voice, co-mentions, rank gaps and keywords won or lost against each competitor',
+  },
+  citation_analysis: {
+    label: 'Citation Analysis',
+    description: 'Which domains and sources the engines cite for every keyword',
+  },
+};
+
+export const isReportType = (value: unknown): value is ReportType =>
+  typeof value === 'string' && value in REPORT_TYPES;
+
+export interface RunProgress {
+  completed: number;
+  total: number;
+  errors: { keyword: string; provider: ProviderId; message: string }[];
+}
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+
+// Everything needed to rebuild a BrandAnalysisResult later, minus the raw text
+export const buildResponseMetadata = (result: BrandAnalysisResult) => ({
+  model: result.model,
+  brandMentioned: result.brandMentioned,
+  position: result.position,
+  rankSource: result.rankSource ?? null,
+  confidence: result.confidence,
+  context: result.context,
+  sentiment: result.sentiment ?? null,
+  competitors: result.competitors,
+  stats: result.stats ?? null,
+});
+
+export const buildRawResponse = (result: BrandAnalysisResult) => ({
+  analysis: result.rawResponse,
+  prompt: result.prompt,
+  ...(result.sampleResponses ? { samples: result.sampleResponses } : {}),
+});
+
+// Responses stored before sentiment was recorded get it derived from their saved context
+const sentimentOf = (value: unknown, mentioned: boolean, context: string) =>
+  parseSentiment(value) ?? (mentioned ? analyzeSentiment(context) : null);
+
+export const resultFromApiResponse = (row: ApiResponseRecord): BrandAnalysisResult => {
+  const metadata = asRecord(row.response_metadata);
+  const raw = asRecord(row.raw_response);
+  const competitors = (Array.isArray(metadata.competitors) ? (metadata.competitors as CompetitorMention[]) : [])
+    .map(competitor => ({
+      ...competitor,
+      sentiment: sentimentOf(competitor.sentiment, competitor.mentioned, competitor.context || ''),
+    }));
+  const brandMentioned = metadata.brandMentioned === true;
+  const context = typeof metadata.context === 'string' ? metadata.context : '';
+
+  return {
+    keyword: row.keyword,
+    brandMentioned,
+    position: typeof metadata.position === 'number' ? metadata.position : null,
+    rankSource: typeof metadata.rankSource === 'string' ? (metadata.rankSource as RankSource) : null,
+    confidence: typeof metadata.confidence === 'number' ? metadata.confidence : 0,
+    context,
+    sentiment: sentimentOf(metadata.sentiment, brandMentioned, context),
+    competitors,
+    rawResponse: typeof raw.analysis === 'string' ? raw.analysis : JSON.stringify(row.raw_response, null, 2),
+    prompt: typeof raw.prompt === 'string' ? raw.prompt : undefined,
+    provider: PROVIDER_IDS.includes(row.provider as ProviderId) ? (row.provider as ProviderId) : 'openai',
+    model: typeof metadata.model === 'string' ? metadata.model : '',
+    stats: metadata.stats && typeof metadata.stats === 'object' ? (metadata.stats as MentionStats) : undefined,
+    sampleResponses: Array.isArray(raw.samples) ? (raw.samples as string[]) : undefined,
+    citations: parseCitations(row.citations),
+  };
+};
+
+// Reports whose api_responses are gone still keep a per-keyword summary of the brand outcome
+export const resultsFromReportSummary = (results: unknown): BrandAnalysisResult[] => {
+  const keywords = asRecord(results).keywords;
+  if (!Array.isArray(keywords)) return [];
+
+  return keywords
+    .map(asRecord)
+    .filter(entry => typeof entry.keyword === 'string')
+    .map(entry => ({
+      keyword: entry.keyword as string,
+      brandMentioned: entry.brandMentioned === true,
+      position: typeof entry.position === 'number' ? entry.position : null,
+      confidence: typeof entry.confidence === 'number' ? entry.confidence : 0,
+      context: '',
+      competitors: [],
+      rawResponse: '',
+      provider: PROVIDER_IDS.includes(entry.provider as ProviderId) ? (entry.provider as ProviderId) : 'openai',
+      model: typeof entry.model === 'string' ? entry.model : '',
+    }));
+};
+
+export const readRunProgress = (metadata: unknown): RunProgress | null => {
+  const progress = asRecord(asRecord(metadata).progress);
+  if (typeof progress.total !== 'number') return null;
+
+  return {
+    completed: typeof progress.completed === 'number' ? progress.completed : 0,
+    total: progress.total,
+    errors: Array.isArray(progress.errors) ? (progress.errors as RunProgress['errors']) : [],
+  };
+};
+
+export const buildKeywordTrackingResults = (
+  results: BrandAnalysisResult[],
+  totalKeywords: number,
+  engines: EngineConfig[],
+  sampleCount = 1
+) => ({
+  summary: {
+    totalKeywords,
+    engines: engines.map(e => e.provider),
+    sampleCount,
+    brandMentioned: results.filter(r => r.brandMentioned).length,
+    averageConfidence: results.length > 0
+      ? results.reduce((acc, r) => acc + r.confidence, 0) / results.length
+      : 0,
+  },
+  keywords: results.map(r => ({
+    keyword: r.keyword,
+    provider: r.provider,
+    model: r.model,
+    brandMentioned: r.brandMentioned,
+    position: r.position,
+    confidence: r.confidence,
+    mentionRate: r.stats?.mentionRate ?? (r.brandMentioned ? 1 : 0),
+    stability: r.stats?.stability ?? null,
+    sentiment: r.sentiment?.score ?? null,
+  })),
+});
@@ -0,0 +1,61 @@
+// Timing rules for tracking_schedules, shared by the scheduler function and the client service.
+
+export type ScheduleFrequency = 'daily' | 'weekly' | 'monthly' | 'on_demand';
+export type SchedulePriority = 'high' | 'medium' | 'low';
+
+// Scheduled runs start at this hour (UTC)
+export const SCHEDULE_RUN_HOUR = 9;
+
+// Failed runs are retried this many times before the schedule waits for its next regular slot
+export const MAX_SCHEDULE_RETRIES = 3;
+
+const RETRY_BASE_MINUTES = 15;
+const RETRY_MAX_MINUTES = 6 * 60;
+
+const PRIORITY_RANK: Record<SchedulePriority, number> = { high: 0, medium: 1, low: 2 };
+
+// On-demand schedules never come due on their own
+const ON_DEMAND_NEXT_RUN = '2099-01-01T00:00:00.000Z';
+
+export const computeNextRun = (frequency: ScheduleFrequency, from: Date = new Date()): Date => {
+  if (frequency === 'on_demand') return new Date(ON_DEMAND_NEXT_RUN);
+
+  const next = new Date(from);
+  next.setUTCHours(SCHEDULE_RUN_HOUR, 0, 0, 0);
+
+  switch (frequency) {
+    case 'daily':
+      if (next <= from) next.setUTCDate(next.getUTCDate() + 1);
+      break;
+    case 'weekly':
+      // Next Sunday
+      next.setUTCDate(next.getUTCDate() + (7 - next.getUTCDay()) % 7);
+      if (next <= from) next.setUTCDate(next.getUTCDate() + 7);
+      break;
+    case 'monthly':
+      // First of next month
+      next.setUTCMonth(next.getUTCMonth() + 1, 1);
+      break;
+  }
+
+  return next;
+};
+
+// Exponential backoff: 15 min, 30 min, 1 h ... capped at 6 h
+export const computeRetryAt = (failureCount: number, from: Date = new Date()): Date => {
+  const minutes = Math.min(RETRY_BASE_MINUTES * 2 ** Math.max(0, failureCount - 1), RETRY_MAX_MINUTES);
+  return new Date(from.getTime() + minutes * 60 * 1000);
+};
+
+// High priority first, then the longest overdue
+export const compareSchedules = (
+  a: { priority: string; next_run: string },
+  b: { priority: string; next_run: string }
+): number =>
+  (PRIORITY_RANK[a.priority as SchedulePriority] ?? PRIORITY_RANK.low) -
+    (PRIORITY_RANK[b.priority as SchedulePriority] ?? PRIORITY_RANK.low) ||
+  new Date(a.next_run).getTime() - new Date(b.next_run).getTime();
+
+// Plan quotas count reports created since the start of the current calendar month (UTC)
+export const quotaPeriodStart = (now: Date = new Date()): Date =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
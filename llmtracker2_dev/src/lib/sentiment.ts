@@ -0,0 +1,159 @@
+// Deterministic sentiment of a brand mention, read from the text the answer wrote about it.
+// Like mention detection, nothing here asks a model to grade the brands.
+
+import { mean } from './statistics.ts';
+
+export type SentimentLabel = 'positive' | 'neutral' | 'negative';
+
+export interface MentionSentiment {
+  label: SentimentLabel;
+  // -1 (clearly negative) to 1 (recommended outright)
+  score: number;
+  // Clauses of the answer that speak for or against the brand
+  pros: string[];
+  cons: string[];
+}
+
+export const SENTIMENT_LABELS: Record<SentimentLabel, string> = {
+  positive: 'Positive',
+  neutral: 'Neutral',
+  negative: 'Negative',
+};
+
+// Scores within this distance of zero read as neutral
+export const SENTIMENT_THRESHOLD = 0.2;
+const MAX_REASONS = 3;
+const MAX_REASON_LENGTH = 140;
+const NEGATION_WINDOW = 3;
+
+const POSITIVE_WORDS = new Set([
+  'best', 'top', 'leading', 'excellent', 'great', 'good', 'outstanding', 'exceptional', 'superb', 'strong',
+  'reliable', 'robust', 'powerful', 'intuitive', 'easy', 'simple', 'affordable', 'cheap', 'cheapest', 'inexpensive',
+  'popular', 'recommend', 'recommended', 'trusted', 'reputable', 'comprehensive', 'fast', 'quick', 'flexible',
+  'scalable', 'secure', 'innovative', 'seamless', 'seamlessly', 'efficient', 'versatile', 'accurate', 'responsive',
+  'generous', 'standout', 'praised', 'loved', 'favorite', 'favourite', 'ideal', 'perfect', 'excels', 'impressive',
+  'friendly', 'helpful', 'valuable', 'extensive', 'rich', 'polished', 'modern', 'stable', 'consistent',
+  'transparent', 'well-known', 'well-regarded', 'premium', 'solid', 'proven', 'user-friendly',
+  'customizable', 'advanced', 'free', 'love', 'enjoy', 'renowned', 'award-winning',
+]);
+
+const NEGATIVE_WORDS = new Set([
+  'expensive', 'pricey', 'costly', 'overpriced', 'limited', 'limits', 'lacks', 'lacking', 'lack', 'missing',
+  'difficult', 'hard', 'complex', 'complicated', 'slow', 'steep', 'clunky', 'outdated', 'dated', 'buggy', 'bugs',
+  'confusing', 'poor', 'weak', 'unreliable', 'drawback', 'drawbacks', 'downside', 'downsides', 'issue', 'issues',
+  'problem', 'problems', 'complaints', 'complain', 'criticized', 'criticised', 'overwhelming', 'cumbersome',
+  'restrictive', 'fewer', 'worse', 'worst', 'inconsistent', 'frustrating', 'unclear', 'lagging', 'lags',
+  'concerns', 'concern', 'risk', 'risky', 'bloated', 'glitches', 'glitchy', 'mixed', 'mediocre', 'unstable',
+  'disappointing', 'inferior', 'caveat', 'shortcomings', 'unfortunately', 'avoid', 'cons', 'negative', 'slower',
+]);
+
+// Multi-word cues, matched on the lowercased clause before single words
+const POSITIVE_PHRASES = ['go-to', 'top choice', 'top pick', 'stands out', 'easy to use', 'great value', 'highly rated', 'best in class'];
+const NEGATIVE_PHRASES = [
+  'learning curve', 'hidden fees', 'hidden costs', 'not ideal', 'not the best', 'keep in mind', 'be aware',
+  'worth noting', 'customer support issues', 'can get expensive', 'less intuitive',
+];
+
+const NEGATORS = new Set(['not', 'no', 'never', 'without', 'hardly', 'barely', "isn't", "doesn't", "don't", "aren't", "wasn't", "won't", "can't", 'cannot']);
+
+// Contrast words start a new clause, so "great, but pricey" yields a pro and a con
+const CONTRAST = /\b(?:but|however|although|though|whereas|yet|while|except)\b/i;
+
+const round = (value: number, digits = 3) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+export const sentimentLabel = (score: number): SentimentLabel =>
+  score >= SENTIMENT_THRESHOLD ? 'positive' : score <= -SENTIMENT_THRESHOLD ? 'negative' : 'neutral';
+
+const splitClauses = (text: string): string[] =>
+  text
+    .split(/(?<=[.!?;])\s+|\n+/)
+    .flatMap(sentence => sentence.split(CONTRAST))
+    .map(clause => clause.replace(/^[\s,:;\-–—*•]+|[\s,:;\-–—]+$/g, '').trim())
+    .filter(clause => clause.length > 0);
+
+// Multi-word cues are folded into single marker tokens so negation applies to them like to words
+const POSITIVE_MARKER = 'positive-phrase';
+const NEGATIVE_MARKER = 'negative-phrase';
+
+const markPhrases = (text: string) => {
+  const withPositive = POSITIVE_PHRASES.reduce((acc, phrase) => acc.split(phrase).join(` ${POSITIVE_MARKER} `), text);
+  return NEGATIVE_PHRASES.reduce((acc, phrase) => acc.split(phrase).join(` ${NEGATIVE_MARKER} `), withPositive);
+};
+
+const polarityOf = (token: string) =>
+  token === POSITIVE_MARKER || POSITIVE_WORDS.has(token) ? 1 : token === NEGATIVE_MARKER || NEGATIVE_WORDS.has(token) ? -1 : 0;
+
+// Positive and negative cues in one clause; a nearby negator flips a cue ("not cheap", "without hidden fees")
+const scoreClause = (clause: string): { positive: number; negative: number } => {
+  const tokens = markPhrases(clause.toLowerCase().replace(/’/g, "'")).match(/[a-z0-9'-]+/g) || [];
+  let positive = 0;
+  let negative = 0;
+
+  tokens.forEach((token, index) => {
+    const polarity = polarityOf(token);
+    if (polarity === 0) return;
+    const negated = tokens.slice(Math.max(0, index - NEGATION_WINDOW), index).some(t => NEGATORS.has(t));
+    if ((polarity > 0) !== negated) positive++;
+    else negative++;
+  });
+
+  return { positive, negative };
+};
+
+const clipReason = (clause: string) =>
+  clause.length > MAX_REASON_LENGTH ? `${clause.slice(0, MAX_REASON_LENGTH).trim()}…` : clause;
+
+const uniqueReasons = (reasons: string[]) =>
+  reasons.filter((reason, index) => reasons.findIndex(r => r.toLowerCase() === reason.toLowerCase()) === index).slice(0, MAX_REASONS);
+
+// Returns null when there is no text about the brand to judge
+export const analyzeSentiment = (context: string): MentionSentiment | null => {
+  const clauses = splitClauses(context || '');
+  if (clauses.length === 0) return null;
+
+  let positive = 0;
+  let negative = 0;
+  const pros: string[] = [];
+  const cons: string[] = [];
+
+  clauses.forEach(clause => {
+    const cues = scoreClause(clause);
+    positive += cues.positive;
+    negative += cues.negative;
+    if (cues.positive > cues.negative) pros.push(clipReason(clause));
+    if (cues.negative > cues.positive) cons.push(clipReason(clause));
+  });
+
+  // The +1 damps single cues, and every con pulls an otherwise glowing mention towards neutral
+  const score = round((positive - negative) / (positive + negative + 1));
+
+  return { label: sentimentLabel(score), score, pros: uniqueReasons(pros), cons: uniqueReasons(cons) };
+};
+
+// Sentiment across the samples that mentioned the brand: mean score, reasons in sample order
+export const combineSentiments = (sentiments: (MentionSentiment | null)[]): MentionSentiment | null => {
+  const present = sentiments.filter((s): s is MentionSentiment => s !== null);
+  if (present.length === 0) return null;
+
+  const score = round(mean(present.map(s => s.score))!);
+  return {
+    label: sentimentLabel(score),
+    score,
+    pros: uniqueReasons(present.flatMap(s => s.pros)),
+    cons: uniqueReasons(present.flatMap(s => s.cons)),
+  };
+};
+
+export const parseSentiment = (value: unknown): MentionSentiment | null => {
+  if (!value || typeof value !== 'object') return null;
+  const record = value as Record<string, unknown>;
+  if (typeof record.score !== 'number') return null;
+
+  const reasons = (list: unknown) => (Array.isArray(list) ? list.filter((r): r is string => typeof r === 'string') : []);
+  return {
+    label: sentimentLabel(record.score),
+    score: record.score,
+    pros: reasons(record.pros),
+    cons: reasons(record.cons),
+  };
+};
@@ -0,0 +1,145 @@
+// Share of voice: each brand's portion of all tracked visibility, weighting mentions by rank and keyword priority.
+
+export type SharePeriod = 'day' | 'week' | 'month';
+export type ShareDimension = 'engine' | 'keyword_group';
+
+export interface ShareObservation {
+  date: string;
+  provider: string | null;
+  keywordId: string | null;
+  keywordGroup: string | null;
+  priority: number | null;
+  competitor: string;
+  isBrand: boolean;
+  position: number | null;
+  mentionCount: number;
+  sampleCount: number;
+}
+
+export interface ShareEntry {
+  competitor: string;
+  isBrand: boolean;
+  voice: number;
+  share: number;
+}
+
+export interface ShareBreakdown {
+  key: string;
+  entries: ShareEntry[];
+}
+
+// One row per period with each competitor's share in percent, ready for a stacked chart
+export type ShareSeriesRow = { period: string } & Record<string, number | string>;
+
+export const SHARE_PERIODS: Record<SharePeriod, string> = {
+  day: 'Daily',
+  week: 'Weekly',
+  month: 'Monthly',
+};
+
+export const UNGROUPED = 'Ungrouped';
+export const OTHER_COMPETITORS = 'Other';
+export const UNKNOWN_ENGINE = 'unknown';
+
+// keywords.priority runs from 1 (default) to 5; a priority 5 keyword counts five times as much
+export const DEFAULT_KEYWORD_PRIORITY = 1;
+export const MAX_KEYWORD_PRIORITY = 5;
+// A mention the answer did not rank counts like one just below a short list
+const UNRANKED_MENTION_WEIGHT = 0.2;
+
+const round = (value: number, digits = 4) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// First place gets the full weight, then 1/2, 1/3, ... like attention down a list
+export const rankWeight = (position: number | null): number =>
+  position !== null && position > 0 ? 1 / position : UNRANKED_MENTION_WEIGHT;
+
+export const priorityWeight = (priority: number | null): number =>
+  Math.min(MAX_KEYWORD_PRIORITY, Math.max(DEFAULT_KEYWORD_PRIORITY, priority ?? DEFAULT_KEYWORD_PRIORITY));
+
+// Mention rate across samples, times where it ranked, times how much the keyword matters
+export const observationVoice = (observation: ShareObservation): number => {
+  if (observation.mentionCount <= 0 || observation.sampleCount <= 0) return 0;
+  const rate = Math.min(observation.mentionCount, observation.sampleCount) / observation.sampleCount;
+  return rate * rankWeight(observation.position) * priorityWeight(observation.priority);
+};
+
+// Periods are keyed by their first day in UTC; weeks start on Monday
+export const periodKey = (date: string, period: SharePeriod): string => {
+  const day = new Date(date);
+  if (period === 'month') return `${day.toISOString().slice(0, 7)}-01`;
+  if (period === 'week') {
+    const offset = (day.getUTCDay() + 6) % 7;
+    day.setUTCDate(day.getUTCDate() - offset);
+  }
+  return day.toISOString().slice(0, 10);
+};
+
+export const computeShareOfVoice = (observations: ShareObservation[]): ShareEntry[] => {
+  const totals = new Map<string, { isBrand: boolean; voice: number }>();
+  observations.forEach(observation => {
+    const entry = totals.get(observation.competitor) || { isBrand: observation.isBrand, voice: 0 };
+    entry.voice += observationVoice(observation);
+    totals.set(observation.competitor, entry);
+  });
+
+  const total = Array.from(totals.values()).reduce((acc, entry) => acc + entry.voice, 0);
+
+  return Array.from(totals.entries())
+    .map(([competitor, entry]) => ({
+      competitor,
+      isBrand: entry.isBrand,
+      voice: round(entry.voice),
+      share: total > 0 ? round(entry.voice / total) : 0,
+    }))
+    .sort((a, b) => b.share - a.share || Number(b.isBrand) - Number(a.isBrand));
+};
+
+const dimensionKey = (observation: ShareObservation, dimension: ShareDimension) =>
+  dimension === 'engine' ? observation.provider || UNKNOWN_ENGINE : observation.keywordGroup || UNGROUPED;
+
+// Share of voice computed separately inside each engine or keyword group
+export const shareOfVoiceBy = (observations: ShareObservation[], dimension: ShareDimension): ShareBreakdown[] => {
+  const groups = new Map<string, ShareObservation[]>();
+  observations.forEach(observation => {
+    const key = dimensionKey(observation, dimension);
+    const group = groups.get(key) || [];
+    group.push(observation);
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, group]) => ({ key, entries: computeShareOfVoice(group) }))
+    .sort((a, b) => a.key.localeCompare(b.key));
+};
+
+// Competitors with the largest overall share keep their own series; the rest are folded into "Other"
+export const topCompetitors = (entries: ShareEntry[], limit: number): string[] => {
+  const brand = entries.filter(entry => entry.isBrand).map(entry => entry.competitor);
+  const others = entries.filter(entry => !entry.isBrand && entry.share > 0).map(entry => entry.competitor);
+  return [...brand, ...others].slice(0, limit);
+};
+
+export const shareOfVoiceSeries = (
+  observations: ShareObservation[],
+  period: SharePeriod,
+  competitors: string[]
+): ShareSeriesRow[] => {
+  const keep = new Set(competitors);
+  const byPeriod = new Map<string, ShareObservation[]>();
+  observations.forEach(observation => {
+    const key = periodKey(observation.date, period);
+    const group = byPeriod.get(key) || [];
+    group.push(observation);
+    byPeriod.set(key, group);
+  });
+
+  return Array.from(byPeriod.keys()).sort().map(key => {
+    const row: ShareSeriesRow = { period: key };
+    [...competitors, OTHER_COMPETITORS].forEach(name => { row[name] = 0; });
+    computeShareOfVoice(byPeriod.get(key)!).forEach(entry => {
+      const name = keep.has(entry.competitor) ? entry.competitor : OTHER_COMPETITORS;
+      row[name] = round(Number(row[name]) + entry.share * 100, 2);
+    });
+    return row;
+  });
+};
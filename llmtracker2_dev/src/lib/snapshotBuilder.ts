@@ -0,0 +1,111 @@
+// Turns one analysed answer into historical_snapshots rows, one per tracked entity.
+// Shared by the tracking run, the history backfill and the client service.
+
+import { BrandAnalysisResult } from './openai.ts';
+import { MentionSentiment } from './sentiment.ts';
+
+export type SnapshotDataSource = 'api_response' | 'manual' | 'scheduled';
+
+export interface SnapshotContext {
+  projectId: string;
+  brandName: string;
+  keywordId: string | null;
+  reportId: string | null;
+  apiResponseId: string | null;
+  dataSource: SnapshotDataSource;
+  snapshotDate?: string;
+}
+
+export interface SnapshotRow {
+  project_id: string;
+  keyword_id: string | null;
+  keyword: string;
+  report_id: string | null;
+  api_response_id: string | null;
+  provider: string;
+  competitor_name: string;
+  is_brand: boolean;
+  position: number | null;
+  mention_count: number;
+  sample_count: number;
+  sentiment_score: number | null;
+  market_share: number;
+  snapshot_date: string;
+  data_source: SnapshotDataSource;
+  metadata: Record<string, unknown>;
+}
+
+interface EntityOutcome {
+  name: string;
+  isBrand: boolean;
+  mentioned: boolean;
+  position: number | null;
+  mentionCount: number;
+  sampleCount: number;
+  sentiment: MentionSentiment | null;
+  metadata: Record<string, unknown>;
+}
+
+// Competitor names are expected to be canonicalized to the project's competitor list already
+export const buildSnapshots = (result: BrandAnalysisResult, context: SnapshotContext): SnapshotRow[] => {
+  const outcomes: EntityOutcome[] = [
+    {
+      name: context.brandName,
+      isBrand: true,
+      mentioned: result.brandMentioned,
+      position: result.brandMentioned ? result.position : null,
+      mentionCount: result.stats?.mentionCount ?? (result.brandMentioned ? 1 : 0),
+      sampleCount: result.stats?.sampleCount ?? 1,
+      sentiment: result.brandMentioned ? result.sentiment ?? null : null,
+      metadata: {
+        rankSource: result.rankSource ?? null,
+        confidence: result.confidence,
+        positionStdDev: result.stats?.positionStdDev ?? null,
+        stability: result.stats?.stability ?? null,
+      },
+    },
+    ...result.competitors.map(competitor => ({
+      name: competitor.name,
+      isBrand: false,
+      mentioned: competitor.mentioned,
+      position: competitor.mentioned ? competitor.position : null,
+      mentionCount: competitor.stats?.mentionCount ?? (competitor.mentioned ? 1 : 0),
+      sampleCount: competitor.stats?.sampleCount ?? 1,
+      sentiment: competitor.mentioned ? competitor.sentiment ?? null : null,
+      metadata: {
+        rankSource: competitor.rankSource ?? null,
+        positionStdDev: competitor.stats?.positionStdDev ?? null,
+        stability: competitor.stats?.stability ?? null,
+      },
+    })),
+  ];
+
+  // Market share is each entity's portion of all tracked mentions in this answer
+  const totalMentions = outcomes.reduce((acc, o) => acc + o.mentionCount / o.sampleCount, 0);
+  const snapshotDate = context.snapshotDate || new Date().toISOString();
+
+  return outcomes.map(outcome => ({
+    project_id: context.projectId,
+    keyword_id: context.keywordId,
+    keyword: result.keyword,
+    report_id: context.reportId,
+    api_response_id: context.apiResponseId,
+    provider: result.provider,
+    competitor_name: outcome.name,
+    is_brand: outcome.isBrand,
+    position: outcome.position,
+    mention_count: outcome.mentionCount,
+    sample_count: outcome.sampleCount,
+    sentiment_score: outcome.sentiment?.score ?? null,
+    market_share: totalMentions > 0 ? Math.round((outcome.mentionCount / outcome.sampleCount / totalMentions) * 10000) / 10000 : 0,
+    snapshot_date: snapshotDate,
+    data_source: context.dataSource,
+    metadata: {
+      ...outcome.metadata,
+      model: result.model,
+      sentiment: outcome.sentiment?.label ?? null,
+      pros: outcome.sentiment?.pros ?? [],
+      cons: outcome.sentiment?.cons ?? [],
+    },
+  }));
+};
@@ -0,0 +1,71 @@
+// Summary statistics over repeated samples of the same prompt.
+
+export interface MentionStats {
+  sampleCount: number;
+  mentionCount: number;
+  mentionRate: number;
+  meanPosition: number | null;
+  medianPosition: number | null;
+  positionStdDev: number | null;
+  stability: number;
+}
+
+export interface MentionSample {
+  mentioned: boolean;
+  position: number | null;
+}
+
+export const MIN_SAMPLE_COUNT = 1;
+export const MAX_SAMPLE_COUNT = 10;
+export const SAMPLE_COUNT_OPTIONS = [1, 3, 5, 10];
+
+export const mean = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((acc, v) => acc + v, 0) / values.length : null;
+
+export const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+// Sample standard deviation; a single observation has no spread to estimate
+export const standardDeviation = (values: number[]): number | null => {
+  const avg = mean(values);
+  if (avg === null || values.length < 2) return values.length === 1 ? 0 : null;
+  const variance = values.reduce((acc, v) => acc + (v - avg) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+};
+
+const round = (value: number | null, digits = 2) =>
+  value === null ? null : Math.round(value * 10 ** digits) / 10 ** digits;
+
+// 0-100: 100 when every sample agrees on whether and where the entity appears.
+// Mention agreement drops to 0 at a 50/50 split; rank spread discounts it further.
+export const stabilityScore = (mentionRate: number, positionStdDev: number | null): number => {
+  const mentionAgreement = Math.abs(2 * mentionRate - 1);
+  const rankAgreement = positionStdDev === null ? 1 : 1 / (1 + positionStdDev);
+  return Math.round(mentionAgreement * rankAgreement * 100);
+};
+
+export const summarizeSamples = (samples: MentionSample[]): MentionStats => {
+  const mentioned = samples.filter(s => s.mentioned);
+  const positions = mentioned.map(s => s.position).filter((p): p is number => p !== null);
+  const mentionRate = samples.length > 0 ? mentioned.length / samples.length : 0;
+  const positionStdDev = standardDeviation(positions);
+
+  return {
+    sampleCount: samples.length,
+    mentionCount: mentioned.length,
+    mentionRate: round(mentionRate)!,
+    meanPosition: round(mean(positions)),
+    medianPosition: median(positions),
+    positionStdDev: round(positionStdDev),
+    stability: stabilityScore(mentionRate, positionStdDev),
+  };
+};
+
+export const clampSampleCount = (value: unknown): number => {
+  const count = typeof value === 'number' && Number.isFinite(value) ? Math.round(value) : MIN_SAMPLE_COUNT;
+  return Math.min(MAX_SAMPLE_COUNT, Math.max(MIN_SAMPLE_COUNT, count));
+};
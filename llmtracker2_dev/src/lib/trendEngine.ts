@@ -0,0 +1,239 @@
+// Trend metrics over daily history: least-squares slopes with t-based confidence, Wilson intervals for rates.
+
+import { mean } from './statistics.ts';
+
+export type TrendMetricType = 'position_velocity' | 'mention_trend' | 'sentiment_trend' | 'market_share_change';
+
+export interface TrendPoint {
+  date: string;
+  position: number | null;
+  mentions: number;
+  samples: number;
+  sentiment: number | null;
+  marketShare: number | null;
+}
+
+export interface RegressionResult {
+  n: number;
+  slope: number;
+  intercept: number;
+  rSquared: number;
+  slopeStdError: number;
+  // Two-sided p-value for "the slope is zero"
+  pValue: number;
+  slopeInterval: [number, number];
+}
+
+export interface RateInterval {
+  successes: number;
+  trials: number;
+  rate: number;
+  lower: number;
+  upper: number;
+}
+
+export interface TrendResult {
+  metric: TrendMetricType;
+  value: number;
+  // 1 - p-value of the slope: how unlikely this trend is if nothing actually changed
+  confidence: number;
+  rawData: Record<string, unknown>;
+}
+
+// A slope needs at least one residual degree of freedom to estimate its error
+export const MIN_TREND_POINTS = 3;
+
+const Z_95 = 1.959964;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number, digits = 4) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// Lanczos approximation
+const logGamma = (x: number): number => {
+  const g = [
+    76.180091729471, -86.505320329417, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5,
+  ];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  for (const coefficient of g) series += coefficient / ++y;
+  return -tmp + Math.log((2.506628274631 * series) / x);
+};
+
+// Continued fraction for the regularized incomplete beta function
+const betaContinuedFraction = (a: number, b: number, x: number): number => {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-10) break;
+  }
+
+  return h;
+};
+
+const incompleteBeta = (a: number, b: number, x: number): number => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(a, b, x)) / a
+    : 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b;
+};
+
+// P(|T| >= |t|) for Student's t with df degrees of freedom
+export const studentTTwoSidedP = (t: number, df: number): number =>
+  Math.min(1, Math.max(0, incompleteBeta(df / 2, 0.5, df / (df + t * t))));
+
+// Critical value with P(|T| >= value) = alpha, found by bisection
+export const studentTCritical = (df: number, alpha = 0.05): number => {
+  let low = 0;
+  let high = 1000;
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (studentTTwoSidedP(mid, df) > alpha) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+};
+
+export const linearRegression = (points: { x: number; y: number }[]): RegressionResult | null => {
+  const n = points.length;
+  if (n < MIN_TREND_POINTS) return null;
+
+  const meanX = mean(points.map(p => p.x))!;
+  const meanY = mean(points.map(p => p.y))!;
+  const sxx = points.reduce((acc, p) => acc + (p.x - meanX) ** 2, 0);
+  const syy = points.reduce((acc, p) => acc + (p.y - meanY) ** 2, 0);
+  if (sxx === 0) return null;
+
+  const sxy = points.reduce((acc, p) => acc + (p.x - meanX) * (p.y - meanY), 0);
+  const slope = sxy / sxx;
+  const intercept = meanY - slope * meanX;
+  const residualSumOfSquares = points.reduce((acc, p) => acc + (p.y - (intercept + slope * p.x)) ** 2, 0);
+  const df = n - 2;
+  const slopeStdError = Math.sqrt(residualSumOfSquares / df / sxx);
+
+  // A perfect fit leaves no error to test against
+  const pValue = slopeStdError === 0 ? (slope === 0 ? 1 : 0) : studentTTwoSidedP(slope / slopeStdError, df);
+  const margin = studentTCritical(df) * slopeStdError;
+
+  return {
+    n,
+    slope,
+    intercept,
+    rSquared: syy === 0 ? 1 : 1 - residualSumOfSquares / syy,
+    slopeStdError,
+    pValue,
+    slopeInterval: [slope - margin, slope + margin],
+  };
+};
+
+// Wilson score interval, which stays inside [0, 1] and behaves at small counts and extreme rates
+export const wilsonInterval = (successes: number, trials: number, z = Z_95): RateInterval | null => {
+  if (trials <= 0) return null;
+  const rate = successes / trials;
+  const z2 = z * z;
+  const center = (rate + z2 / (2 * trials)) / (1 + z2 / trials);
+  const margin = (z / (1 + z2 / trials)) * Math.sqrt((rate * (1 - rate)) / trials + z2 / (4 * trials * trials));
+
+  return {
+    successes,
+    trials,
+    rate: round(rate),
+    lower: round(Math.max(0, center - margin)),
+    upper: round(Math.min(1, center + margin)),
+  };
+};
+
+const daysSince = (start: string, date: string) => (new Date(date).getTime() - new Date(start).getTime()) / DAY_MS;
+
+// Fits y against days and reports the slope per week, scaled and signed so positive reads as "better" or "more"
+const weeklyTrend = (
+  metric: TrendMetricType,
+  points: TrendPoint[],
+  value: (point: TrendPoint) => number | null,
+  scale: number,
+  unit: string
+): TrendResult | null => {
+  const series = points
+    .map(point => ({ date: point.date, y: value(point) }))
+    .filter((point): point is { date: string; y: number } => point.y !== null);
+  if (series.length < MIN_TREND_POINTS) return null;
+
+  const regression = linearRegression(series.map(point => ({ x: daysSince(series[0].date, point.date), y: point.y })));
+  if (!regression) return null;
+
+  const perWeek = (slope: number) => slope * 7 * scale;
+  const interval = [perWeek(regression.slopeInterval[0]), perWeek(regression.slopeInterval[1])].sort((a, b) => a - b);
+
+  return {
+    metric,
+    value: round(perWeek(regression.slope)),
+    confidence: round(1 - regression.pValue, 3),
+    rawData: {
+      unit,
+      points: regression.n,
+      firstDate: series[0].date,
+      lastDate: series[series.length - 1].date,
+      slopePerDay: regression.slope,
+      intercept: regression.intercept,
+      rSquared: round(regression.rSquared),
+      pValue: round(regression.pValue),
+      interval95: interval.map(bound => round(bound)),
+    },
+  };
+};
+
+// Daily points, oldest first. Metrics without enough data are left out rather than guessed.
+export const computeTrends = (points: TrendPoint[]): TrendResult[] => {
+  const sorted = [...points].sort((a, b) => a.date.localeCompare(b.date));
+
+  // Lower positions are better, so the slope is negated
+  const positionVelocity = weeklyTrend('position_velocity', sorted, p => p.position, -1, 'positions per week');
+  const mentionTrend = weeklyTrend(
+    'mention_trend', sorted, p => (p.samples > 0 ? p.mentions / p.samples : null), 100, 'percentage points per week'
+  );
+  const sentimentTrend = weeklyTrend('sentiment_trend', sorted, p => p.sentiment, 1, 'sentiment points per week');
+  const marketShareChange = weeklyTrend(
+    'market_share_change', sorted, p => p.marketShare, 100, 'percentage points per week'
+  );
+
+  if (mentionTrend) {
+    // Mention rates for the earlier and later half of the window, with Wilson intervals
+    const sampled = sorted.filter(p => p.samples > 0);
+    const half = Math.floor(sampled.length / 2);
+    const totals = (slice: TrendPoint[]) => wilsonInterval(
+      slice.reduce((acc, p) => acc + Math.min(p.mentions, p.samples), 0),
+      slice.reduce((acc, p) => acc + p.samples, 0)
+    );
+    mentionTrend.rawData.previousRate = totals(sampled.slice(0, half));
+    mentionTrend.rawData.recentRate = totals(sampled.slice(half));
+    mentionTrend.rawData.overallRate = totals(sampled);
+  }
+
+  return [positionVelocity, mentionTrend, sentimentTrend, marketShareChange]
+    .filter((trend): trend is TrendResult => trend !== null);
+};
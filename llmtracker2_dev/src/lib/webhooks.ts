@@ -0,0 +1,176 @@
+// Outbound webhooks: event catalogue, payload signing and the retry schedule for deliveries.
+// Runs in the browser (settings page), in edge functions and in receivers verifying our signatures.
+
+export type WebhookEventType =
+  | 'report.completed'
+  | 'report.failed'
+  | 'brand.mention_lost'
+  | 'brand.mention_gained'
+  | 'competitor.detected'
+  | 'alert.triggered';
+
+export const WEBHOOK_EVENTS: Record<WebhookEventType, { label: string; description: string }> = {
+  'report.completed': {
+    label: 'Report completed',
+    description: 'A tracking run finished with results',
+  },
+  'report.failed': {
+    label: 'Report failed',
+    description: 'Every analysis in a tracking run failed',
+  },
+  'brand.mention_lost': {
+    label: 'Brand lost mention',
+    description: 'Your brand is missing from an answer that mentioned it in the previous run',
+  },
+  'brand.mention_gained': {
+    label: 'Brand gained mention',
+    description: 'Your brand appears in an answer that did not mention it in the previous run',
+  },
+  'competitor.detected': {
+    label: 'New competitor detected',
+    description: 'A brand entered the top answers that was not there before',
+  },
+  'alert.triggered': {
+    label: 'Alert triggered',
+    description: 'One of the project\'s alert rules matched, for rules that deliver by webhook',
+  },
+};
+
+export const isWebhookEventType = (value: unknown): value is WebhookEventType =>
+  typeof value === 'string' && value in WEBHOOK_EVENTS;
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export const SIGNATURE_HEADER = 'X-LLMTracker-Signature';
+export const EVENT_HEADER = 'X-LLMTracker-Event';
+export const DELIVERY_HEADER = 'X-LLMTracker-Delivery';
+
+// Attempts per delivery, the first one included; after the last it is marked failed and can only be replayed
+export const MAX_DELIVERY_ATTEMPTS = 6;
+const RETRY_BASE_SECONDS = 60;
+const RETRY_MAX_SECONDS = 12 * 60 * 60;
+// Receivers should reject signatures older than this to stop replayed requests
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export interface WebhookEvent<T = Record<string, unknown>> {
+  // Stable across retries and replays so receivers can de-duplicate
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  project: { id: string; name: string };
+  data: T;
+}
+
+export interface MentionObservation {
+  keyword: string;
+  provider: string;
+  mentioned: boolean;
+  mentionRate: number;
+  position: number | null;
+  reportId: string | null;
+}
+
+export interface MentionChange {
+  type: 'brand.mention_lost' | 'brand.mention_gained';
+  keyword: string;
+  provider: string;
+  current: MentionObservation;
+  previous: MentionObservation;
+}
+
+// 1 minute, 4 minutes, 16 minutes, ... capped at 12 hours
+export const computeDeliveryRetryAt = (attemptCount: number, from: Date = new Date()): Date =>
+  new Date(from.getTime() + Math.min(RETRY_BASE_SECONDS * 4 ** Math.max(attemptCount - 1, 0), RETRY_MAX_SECONDS) * 1000);
+
+const LOCAL_HOSTNAMES = ['localhost', '127.0.0.1', 'host.docker.internal'];
+
+// Loopback, private, link-local (cloud metadata), CGNAT and unspecified addresses, IPv4 and IPv6
+export const isPrivateAddress = (address: string): boolean => {
+  const ip = address.replace(/^\[|\]$/g, '').toLowerCase();
+  // IPv4-mapped IPv6, which URL parsing writes in hex (::ffff:7f00:1)
+  const mappedV4 = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mappedV4) return isPrivateAddress(mappedV4[1]);
+  const mappedHex = ip.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+    return isPrivateAddress([high >> 8, high & 255, low >> 8, low & 255].join('.'));
+  }
+
+  const v4 = ip.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (v4) {
+    const [a, b] = [Number(v4[1]), Number(v4[2])];
+    return a === 0 || a === 10 || a === 127 || (a === 169 && b === 254) || (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) || (a === 100 && b >= 64 && b <= 127) || a >= 224;
+  }
+
+  if (!ip.includes(':')) return false;
+  return ip === '::' || ip === '::1' || /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip) || ip.startsWith('ff');
+};
+
+// Receivers must be public https endpoints. Plain http to local receivers is only for development,
+// where the caller opts in; anything resolving to an internal address is refused by the server as well.
+export const isValidWebhookUrl = (value: string, { allowLocalHttp = false } = {}): boolean => {
+  try {
+    const url = new URL(value);
+    const hostname = url.hostname.toLowerCase();
+    if (allowLocalHttp && LOCAL_HOSTNAMES.includes(hostname)) return url.protocol === 'http:' || url.protocol === 'https:';
+    if (url.protocol !== 'https:') return false;
+    if (hostname === 'localhost' || /\.(localhost|local|internal)$/.test(hostname)) return false;
+    return !isPrivateAddress(hostname);
+  } catch {
+    return false;
+  }
+};
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const hmacSha256 = async (secret: string, message: string) => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(message)));
+};
+
+// Signature header value: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+export const signWebhookPayload = async (secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)) =>
+  `t=${timestamp},v1=${await hmacSha256(secret, `${timestamp}.${body}`)}`;
+
+export const verifyWebhookSignature = async (
+  secret: string,
+  body: string,
+  header: string,
+  now = Math.floor(Date.now() / 1000)
+): Promise<boolean> => {
+  const parts = Object.fromEntries(header.split(',').map(part => part.trim().split('=') as [string, string]));
+  const timestamp = Number(parts.t);
+  if (!Number.isFinite(timestamp) || !parts.v1) return false;
+  if (Math.abs(now - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = await hmacSha256(secret, `${timestamp}.${body}`);
+  // Constant time so the comparison does not leak how much of the signature matched
+  if (expected.length !== parts.v1.length) return false;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) diff |= expected.charCodeAt(i) ^ parts.v1.charCodeAt(i);
+  return diff === 0;
+};
+
+// Brand mention flips per keyword and engine against the previous observation of the same pair
+export const detectMentionChanges = (
+  current: MentionObservation[],
+  previous: MentionObservation[]
+): MentionChange[] => {
+  const key = (o: MentionObservation) => `${o.keyword}|${o.provider}`;
+  const before = new Map(previous.map(o => [key(o), o]));
+
+  return current.flatMap(observation => {
+    const prior = before.get(key(observation));
+    if (!prior || prior.mentioned === observation.mentioned) return [];
+    return [{
+      type: observation.mentioned ? 'brand.mention_gained' as const : 'brand.mention_lost' as const,
+      keyword: observation.keyword,
+      provider: observation.provider,
+      current: observation,
+      previous: prior,
+    }];
+  });
+};
@@ -8,6 +8,13 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -34,6 +41,7 @@ import {
 import { useCompetitorStats } from '@/hooks/useCompetitorStats';
 import { useTrialStatus } from '@/hooks/useTrialStatus';
 import { UpgradePrompter } from '@/components/UpgradePrompter';
+import { ShareOfVoice } from '@/components/ShareOfVoice';
 
 interface Project {
   id: string;
@@ -66,6 +74,7 @@ export const Dashboard: React.FC = () => {
   const [projectToDelete, setProjectToDelete] = useState<Project | null>(null);
   const [operationLoading, setOperationLoading] = useState(false);
   const [canCreateProject, setCanCreateProject] = useState(true);
+  const [shareProjectId, setShareProjectId] = useState<string | null>(null);
 
   useEffect(() => {
     fetchDashboardData();
@@ -293,6 +302,9 @@ export const Dashboard: React.FC = () => {
     return variants[status] || 'outline';
   };
 
+  // Share of voice is measured within one project, against that project's competitors
+  const shareProject = projects.find(p => p.id === shareProjectId) || projects[0];
+
   return (
     <DashboardLayout>
       <div className="space-y-8">
@@ -436,6 +448,28 @@ export const Dashboard: React.FC = () => {
           </Card>
         </div>
 
+        {/* Share of Voice */}
+        {shareProject && (
+          <ShareOfVoice
+            projectId={shareProject.id}
+            actions={
+              <Select
+                value={shareProject.id}
+                onValueChange={setShareProjectId}
+              >
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {projects.map(project => (
+                    <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            }
+          />
+        )}
+
         {/* Projects Section */}
         <div className="space-y-6">
           <div className="flex items-center justify-between">
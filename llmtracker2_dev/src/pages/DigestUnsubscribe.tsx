@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { supabase } from '@/integrations/supabase/client';
+import { CheckCircle2, Loader2, MailX } from 'lucide-react';
+
+// Linked from the digests sent to extra recipients, who usually have no account.
+// Unsubscribing takes a click so that link scanners opening the page do not unsubscribe anyone.
+export const DigestUnsubscribe: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const digestId = searchParams.get('digest');
+  const email = searchParams.get('email');
+  const signature = searchParams.get('sig');
+  const [status, setStatus] = useState<'idle' | 'working' | 'done' | 'error'>('idle');
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleUnsubscribe = async () => {
+    setStatus('working');
+    try {
+      const { error } = await supabase.functions.invoke('send-digests', {
+        body: { unsubscribe: { digestId, email, signature } },
+      });
+      if (error) {
+        const details = await error.context?.json?.().catch(() => null);
+        throw new Error(details?.error || error.message);
+      }
+      setStatus('done');
+    } catch (error) {
+      console.error('Error unsubscribing from digest:', error);
+      setMessage(error instanceof Error ? error.message : 'Failed to unsubscribe');
+      setStatus('error');
+    }
+  };
+
+  const validLink = !!digestId && !!email && !!signature;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background via-background to-accent/20 p-4">
+      <Card className="card-gradient w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            {status === 'done' ? <CheckCircle2 className="h-5 w-5" /> : <MailX className="h-5 w-5" />}
+            {status === 'done' ? 'Unsubscribed' : 'Unsubscribe from digest'}
+          </CardTitle>
+          <CardDescription>
+            {!validLink
+              ? 'This unsubscribe link is incomplete. Use the link from the digest email.'
+              : status === 'done'
+                ? `${email} will no longer receive this LLM Tracker digest.`
+                : `Stop sending this LLM Tracker digest to ${email}.`}
+          </CardDescription>
+        </CardHeader>
+        {validLink && status !== 'done' && (
+          <CardContent className="space-y-3">
+            {status === 'error' && message && <p className="text-sm text-destructive">{message}</p>}
+            <Button onClick={handleUnsubscribe} disabled={status === 'working'} className="w-full">
+              {status === 'working' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Unsubscribe
+            </Button>
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+};
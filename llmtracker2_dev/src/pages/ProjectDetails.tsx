@@ -1,20 +1,45 @@
-import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useRef } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { DashboardLayout } from '@/components/DashboardLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { Progress } from '@/components/ui/progress';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { toast } from '@/hooks/use-toast';
 import { BrandTrackingResults } from '@/components/BrandTrackingResults';
 import { RawResponseDialog } from '@/components/RawResponseDialog';
 import { CompetitorMatrix } from '@/components/CompetitorMatrix';
 import { CompetitorTable } from '@/components/CompetitorTable';
-import { analyzeBrandMention, BrandAnalysisResult } from '@/lib/openai';
-import { ArrowLeft, Plus, X, FileText, Save, Key } from 'lucide-react';
+import { EngineSettings } from '@/components/EngineSettings';
+import { CitationAnalysis } from '@/components/CitationAnalysis';
+import { CompetitorAnalysisReport } from '@/components/CompetitorAnalysisReport';
+import { EntityAliasDialog } from '@/components/EntityAliasDialog';
+import { ProjectTrends } from '@/components/ProjectTrends';
+import { AlertRules } from '@/components/AlertRules';
+import { AlertList } from '@/components/AlertList';
+import { ShareOfVoice } from '@/components/ShareOfVoice';
+import { useTrackingRun } from '@/hooks/useTrackingRun';
+import { BrandAnalysisResult } from '@/lib/openai';
+import { EntityAliases, EntityAliasMap, parseEntityAliases } from '@/lib/entityMatcher';
+import { EngineConfig, parseEngines } from '@/lib/providers';
+import { clampSampleCount } from '@/lib/statistics';
+import { REPORT_TYPES, ReportType } from '@/lib/reportResults';
+import { parseCitationAnalysis } from '@/lib/citations';
+import { parseCompetitorAnalysis } from '@/lib/competitorAnalysis';
+import { DEFAULT_KEYWORD_PRIORITY, MAX_KEYWORD_PRIORITY } from '@/lib/shareOfVoice';
+import { ArrowLeft, Plus, X, FileText, Save, Tags } from 'lucide-react';
 
 interface Project {
   id: string;
@@ -22,6 +47,9 @@ interface Project {
   description?: string | null;
   brand_name: string;
   competitors?: string[] | null;
+  engines: EngineConfig[];
+  entity_aliases: EntityAliasMap;
+  sample_count: number;
   created_at: string;
   updated_at: string;
   user_id: string;
@@ -30,12 +58,17 @@ interface Project {
 interface Keyword {
   id: string;
   keyword: string;
+  priority: number | null;
+  keyword_group: string | null;
   project_id: string;
   created_at: string;
 }
 
 export const ProjectDetails: React.FC = () => {
   const { id } = useParams<{ id: string }>();
+  // Tab and trends keyword live in the URL so notifications can link straight to them
+  const [searchParams, setSearchParams] = useSearchParams();
+  const keywordParam = searchParams.get('keyword');
   const navigate = useNavigate();
   
   const [project, setProject] = useState<Project | null>(null);
@@ -50,17 +83,31 @@ export const ProjectDetails: React.FC = () => {
   const [newKeyword, setNewKeyword] = useState('');
   
   // Brand tracking states
-  const [isGeneratingReport, setIsGeneratingReport] = useState(false);
-  const [brandTrackingResults, setBrandTrackingResults] = useState<BrandAnalysisResult[]>([]);
+  const [isStartingRun, setIsStartingRun] = useState(false);
+  const [reportType, setReportType] = useState<ReportType>('keyword_tracking');
+  const [activeReportId, setActiveReportId] = useState<string | null>(null);
+  const trackingRun = useTrackingRun(activeReportId);
+  const brandTrackingResults = trackingRun.results;
+  const isGeneratingReport = isStartingRun || trackingRun.isRunning;
+  const previousRunStatus = useRef<string | null>(null);
   const [selectedResult, setSelectedResult] = useState<BrandAnalysisResult | null>(null);
   const [showRawDialog, setShowRawDialog] = useState(false);
-  const [openaiApiKey, setOpenaiApiKey] = useState('');
+
+  // Engine states
+  const [engines, setEngines] = useState<EngineConfig[]>([]);
+  const [sampleCount, setSampleCount] = useState(1);
+  const [savingEngines, setSavingEngines] = useState(false);
+
+  // Alias states
+  const [entityAliases, setEntityAliases] = useState<EntityAliasMap>(parseEntityAliases(null));
+  const [aliasTarget, setAliasTarget] = useState<{ name: string; isBrand: boolean } | null>(null);
+  const [savingAliases, setSavingAliases] = useState(false);
   
   // Context dialog states
   const [showContextDialog, setShowContextDialog] = useState(false);
   const [contextData, setContextData] = useState<{
     brand: string;
-    keyword: string;
+    result: BrandAnalysisResult;
     context: string;
   } | null>(null);
 
@@ -92,10 +139,30 @@ export const ProjectDetails: React.FC = () => {
 
       if (keywordsError) throw keywordsError;
 
-      setProject(projectData);
+      // Resume watching a run that is still going on the server
+      const { data: runningReports } = await supabase
+        .from('reports')
+        .select('id')
+        .eq('project_id', id)
+        .in('status', ['pending', 'processing'])
+        .order('created_at', { ascending: false })
+        .limit(1);
+
+      if (runningReports && runningReports.length > 0) {
+        setActiveReportId(runningReports[0].id);
+      }
+
+      const projectEngines = parseEngines(projectData.engines);
+
+      const projectAliases = parseEntityAliases(projectData.entity_aliases);
+
+      setProject({ ...projectData, engines: projectEngines, entity_aliases: projectAliases });
       setKeywords(keywordsData || []);
       setBrandName(projectData.brand_name);
       setCompetitors(projectData.competitors || []);
+      setEngines(projectEngines);
+      setSampleCount(clampSampleCount(projectData.sample_count));
+      setEntityAliases(projectAliases);
     } catch (error) {
       console.error('Error fetching project data:', error);
       toast({
@@ -137,6 +204,35 @@ export const ProjectDetails: React.FC = () => {
     }
   };
 
+  const handleSaveEngines = async () => {
+    if (!project || engines.length === 0) return;
+
+    setSavingEngines(true);
+    try {
+      const { error } = await supabase
+        .from('projects')
+        .update({ engines: engines as unknown as Json, sample_count: sampleCount })
+        .eq('id', project.id);
+
+      if (error) throw error;
+
+      setProject(prev => prev ? { ...prev, engines, sample_count: sampleCount } : null);
+      toast({
+        title: "Success",
+        description: "Engine settings updated successfully.",
+      });
+    } catch (error) {
+      console.error('Error updating engines:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update engine settings.",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingEngines(false);
+    }
+  };
+
   const handleAddCompetitor = async () => {
     if (!project || !newCompetitor.trim()) return;
 
@@ -170,16 +266,19 @@ export const ProjectDetails: React.FC = () => {
     if (!project) return;
 
     const updatedCompetitors = competitors.filter(c => c !== competitorToRemove);
+    const { [competitorToRemove]: _removed, ...remainingAliases } = entityAliases.competitors;
+    const updatedAliases = { ...entityAliases, competitors: remainingAliases };
     
     try {
       const { error } = await supabase
         .from('projects')
-        .update({ competitors: updatedCompetitors })
+        .update({ competitors: updatedCompetitors, entity_aliases: updatedAliases as unknown as Json })
         .eq('id', project.id);
 
       if (error) throw error;
 
       setCompetitors(updatedCompetitors);
+      setEntityAliases(updatedAliases);
       toast({
         title: "Success",
         description: "Competitor removed successfully.",
@@ -194,6 +293,44 @@ export const ProjectDetails: React.FC = () => {
     }
   };
 
+  const handleSaveAliases = async (aliases: EntityAliases) => {
+    if (!project || !aliasTarget) return;
+
+    const updatedAliases: EntityAliasMap = aliasTarget.isBrand
+      ? { ...entityAliases, brand: aliases }
+      : { ...entityAliases, competitors: { ...entityAliases.competitors, [aliasTarget.name]: aliases } };
+
+    setSavingAliases(true);
+    try {
+      const { error } = await supabase
+        .from('projects')
+        .update({ entity_aliases: updatedAliases as unknown as Json })
+        .eq('id', project.id);
+
+      if (error) throw error;
+
+      setEntityAliases(updatedAliases);
+      setProject(prev => prev ? { ...prev, entity_aliases: updatedAliases } : null);
+      setAliasTarget(null);
+      toast({
+        title: "Success",
+        description: `Names for ${aliasTarget.name} updated successfully.`,
+      });
+    } catch (error) {
+      console.error('Error updating aliases:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update names.",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingAliases(false);
+    }
+  };
+
+  const countAliases = (aliases?: EntityAliases) =>
+    aliases ? aliases.aliases.length + aliases.products.length + aliases.domains.length + aliases.misspellings.length : 0;
+
   const handleAddKeyword = async () => {
     if (!project || !newKeyword.trim()) return;
 
@@ -225,6 +362,26 @@ export const ProjectDetails: React.FC = () => {
     }
   };
 
+  const handleUpdateKeyword = async (keywordId: string, changes: Pick<Partial<Keyword>, 'priority' | 'keyword_group'>) => {
+    try {
+      const { error } = await supabase
+        .from('keywords')
+        .update(changes)
+        .eq('id', keywordId);
+
+      if (error) throw error;
+
+      setKeywords(prev => prev.map(k => k.id === keywordId ? { ...k, ...changes } : k));
+    } catch (error) {
+      console.error('Error updating keyword:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update keyword.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleRemoveKeyword = async (keywordId: string) => {
     try {
       const { error } = await supabase
@@ -249,116 +406,70 @@ export const ProjectDetails: React.FC = () => {
     }
   };
 
-  const handleGenerateReport = async () => {
-    if (!project || keywords.length === 0) return;
+  useEffect(() => {
+    const status = trackingRun.status;
+    const wasRunning = previousRunStatus.current === 'pending' || previousRunStatus.current === 'processing';
+    previousRunStatus.current = status;
+
+    if (!wasRunning) return;
 
-    if (!openaiApiKey.trim()) {
+    if (status === 'completed') {
       toast({
-        title: "API Key Required",
-        description: "Please enter your OpenAI API key to generate the report.",
+        title: "Report Generated",
+        description: `Successfully completed ${brandTrackingResults.length} analyses. Brand mentioned in ${brandTrackingResults.filter(r => r.brandMentioned).length} of them.`,
+      });
+    } else if (status === 'failed') {
+      toast({
+        title: "Error",
+        description: "Failed to generate report.",
         variant: "destructive",
       });
-      return;
     }
+  }, [trackingRun.status, brandTrackingResults]);
+
+  const handleGenerateReport = async () => {
+    if (!project || keywords.length === 0) return;
 
-    setIsGeneratingReport(true);
-    setBrandTrackingResults([]);
+    setIsStartingRun(true);
 
     try {
-      // Create report record
-      const { data: reportData, error: reportError } = await supabase
-        .from('reports')
-        .insert({
-          project_id: project.id,
-          report_type: 'keyword_tracking',
-          status: 'processing',
-          user_id: project.user_id,
-        })
-        .select()
-        .single();
+      const { data, error } = await supabase.functions.invoke('run-tracking', {
+        body: { projectId: project.id, reportType },
+      });
 
-      if (reportError) throw reportError;
-
-      const results: BrandAnalysisResult[] = [];
-
-      // Analyze each keyword
-      for (const keyword of keywords) {
-        try {
-          const result = await analyzeBrandMention(
-            keyword.keyword,
-            brandName,
-            competitors,
-            openaiApiKey
-          );
-          
-          results.push(result);
-          setBrandTrackingResults([...results]); // Update UI progressively
-
-          // Store API response
-          await supabase
-            .from('api_responses')
-            .insert({
-              report_id: reportData.id,
-              keyword: keyword.keyword,
-              provider: 'openai',
-              raw_response: { analysis: result.rawResponse },
-              response_metadata: {
-                brandMentioned: result.brandMentioned,
-                position: result.position,
-                confidence: result.confidence,
-                context: result.context,
-              },
-            });
-
-        } catch (error) {
-          console.error(`Error analyzing keyword ${keyword.keyword}:`, error);
-          toast({
-            title: "Analysis Error",
-            description: `Failed to analyze keyword: ${keyword.keyword}`,
-            variant: "destructive",
-          });
+      if (error) {
+        // The function answers 409 with the id of the run that is already going
+        const details = await error.context?.json?.().catch(() => null);
+        if (details?.reportId) {
+          setActiveReportId(details.reportId);
         }
+        throw new Error(details?.error || error.message);
       }
 
-      // Update report with final results
-      await supabase
-        .from('reports')
-        .update({
-          status: 'completed',
-          completed_at: new Date().toISOString(),
-          results: {
-            summary: {
-              totalKeywords: keywords.length,
-              brandMentioned: results.filter(r => r.brandMentioned).length,
-              averageConfidence: results.reduce((acc, r) => acc + r.confidence, 0) / results.length,
-            },
-            keywords: results.map(r => ({
-              keyword: r.keyword,
-              brandMentioned: r.brandMentioned,
-              position: r.position,
-              confidence: r.confidence,
-            })),
-          },
-        })
-        .eq('id', reportData.id);
-
+      setActiveReportId(data.reportId);
       toast({
-        title: "Report Generated",
-        description: `Successfully analyzed ${results.length} keywords. Brand mentioned in ${results.filter(r => r.brandMentioned).length} keywords.`,
+        title: "Report Started",
+        description: "The analysis is running on the server. You can leave this page and come back later.",
       });
-
     } catch (error) {
-      console.error('Error generating report:', error);
+      console.error('Error starting report:', error);
       toast({
         title: "Error",
-        description: "Failed to generate report.",
+        description: error instanceof Error ? error.message : "Failed to start report.",
         variant: "destructive",
       });
     } finally {
-      setIsGeneratingReport(false);
+      setIsStartingRun(false);
     }
   };
 
+  const citationAnalysis = trackingRun.reportType === 'citation_analysis' && trackingRun.status === 'completed'
+    ? parseCitationAnalysis(trackingRun.reportResults)
+    : null;
+  const competitorAnalysis = trackingRun.reportType === 'competitor_analysis' && trackingRun.status === 'completed'
+    ? parseCompetitorAnalysis(trackingRun.reportResults)
+    : null;
+
   if (loading) {
     return (
       <DashboardLayout>
@@ -407,212 +518,333 @@ export const ProjectDetails: React.FC = () => {
           </div>
         </div>
 
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          {/* Brand Name */}
-          <Card className="card-gradient">
-            <CardHeader>
-              <CardTitle>Brand Name</CardTitle>
-              <CardDescription>
-                Update your brand name for this project
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="flex space-x-2">
-                <Input
-                  value={brandName}
-                  onChange={(e) => setBrandName(e.target.value)}
-                  placeholder="Enter brand name"
-                />
-                <Button 
-                  onClick={handleSaveBrandName}
-                  disabled={saving || !brandName.trim()}
-                  size="sm"
-                >
-                  <Save className="h-4 w-4" />
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Competitors */}
-          <Card className="card-gradient">
-            <CardHeader>
-              <CardTitle>Competitors</CardTitle>
-              <CardDescription>
-                Manage your competitor list for tracking
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="flex space-x-2">
-                <Input
-                  value={newCompetitor}
-                  onChange={(e) => setNewCompetitor(e.target.value)}
-                  placeholder="competitor.com"
-                  onKeyDown={(e) => e.key === 'Enter' && handleAddCompetitor()}
-                />
-                <Button 
-                  onClick={handleAddCompetitor}
-                  disabled={!newCompetitor.trim()}
-                  size="sm"
-                >
-                  <Plus className="h-4 w-4" />
-                </Button>
-              </div>
-              
-              <div className="flex flex-wrap gap-2">
-                {competitors.map((competitor) => (
-                  <Badge key={competitor} variant="secondary" className="flex items-center gap-1">
-                    {competitor}
-                    <button
-                      onClick={() => handleRemoveCompetitor(competitor)}
-                      className="ml-1 rounded-full hover:bg-destructive/20"
+        <Tabs
+          value={searchParams.get('tab') || 'overview'}
+          onValueChange={(tab) => setSearchParams(tab === 'overview' ? {} : { tab }, { replace: true })}
+          className="space-y-6"
+        >
+          <TabsList>
+            <TabsTrigger value="overview">Overview</TabsTrigger>
+            <TabsTrigger value="trends">Trends</TabsTrigger>
+            <TabsTrigger value="alerts">Alerts</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="overview" className="space-y-6">
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Brand Name */}
+              <Card className="card-gradient">
+                <CardHeader>
+                  <CardTitle>Brand Name</CardTitle>
+                  <CardDescription>
+                    Update your brand name for this project
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex space-x-2">
+                    <Input
+                      value={brandName}
+                      onChange={(e) => setBrandName(e.target.value)}
+                      placeholder="Enter brand name"
+                    />
+                    <Button 
+                      onClick={handleSaveBrandName}
+                      disabled={saving || !brandName.trim()}
+                      size="sm"
                     >
-                      <X className="h-3 w-3" />
-                    </button>
-                  </Badge>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
-        </div>
-
-        {/* Keywords */}
-        <Card className="card-gradient">
-          <CardHeader>
-            <CardTitle>Keywords ({keywords.length})</CardTitle>
-            <CardDescription>
-              Manage keywords you want to track for this project
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="flex space-x-2">
-              <Input
-                value={newKeyword}
-                onChange={(e) => setNewKeyword(e.target.value)}
-                placeholder="Enter keyword to track"
-                onKeyDown={(e) => e.key === 'Enter' && handleAddKeyword()}
-              />
-              <Button 
-                onClick={handleAddKeyword}
-                disabled={!newKeyword.trim()}
-                size="sm"
-              >
-                <Plus className="h-4 w-4" />
-              </Button>
-            </div>
-            
-            <Separator />
-            
-            <div className="space-y-2 max-h-64 overflow-y-auto">
-              {keywords.length > 0 ? (
-                keywords.map((keyword) => (
-                  <div key={keyword.id} className="flex items-center justify-between p-2 rounded-md border">
-                    <span className="text-sm">{keyword.keyword}</span>
+                      <Save className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm text-muted-foreground">
+                      {countAliases(entityAliases.brand) > 0
+                        ? `${countAliases(entityAliases.brand)} alternative names tracked`
+                        : 'No aliases, products or domains added yet'}
+                    </p>
                     <Button
-                      onClick={() => handleRemoveKeyword(keyword.id)}
-                      variant="ghost"
+                      variant="outline"
                       size="sm"
+                      onClick={() => setAliasTarget({ name: project.brand_name, isBrand: true })}
                     >
-                      <X className="h-4 w-4" />
+                      <Tags className="mr-2 h-4 w-4" />
+                      Names
                     </Button>
                   </div>
-                ))
-              ) : (
-                <p className="text-sm text-muted-foreground text-center py-4">
-                  No keywords added yet. Add your first keyword above.
-                </p>
-              )}
-            </div>
-          </CardContent>
-        </Card>
-
-        {/* API Key Input */}
-        <Card className="card-gradient">
-          <CardHeader>
-            <CardTitle className="flex items-center space-x-2">
-              <Key className="h-5 w-5" />
-              <span>OpenAI API Configuration</span>
-            </CardTitle>
-            <CardDescription>
-              Enter your OpenAI API key to enable brand tracking analysis
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="openai-key">OpenAI API Key</Label>
-              <Input
-                id="openai-key"
-                type="password"
-                value={openaiApiKey}
-                onChange={(e) => setOpenaiApiKey(e.target.value)}
-                placeholder="sk-..."
-              />
-              <p className="text-xs text-muted-foreground">
-                Your API key is stored locally and used only for this session
-              </p>
+                </CardContent>
+              </Card>
+
+              {/* Competitors */}
+              <Card className="card-gradient">
+                <CardHeader>
+                  <CardTitle>Competitors</CardTitle>
+                  <CardDescription>
+                    Manage your competitor list for tracking. Click a competitor to edit its other names.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex space-x-2">
+                    <Input
+                      value={newCompetitor}
+                      onChange={(e) => setNewCompetitor(e.target.value)}
+                      placeholder="Competitor name"
+                      onKeyDown={(e) => e.key === 'Enter' && handleAddCompetitor()}
+                    />
+                    <Button 
+                      onClick={handleAddCompetitor}
+                      disabled={!newCompetitor.trim()}
+                      size="sm"
+                    >
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                  </div>
+              
+                  <div className="flex flex-wrap gap-2">
+                    {competitors.map((competitor) => (
+                      <Badge key={competitor} variant="secondary" className="flex items-center gap-1">
+                        <button
+                          onClick={() => setAliasTarget({ name: competitor, isBrand: false })}
+                          className="hover:underline"
+                        >
+                          {competitor}
+                          {countAliases(entityAliases.competitors[competitor]) > 0 && (
+                            <span className="ml-1 text-muted-foreground">+{countAliases(entityAliases.competitors[competitor])}</span>
+                          )}
+                        </button>
+                        <button
+                          onClick={() => handleRemoveCompetitor(competitor)}
+                          className="ml-1 rounded-full hover:bg-destructive/20"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
             </div>
-          </CardContent>
-        </Card>
-
-        {/* Generate Report */}
-        <Card className="card-gradient">
-          <CardHeader>
-            <CardTitle>Keyword Tracking Report</CardTitle>
-            <CardDescription>
-              Generate a comprehensive brand tracking report using ChatGPT analysis
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <Button 
-              onClick={handleGenerateReport}
-              className="gradient-primary text-white"
-              disabled={keywords.length === 0 || !openaiApiKey.trim() || isGeneratingReport}
-            >
-              <FileText className="mr-2 h-4 w-4" />
-              {isGeneratingReport ? 'Generating Report...' : 'Generate Brand Tracking Report'}
-            </Button>
-            {keywords.length === 0 && (
-              <p className="text-sm text-muted-foreground">
-                Add some keywords before generating a report.
-              </p>
+
+            {/* Keywords */}
+            <Card className="card-gradient">
+              <CardHeader>
+                <CardTitle>Keywords ({keywords.length})</CardTitle>
+                <CardDescription>
+                  Manage keywords you want to track for this project. Groups and priorities (P5 is highest) shape share of voice.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex space-x-2">
+                  <Input
+                    value={newKeyword}
+                    onChange={(e) => setNewKeyword(e.target.value)}
+                    placeholder="Enter keyword to track"
+                    onKeyDown={(e) => e.key === 'Enter' && handleAddKeyword()}
+                  />
+                  <Button 
+                    onClick={handleAddKeyword}
+                    disabled={!newKeyword.trim()}
+                    size="sm"
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+            
+                <Separator />
+            
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                  {keywords.length > 0 ? (
+                    keywords.map((keyword) => (
+                      <div key={keyword.id} className="flex items-center justify-between gap-2 p-2 rounded-md border">
+                        <span className="text-sm flex-1">{keyword.keyword}</span>
+                        <Input
+                          defaultValue={keyword.keyword_group || ''}
+                          placeholder="Group"
+                          className="h-8 w-32"
+                          onBlur={(e) => {
+                            const group = e.target.value.trim() || null;
+                            if (group !== keyword.keyword_group) handleUpdateKeyword(keyword.id, { keyword_group: group });
+                          }}
+                        />
+                        <Select
+                          value={String(keyword.priority ?? DEFAULT_KEYWORD_PRIORITY)}
+                          onValueChange={(value) => handleUpdateKeyword(keyword.id, { priority: Number(value) })}
+                        >
+                          <SelectTrigger className="h-8 w-20" title="Priority">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Array.from({ length: MAX_KEYWORD_PRIORITY }, (_, i) => i + 1).map(priority => (
+                              <SelectItem key={priority} value={String(priority)}>P{priority}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          onClick={() => handleRemoveKeyword(keyword.id)}
+                          variant="ghost"
+                          size="sm"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))
+                  ) : (
+                    <p className="text-sm text-muted-foreground text-center py-4">
+                      No keywords added yet. Add your first keyword above.
+                    </p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Engines */}
+            <EngineSettings
+              engines={engines}
+              onEnginesChange={setEngines}
+              sampleCount={sampleCount}
+              onSampleCountChange={setSampleCount}
+              onSave={handleSaveEngines}
+              saving={savingEngines}
+            />
+
+            {/* Generate Report */}
+            <Card className="card-gradient">
+              <CardHeader>
+                <CardTitle>Generate Report</CardTitle>
+                <CardDescription>
+                  Generate a comprehensive brand tracking report across your tracked AI engines
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-col md:flex-row gap-2">
+                  <Select value={reportType} onValueChange={(value) => setReportType(value as ReportType)}>
+                    <SelectTrigger className="w-full md:w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(REPORT_TYPES) as ReportType[]).map(type => (
+                        <SelectItem key={type} value={type}>{REPORT_TYPES[type].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button 
+                    onClick={handleGenerateReport}
+                    className="gradient-primary text-white"
+                    disabled={
+                      keywords.length === 0 ||
+                      project.engines.length === 0 ||
+                      (reportType === 'competitor_analysis' && competitors.length === 0) ||
+                      isGeneratingReport
+                    }
+                  >
+                    <FileText className="mr-2 h-4 w-4" />
+                    {isGeneratingReport ? 'Generating Report...' : `Generate ${REPORT_TYPES[reportType].label} Report`}
+                  </Button>
+                </div>
+                <p className="text-sm text-muted-foreground">{REPORT_TYPES[reportType].description}</p>
+                {keywords.length === 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    Add some keywords before generating a report.
+                  </p>
+                )}
+                {reportType === 'competitor_analysis' && competitors.length === 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    Add at least one competitor before running a competitor analysis.
+                  </p>
+                )}
+                {project.engines.length === 0 && keywords.length > 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    Select and save at least one AI engine above to enable report generation.
+                  </p>
+                )}
+                {trackingRun.isRunning && trackingRun.progress && (
+                  <div className="space-y-2">
+                    <div className="flex justify-between text-sm text-muted-foreground">
+                      <span>Analyzing keywords on the server...</span>
+                      <span>{trackingRun.progress.completed} / {trackingRun.progress.total}</span>
+                    </div>
+                    <Progress
+                      value={trackingRun.progress.total > 0 ? (trackingRun.progress.completed / trackingRun.progress.total) * 100 : 0}
+                      className="h-2"
+                    />
+                  </div>
+                )}
+                {trackingRun.progress && trackingRun.progress.errors.length > 0 && (
+                  <p className="text-sm text-destructive">
+                    {trackingRun.progress.errors.length} analyses failed: {trackingRun.progress.errors.map(e => `${e.keyword} (${e.provider})`).join(', ')}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Competitor Analysis */}
+            {competitorAnalysis && (
+              <CompetitorAnalysisReport results={competitorAnalysis} />
             )}
-            {!openaiApiKey.trim() && keywords.length > 0 && (
-              <p className="text-sm text-muted-foreground">
-                Enter your OpenAI API key above to enable report generation.
-              </p>
+
+            {/* Citation Analysis */}
+            {citationAnalysis && (
+              <CitationAnalysis results={citationAnalysis} brandName={brandName} />
             )}
-          </CardContent>
-        </Card>
-
-        {/* Brand Tracking Results */}
-        <BrandTrackingResults
-          results={brandTrackingResults}
-          isLoading={isGeneratingReport}
-          onViewRawResponse={(result) => {
-            setSelectedResult(result);
-            setShowRawDialog(true);
-          }}
-        />
 
-        {/* Competitor Matrix */}
-        {brandTrackingResults.length > 0 && (
-          <CompetitorMatrix
-            results={brandTrackingResults}
-            brandName={brandName}
-          />
-        )}
+            {/* Brand Tracking Results */}
+            <BrandTrackingResults
+              results={brandTrackingResults}
+              isLoading={isGeneratingReport}
+              onViewRawResponse={(result) => {
+                setSelectedResult(result);
+                setShowRawDialog(true);
+              }}
+            />
+
+            {/* Competitor Matrix */}
+            {brandTrackingResults.length > 0 && (
+              <CompetitorMatrix
+                results={brandTrackingResults}
+                brandName={brandName}
+                competitors={competitors}
+                aliases={entityAliases}
+              />
+            )}
 
-        {/* Competitor Table */}
-        {brandTrackingResults.length > 0 && (
-          <CompetitorTable
-            results={brandTrackingResults}
-            brandName={brandName}
-            onViewContext={(brand, keyword, context) => {
-              setContextData({ brand, keyword, context });
-              setShowContextDialog(true);
-            }}
-          />
-        )}
+            {/* Competitor Table */}
+            {brandTrackingResults.length > 0 && (
+              <CompetitorTable
+                results={brandTrackingResults}
+                brandName={brandName}
+                competitors={competitors}
+                aliases={entityAliases}
+                exportContext={{ reportId: activeReportId, reportType: trackingRun.reportType, timestamp: trackingRun.completedAt }}
+                onViewContext={(brand, result, context) => {
+                  setContextData({ brand, result, context });
+                  setShowContextDialog(true);
+                }}
+              />
+            )}
+          </TabsContent>
+
+          <TabsContent value="trends" className="space-y-6">
+            <ShareOfVoice projectId={project.id} />
+            <ProjectTrends
+              key={keywordParam || 'all'}
+              projectId={project.id}
+              keywords={keywords}
+              initialKeywordId={keywordParam}
+            />
+          </TabsContent>
+
+          <TabsContent value="alerts" className="space-y-6">
+            <AlertRules projectId={project.id} competitors={competitors} />
+            <AlertList projectId={project.id} />
+          </TabsContent>
+        </Tabs>
+
+        {/* Alias Dialog */}
+        <EntityAliasDialog
+          open={!!aliasTarget}
+          onOpenChange={(open) => !open && setAliasTarget(null)}
+          entityName={aliasTarget?.name || ''}
+          aliases={aliasTarget ? (aliasTarget.isBrand ? entityAliases.brand : entityAliases.competitors[aliasTarget.name]) : undefined}
+          onSave={handleSaveAliases}
+          loading={savingAliases}
+        />
 
         {/* Raw Response Dialog */}
         <RawResponseDialog
@@ -630,13 +862,16 @@ export const ProjectDetails: React.FC = () => {
               setContextData(null);
             }}
             result={{
-              keyword: contextData.keyword,
+              ...contextData.result,
               brandMentioned: true,
               position: null,
               confidence: 100,
               context: contextData.context,
               competitors: [],
-              rawResponse: `Context for ${contextData.brand} in keyword "${contextData.keyword}":\n\n${contextData.context}`,
+              stats: undefined,
+              sampleResponses: undefined,
+              citations: undefined,
+              rawResponse: `Context for ${contextData.brand} in keyword "${contextData.result.keyword}":\n\n${contextData.context}`,
             }}
           />
         )}
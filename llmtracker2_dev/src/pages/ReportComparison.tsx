@@ -0,0 +1,212 @@
+import React from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { DashboardLayout } from '@/components/DashboardLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ReportComparisonResults } from '@/components/ReportComparisonResults';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTrackingRun } from '@/hooks/useTrackingRun';
+import { supabase } from '@/integrations/supabase/client';
+import { parseEntityAliases } from '@/lib/entityMatcher';
+import { isReportType, REPORT_TYPES, resultsFromReportSummary } from '@/lib/reportResults';
+import { ArrowLeft, GitCompare } from 'lucide-react';
+
+interface CompletedReport {
+  id: string;
+  report_type: string;
+  project_id: string;
+  created_at: string;
+  completed_at: string | null;
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+const reportLabel = (report: CompletedReport) =>
+  `${formatDate(report.completed_at || report.created_at)} · ${isReportType(report.report_type) ? REPORT_TYPES[report.report_type].label : report.report_type}`;
+
+// Results of a finished run, falling back to the per-keyword summary when api_responses are gone
+const useRunResults = (reportId: string | null) => {
+  const run = useTrackingRun(reportId);
+  return {
+    results: run.results.length > 0 ? run.results : resultsFromReportSummary(run.reportResults),
+    isLoading: run.isLoading,
+  };
+};
+
+export const ReportComparison: React.FC = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const baseId = searchParams.get('base');
+  const targetId = searchParams.get('target');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['comparable-reports', user?.id],
+    queryFn: async () => {
+      const [{ data: projects, error: projectsError }, { data: reports, error: reportsError }] = await Promise.all([
+        supabase
+          .from('projects')
+          .select('id, name, brand_name, competitors, entity_aliases')
+          .eq('user_id', user!.id)
+          .order('name'),
+        supabase
+          .from('reports')
+          .select('id, report_type, project_id, created_at, completed_at')
+          .eq('user_id', user!.id)
+          .eq('status', 'completed')
+          .order('created_at', { ascending: false }),
+      ]);
+
+      if (projectsError) throw projectsError;
+      if (reportsError) throw reportsError;
+      return { projects: projects || [], reports: (reports || []) as CompletedReport[] };
+    },
+    enabled: !!user,
+  });
+
+  const reports = data?.reports || [];
+  // Only projects with at least two finished runs can be compared
+  const comparableProjects = (data?.projects || []).filter(p => reports.filter(r => r.project_id === p.id).length >= 2);
+
+  // Without both runs in the URL, the latest run is compared against the one before it
+  const requestedTarget = reports.find(r => r.id === targetId) || null;
+  const requestedBase = reports.find(r => r.id === baseId && (!requestedTarget || r.project_id === requestedTarget.project_id)) || null;
+  const projectId = requestedTarget?.project_id || requestedBase?.project_id || comparableProjects[0]?.id || null;
+  const projectReports = reports.filter(r => r.project_id === projectId);
+  const target = requestedTarget ||
+    (requestedBase
+      ? [...projectReports].reverse().find(r => r.created_at > requestedBase.created_at) || null
+      : projectReports[0] || null);
+  const base = requestedBase || projectReports.find(r => target && r.created_at < target.created_at) || null;
+  const project = data?.projects.find(p => p.id === projectId) || null;
+
+  const selectReports = (next: { base?: string | null; target?: string | null }) => {
+    const params = new URLSearchParams();
+    const nextBase = next.base !== undefined ? next.base : base?.id;
+    const nextTarget = next.target !== undefined ? next.target : target?.id;
+    if (nextBase) params.set('base', nextBase);
+    if (nextTarget) params.set('target', nextTarget);
+    setSearchParams(params, { replace: true });
+  };
+
+  const baseRun = useRunResults(base?.id ?? null);
+  const targetRun = useRunResults(target?.id ?? null);
+
+  const handleProjectChange = (nextProjectId: string) => {
+    const candidates = reports.filter(r => r.project_id === nextProjectId);
+    selectReports({ base: candidates[1]?.id ?? null, target: candidates[0]?.id ?? null });
+  };
+
+  const aliases = React.useMemo(() => parseEntityAliases(project?.entity_aliases ?? null), [project?.entity_aliases]);
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="space-y-2">
+          <Button variant="ghost" size="sm" className="-ml-2" onClick={() => navigate('/reports')}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Reports
+          </Button>
+          <h1 className="text-3xl font-bold tracking-tight">Compare Runs</h1>
+          <p className="text-muted-foreground">
+            What changed between two completed reports of the same project
+          </p>
+        </div>
+
+        <Card className="card-gradient">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <GitCompare className="h-5 w-5" />
+              Reports
+            </CardTitle>
+            <CardDescription>The earlier run is the baseline; changes are shown relative to it</CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Project</p>
+              <Select value={projectId ?? undefined} onValueChange={handleProjectChange} disabled={isLoading}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a project" />
+                </SelectTrigger>
+                <SelectContent>
+                  {comparableProjects.map(p => (
+                    <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Earlier run</p>
+              <Select value={base?.id} onValueChange={(id) => selectReports({ base: id })} disabled={!projectId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a report" />
+                </SelectTrigger>
+                <SelectContent>
+                  {projectReports.filter(r => r.id !== target?.id).map(r => (
+                    <SelectItem key={r.id} value={r.id}>{reportLabel(r)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Later run</p>
+              <Select value={target?.id} onValueChange={(id) => selectReports({ target: id })} disabled={!projectId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a report" />
+                </SelectTrigger>
+                <SelectContent>
+                  {projectReports.filter(r => r.id !== base?.id).map(r => (
+                    <SelectItem key={r.id} value={r.id}>{reportLabel(r)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        {isLoading || baseRun.isLoading || targetRun.isLoading ? (
+          <div className="flex items-center justify-center min-h-[30vh]">
+            <div className="animate-pulse text-muted-foreground">Loading reports...</div>
+          </div>
+        ) : !project || !base || !target ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <GitCompare className="h-12 w-12 text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold mb-2">Nothing to compare yet</h3>
+              <p className="text-muted-foreground text-center">
+                {comparableProjects.length === 0
+                  ? 'Comparisons need at least two completed reports of the same project'
+                  : 'Select two reports of the same project'}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <ReportComparisonResults
+            base={baseRun.results}
+            target={targetRun.results}
+            baseLabel={formatDate(base.completed_at || base.created_at)}
+            targetLabel={formatDate(target.completed_at || target.created_at)}
+            brandName={project.brand_name}
+            competitors={project.competitors || []}
+            aliases={aliases}
+          />
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
@@ -0,0 +1,354 @@
+import React, { useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { DashboardLayout } from '@/components/DashboardLayout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { supabase } from '@/integrations/supabase/client';
+import { BrandTrackingResults } from '@/components/BrandTrackingResults';
+import { RawResponseDialog } from '@/components/RawResponseDialog';
+import { CompetitorMatrix } from '@/components/CompetitorMatrix';
+import { CompetitorTable } from '@/components/CompetitorTable';
+import { CitationAnalysis } from '@/components/CitationAnalysis';
+import { CompetitorAnalysisReport } from '@/components/CompetitorAnalysisReport';
+import { useTrackingRun } from '@/hooks/useTrackingRun';
+import { useReportPdf } from '@/hooks/useReportPdf';
+import { ExportMenu } from '@/components/ExportMenu';
+import { BrandAnalysisResult } from '@/lib/openai';
+import { buildEntities, canonicalizeResults, parseEntityAliases } from '@/lib/entityMatcher';
+import { ResultExportContext, resultExportTable } from '@/lib/dataExport';
+import { getEngineLabel, parseEngines } from '@/lib/providers';
+import { isReportType, REPORT_TYPES, resultsFromReportSummary } from '@/lib/reportResults';
+import { parseCitationAnalysis } from '@/lib/citations';
+import { parseCompetitorAnalysis } from '@/lib/competitorAnalysis';
+import { clampSampleCount } from '@/lib/statistics';
+import { ArrowLeft, Calendar, Clock, Download, FileText, FolderOpen, GitCompare, Loader2 } from 'lucide-react';
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+const getStatusBadge = (status: string) => {
+  switch (status) {
+    case 'completed':
+      return <Badge variant="default" className="bg-green-100 text-green-800">Completed</Badge>;
+    case 'pending':
+    case 'processing':
+      return <Badge variant="secondary">In progress</Badge>;
+    case 'failed':
+      return <Badge variant="destructive">Failed</Badge>;
+    default:
+      return <Badge variant="outline">{status}</Badge>;
+  }
+};
+
+// A past report rebuilt from its stored results and api_responses
+export const ReportDetails: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { openPdf, loadingReportId } = useReportPdf();
+
+  const [selectedResult, setSelectedResult] = useState<BrandAnalysisResult | null>(null);
+  const [showRawDialog, setShowRawDialog] = useState(false);
+  const [contextData, setContextData] = useState<{
+    brand: string;
+    result: BrandAnalysisResult;
+    context: string;
+  } | null>(null);
+
+  const { data: report, isLoading } = useQuery({
+    queryKey: ['report', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('reports')
+        .select(`
+          id,
+          status,
+          report_type,
+          metadata,
+          created_at,
+          completed_at,
+          pdf_path,
+          pdf_url,
+          pdf_expires_at,
+          project_id,
+          projects (
+            name,
+            brand_name,
+            competitors,
+            entity_aliases
+          )
+        `)
+        .eq('id', id!)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!id,
+  });
+
+  const trackingRun = useTrackingRun(report ? report.id : null);
+
+  if (isLoading || (report && trackingRun.isLoading)) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center min-h-[50vh]">
+          <div className="animate-pulse text-muted-foreground">Loading report...</div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (!report) {
+    return (
+      <DashboardLayout>
+        <div className="text-center py-12">
+          <h2 className="text-2xl font-bold mb-2">Report not found</h2>
+          <p className="text-muted-foreground mb-4">The report you're looking for doesn't exist or you don't have access to it.</p>
+          <Button onClick={() => navigate('/reports')}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Reports
+          </Button>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  const brandName = report.projects?.brand_name || '';
+  const competitors = report.projects?.competitors || [];
+  const entityAliases = parseEntityAliases(report.projects?.entity_aliases ?? null);
+  const metadata = (report.metadata ?? {}) as Record<string, unknown>;
+  const engines = Array.isArray(metadata.engines) ? parseEngines(metadata.engines) : [];
+  const sampleCount = clampSampleCount(metadata.sampleCount);
+  // The run may still be going; its polled status is fresher than the report row loaded above
+  const status = trackingRun.status ?? report.status;
+  const isCompleted = status === 'completed';
+
+  // Older reports may have lost their api_responses but still carry a per-keyword summary
+  const results = trackingRun.results.length > 0 || !isCompleted
+    ? trackingRun.results
+    : resultsFromReportSummary(trackingRun.reportResults);
+  const hasFullResponses = trackingRun.results.length > 0;
+  const exportContext: ResultExportContext = {
+    reportId: report.id,
+    reportType: report.report_type,
+    timestamp: trackingRun.completedAt ?? report.completed_at,
+  };
+
+  const citationAnalysis = report.report_type === 'citation_analysis' && isCompleted
+    ? parseCitationAnalysis(trackingRun.reportResults)
+    : null;
+  const competitorAnalysis = report.report_type === 'competitor_analysis' && isCompleted
+    ? parseCompetitorAnalysis(trackingRun.reportResults)
+    : null;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-2">
+            <Button variant="ghost" size="sm" className="-ml-2" onClick={() => navigate('/reports')}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Reports
+            </Button>
+            <div className="flex items-center gap-3">
+              <FileText className="h-6 w-6 text-muted-foreground" />
+              <h1 className="text-3xl font-bold tracking-tight">
+                {isReportType(report.report_type) ? REPORT_TYPES[report.report_type].label : report.report_type} Report
+              </h1>
+              {getStatusBadge(status)}
+            </div>
+            <p className="text-muted-foreground">
+              {report.projects?.name} - {brandName}
+            </p>
+            <div className="flex items-center gap-4 text-xs text-muted-foreground">
+              <div className="flex items-center gap-1">
+                <Calendar className="h-3 w-3" />
+                Created: {formatDate(report.created_at)}
+              </div>
+              {report.completed_at && (
+                <div className="flex items-center gap-1">
+                  <Clock className="h-3 w-3" />
+                  Completed: {formatDate(report.completed_at)}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => navigate(`/project/${report.project_id}`)}>
+              <FolderOpen className="h-4 w-4 mr-2" />
+              Project
+            </Button>
+            {results.length > 0 && (
+              <ExportMenu
+                fileName={`${report.projects?.name || brandName} report`}
+                getTable={() => resultExportTable(
+                  canonicalizeResults(results, buildEntities(brandName, competitors, entityAliases).slice(1)),
+                  brandName,
+                  exportContext
+                )}
+              />
+            )}
+            {isCompleted && (
+              <Button variant="outline" size="sm" onClick={() => navigate(`/reports/compare?target=${report.id}`)}>
+                <GitCompare className="h-4 w-4 mr-2" />
+                Compare
+              </Button>
+            )}
+            {isCompleted && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={loadingReportId === report.id}
+                onClick={() => openPdf(report)}
+              >
+                {loadingReportId === report.id ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Download className="h-4 w-4 mr-2" />
+                )}
+                {report.pdf_path ? 'Download PDF' : 'Generate PDF'}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <Card className="card-gradient">
+          <CardHeader>
+            <CardTitle>Run Details</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-3 text-sm">
+              <div>
+                <p className="text-muted-foreground">Engines</p>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {engines.length > 0
+                    ? engines.map(engine => (
+                      <Badge key={`${engine.provider}-${engine.model}`} variant="outline">
+                        {getEngineLabel(engine)}
+                      </Badge>
+                    ))
+                    : <span>Not recorded</span>}
+                </div>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Samples per keyword</p>
+                <p className="font-medium mt-1">{sampleCount}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Answers analysed</p>
+                <p className="font-medium mt-1">{results.length}</p>
+              </div>
+            </div>
+
+            {trackingRun.isRunning && trackingRun.progress && (
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm text-muted-foreground">
+                  <span>Analyzing keywords on the server...</span>
+                  <span>{trackingRun.progress.completed} / {trackingRun.progress.total}</span>
+                </div>
+                <Progress
+                  value={trackingRun.progress.total > 0 ? (trackingRun.progress.completed / trackingRun.progress.total) * 100 : 0}
+                  className="h-2"
+                />
+              </div>
+            )}
+            {trackingRun.progress && trackingRun.progress.errors.length > 0 && (
+              <p className="text-sm text-destructive">
+                {trackingRun.progress.errors.length} analyses failed: {trackingRun.progress.errors.map(e => `${e.keyword} (${e.provider})`).join(', ')}
+              </p>
+            )}
+            {isCompleted && !hasFullResponses && results.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                The raw responses of this report are no longer stored; only the brand outcome per keyword is shown.
+              </p>
+            )}
+            {status === 'failed' && (
+              <p className="text-sm text-destructive">
+                Report generation failed. Please try creating a new report.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Competitor Analysis */}
+        {competitorAnalysis && (
+          <CompetitorAnalysisReport results={competitorAnalysis} />
+        )}
+
+        {/* Citation Analysis */}
+        {citationAnalysis && (
+          <CitationAnalysis results={citationAnalysis} brandName={brandName} />
+        )}
+
+        {/* Brand Tracking Results */}
+        <BrandTrackingResults
+          results={results}
+          isLoading={trackingRun.isRunning}
+          onViewRawResponse={(result) => {
+            setSelectedResult(result);
+            setShowRawDialog(true);
+          }}
+        />
+
+        {/* Competitor Matrix */}
+        {hasFullResponses && (
+          <CompetitorMatrix
+            results={results}
+            brandName={brandName}
+            competitors={competitors}
+            aliases={entityAliases}
+          />
+        )}
+
+        {/* Competitor Table */}
+        {hasFullResponses && (
+          <CompetitorTable
+            results={results}
+            brandName={brandName}
+            competitors={competitors}
+            aliases={entityAliases}
+            exportContext={exportContext}
+            onViewContext={(brand, result, context) => setContextData({ brand, result, context })}
+          />
+        )}
+
+        {/* Raw Response Dialog */}
+        <RawResponseDialog
+          isOpen={showRawDialog}
+          onClose={() => setShowRawDialog(false)}
+          result={selectedResult}
+        />
+
+        {/* Context Dialog */}
+        {contextData && (
+          <RawResponseDialog
+            isOpen={!!contextData}
+            onClose={() => setContextData(null)}
+            result={{
+              ...contextData.result,
+              brandMentioned: true,
+              position: null,
+              confidence: 100,
+              context: contextData.context,
+              competitors: [],
+              stats: undefined,
+              sampleResponses: undefined,
+              citations: undefined,
+              rawResponse: `Context for ${contextData.brand} in keyword "${contextData.result.keyword}":\n\n${contextData.context}`,
+            }}
+          />
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
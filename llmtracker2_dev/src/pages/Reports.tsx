@@ -4,12 +4,17 @@ import { useAuth } from '@/contexts/AuthContext';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { FileText, Download, Eye, Calendar, Clock } from 'lucide-react';
+import { FileText, Download, Eye, Calendar, Clock, GitCompare, Loader2 } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { useReportPdf } from '@/hooks/useReportPdf';
+import { isReportType, REPORT_TYPES } from '@/lib/reportResults';
 
 export const Reports = () => {
   const { user } = useAuth();
+  const navigate = useNavigate();
+  const { openPdf, loadingReportId } = useReportPdf();
 
   const { data: reports, isLoading } = useQuery({
     queryKey: ['reports', user?.id],
@@ -67,6 +72,10 @@ export const Reports = () => {
               View and download your analysis reports
             </p>
           </div>
+          <Button variant="outline" onClick={() => navigate('/reports/compare')}>
+            <GitCompare className="h-4 w-4 mr-2" />
+            Compare Runs
+          </Button>
         </div>
 
         {isLoading ? (
@@ -99,7 +108,7 @@ export const Reports = () => {
                       <div className="flex items-center gap-3">
                         <FileText className="h-5 w-5 text-muted-foreground" />
                         <h3 className="font-semibold">
-                          {report.report_type.charAt(0).toUpperCase() + report.report_type.slice(1)} Report
+                          {isReportType(report.report_type) ? REPORT_TYPES[report.report_type].label : report.report_type} Report
                         </h3>
                         {getStatusBadge(report.status)}
                       </div>
@@ -125,16 +134,23 @@ export const Reports = () => {
                     <div className="flex gap-2">
                       {report.status === 'completed' && (
                         <>
-                          <Button variant="outline" size="sm">
+                          <Button variant="outline" size="sm" onClick={() => navigate(`/reports/${report.id}`)}>
                             <Eye className="h-4 w-4 mr-2" />
                             View
                           </Button>
-                          {report.pdf_url && (
-                            <Button variant="outline" size="sm">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={loadingReportId === report.id}
+                            onClick={() => openPdf(report)}
+                          >
+                            {loadingReportId === report.id ? (
+                              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            ) : (
                               <Download className="h-4 w-4 mr-2" />
-                              Download
-                            </Button>
-                          )}
+                            )}
+                            {report.pdf_path ? 'Download PDF' : 'Generate PDF'}
+                          </Button>
                         </>
                       )}
                     </div>
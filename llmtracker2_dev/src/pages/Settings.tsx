@@ -1,5 +1,8 @@
 import React, { useState } from 'react';
 import { DashboardLayout } from '@/components/DashboardLayout';
+import { DigestSettings } from '@/components/DigestSettings';
+import { WebhookSettings } from '@/components/WebhookSettings';
+import { ApiKeySettings } from '@/components/ApiKeySettings';
 import { useAuth } from '@/contexts/AuthContext';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -172,6 +175,12 @@ export const Settings = () => {
           </Card>
         </div>
 
+        <DigestSettings />
+
+        <WebhookSettings />
+
+        <ApiKeySettings />
+
         {/* Danger Zone */}
         <Card className="border-destructive/20">
           <CardHeader>
@@ -2,11 +2,17 @@
 export interface HistoricalSnapshot {
   id: string;
   project_id: string;
-  keyword_id: string;
+  keyword_id: string | null;
+  keyword: string;
+  report_id: string | null;
+  api_response_id: string | null;
+  provider: string | null;
   competitor_name: string;
-  position: number;
+  is_brand: boolean;
+  position: number | null;
   mention_count: number;
-  sentiment_score: number;
+  sample_count: number;
+  sentiment_score: number | null;
   market_share: number;
   snapshot_date: string;
   data_source: 'api_response' | 'manual' | 'scheduled';
@@ -17,7 +23,7 @@ export interface HistoricalSnapshot {
 export interface TrendCalculation {
   id: string;
   project_id: string;
-  keyword_id: string;
+  keyword_id: string | null;
   competitor_name: string;
   metric_type: 'position_velocity' | 'mention_trend' | 'sentiment_trend' | 'market_share_change';
   time_period: 'daily' | 'weekly' | 'monthly';
@@ -31,12 +37,16 @@ export interface TrendCalculation {
 export interface TrackingSchedule {
   id: string;
   project_id: string;
-  keyword_id: string;
+  keyword_id: string | null;
   frequency: 'daily' | 'weekly' | 'monthly' | 'on_demand';
   priority: 'high' | 'medium' | 'low';
-  last_run: string;
+  last_run: string | null;
   next_run: string;
   is_active: boolean;
+  failure_count: number;
+  last_error: string | null;
+  last_report_id: string | null;
+  locked_until: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -47,11 +57,13 @@ export interface DataRetentionPolicy {
   data_type: 'raw_responses' | 'daily_snapshots' | 'monthly_aggregates';
   retention_days: number;
   compression_enabled: boolean;
-  archive_after_days: number;
+  archive_after_days: number | null;
   created_at: string;
   updated_at: string;
 }
 
+export type TimeRange = '7d' | '30d' | '90d' | '1y';
+
 // Trend analysis types
 export interface TrendMetrics {
   positionVelocity: number;
@@ -63,16 +75,27 @@ export interface TrendMetrics {
 
 export interface HistoricalDataPoint {
   date: string;
-  position: number;
+  position: number | null;
   mentions: number;
-  sentiment: number;
+  samples: number;
+  sentiment: number | null;
+  marketShare: number | null;
   competitor: string;
 }
 
 export interface CompetitorTrendData {
   competitor: string;
+  isBrand?: boolean;
   data: HistoricalDataPoint[];
-  currentPosition: number;
+  currentPosition: number | null;
   positionChange: number;
   trendDirection: 'up' | 'down' | 'stable';
-}
\ No newline at end of file
+}
+
+export type TrendMetric = 'position' | 'mentions' | 'sentiment';
+
+// Marks an event, such as a completed report, on a trend chart
+export interface TrendAnnotation {
+  date: string;
+  label: string;
+}
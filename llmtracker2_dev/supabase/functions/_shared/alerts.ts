@@ -0,0 +1,220 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { appUrl } from "./appUrl.ts";
+import { RunAnswer } from "./anomalies.ts";
+import { createMailTransport } from "./mail.ts";
+import { createNotification } from "./notifications.ts";
+import { enqueueWebhookEvents } from "./webhooks.ts";
+import {
+  AlertMatch,
+  AlertRule,
+  AlertSnapshot,
+  evaluateAlertRule,
+  renderAlertEmail,
+  summarizeAlert,
+} from "../../../src/lib/alertRules.ts";
+import { keywordLink, reportLink } from "../../../src/lib/notifications.ts";
+
+const PAGE_SIZE = 1000;
+
+export interface AlertRunContext {
+  reportId: string;
+  project: { id: string; user_id: string; brand_name: string };
+  answers: RunAnswer[];
+}
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[ALERTS] ${step}${detailsStr}`);
+};
+
+async function loadBrandHistory(supabase: SupabaseClient, projectId: string, since: Date): Promise<AlertSnapshot[]> {
+  const snapshots: AlertSnapshot[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("historical_snapshots")
+      .select("keyword, is_brand, mention_count, sample_count, snapshot_date")
+      .eq("project_id", projectId)
+      .eq("is_brand", true)
+      .gte("snapshot_date", since.toISOString())
+      .order("snapshot_date", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    snapshots.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return snapshots;
+}
+
+// Keys this rule already alerted on within its cooldown
+async function loadRecentKeys(supabase: SupabaseClient, rule: AlertRule, now: Date): Promise<Set<string>> {
+  if (rule.cooldown_hours <= 0) return new Set();
+  const { data, error } = await supabase
+    .from("alert_events")
+    .select("dedup_keys")
+    .eq("rule_id", rule.id)
+    .gte("created_at", new Date(now.getTime() - rule.cooldown_hours * 60 * 60 * 1000).toISOString());
+  if (error) throw new Error(error.message);
+  return new Set((data || []).flatMap(row => row.dedup_keys as string[]));
+}
+
+// An alert about a single keyword opens that keyword's trends, anything wider opens the report
+const alertTarget = (run: AlertRunContext, matches: AlertMatch[]) => {
+  const keywords = new Set(matches.map(match => match.keyword));
+  const [keyword] = keywords;
+  const keywordId = keywords.size === 1 && keyword
+    ? run.answers.find(answer => answer.result.keyword === keyword)?.context.keywordId ?? null
+    : null;
+  return keywordId
+    ? { keywordId, link: keywordLink(run.project.id, keywordId) }
+    : { keywordId: null, link: reportLink(run.reportId) };
+};
+
+// Sends the alert on each of its channels and records which ones went out
+async function deliverAlert(
+  supabase: SupabaseClient,
+  run: AlertRunContext,
+  rule: AlertRule,
+  alertId: string,
+  matches: AlertMatch[],
+  projectName: string
+) {
+  const delivered: string[] = [];
+  const errors: Record<string, string> = {};
+  const reportUrl = `${appUrl()}/reports/${run.reportId}`;
+
+  for (const channel of rule.channels) {
+    try {
+      if (channel === "in_app") {
+        const target = alertTarget(run, matches);
+        const id = await createNotification(supabase, {
+          user_id: run.project.user_id,
+          type: "alert",
+          title: `${projectName}: ${rule.name}`,
+          body: summarizeAlert(rule, matches),
+          link: target.link,
+          project_id: run.project.id,
+          report_id: run.reportId,
+          keyword_id: target.keywordId,
+        });
+        if (!id) throw new Error("Notification could not be saved");
+      } else if (channel === "email") {
+        const { data, error } = await supabase.auth.admin.getUserById(run.project.user_id);
+        if (error) throw new Error(error.message);
+        if (!data.user?.email) throw new Error("Account has no email address");
+
+        const email = renderAlertEmail(rule, matches, {
+          projectName,
+          reportUrl,
+          settingsUrl: `${appUrl()}/project/${run.project.id}`,
+        });
+        await createMailTransport().send({ to: [data.user.email], ...email });
+      } else if (channel === "webhook") {
+        await enqueueWebhookEvents(supabase, run.project.id, [{
+          id: alertId,
+          type: "alert.triggered",
+          createdAt: new Date().toISOString(),
+          data: {
+            alertId,
+            rule: { id: rule.id, name: rule.name, metric: rule.metric, threshold: rule.threshold },
+            message: summarizeAlert(rule, matches),
+            matches,
+            reportId: run.reportId,
+            reportUrl,
+          },
+        }]);
+      }
+      delivered.push(channel);
+    } catch (error) {
+      errors[channel] = error instanceof Error ? error.message : String(error);
+      logStep("Alert delivery failed", { alertId, channel, message: errors[channel] });
+    }
+  }
+
+  await supabase
+    .from("alert_events")
+    .update({ channels: delivered, delivery_errors: Object.keys(errors).length > 0 ? errors : null })
+    .eq("id", alertId);
+}
+
+// Best effort like the anomalies: a failure here is logged and never fails the run
+export async function evaluateRunAlerts(supabase: SupabaseClient, run: AlertRunContext): Promise<number> {
+  if (run.answers.length === 0) return 0;
+
+  try {
+    const { data: rows, error: rulesError } = await supabase
+      .from("alert_rules")
+      .select("id, name, metric, threshold, competitor_name, min_priority, period_days, cooldown_hours, channels")
+      .eq("project_id", run.project.id)
+      .eq("is_active", true);
+    if (rulesError) throw new Error(rulesError.message);
+    if (!rows || rows.length === 0) return 0;
+    const rules = rows.map(row => ({ ...row, threshold: Number(row.threshold) })) as AlertRule[];
+
+    const now = new Date();
+    const { data: keywords, error: keywordsError } = await supabase
+      .from("keywords")
+      .select("keyword, priority")
+      .eq("project_id", run.project.id);
+    if (keywordsError) throw new Error(keywordsError.message);
+
+    const { data: project, error: projectError } = await supabase
+      .from("projects")
+      .select("name")
+      .eq("id", run.project.id)
+      .single();
+    if (projectError) throw new Error(projectError.message);
+
+    // Two periods of the longest drop rule, so both sides of the comparison are loaded
+    const dropDays = Math.max(0, ...rules.filter(rule => rule.metric === "mention_rate_drop").map(rule => rule.period_days));
+    const brandHistory = dropDays > 0
+      ? await loadBrandHistory(supabase, run.project.id, new Date(now.getTime() - 2 * dropDays * 24 * 60 * 60 * 1000))
+      : [];
+
+    const input = {
+      brandName: run.project.brand_name,
+      results: run.answers.map(answer => answer.result),
+      priorities: new Map((keywords || []).map(k => [k.keyword, k.priority])),
+      brandHistory,
+      now,
+    };
+
+    let triggered = 0;
+    for (const rule of rules) {
+      const matches = evaluateAlertRule(rule, input);
+      if (matches.length === 0) continue;
+
+      const recent = await loadRecentKeys(supabase, rule, now);
+      const fresh = matches.filter(match => !recent.has(match.key));
+      if (fresh.length === 0) {
+        logStep("Alert suppressed by cooldown", { ruleId: rule.id, matches: matches.length });
+        continue;
+      }
+
+      const { data: alert, error: alertError } = await supabase
+        .from("alert_events")
+        .upsert({
+          rule_id: rule.id,
+          project_id: run.project.id,
+          report_id: run.reportId,
+          message: summarizeAlert(rule, fresh),
+          dedup_keys: fresh.map(match => match.key),
+          matches: fresh,
+        }, { onConflict: "rule_id,report_id", ignoreDuplicates: true })
+        .select("id");
+      if (alertError) throw new Error(alertError.message);
+      // Already alerted for this run
+      if (!alert || alert.length === 0) continue;
+
+      await supabase.from("alert_rules").update({ last_triggered_at: now.toISOString() }).eq("id", rule.id);
+      await deliverAlert(supabase, run, rule, alert[0].id, fresh, project.name);
+      triggered++;
+    }
+
+    if (triggered > 0) logStep("Alerts triggered", { reportId: run.reportId, count: triggered });
+    return triggered;
+  } catch (error) {
+    logStep("Alert evaluation failed", { reportId: run.reportId, message: error instanceof Error ? error.message : String(error) });
+    return 0;
+  }
+}
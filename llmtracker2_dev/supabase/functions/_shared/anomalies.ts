@@ -0,0 +1,176 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import {
+  DetectedAnomaly,
+  detectNewCompetitors,
+  detectSeriesAnomalies,
+  SeriesObservation,
+} from "../../../src/lib/anomalyDetection.ts";
+import { BrandEntity } from "../../../src/lib/entityMatcher.ts";
+import { BrandAnalysisResult } from "../../../src/lib/openai.ts";
+import { buildSnapshots, SnapshotContext } from "../../../src/lib/snapshotBuilder.ts";
+
+// One analysed answer of the run, with competitor names already canonicalized
+export interface RunAnswer {
+  result: BrandAnalysisResult;
+  context: SnapshotContext;
+}
+
+export interface RecordedAnomaly {
+  id: string;
+  keyword: string;
+  provider: string | null;
+  competitor_name: string | null;
+  anomaly_type: string;
+  severity: string;
+  observed_value: number | null;
+}
+
+const HISTORY_DAYS = 180;
+const PAGE_SIZE = 1000;
+// Earlier runs whose answers are compared when looking for new names near the top
+const BASELINE_REPORTS = 5;
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[ANOMALIES] ${step}${detailsStr}`);
+};
+
+const seriesKey = (keyword: string, provider: string | null, name: string) => `${keyword}|${provider ?? ""}|${name}`;
+
+async function loadHistory(supabase: SupabaseClient, projectId: string, reportId: string, keywords: string[]) {
+  const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const series = new Map<string, SeriesObservation[]>();
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("historical_snapshots")
+      .select("keyword, provider, competitor_name, position, mention_count, sample_count, sentiment_score, snapshot_date")
+      .eq("project_id", projectId)
+      .in("keyword", keywords)
+      .or(`report_id.is.null,report_id.neq.${reportId}`)
+      .gte("snapshot_date", since)
+      .order("snapshot_date", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+
+    (data || []).forEach(row => {
+      const key = seriesKey(row.keyword, row.provider, row.competitor_name);
+      series.set(key, [...(series.get(key) || []), {
+        date: row.snapshot_date,
+        position: row.position,
+        mentionRate: row.sample_count > 0 ? row.mention_count / row.sample_count : 0,
+        sentiment: row.sentiment_score === null ? null : Number(row.sentiment_score),
+      }]);
+    });
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return series;
+}
+
+async function loadBaselineAnswers(supabase: SupabaseClient, projectId: string, reportId: string) {
+  const { data: reports, error: reportsError } = await supabase
+    .from("reports")
+    .select("id")
+    .eq("project_id", projectId)
+    .eq("status", "completed")
+    .neq("id", reportId)
+    .order("created_at", { ascending: false })
+    .limit(BASELINE_REPORTS);
+  if (reportsError) throw new Error(reportsError.message);
+
+  const answers = new Map<string, string[]>();
+  if (!reports || reports.length === 0) return answers;
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("api_responses")
+      .select("keyword, provider, analysis:raw_response->>analysis")
+      .in("report_id", reports.map(r => r.id))
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+
+    (data || []).forEach(row => {
+      if (typeof row.analysis !== "string") return;
+      const key = seriesKey(row.keyword, row.provider, "");
+      answers.set(key, [...(answers.get(key) || []), row.analysis]);
+    });
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return answers;
+}
+
+// Best effort like the snapshots: a failure here is logged and never fails the run.
+// Returns the anomalies this call recorded, for the run's webhook events.
+export async function detectRunAnomalies(
+  supabase: SupabaseClient,
+  reportId: string,
+  projectId: string,
+  entities: BrandEntity[],
+  answers: RunAnswer[]
+): Promise<RecordedAnomaly[]> {
+  if (answers.length === 0) return [];
+
+  try {
+    const keywords = Array.from(new Set(answers.map(a => a.result.keyword)));
+    const [history, baselineAnswers] = await Promise.all([
+      loadHistory(supabase, projectId, reportId, keywords),
+      loadBaselineAnswers(supabase, projectId, reportId),
+    ]);
+
+    const rows = answers.flatMap(({ result, context }) => {
+      const observations = buildSnapshots(result, context);
+      const anomalies: DetectedAnomaly[] = [
+        ...observations.flatMap(observation => detectSeriesAnomalies(
+          {
+            name: observation.competitor_name,
+            isBrand: observation.is_brand,
+            date: observation.snapshot_date,
+            position: observation.position,
+            mentionRate: observation.mention_count / observation.sample_count,
+            sentiment: observation.sentiment_score,
+          },
+          history.get(seriesKey(result.keyword, result.provider, observation.competitor_name)) || []
+        )),
+        ...detectNewCompetitors(
+          result.sampleResponses ?? [result.rawResponse],
+          baselineAnswers.get(seriesKey(result.keyword, result.provider, "")) || [],
+          entities
+        ),
+      ];
+
+      return anomalies.map(anomaly => ({
+        project_id: projectId,
+        keyword_id: context.keywordId,
+        keyword: result.keyword,
+        provider: result.provider,
+        competitor_name: anomaly.competitorName,
+        anomaly_type: anomaly.type,
+        severity: anomaly.severity,
+        report_id: reportId,
+        api_response_id: context.apiResponseId,
+        baseline_value: anomaly.baselineValue,
+        observed_value: anomaly.observedValue,
+        details: anomaly.details,
+      }));
+    });
+
+    if (rows.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from("visibility_anomalies")
+      .upsert(rows, { onConflict: "api_response_id,competitor_name,anomaly_type", ignoreDuplicates: true })
+      .select("id, keyword, provider, competitor_name, anomaly_type, severity, observed_value");
+    if (error) throw new Error(error.message);
+
+    logStep("Anomalies recorded", { reportId, count: data?.length || 0 });
+    return data || [];
+  } catch (error) {
+    logStep("Anomaly detection failed", { reportId, message: error instanceof Error ? error.message : String(error) });
+    return [];
+  }
+}
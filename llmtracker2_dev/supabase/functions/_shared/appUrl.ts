@@ -0,0 +1,2 @@
+// Links in emails and webhook payloads point at the app, which background work has no request origin for
+export const appUrl = () => (Deno.env.get("APP_URL") || "http://localhost:8080").replace(/\/+$/, "");
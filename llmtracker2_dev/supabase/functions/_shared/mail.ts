@@ -0,0 +1,85 @@
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = "LLM Tracker <digest@llmtracker.local>";
+
+// Plain SMTP; in local development this is the inbucket server (SMTP_HOST=host.docker.internal, SMTP_PORT=54326)
+const smtpTransport = (from: string): MailTransport => {
+  const port = Number(Deno.env.get("SMTP_PORT") || 587);
+  const username = Deno.env.get("SMTP_USER");
+  const password = Deno.env.get("SMTP_PASS");
+
+  return {
+    name: "smtp",
+    async send(message) {
+      const client = new SMTPClient({
+        connection: {
+          hostname: Deno.env.get("SMTP_HOST") || "localhost",
+          port,
+          // Implicit TLS on 465; other ports upgrade with STARTTLS when the server offers it
+          tls: port === 465,
+          auth: username && password ? { username, password } : undefined,
+        },
+      });
+      try {
+        await client.send({ from, to: message.to, subject: message.subject, content: message.text, html: message.html });
+      } finally {
+        await client.close();
+      }
+    },
+  };
+};
+
+const resendTransport = (from: string): MailTransport => {
+  const apiKey = Deno.env.get("RESEND_API_KEY");
+  if (!apiKey) throw new Error("RESEND_API_KEY is not set");
+
+  return {
+    name: "resend",
+    async send(message) {
+      const response = await fetch("https://api.resend.com/emails", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${apiKey}`, "Content-Type": "application/json" },
+        body: JSON.stringify({ from, to: message.to, subject: message.subject, html: message.html, text: message.text }),
+      });
+      if (!response.ok) throw new Error(`Resend API error (${response.status}): ${await response.text()}`);
+    },
+  };
+};
+
+// Writes the message to the function log instead of sending it
+const logTransport = (): MailTransport => ({
+  name: "log",
+  send(message) {
+    console.log(`[MAIL] To ${message.to.join(", ")}: ${message.subject}\n${message.text}`);
+    return Promise.resolve();
+  },
+});
+
+// MAIL_TRANSPORT picks the delivery backend: smtp (default), resend or log
+export const createMailTransport = (): MailTransport => {
+  const from = Deno.env.get("MAIL_FROM") || DEFAULT_FROM;
+  const transport = (Deno.env.get("MAIL_TRANSPORT") || "smtp").toLowerCase();
+
+  switch (transport) {
+    case "smtp":
+      return smtpTransport(from);
+    case "resend":
+      return resendTransport(from);
+    case "log":
+      return logTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${transport}"`);
+  }
+};
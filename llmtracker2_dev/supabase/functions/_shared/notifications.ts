@@ -0,0 +1,24 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { NotificationType } from "../../../src/lib/notifications.ts";
+
+export interface NewNotification {
+  user_id: string;
+  type: NotificationType;
+  title: string;
+  body?: string | null;
+  link?: string | null;
+  project_id?: string | null;
+  report_id?: string | null;
+  keyword_id?: string | null;
+}
+
+// Best effort: a notification that cannot be written is logged and never fails the work it reports on.
+// Open apps receive the row through Realtime.
+export async function createNotification(supabase: SupabaseClient, notification: NewNotification): Promise<string | null> {
+  const { data, error } = await supabase.from("notifications").insert(notification).select("id").single();
+  if (error) {
+    console.log(`[NOTIFICATIONS] Notification write failed - ${JSON.stringify({ type: notification.type, message: error.message })}`);
+    return null;
+  }
+  return data.id;
+}
@@ -0,0 +1,472 @@
+import { PDFDocument, PDFFont, PDFPage, RGB, rgb, StandardFonts } from "https://esm.sh/pdf-lib@1.17.1";
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { buildEntities, canonicalizeResults, parseEntityAliases } from "../../../src/lib/entityMatcher.ts";
+import {
+  buildReportDocument,
+  ReportDocument,
+  TREND_WINDOW_DAYS,
+  TrendPoint,
+  TrendSeries,
+  TrendSnapshot,
+} from "../../../src/lib/reportDocument.ts";
+import { ApiResponseRecord, resultFromApiResponse } from "../../../src/lib/reportResults.ts";
+import { SENTIMENT_LABELS } from "../../../src/lib/sentiment.ts";
+
+export const REPORTS_BUCKET = "reports";
+// Long enough for a client to open a forwarded link; the Reports page re-signs expired links
+export const SIGNED_URL_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const PRODUCT_NAME = "LLM Tracker";
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const HEADER_HEIGHT = 28;
+const FOOTER_HEIGHT = 24;
+const PAGE_SIZE = 1000;
+const MAX_MATRIX_ENTITIES = 7;
+const MAX_CHART_SERIES = 6;
+const CHART_HEIGHT = 170;
+
+const BRAND_COLOR = rgb(124 / 255, 59 / 255, 237 / 255);
+const TEXT_COLOR = rgb(0.12, 0.12, 0.15);
+const MUTED_COLOR = rgb(0.45, 0.45, 0.5);
+const RULE_COLOR = rgb(0.87, 0.87, 0.9);
+const STRIPE_COLOR = rgb(0.97, 0.96, 1);
+// Same palette as the charts in the app
+const SERIES_COLORS = [
+  "#8884d8", "#82ca9d", "#ffc658", "#ff7c7c", "#8dd1e1", "#d084d0",
+].map(hex => rgb(parseInt(hex.slice(1, 3), 16) / 255, parseInt(hex.slice(3, 5), 16) / 255, parseInt(hex.slice(5, 7), 16) / 255));
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[REPORT-PDF] ${step}${detailsStr}`);
+};
+
+// The standard fonts only encode WinAnsi, and pdf-lib throws on anything else
+const toWinAnsi = (text: string) =>
+  text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, "-")
+    .replace(/…/g, "...")
+    .replace(/[•·]/g, "-")
+    .replace(/\s+/g, " ")
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, "");
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" });
+
+interface Column {
+  header: string;
+  width: number;
+}
+
+// Draws flowing content top to bottom, starting a new page whenever the next block would not fit
+class PdfWriter {
+  private page!: PDFPage;
+  private y = 0;
+
+  private constructor(
+    private readonly doc: PDFDocument,
+    private readonly font: PDFFont,
+    private readonly bold: PDFFont,
+    private readonly title: string
+  ) {}
+
+  static async create(title: string) {
+    const doc = await PDFDocument.create();
+    doc.setTitle(toWinAnsi(title));
+    doc.setProducer(PRODUCT_NAME);
+    doc.setCreator(PRODUCT_NAME);
+    const writer = new PdfWriter(
+      doc,
+      await doc.embedFont(StandardFonts.Helvetica),
+      await doc.embedFont(StandardFonts.HelveticaBold),
+      title
+    );
+    writer.addPage();
+    return writer;
+  }
+
+  private addPage() {
+    this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.page.drawRectangle({ x: 0, y: PAGE_HEIGHT - 6, width: PAGE_WIDTH, height: 6, color: BRAND_COLOR });
+    this.page.drawText(PRODUCT_NAME, { x: MARGIN, y: PAGE_HEIGHT - MARGIN + 8, size: 9, font: this.bold, color: BRAND_COLOR });
+    const title = toWinAnsi(this.title);
+    this.page.drawText(title, {
+      x: PAGE_WIDTH - MARGIN - this.font.widthOfTextAtSize(title, 9),
+      y: PAGE_HEIGHT - MARGIN + 8,
+      size: 9,
+      font: this.font,
+      color: MUTED_COLOR,
+    });
+    this.y = PAGE_HEIGHT - MARGIN - HEADER_HEIGHT;
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y - height < MARGIN + FOOTER_HEIGHT) this.addPage();
+  }
+
+  private wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+    const lines: string[] = [];
+    let line = "";
+    for (const word of toWinAnsi(text).split(" ").filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      // Words wider than the column are broken by character
+      let rest = word;
+      while (font.widthOfTextAtSize(rest, size) > width && rest.length > 1) {
+        let cut = rest.length - 1;
+        while (cut > 1 && font.widthOfTextAtSize(rest.slice(0, cut), size) > width) cut--;
+        lines.push(rest.slice(0, cut));
+        rest = rest.slice(cut);
+      }
+      line = rest;
+    }
+    if (line) lines.push(line);
+    return lines.length > 0 ? lines : [""];
+  }
+
+  text(value: string, { size = 10, bold = false, color = TEXT_COLOR, gap = 4 }: {
+    size?: number; bold?: boolean; color?: RGB; gap?: number;
+  } = {}) {
+    const font = bold ? this.bold : this.font;
+    const lineHeight = size * 1.35;
+    for (const line of this.wrap(value, font, size, CONTENT_WIDTH)) {
+      this.ensureSpace(lineHeight);
+      this.page.drawText(line, { x: MARGIN, y: this.y - size, size, font, color });
+      this.y -= lineHeight;
+    }
+    this.y -= gap;
+  }
+
+  heading(value: string) {
+    // Keep a heading on the same page as at least a few lines of its section
+    this.ensureSpace(80);
+    this.y -= 8;
+    this.text(value, { size: 14, bold: true, color: BRAND_COLOR, gap: 2 });
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: MARGIN + CONTENT_WIDTH, y: this.y },
+      thickness: 0.75,
+      color: RULE_COLOR,
+    });
+    this.y -= 10;
+  }
+
+  keyValues(entries: { label: string; value: string }[]) {
+    const labelWidth = 170;
+    for (const entry of entries) {
+      const lines = this.wrap(entry.value, this.bold, 10, CONTENT_WIDTH - labelWidth);
+      this.ensureSpace(lines.length * 14 + 4);
+      this.page.drawText(toWinAnsi(entry.label), { x: MARGIN, y: this.y - 10, size: 10, font: this.font, color: MUTED_COLOR });
+      lines.forEach((line, i) => {
+        this.page.drawText(line, { x: MARGIN + labelWidth, y: this.y - 10 - i * 14, size: 10, font: this.bold, color: TEXT_COLOR });
+      });
+      this.y -= lines.length * 14 + 4;
+    }
+    this.y -= 6;
+  }
+
+  // Wrapped cells, striped rows and the header repeated on every page the table spans
+  table(columns: Column[], rows: string[][], size = 8) {
+    const lineHeight = size * 1.3;
+    const padding = 3;
+
+    const drawHeader = () => {
+      const wrapped = columns.map(column => this.wrap(column.header, this.bold, size, column.width - 2 * padding));
+      const height = Math.max(...wrapped.map(lines => lines.length)) * lineHeight + 2 * padding;
+      this.ensureSpace(height + lineHeight + 2 * padding);
+      this.page.drawRectangle({ x: MARGIN, y: this.y - height, width: CONTENT_WIDTH, height, color: BRAND_COLOR });
+      let x = MARGIN;
+      wrapped.forEach((lines, i) => {
+        lines.forEach((line, j) => {
+          this.page.drawText(line, { x: x + padding, y: this.y - padding - size - j * lineHeight, size, font: this.bold, color: rgb(1, 1, 1) });
+        });
+        x += columns[i].width;
+      });
+      this.y -= height;
+    };
+
+    drawHeader();
+    rows.forEach((row, rowIndex) => {
+      const wrapped = row.map((cell, i) => this.wrap(cell, this.font, size, columns[i].width - 2 * padding));
+      const height = Math.max(...wrapped.map(lines => lines.length)) * lineHeight + 2 * padding;
+      if (this.y - height < MARGIN + FOOTER_HEIGHT) {
+        this.addPage();
+        drawHeader();
+      }
+      if (rowIndex % 2 === 1) {
+        this.page.drawRectangle({ x: MARGIN, y: this.y - height, width: CONTENT_WIDTH, height, color: STRIPE_COLOR });
+      }
+      let x = MARGIN;
+      wrapped.forEach((lines, i) => {
+        lines.forEach((line, j) => {
+          this.page.drawText(line, { x: x + padding, y: this.y - padding - size - j * lineHeight, size, font: this.font, color: TEXT_COLOR });
+        });
+        x += columns[i].width;
+      });
+      this.y -= height;
+      this.page.drawLine({ start: { x: MARGIN, y: this.y }, end: { x: MARGIN + CONTENT_WIDTH, y: this.y }, thickness: 0.5, color: RULE_COLOR });
+    });
+    this.y -= 12;
+  }
+
+  // Line chart over dates; inverted puts the lowest value at the top, as for rank positions
+  lineChart(
+    series: TrendSeries[],
+    value: (point: TrendPoint) => number | null,
+    { min, max, inverted = false, format }: { min: number; max: number; inverted?: boolean; format: (v: number) => string }
+  ) {
+    const legendRows = Math.ceil(series.length / 3);
+    this.ensureSpace(CHART_HEIGHT + 30 + legendRows * 14);
+
+    const left = MARGIN + 36;
+    const width = CONTENT_WIDTH - 36;
+    const bottom = this.y - CHART_HEIGHT;
+    const dates = Array.from(new Set(series.flatMap(s => s.points.map(p => p.date)))).sort();
+    const first = new Date(dates[0]).getTime();
+    const span = new Date(dates[dates.length - 1]).getTime() - first;
+    const xOf = (date: string) => (span === 0 ? left + width / 2 : left + ((new Date(date).getTime() - first) / span) * width);
+    const range = max - min || 1;
+    const yOf = (v: number) => bottom + (inverted ? (max - v) / range : (v - min) / range) * CHART_HEIGHT;
+
+    for (let i = 0; i <= 4; i++) {
+      const v = min + (range * i) / 4;
+      const y = yOf(v);
+      this.page.drawLine({ start: { x: left, y }, end: { x: left + width, y }, thickness: 0.5, color: RULE_COLOR });
+      const label = format(v);
+      this.page.drawText(label, { x: left - 4 - this.font.widthOfTextAtSize(label, 7), y: y - 2.5, size: 7, font: this.font, color: MUTED_COLOR });
+    }
+    [dates[0], dates[dates.length - 1]].filter((d, i, all) => all.indexOf(d) === i).forEach(date => {
+      const label = formatDate(date);
+      const x = Math.min(Math.max(xOf(date) - this.font.widthOfTextAtSize(label, 7) / 2, left), left + width - this.font.widthOfTextAtSize(label, 7));
+      this.page.drawText(label, { x, y: bottom - 12, size: 7, font: this.font, color: MUTED_COLOR });
+    });
+
+    series.forEach((s, index) => {
+      const color = SERIES_COLORS[index % SERIES_COLORS.length];
+      const points = s.points
+        .map(p => ({ date: p.date, v: value(p) }))
+        .filter((p): p is { date: string; v: number } => p.v !== null)
+        .map(p => ({ x: xOf(p.date), y: yOf(p.v) }));
+      points.forEach((point, i) => {
+        if (i > 0) {
+          this.page.drawLine({ start: points[i - 1], end: point, thickness: s.isBrand ? 2 : 1.2, color });
+        }
+        this.page.drawCircle({ x: point.x, y: point.y, size: s.isBrand ? 2 : 1.5, color });
+      });
+    });
+
+    this.y = bottom - 26;
+    const columnWidth = CONTENT_WIDTH / 3;
+    series.forEach((s, index) => {
+      const x = MARGIN + (index % 3) * columnWidth;
+      const y = this.y - Math.floor(index / 3) * 14;
+      this.page.drawRectangle({ x, y: y - 1, width: 8, height: 8, color: SERIES_COLORS[index % SERIES_COLORS.length] });
+      const label = this.wrap(s.isBrand ? `${s.entity} (You)` : s.entity, this.font, 8, columnWidth - 16)[0];
+      this.page.drawText(label, { x: x + 12, y, size: 8, font: s.isBrand ? this.bold : this.font, color: TEXT_COLOR });
+    });
+    this.y -= legendRows * 14 + 8;
+  }
+
+  async finish(): Promise<Uint8Array> {
+    const pages = this.doc.getPages();
+    pages.forEach((page, index) => {
+      const label = `Page ${index + 1} of ${pages.length}`;
+      page.drawText(label, {
+        x: PAGE_WIDTH - MARGIN - this.font.widthOfTextAtSize(label, 8),
+        y: MARGIN - 20,
+        size: 8,
+        font: this.font,
+        color: MUTED_COLOR,
+      });
+      page.drawText(`Generated by ${PRODUCT_NAME}`, { x: MARGIN, y: MARGIN - 20, size: 8, font: this.font, color: MUTED_COLOR });
+    });
+    return await this.doc.save();
+  }
+}
+
+const cellLabel = (cell: { mentioned: boolean; position: number | null }) =>
+  !cell.mentioned ? "-" : cell.position !== null ? `#${cell.position}` : "Yes";
+
+export async function renderReportPdf(document: ReportDocument): Promise<Uint8Array> {
+  const writer = await PdfWriter.create(`${document.title} - ${document.projectName}`);
+
+  writer.text(document.title, { size: 24, bold: true, color: BRAND_COLOR, gap: 2 });
+  writer.text(`${document.projectName} - ${document.brandName}`, { size: 13, gap: 2 });
+  writer.text(
+    `Run on ${formatDate(document.createdAt)}${document.completedAt ? `, completed ${formatDate(document.completedAt)}` : ""}`,
+    { size: 10, color: MUTED_COLOR, gap: 10 }
+  );
+
+  writer.heading("Summary");
+  writer.keyValues(document.summary);
+
+  if (document.matrix.length > 0) {
+    const entities = document.entities.slice(0, MAX_MATRIX_ENTITIES);
+    const fixed = 120 + 90;
+    const entityWidth = (CONTENT_WIDTH - fixed) / entities.length;
+    writer.heading("Competitor Matrix");
+    writer.text("Rank of each brand in every answer. \"Yes\" is a mention without a rank, \"-\" means not mentioned.", {
+      size: 9,
+      color: MUTED_COLOR,
+    });
+    writer.table(
+      [
+        { header: "Keyword", width: 120 },
+        { header: "Engine", width: 90 },
+        ...entities.map((name, i) => ({ header: i === 0 ? `${name} (You)` : name, width: entityWidth })),
+      ],
+      document.matrix.map(row => [row.keyword, row.engine, ...row.cells.slice(0, entities.length).map(cellLabel)])
+    );
+    if (document.entities.length > MAX_MATRIX_ENTITIES) {
+      writer.text(`${document.entities.length - MAX_MATRIX_ENTITIES} more competitors are tracked but not shown.`, {
+        size: 9,
+        color: MUTED_COLOR,
+      });
+    }
+  }
+
+  if (document.keywords.length > 0) {
+    writer.heading("Keyword Results");
+    writer.table(
+      [
+        { header: "Keyword", width: 95 },
+        { header: "Engine", width: 80 },
+        { header: "Position", width: 45 },
+        { header: "Sentiment", width: 60 },
+        { header: "What the answer said", width: CONTENT_WIDTH - 280 },
+      ],
+      document.keywords.map(row => [
+        row.keyword,
+        row.engine,
+        row.mentioned ? (row.position !== null ? `#${row.position}` : "Unranked") : "Not found",
+        row.sentiment ? `${SENTIMENT_LABELS[row.sentiment.label]} ${row.sentiment.score.toFixed(2)}` : "-",
+        row.context || "-",
+      ])
+    );
+  }
+
+  const trends = document.trends.filter(s => s.points.length > 0).slice(0, MAX_CHART_SERIES);
+  if (trends.some(s => s.points.length > 1)) {
+    writer.heading(`Trends (last ${TREND_WINDOW_DAYS} days)`);
+    writer.text("Mention rate", { size: 10, bold: true });
+    writer.lineChart(trends, p => p.mentionRate, { min: 0, max: 1, format: v => `${Math.round(v * 100)}%` });
+
+    const positions = trends.flatMap(s => s.points.map(p => p.position)).filter((p): p is number => p !== null);
+    if (positions.length > 0) {
+      writer.text("Average position", { size: 10, bold: true });
+      writer.lineChart(trends, p => p.position, {
+        min: 1,
+        max: Math.max(2, Math.ceil(Math.max(...positions))),
+        inverted: true,
+        format: v => `#${Math.round(v * 10) / 10}`,
+      });
+    }
+  }
+
+  return await writer.finish();
+}
+
+// Gathers the report, its analysed answers and the project's recent history
+export async function loadReportDocument(supabase: SupabaseClient, reportId: string) {
+  const { data: report, error: reportError } = await supabase
+    .from("reports")
+    .select("id, user_id, project_id, report_type, status, created_at, completed_at")
+    .eq("id", reportId)
+    .single();
+  if (reportError) throw new Error(reportError.message);
+
+  const { data: project, error: projectError } = await supabase
+    .from("projects")
+    .select("name, brand_name, competitors, entity_aliases")
+    .eq("id", report.project_id)
+    .single();
+  if (projectError) throw new Error(projectError.message);
+
+  const responses: ApiResponseRecord[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("api_responses")
+      .select("keyword, provider, raw_response, response_metadata, citations, created_at")
+      .eq("report_id", reportId)
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    responses.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const competitors = project.competitors || [];
+  const entities = buildEntities(project.brand_name, competitors, parseEntityAliases(project.entity_aliases));
+  const until = report.completed_at || report.created_at;
+  const since = new Date(new Date(until).getTime() - TREND_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const snapshots: TrendSnapshot[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("historical_snapshots")
+      .select("competitor_name, is_brand, position, mention_count, sample_count, snapshot_date")
+      .eq("project_id", report.project_id)
+      .gte("snapshot_date", since)
+      .lte("snapshot_date", until)
+      .order("snapshot_date", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    snapshots.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return {
+    report,
+    document: buildReportDocument({
+      reportType: report.report_type,
+      projectName: project.name,
+      brandName: project.brand_name,
+      competitors,
+      createdAt: report.created_at,
+      completedAt: report.completed_at,
+      results: canonicalizeResults(responses.map(resultFromApiResponse), entities.slice(1)),
+      snapshots,
+    }),
+  };
+}
+
+// Signs the stored file and records the link on the report
+export async function signReportPdf(supabase: SupabaseClient, reportId: string, path: string) {
+  const { data, error } = await supabase.storage.from(REPORTS_BUCKET).createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+  if (error) throw new Error(error.message);
+
+  const expiresAt = new Date(Date.now() + SIGNED_URL_TTL_SECONDS * 1000).toISOString();
+  const { error: updateError } = await supabase
+    .from("reports")
+    .update({ pdf_url: data.signedUrl, pdf_path: path, pdf_expires_at: expiresAt })
+    .eq("id", reportId);
+  if (updateError) throw new Error(updateError.message);
+
+  return { url: data.signedUrl, path, expiresAt };
+}
+
+// Renders the report, stores it under the owner's folder and writes the signed link back to the row
+export async function generateReportPdf(supabase: SupabaseClient, reportId: string) {
+  const { report, document } = await loadReportDocument(supabase, reportId);
+  if (report.status !== "completed") throw new Error("Only completed reports can be exported as PDF");
+
+  const bytes = await renderReportPdf(document);
+  const path = `${report.user_id}/${report.id}.pdf`;
+  const { error } = await supabase.storage
+    .from(REPORTS_BUCKET)
+    .upload(path, bytes, { contentType: "application/pdf", upsert: true });
+  if (error) throw new Error(error.message);
+
+  logStep("PDF stored", { reportId, path, bytes: bytes.length });
+  return await signReportPdf(supabase, reportId, path);
+}
@@ -0,0 +1,475 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { evaluateRunAlerts } from "./alerts.ts";
+import { detectRunAnomalies, RunAnswer } from "./anomalies.ts";
+import { createNotification } from "./notifications.ts";
+import { generateReportPdf } from "./reportPdf.ts";
+import { emitTrackingRunEvents } from "./webhooks.ts";
+import { buildCitationAnalysis, CitationHistoryEntry, parseCitations } from "../../../src/lib/citations.ts";
+import { buildCompetitorAnalysis } from "../../../src/lib/competitorAnalysis.ts";
+import { buildEntities, BrandEntity, canonicalizeResults, parseEntityAliases } from "../../../src/lib/entityMatcher.ts";
+import { analyzeBrandMention, BrandAnalysisResult } from "../../../src/lib/openai.ts";
+import { createProvider, EngineConfig, getEngineLabel, parseEngines, ProviderId, PROVIDERS } from "../../../src/lib/providers.ts";
+import { reportLink } from "../../../src/lib/notifications.ts";
+import { buildSnapshots, SnapshotContext, SnapshotDataSource } from "../../../src/lib/snapshotBuilder.ts";
+import { quotaPeriodStart } from "../../../src/lib/schedules.ts";
+import { clampSampleCount } from "../../../src/lib/statistics.ts";
+import {
+  buildKeywordTrackingResults,
+  buildRawResponse,
+  buildResponseMetadata,
+  ReportType,
+  RunProgress,
+} from "../../../src/lib/reportResults.ts";
+
+// Server-held credentials per provider; these never reach the browser
+const API_KEY_ENV: Record<ProviderId, string> = {
+  openai: "OPENAI_API_KEY",
+  anthropic: "ANTHROPIC_API_KEY",
+  gemini: "GEMINI_API_KEY",
+  perplexity: "PERPLEXITY_API_KEY",
+  openai_compatible: "OPENAI_COMPATIBLE_API_KEY",
+};
+
+export const getServerApiKey = (provider: ProviderId) => Deno.env.get(API_KEY_ENV[provider]) || undefined;
+
+// The base URL of an OpenAI-compatible engine comes from the project, but the server's key is sent to it,
+// so only endpoints the operator lists in OPENAI_COMPATIBLE_BASE_URLS (comma-separated) are called
+const normalizeBaseUrl = (url: string) => url.trim().replace(/\/+$/, "");
+
+export const isAllowedBaseUrl = (baseUrl: string) =>
+  (Deno.env.get("OPENAI_COMPATIBLE_BASE_URLS") || "")
+    .split(",")
+    .map(normalizeBaseUrl)
+    .filter(Boolean)
+    .includes(normalizeBaseUrl(baseUrl));
+
+export interface TrackingProject {
+  id: string;
+  user_id: string;
+  brand_name: string;
+  competitors: string[] | null;
+  engines: unknown;
+  entity_aliases: unknown;
+  sample_count: number | null;
+}
+
+export interface TrackingKeyword {
+  id: string;
+  keyword: string;
+}
+
+export interface TrackingRunOptions {
+  reportType?: ReportType;
+  // Recorded on the historical snapshots the run writes
+  dataSource?: SnapshotDataSource;
+}
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[TRACKING-RUN] ${step}${detailsStr}`);
+};
+
+const CITATION_HISTORY_REPORTS = 20;
+const PAGE_SIZE = 1000;
+
+// A running report holds its project for this long past its last progress update. One analysis
+// (every sample of one keyword on one engine) must finish well within it.
+const RUN_LEASE_MINUTES = 15;
+const ACTIVE_STATUSES = ["pending", "processing"];
+const UNIQUE_VIOLATION = "23505";
+
+const leaseUntil = () => new Date(Date.now() + RUN_LEASE_MINUTES * 60 * 1000).toISOString();
+
+// Fails runs whose worker stopped extending the lease (a crash or waitUntil timeout), for one project or all
+export async function expireStaleRuns(supabase: SupabaseClient, projectId?: string) {
+  const now = new Date();
+  // Reports created without a lease expire a lease length after they were created
+  const unleasedBefore = new Date(now.getTime() - RUN_LEASE_MINUTES * 60 * 1000);
+  let query = supabase
+    .from("reports")
+    .select("id, metadata")
+    .in("status", ACTIVE_STATUSES)
+    .or(`locked_until.lt.${now.toISOString()},and(locked_until.is.null,created_at.lt.${unleasedBefore.toISOString()})`);
+  if (projectId) query = query.eq("project_id", projectId);
+  const { data: stale, error } = await query;
+  if (error) throw new Error(error.message);
+
+  for (const report of stale || []) {
+    const metadata = report.metadata && typeof report.metadata === "object" ? report.metadata : {};
+    await supabase
+      .from("reports")
+      .update({ status: "failed", metadata: { ...metadata, error: "The run stopped responding" } })
+      .eq("id", report.id)
+      .in("status", ACTIVE_STATUSES);
+    logStep("Stale run failed", { reportId: report.id });
+  }
+}
+
+export type RunClaim = { reportId: string } | { activeReportId: string | null };
+
+// Creates the project's running report. idx_reports_one_active_run allows one pending or processing
+// report per project, so concurrent starts cannot both succeed; the loser gets the active run's id.
+export async function claimRunReport(
+  supabase: SupabaseClient,
+  projectId: string,
+  userId: string,
+  reportType: ReportType
+): Promise<RunClaim> {
+  await expireStaleRuns(supabase, projectId);
+
+  const { data: report, error } = await supabase
+    .from("reports")
+    .insert({
+      project_id: projectId,
+      report_type: reportType,
+      status: "processing",
+      user_id: userId,
+      locked_until: leaseUntil(),
+    })
+    .select("id")
+    .single();
+
+  if (error?.code === UNIQUE_VIOLATION) {
+    const { data: active } = await supabase
+      .from("reports")
+      .select("id")
+      .eq("project_id", projectId)
+      .in("status", ACTIVE_STATUSES)
+      .maybeSingle();
+    return { activeReportId: active?.id ?? null };
+  }
+  if (error) throw new Error(error.message);
+  return { reportId: report.id };
+}
+
+// Citations from the project's earlier completed runs, oldest first
+async function loadCitationHistory(supabase: SupabaseClient, projectId: string): Promise<CitationHistoryEntry[]> {
+  const { data: reports, error: reportsError } = await supabase
+    .from("reports")
+    .select("id, created_at, completed_at")
+    .eq("project_id", projectId)
+    .eq("status", "completed")
+    .order("created_at", { ascending: false })
+    .limit(CITATION_HISTORY_REPORTS);
+  if (reportsError) throw new Error(reportsError.message);
+  if (!reports || reports.length === 0) return [];
+
+  const responses: { report_id: string; keyword: string; provider: string; citations: unknown }[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("api_responses")
+      .select("report_id, keyword, provider, citations")
+      .in("report_id", reports.map(r => r.id))
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    responses.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return reports.map(report => ({
+    reportId: report.id,
+    date: report.completed_at || report.created_at,
+    responses: responses
+      .filter(r => r.report_id === report.id)
+      .map(r => ({ keyword: r.keyword, provider: r.provider, citations: parseCitations(r.citations) })),
+  }));
+}
+
+async function buildReportResults(
+  supabase: SupabaseClient,
+  reportId: string,
+  reportType: ReportType,
+  project: TrackingProject,
+  entities: BrandEntity[],
+  results: BrandAnalysisResult[],
+  keywordCount: number,
+  engines: EngineConfig[],
+  sampleCount: number
+) {
+  if (reportType === "citation_analysis") {
+    const responses = results.map(r => ({ keyword: r.keyword, provider: r.provider, citations: r.citations || [] }));
+    const history = await loadCitationHistory(supabase, project.id);
+    return buildCitationAnalysis(responses, entities, [
+      ...history,
+      { reportId, date: new Date().toISOString(), responses },
+    ]);
+  }
+
+  if (reportType === "competitor_analysis") {
+    const [, ...competitorEntities] = entities;
+    return buildCompetitorAnalysis(
+      canonicalizeResults(results, competitorEntities),
+      project.brand_name,
+      competitorEntities.map(entity => entity.name)
+    );
+  }
+
+  return buildKeywordTrackingResults(results, keywordCount, engines, sampleCount);
+}
+
+// History is best effort: a failed snapshot write never fails the analysis it describes.
+// Competitor names must already be canonicalized.
+async function saveSnapshots(supabase: SupabaseClient, result: BrandAnalysisResult, context: SnapshotContext) {
+  const { error } = await supabase
+    .from("historical_snapshots")
+    .upsert(buildSnapshots(result, context), { onConflict: "api_response_id,competitor_name", ignoreDuplicates: true });
+  if (error) logStep("Snapshot write failed", { apiResponseId: context.apiResponseId, message: error.message });
+}
+
+// In-app notification for the project owner, replacing the toast that only reached whoever started the run
+async function notifyRunOutcome(
+  supabase: SupabaseClient,
+  reportId: string,
+  project: TrackingProject,
+  outcome: { failed: boolean; analyses: number; errors: number; error?: string }
+) {
+  const { data } = await supabase.from("projects").select("name").eq("id", project.id).maybeSingle();
+  const name = data?.name || project.brand_name;
+  const errors = outcome.errors > 0 ? `, ${outcome.errors} failed` : "";
+  await createNotification(supabase, {
+    user_id: project.user_id,
+    type: outcome.failed ? "report_failed" : "report_completed",
+    title: outcome.failed ? `Report failed for ${name}` : `Report ready for ${name}`,
+    body: outcome.error || `${outcome.analyses} analyses completed${errors}`,
+    link: reportLink(reportId),
+    project_id: project.id,
+    report_id: reportId,
+  });
+}
+
+// Reports engines that cannot run with the current server configuration
+export const findUnconfiguredEngine = (engines: EngineConfig[]): EngineConfig | undefined =>
+  engines.find(engine =>
+    (PROVIDERS[engine.provider].requiresApiKey && !getServerApiKey(engine.provider)) ||
+    (PROVIDERS[engine.provider].requiresBaseUrl && (!engine.baseUrl || !isAllowedBaseUrl(engine.baseUrl)))
+  );
+
+export interface Quota {
+  limit: number;
+  used: number;
+  expired: boolean;
+}
+
+// The user's plan allowance for this month; every way of starting a run checks it
+export async function loadQuota(supabase: SupabaseClient, userId: string, now: Date = new Date()): Promise<Quota> {
+  const { data: profile, error: profileError } = await supabase
+    .from("profiles")
+    .select("plan, reports_limit, trial_ends_at")
+    .eq("id", userId)
+    .maybeSingle();
+  if (profileError) throw new Error(profileError.message);
+
+  const { count, error: countError } = await supabase
+    .from("reports")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .gte("created_at", quotaPeriodStart(now).toISOString());
+  if (countError) throw new Error(countError.message);
+
+  return {
+    limit: profile?.reports_limit ?? 0,
+    used: count || 0,
+    expired: !profile || (profile.plan === "trial" && !!profile.trial_ends_at && new Date(profile.trial_ends_at) < now),
+  };
+}
+
+// Why the quota does not allow another run, or null when it does
+export const quotaError = (quota: Quota): string | null => {
+  if (quota.expired) return "Plan has expired";
+  if (quota.limit !== -1 && quota.used >= quota.limit) return "Monthly report quota reached";
+  return null;
+};
+
+export type StartRunResult =
+  | { reportId: string; run: Promise<BrandAnalysisResult[]> }
+  | { error: string; status: number; reportId?: string };
+
+// Checks that the user's project can run now and their plan allows it, creates its report and starts the run.
+// The caller keeps the returned promise alive (EdgeRuntime.waitUntil) after it has responded.
+export async function startTrackingRun(
+  supabase: SupabaseClient,
+  projectId: string,
+  userId: string,
+  reportType: ReportType
+): Promise<StartRunResult> {
+  const { data: project, error: projectError } = await supabase
+    .from("projects")
+    .select("id, user_id, brand_name, competitors, engines, entity_aliases, sample_count")
+    .eq("id", projectId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (projectError) throw new Error(projectError.message);
+  if (!project) return { error: "Project not found", status: 404 };
+  if (reportType === "competitor_analysis" && (!project.competitors || project.competitors.length === 0)) {
+    return { error: "Add competitors before running a competitor analysis", status: 400 };
+  }
+
+  const { data: keywords, error: keywordsError } = await supabase
+    .from("keywords")
+    .select("id, keyword")
+    .eq("project_id", project.id)
+    .order("created_at", { ascending: true });
+  if (keywordsError) throw new Error(keywordsError.message);
+  if (!keywords || keywords.length === 0) return { error: "Project has no keywords", status: 400 };
+
+  const unconfigured = findUnconfiguredEngine(parseEngines(project.engines));
+  if (unconfigured) {
+    return { error: `${getEngineLabel(unconfigured)} is not configured on the server`, status: 400 };
+  }
+
+  const overQuota = quotaError(await loadQuota(supabase, userId));
+  if (overQuota) return { error: overQuota, status: 403 };
+
+  const claim = await claimRunReport(supabase, project.id, userId, reportType);
+  if ("activeReportId" in claim) {
+    return {
+      error: "A run is already in progress for this project",
+      status: 409,
+      ...(claim.activeReportId ? { reportId: claim.activeReportId } : {}),
+    };
+  }
+
+  return { reportId: claim.reportId, run: executeTrackingRun(supabase, claim.reportId, project, keywords, { reportType }) };
+}
+
+// Runs every keyword against every engine of the project and records the outcome on the report.
+// The report row must already exist; its status ends as 'completed' or 'failed'.
+export async function executeTrackingRun(
+  supabase: SupabaseClient,
+  reportId: string,
+  project: TrackingProject,
+  keywords: TrackingKeyword[],
+  { reportType = "keyword_tracking", dataSource = "api_response" }: TrackingRunOptions = {}
+): Promise<BrandAnalysisResult[]> {
+  const engines = parseEngines(project.engines);
+  const competitors = project.competitors || [];
+  const aliases = parseEntityAliases(project.entity_aliases);
+  const sampleCount = clampSampleCount(project.sample_count);
+  const entities = buildEntities(project.brand_name, competitors, aliases);
+  const progress: RunProgress = { completed: 0, total: keywords.length * engines.length, errors: [] };
+  const results: BrandAnalysisResult[] = [];
+  const answers: RunAnswer[] = [];
+
+  logStep("Run started", { reportId, projectId: project.id, reportType, total: progress.total, sampleCount });
+
+  // Each progress update also extends the run's lease
+  const saveProgress = () =>
+    supabase.from("reports").update({ metadata: { engines, sampleCount, progress }, locked_until: leaseUntil() }).eq("id", reportId);
+
+  try {
+    await saveProgress();
+    const unconfigured = findUnconfiguredEngine(engines);
+    if (unconfigured) throw new Error(`${getEngineLabel(unconfigured)} is not configured on the server`);
+    const providers = engines.map(engine => createProvider(engine, getServerApiKey(engine.provider)));
+
+    for (const keyword of keywords) {
+      for (const provider of providers) {
+        try {
+          const result = await analyzeBrandMention(keyword.keyword, project.brand_name, competitors, provider, aliases, sampleCount);
+          results.push(result);
+
+          const { data: response, error } = await supabase
+            .from("api_responses")
+            .insert({
+              report_id: reportId,
+              keyword: keyword.keyword,
+              provider: result.provider,
+              raw_response: buildRawResponse(result),
+              response_metadata: buildResponseMetadata(result),
+              citations: result.citations || [],
+            })
+            .select("id")
+            .single();
+          if (error) throw new Error(error.message);
+
+          const [canonical] = canonicalizeResults([result], entities.slice(1));
+          const context: SnapshotContext = {
+            projectId: project.id,
+            brandName: project.brand_name,
+            keywordId: keyword.id,
+            reportId,
+            apiResponseId: response.id,
+            dataSource,
+          };
+          await saveSnapshots(supabase, canonical, context);
+          answers.push({ result: canonical, context });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          logStep("Analysis failed", { keyword: keyword.keyword, provider: provider.id, message });
+          progress.errors.push({ keyword: keyword.keyword, provider: provider.id, message });
+        }
+
+        progress.completed++;
+        await saveProgress();
+      }
+    }
+
+    const failed = results.length === 0 && progress.total > 0;
+    await supabase
+      .from("reports")
+      .update({
+        status: failed ? "failed" : "completed",
+        completed_at: new Date().toISOString(),
+        locked_until: null,
+        results: await buildReportResults(
+          supabase, reportId, reportType, project, entities, results, keywords.length, engines, sampleCount
+        ),
+      })
+      .eq("id", reportId);
+
+    logStep("Run finished", { reportId, analyses: results.length, errors: progress.errors.length });
+
+    const anomalies = await detectRunAnomalies(supabase, reportId, project.id, entities, answers);
+    if (!failed) await evaluateRunAlerts(supabase, { reportId, project, answers });
+
+    // The PDF is a convenience; without it the report is still complete and can be rendered later
+    if (!failed) {
+      try {
+        await generateReportPdf(supabase, reportId);
+      } catch (error) {
+        logStep("PDF generation failed", { reportId, message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    await emitTrackingRunEvents(supabase, {
+      reportId,
+      reportType,
+      project,
+      failed,
+      analyses: results.length,
+      errors: progress.errors.length,
+      answers,
+      anomalies,
+    });
+    await notifyRunOutcome(supabase, reportId, project, { failed, analyses: results.length, errors: progress.errors.length });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logStep("ERROR in tracking run", { reportId, message });
+    await supabase
+      .from("reports")
+      .update({ status: "failed", metadata: { engines, sampleCount, progress, error: message }, locked_until: null })
+      .eq("id", reportId);
+
+    await emitTrackingRunEvents(supabase, {
+      reportId,
+      reportType,
+      project,
+      failed: true,
+      error: message,
+      analyses: results.length,
+      errors: progress.errors.length,
+      answers: [],
+      anomalies: [],
+    });
+    await notifyRunOutcome(supabase, reportId, project, {
+      failed: true,
+      analyses: results.length,
+      errors: progress.errors.length,
+      error: message,
+    });
+  }
+
+  return results;
+}
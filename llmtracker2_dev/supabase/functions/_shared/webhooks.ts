@@ -0,0 +1,334 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { appUrl } from "./appUrl.ts";
+import { RecordedAnomaly, RunAnswer } from "./anomalies.ts";
+import { getEngineLabel } from "../../../src/lib/providers.ts";
+import { buildSnapshots } from "../../../src/lib/snapshotBuilder.ts";
+import {
+  computeDeliveryRetryAt,
+  DELIVERY_HEADER,
+  detectMentionChanges,
+  EVENT_HEADER,
+  isPrivateAddress,
+  isValidWebhookUrl,
+  MAX_DELIVERY_ATTEMPTS,
+  MentionObservation,
+  SIGNATURE_HEADER,
+  signWebhookPayload,
+  WebhookEvent,
+  WebhookEventType,
+} from "../../../src/lib/webhooks.ts";
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+// A worker holds a delivery this long while posting it
+export const DELIVERY_LOCK_MINUTES = 2;
+const PAGE_SIZE = 1000;
+// A keyword and engine not observed for this long has no "previous run" to flip from
+const MENTION_HISTORY_DAYS = 90;
+
+export const DELIVERY_COLUMNS = "id, endpoint_id, project_id, event_type, event_id, payload, attempt_count";
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  project_id: string;
+  event_type: string;
+  event_id: string;
+  payload: unknown;
+  attempt_count: number;
+}
+
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  secret: string;
+  is_active: boolean;
+}
+
+export interface TrackingRunEvents {
+  reportId: string;
+  reportType: string;
+  project: { id: string; brand_name: string };
+  failed: boolean;
+  error?: string;
+  analyses: number;
+  errors: number;
+  answers: RunAnswer[];
+  anomalies: RecordedAnomaly[];
+}
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[WEBHOOKS] ${step}${detailsStr}`);
+};
+
+// Local http receivers (e.g. a tunnel-less dev server) are only reachable when the deployment opts in
+const allowLocalHttp = () => Deno.env.get("WEBHOOKS_ALLOW_LOCAL_HTTP") === "true";
+
+// The URL check alone would let a public hostname point at an internal one, so its DNS answers are checked too
+async function findUnsafeTarget(url: string): Promise<string | null> {
+  const { hostname } = new URL(url);
+  const host = hostname.replace(/^\[|\]$/g, "");
+  if (/^[\d.]+$/.test(host) || host.includes(":")) return isPrivateAddress(host) ? "Endpoint address is internal" : null;
+
+  const lookups = await Promise.allSettled([Deno.resolveDns(host, "A"), Deno.resolveDns(host, "AAAA")]);
+  const addresses = lookups.flatMap(lookup => (lookup.status === "fulfilled" ? lookup.value : []));
+  if (addresses.length === 0) return `Could not resolve ${host}`;
+  return addresses.some(isPrivateAddress) ? "Endpoint resolves to an internal address" : null;
+}
+
+export const lockUntil = (now = new Date()) => new Date(now.getTime() + DELIVERY_LOCK_MINUTES * 60 * 1000).toISOString();
+
+// Posts one delivery and records the outcome; failures are rescheduled with backoff until attempts run out
+export async function attemptDelivery(
+  supabase: SupabaseClient,
+  delivery: WebhookDelivery,
+  endpoint: WebhookEndpoint | null
+): Promise<boolean> {
+  const attemptCount = delivery.attempt_count + 1;
+  const startedAt = new Date();
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  const localHttp = allowLocalHttp();
+
+  if (!endpoint || !endpoint.is_active) {
+    error = "Endpoint is disabled or was removed";
+  } else if (!isValidWebhookUrl(endpoint.url, { allowLocalHttp: localHttp })) {
+    error = "Endpoint URL is not allowed";
+  } else {
+    try {
+      error = localHttp ? null : await findUnsafeTarget(endpoint.url);
+      if (!error) {
+        const body = JSON.stringify(delivery.payload);
+        const response = await fetch(endpoint.url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "User-Agent": "LLMTracker-Webhooks/1.0",
+            [EVENT_HEADER]: delivery.event_type,
+            [DELIVERY_HEADER]: delivery.id,
+            [SIGNATURE_HEADER]: await signWebhookPayload(endpoint.secret, body),
+          },
+          body,
+          // A redirect could lead anywhere, including the internal addresses checked above
+          redirect: "manual",
+          signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+        });
+        responseStatus = response.status;
+        // Only the status is recorded; the receiver's body is never stored or shown
+        await response.body?.cancel();
+        if (response.status >= 300 && response.status < 400) {
+          error = `Receiver redirected with HTTP ${response.status}; redirects are not followed`;
+        } else if (!response.ok) {
+          error = `Receiver responded with HTTP ${response.status}`;
+        }
+      }
+    } catch (fetchError) {
+      error = fetchError instanceof Error ? fetchError.message : String(fetchError);
+    }
+  }
+
+  const finishedAt = new Date();
+  const succeeded = error === null;
+  // A disabled endpoint will not come back by retrying; it can be replayed once re-enabled
+  const exhausted = attemptCount >= MAX_DELIVERY_ATTEMPTS || !endpoint || !endpoint.is_active;
+
+  const { error: updateError } = await supabase
+    .from("webhook_deliveries")
+    .update({
+      status: succeeded ? "succeeded" : exhausted ? "failed" : "pending",
+      attempt_count: attemptCount,
+      last_attempt_at: startedAt.toISOString(),
+      next_attempt_at: succeeded || exhausted ? null : computeDeliveryRetryAt(attemptCount, finishedAt).toISOString(),
+      response_status: responseStatus,
+      error,
+      duration_ms: finishedAt.getTime() - startedAt.getTime(),
+      delivered_at: succeeded ? finishedAt.toISOString() : null,
+      locked_until: null,
+    })
+    .eq("id", delivery.id);
+  if (updateError) logStep("Delivery update failed", { deliveryId: delivery.id, message: updateError.message });
+
+  logStep(succeeded ? "Delivered" : "Delivery failed", {
+    deliveryId: delivery.id,
+    eventType: delivery.event_type,
+    attempt: attemptCount,
+    ...(succeeded ? {} : { error }),
+  });
+  return succeeded;
+}
+
+// Fans events out to every active endpoint of the project subscribed to them and makes the first attempt right away
+export async function enqueueWebhookEvents(
+  supabase: SupabaseClient,
+  projectId: string,
+  events: Omit<WebhookEvent, "project">[]
+): Promise<number> {
+  if (events.length === 0) return 0;
+
+  const { data: endpoints, error: endpointsError } = await supabase
+    .from("webhook_endpoints")
+    .select("id, url, secret, is_active, events")
+    .eq("project_id", projectId)
+    .eq("is_active", true);
+  if (endpointsError) throw new Error(endpointsError.message);
+  if (!endpoints || endpoints.length === 0) return 0;
+
+  const { data: project, error: projectError } = await supabase
+    .from("projects")
+    .select("id, name")
+    .eq("id", projectId)
+    .single();
+  if (projectError) throw new Error(projectError.message);
+
+  const rows = endpoints.flatMap(endpoint =>
+    events
+      .filter(event => (endpoint.events as string[]).includes(event.type))
+      .map(event => ({
+        endpoint_id: endpoint.id,
+        project_id: projectId,
+        event_type: event.type,
+        event_id: event.id,
+        payload: { ...event, project: { id: project.id, name: project.name } },
+        locked_until: lockUntil(),
+      }))
+  );
+  if (rows.length === 0) return 0;
+
+  const { data: deliveries, error: insertError } = await supabase
+    .from("webhook_deliveries")
+    .insert(rows)
+    .select(DELIVERY_COLUMNS);
+  if (insertError) throw new Error(insertError.message);
+
+  const byId = new Map(endpoints.map(endpoint => [endpoint.id, endpoint as WebhookEndpoint]));
+  for (const delivery of (deliveries || []) as WebhookDelivery[]) {
+    await attemptDelivery(supabase, delivery, byId.get(delivery.endpoint_id) ?? null);
+  }
+  return rows.length;
+}
+
+// Latest brand observation per keyword and engine from runs before this one
+async function loadPreviousBrandObservations(
+  supabase: SupabaseClient,
+  projectId: string,
+  reportId: string,
+  keywords: string[]
+): Promise<MentionObservation[]> {
+  const since = new Date(Date.now() - MENTION_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const latest = new Map<string, MentionObservation>();
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("historical_snapshots")
+      .select("keyword, provider, position, mention_count, sample_count, report_id")
+      .eq("project_id", projectId)
+      .eq("is_brand", true)
+      .in("keyword", keywords)
+      .neq("report_id", reportId)
+      .gte("snapshot_date", since)
+      .order("snapshot_date", { ascending: false })
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+
+    (data || []).forEach(row => {
+      const key = `${row.keyword}|${row.provider}`;
+      if (!row.provider || latest.has(key)) return;
+      latest.set(key, {
+        keyword: row.keyword,
+        provider: row.provider,
+        mentioned: row.mention_count > 0,
+        mentionRate: row.sample_count > 0 ? row.mention_count / row.sample_count : 0,
+        position: row.position,
+        reportId: row.report_id,
+      });
+    });
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return Array.from(latest.values());
+}
+
+async function buildMentionEvents(supabase: SupabaseClient, run: TrackingRunEvents, createdAt: string) {
+  if (run.answers.length === 0) return [];
+
+  const current = run.answers.flatMap(({ result, context }) =>
+    buildSnapshots(result, context)
+      .filter(row => row.is_brand)
+      .map(row => ({
+        keyword: result.keyword,
+        provider: result.provider,
+        mentioned: row.mention_count > 0,
+        mentionRate: row.mention_count / row.sample_count,
+        position: row.position,
+        reportId: run.reportId,
+      }))
+  );
+  const keywords = Array.from(new Set(current.map(o => o.keyword)));
+  const previous = await loadPreviousBrandObservations(supabase, run.project.id, run.reportId, keywords);
+  const engines = new Map(run.answers.map(({ result }) => [`${result.keyword}|${result.provider}`, getEngineLabel(result)]));
+
+  return detectMentionChanges(current, previous).map(change => ({
+    id: crypto.randomUUID(),
+    type: change.type as WebhookEventType,
+    createdAt,
+    data: {
+      brand: run.project.brand_name,
+      keyword: change.keyword,
+      provider: change.provider,
+      engine: engines.get(`${change.keyword}|${change.provider}`) ?? change.provider,
+      reportId: run.reportId,
+      previousReportId: change.previous.reportId,
+      mentionRate: change.current.mentionRate,
+      previousMentionRate: change.previous.mentionRate,
+      position: change.current.position,
+      previousPosition: change.previous.position,
+    },
+  }));
+}
+
+// Webhooks are best effort like the anomalies: a failure here is logged and never fails the run
+export async function emitTrackingRunEvents(supabase: SupabaseClient, run: TrackingRunEvents): Promise<void> {
+  try {
+    const createdAt = new Date().toISOString();
+    const events: Omit<WebhookEvent, "project">[] = [
+      {
+        id: crypto.randomUUID(),
+        type: run.failed ? "report.failed" : "report.completed",
+        createdAt,
+        data: {
+          report: {
+            id: run.reportId,
+            type: run.reportType,
+            status: run.failed ? "failed" : "completed",
+            url: `${appUrl()}/reports/${run.reportId}`,
+          },
+          analyses: run.analyses,
+          errors: run.errors,
+          ...(run.error ? { error: run.error } : {}),
+        },
+      },
+      ...(await buildMentionEvents(supabase, run, createdAt)),
+      ...run.anomalies
+        // Low severity is an untracked name seen once, too noisy to announce
+        .filter(anomaly => anomaly.anomaly_type === "new_competitor" && anomaly.severity !== "low")
+        .map(anomaly => ({
+          id: crypto.randomUUID(),
+          type: "competitor.detected" as const,
+          createdAt,
+          data: {
+            competitor: anomaly.competitor_name,
+            keyword: anomaly.keyword,
+            provider: anomaly.provider,
+            position: anomaly.observed_value,
+            severity: anomaly.severity,
+            reportId: run.reportId,
+            anomalyId: anomaly.id,
+          },
+        })),
+    ];
+
+    const queued = await enqueueWebhookEvents(supabase, run.project.id, events);
+    if (queued > 0) logStep("Run events queued", { reportId: run.reportId, events: events.length, deliveries: queued });
+  } catch (error) {
+    logStep("Webhook events failed", { reportId: run.reportId, message: error instanceof Error ? error.message : String(error) });
+  }
+}
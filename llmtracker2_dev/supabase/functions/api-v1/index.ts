@@ -0,0 +1,484 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { API_KEY_HEADER, ApiScope, hashApiKey, readApiKey } from "../../../src/lib/apiKeys.ts";
+import { isReportType, readRunProgress } from "../../../src/lib/reportResults.ts";
+import { MAX_KEYWORD_PRIORITY } from "../../../src/lib/shareOfVoice.ts";
+import { startTrackingRun } from "../_shared/trackingRun.ts";
+import { openApiDocument } from "./openapi.ts";
+
+// Lets runs outlive the request that started them
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": `authorization, x-client-info, apikey, content-type, ${API_KEY_HEADER.toLowerCase()}`,
+  "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[API-V1] ${step}${detailsStr}`);
+};
+
+const DEFAULT_PAGE_LIMIT = 100;
+const MAX_PAGE_LIMIT = 1000;
+const MAX_KEYWORDS_PER_REQUEST = 100;
+// Same limits as the project form in the app
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_COMPETITORS = 20;
+
+const PROJECT_COLUMNS = "id, name, brand_name, description, competitors, engines, sample_count, created_at, updated_at";
+const KEYWORD_COLUMNS = "id, keyword, priority, keyword_group, created_at";
+const REPORT_COLUMNS = "id, project_id, report_type, status, created_at, completed_at";
+const SNAPSHOT_COLUMNS =
+  "snapshot_date, keyword, keyword_id, provider, competitor_name, is_brand, position, mention_count, sample_count, market_share, sentiment_score, report_id, data_source";
+
+interface ApiKeyContext {
+  id: string;
+  userId: string;
+  // Set for project keys, which only reach that project
+  projectId: string | null;
+  scopes: string[];
+}
+
+interface RequestContext {
+  supabase: SupabaseClient;
+  key: ApiKeyContext;
+  url: URL;
+  body: Record<string, unknown>;
+}
+
+type Handler = (ctx: RequestContext, params: string[]) => Promise<Response>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  scope: ApiScope;
+  handler: Handler;
+}
+
+const notFound = (what: string) => jsonResponse({ error: `${what} not found` }, 404);
+
+// Mirrors sanitizeInput in src/lib/validation.ts
+const sanitize = (value: string) => value.trim().replace(/[<>]/g, "");
+
+// Returns the cleaned string, or an error message for the field
+const readText = (value: unknown, field: string, max: number, required: boolean): string | null | { error: string } => {
+  if (value === undefined || value === null) return required ? { error: `${field} is required` } : null;
+  if (typeof value !== "string") return { error: `${field} must be a string` };
+  const text = sanitize(value);
+  if (required && !text) return { error: `${field} is required` };
+  if (text.length > max) return { error: `${field} must be at most ${max} characters` };
+  return text || null;
+};
+
+const readCompetitors = (value: unknown): string[] | { error: string } => {
+  if (!Array.isArray(value) || value.some(item => typeof item !== "string")) {
+    return { error: "competitors must be an array of strings" };
+  }
+  const names = Array.from(new Set((value as string[]).map(sanitize).filter(name => name.length > 0)));
+  if (names.length > MAX_COMPETITORS) return { error: `At most ${MAX_COMPETITORS} competitors are allowed` };
+  if (names.some(name => name.length > MAX_NAME_LENGTH)) return { error: `Competitor names must be at most ${MAX_NAME_LENGTH} characters` };
+  return names;
+};
+
+const isError = (value: unknown): value is { error: string } =>
+  typeof value === "object" && value !== null && !Array.isArray(value) && "error" in value;
+
+const readPaging = (url: URL) => {
+  const limit = Number(url.searchParams.get("limit") ?? DEFAULT_PAGE_LIMIT);
+  const offset = Number(url.searchParams.get("offset") ?? 0);
+  return {
+    limit: Number.isInteger(limit) ? Math.min(Math.max(limit, 1), MAX_PAGE_LIMIT) : DEFAULT_PAGE_LIMIT,
+    offset: Number.isInteger(offset) ? Math.max(offset, 0) : 0,
+  };
+};
+
+const readDate = (url: URL, name: string): string | null | { error: string } => {
+  const value = url.searchParams.get(name);
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? { error: `${name} must be an ISO 8601 date` } : date.toISOString();
+};
+
+async function authenticate(supabase: SupabaseClient, req: Request): Promise<ApiKeyContext | null> {
+  const key = readApiKey(req.headers);
+  if (!key) return null;
+
+  const { data, error } = await supabase
+    .from("api_keys")
+    .select("id, user_id, project_id, scopes, expires_at, revoked_at")
+    .eq("key_hash", await hashApiKey(key))
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data || data.revoked_at || (data.expires_at && new Date(data.expires_at) <= new Date())) return null;
+
+  await supabase.from("api_keys").update({ last_used_at: new Date().toISOString() }).eq("id", data.id);
+  return { id: data.id, userId: data.user_id, projectId: data.project_id, scopes: data.scopes };
+}
+
+// The project if the key's owner has it and the key reaches it
+async function loadProject(ctx: RequestContext, projectId: string) {
+  if (ctx.key.projectId && ctx.key.projectId !== projectId) return null;
+  const { data, error } = await ctx.supabase
+    .from("projects")
+    .select(PROJECT_COLUMNS)
+    .eq("id", projectId)
+    .eq("user_id", ctx.key.userId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+async function loadLimits(supabase: SupabaseClient, userId: string) {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("projects_limit, keywords_limit")
+    .eq("id", userId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return { projects: data?.projects_limit ?? 0, keywords: data?.keywords_limit ?? 0 };
+}
+
+const listProjects: Handler = async (ctx) => {
+  const { limit, offset } = readPaging(ctx.url);
+  let query = ctx.supabase
+    .from("projects")
+    .select(PROJECT_COLUMNS, { count: "exact" })
+    .eq("user_id", ctx.key.userId)
+    .order("created_at", { ascending: true })
+    .order("id", { ascending: true })
+    .range(offset, offset + limit - 1);
+  if (ctx.key.projectId) query = query.eq("id", ctx.key.projectId);
+
+  const { data, error, count } = await query;
+  if (error) throw new Error(error.message);
+  return jsonResponse({ data: data || [], pagination: { limit, offset, total: count ?? 0 } });
+};
+
+const createProject: Handler = async (ctx) => {
+  if (ctx.key.projectId) return jsonResponse({ error: "Project keys cannot create projects" }, 403);
+
+  const name = readText(ctx.body.name, "name", MAX_NAME_LENGTH, true);
+  const brandName = readText(ctx.body.brand_name, "brand_name", MAX_NAME_LENGTH, true);
+  const description = readText(ctx.body.description, "description", MAX_DESCRIPTION_LENGTH, false);
+  const competitors = ctx.body.competitors === undefined ? [] : readCompetitors(ctx.body.competitors);
+  for (const value of [name, brandName, description, competitors]) {
+    if (isError(value)) return jsonResponse(value, 400);
+  }
+
+  const limits = await loadLimits(ctx.supabase, ctx.key.userId);
+  if (limits.projects !== -1) {
+    const { count, error } = await ctx.supabase
+      .from("projects")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", ctx.key.userId);
+    if (error) throw new Error(error.message);
+    if ((count ?? 0) >= limits.projects) return jsonResponse({ error: "Project limit of your plan reached" }, 403);
+  }
+
+  const { data, error } = await ctx.supabase
+    .from("projects")
+    .insert({ user_id: ctx.key.userId, name, brand_name: brandName, description, competitors })
+    .select(PROJECT_COLUMNS)
+    .single();
+  if (error) throw new Error(error.message);
+  return jsonResponse({ data }, 201);
+};
+
+const getProject: Handler = async (ctx, [projectId]) => {
+  const project = await loadProject(ctx, projectId);
+  return project ? jsonResponse({ data: project }) : notFound("Project");
+};
+
+const updateProject: Handler = async (ctx, [projectId]) => {
+  if (!(await loadProject(ctx, projectId))) return notFound("Project");
+
+  const changes: Record<string, unknown> = {};
+  if ("name" in ctx.body) changes.name = readText(ctx.body.name, "name", MAX_NAME_LENGTH, true);
+  if ("brand_name" in ctx.body) changes.brand_name = readText(ctx.body.brand_name, "brand_name", MAX_NAME_LENGTH, true);
+  if ("description" in ctx.body) changes.description = readText(ctx.body.description, "description", MAX_DESCRIPTION_LENGTH, false);
+  if ("competitors" in ctx.body) changes.competitors = readCompetitors(ctx.body.competitors);
+  const invalid = Object.values(changes).find(isError);
+  if (invalid) return jsonResponse(invalid, 400);
+  if (Object.keys(changes).length === 0) return jsonResponse({ error: "Nothing to update" }, 400);
+
+  const { data, error } = await ctx.supabase
+    .from("projects")
+    .update(changes)
+    .eq("id", projectId)
+    .select(PROJECT_COLUMNS)
+    .single();
+  if (error) throw new Error(error.message);
+  return jsonResponse({ data });
+};
+
+const listKeywords: Handler = async (ctx, [projectId]) => {
+  if (!(await loadProject(ctx, projectId))) return notFound("Project");
+  const { data, error } = await ctx.supabase
+    .from("keywords")
+    .select(KEYWORD_COLUMNS)
+    .eq("project_id", projectId)
+    .order("created_at", { ascending: true });
+  if (error) throw new Error(error.message);
+  return jsonResponse({ data: data || [] });
+};
+
+// Adds keywords given as strings or { keyword, priority, keyword_group }; ones the project already has are skipped
+const addKeywords: Handler = async (ctx, [projectId]) => {
+  if (!(await loadProject(ctx, projectId))) return notFound("Project");
+
+  const items = ctx.body.keywords;
+  if (!Array.isArray(items) || items.length === 0) return jsonResponse({ error: "keywords must be a non-empty array" }, 400);
+  if (items.length > MAX_KEYWORDS_PER_REQUEST) {
+    return jsonResponse({ error: `At most ${MAX_KEYWORDS_PER_REQUEST} keywords per request` }, 400);
+  }
+
+  const rows: { project_id: string; keyword: string; priority: number; keyword_group: string | null }[] = [];
+  for (const item of items) {
+    const entry = typeof item === "string" ? { keyword: item } : (item ?? {}) as Record<string, unknown>;
+    const keyword = readText(entry.keyword, "keyword", MAX_NAME_LENGTH, true);
+    const group = readText(entry.keyword_group, "keyword_group", MAX_NAME_LENGTH, false);
+    if (isError(keyword)) return jsonResponse(keyword, 400);
+    if (isError(group)) return jsonResponse(group, 400);
+    const priority = entry.priority ?? 1;
+    if (typeof priority !== "number" || !Number.isInteger(priority) || priority < 1 || priority > MAX_KEYWORD_PRIORITY) {
+      return jsonResponse({ error: `priority must be a whole number from 1 to ${MAX_KEYWORD_PRIORITY}` }, 400);
+    }
+    rows.push({ project_id: projectId, keyword: keyword as string, priority, keyword_group: group });
+  }
+
+  const { data: existing, error: existingError } = await ctx.supabase
+    .from("keywords")
+    .select("keyword")
+    .eq("project_id", projectId);
+  if (existingError) throw new Error(existingError.message);
+
+  const seen = new Set((existing || []).map(k => k.keyword.toLowerCase()));
+  const skipped: string[] = [];
+  const fresh = rows.filter(row => {
+    const key = row.keyword.toLowerCase();
+    if (seen.has(key)) {
+      skipped.push(row.keyword);
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+  if (fresh.length === 0) return jsonResponse({ data: [], skipped });
+
+  const limits = await loadLimits(ctx.supabase, ctx.key.userId);
+  if (limits.keywords !== -1) {
+    const { count, error } = await ctx.supabase
+      .from("keywords")
+      .select("id, projects!inner(user_id)", { count: "exact", head: true })
+      .eq("projects.user_id", ctx.key.userId);
+    if (error) throw new Error(error.message);
+    if ((count ?? 0) + fresh.length > limits.keywords) {
+      return jsonResponse({ error: `Keyword limit of your plan reached (${limits.keywords})` }, 403);
+    }
+  }
+
+  const { data, error } = await ctx.supabase.from("keywords").insert(fresh).select(KEYWORD_COLUMNS);
+  if (error) throw new Error(error.message);
+  return jsonResponse({ data: data || [], skipped }, 201);
+};
+
+const deleteKeyword: Handler = async (ctx, [projectId, keywordId]) => {
+  if (!(await loadProject(ctx, projectId))) return notFound("Project");
+  const { data, error } = await ctx.supabase
+    .from("keywords")
+    .delete()
+    .eq("id", keywordId)
+    .eq("project_id", projectId)
+    .select("id");
+  if (error) throw new Error(error.message);
+  return data && data.length > 0 ? new Response(null, { headers: corsHeaders, status: 204 }) : notFound("Keyword");
+};
+
+const listCompetitors: Handler = async (ctx, [projectId]) => {
+  const project = await loadProject(ctx, projectId);
+  return project ? jsonResponse({ data: project.competitors || [] }) : notFound("Project");
+};
+
+const replaceCompetitors: Handler = async (ctx, [projectId]) => {
+  if (!(await loadProject(ctx, projectId))) return notFound("Project");
+  const competitors = readCompetitors(ctx.body.competitors);
+  if (isError(competitors)) return jsonResponse(competitors, 400);
+
+  const { error } = await ctx.supabase.from("projects").update({ competitors }).eq("id", projectId);
+  if (error) throw new Error(error.message);
+  return jsonResponse({ data: competitors });
+};
+
+const startRun: Handler = async (ctx, [projectId]) => {
+  if (!(await loadProject(ctx, projectId))) return notFound("Project");
+  const reportType = ctx.body.report_type ?? "keyword_tracking";
+  if (!isReportType(reportType)) return jsonResponse({ error: `Unsupported report type: ${reportType}` }, 400);
+
+  const started = await startTrackingRun(ctx.supabase, projectId, ctx.key.userId, reportType);
+  if ("error" in started) {
+    return jsonResponse({ error: started.error, ...(started.reportId ? { run_id: started.reportId } : {}) }, started.status);
+  }
+
+  logStep("Run started", { keyId: ctx.key.id, projectId, reportId: started.reportId, reportType });
+  EdgeRuntime.waitUntil(started.run);
+  return jsonResponse({ data: { id: started.reportId, project_id: projectId, report_type: reportType, status: "processing" } }, 202);
+};
+
+async function loadReport(ctx: RequestContext, reportId: string, columns: string) {
+  const { data, error } = await ctx.supabase
+    .from("reports")
+    .select(columns)
+    .eq("id", reportId)
+    .eq("user_id", ctx.key.userId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  const report = data as unknown as Record<string, unknown> | null;
+  if (!report || (ctx.key.projectId && report.project_id !== ctx.key.projectId)) return null;
+  return report;
+}
+
+// Run status for polling; a run is a report while it is processing
+const getRun: Handler = async (ctx, [runId]) => {
+  const report = await loadReport(ctx, runId, `${REPORT_COLUMNS}, metadata`);
+  if (!report) return notFound("Run");
+
+  const { metadata, ...run } = report;
+  const error = (metadata as { error?: unknown } | null)?.error;
+  return jsonResponse({
+    data: {
+      ...run,
+      progress: readRunProgress(metadata),
+      error: typeof error === "string" ? error : null,
+    },
+  });
+};
+
+const listReports: Handler = async (ctx, [projectId]) => {
+  if (!(await loadProject(ctx, projectId))) return notFound("Project");
+  const { limit, offset } = readPaging(ctx.url);
+  let query = ctx.supabase
+    .from("reports")
+    .select(REPORT_COLUMNS, { count: "exact" })
+    .eq("project_id", projectId)
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: true })
+    .range(offset, offset + limit - 1);
+  const status = ctx.url.searchParams.get("status");
+  if (status) query = query.eq("status", status);
+
+  const { data, error, count } = await query;
+  if (error) throw new Error(error.message);
+  return jsonResponse({ data: data || [], pagination: { limit, offset, total: count ?? 0 } });
+};
+
+const getReport: Handler = async (ctx, [reportId]) => {
+  const report = await loadReport(ctx, reportId, `${REPORT_COLUMNS}, results`);
+  return report ? jsonResponse({ data: report }) : notFound("Report");
+};
+
+const listSnapshots: Handler = async (ctx, [projectId]) => {
+  if (!(await loadProject(ctx, projectId))) return notFound("Project");
+  const from = readDate(ctx.url, "from");
+  const to = readDate(ctx.url, "to");
+  if (isError(from)) return jsonResponse(from, 400);
+  if (isError(to)) return jsonResponse(to, 400);
+
+  const { limit, offset } = readPaging(ctx.url);
+  let query = ctx.supabase
+    .from("historical_snapshots")
+    .select(SNAPSHOT_COLUMNS, { count: "exact" })
+    .eq("project_id", projectId)
+    .order("snapshot_date", { ascending: true })
+    .order("id", { ascending: true })
+    .range(offset, offset + limit - 1);
+  if (from) query = query.gte("snapshot_date", from);
+  if (to) query = query.lte("snapshot_date", to);
+  const keywordId = ctx.url.searchParams.get("keyword_id");
+  if (keywordId) query = query.eq("keyword_id", keywordId);
+  const provider = ctx.url.searchParams.get("provider");
+  if (provider) query = query.eq("provider", provider);
+
+  const { data, error, count } = await query;
+  if (error) throw new Error(error.message);
+  return jsonResponse({ data: data || [], pagination: { limit, offset, total: count ?? 0 } });
+};
+
+const ID = "([0-9a-fA-F-]{36})";
+
+const ROUTES: Route[] = [
+  { method: "GET", pattern: /^\/projects$/, scope: "projects:read", handler: listProjects },
+  { method: "POST", pattern: /^\/projects$/, scope: "projects:write", handler: createProject },
+  { method: "GET", pattern: new RegExp(`^/projects/${ID}$`), scope: "projects:read", handler: getProject },
+  { method: "PATCH", pattern: new RegExp(`^/projects/${ID}$`), scope: "projects:write", handler: updateProject },
+  { method: "GET", pattern: new RegExp(`^/projects/${ID}/keywords$`), scope: "projects:read", handler: listKeywords },
+  { method: "POST", pattern: new RegExp(`^/projects/${ID}/keywords$`), scope: "projects:write", handler: addKeywords },
+  { method: "DELETE", pattern: new RegExp(`^/projects/${ID}/keywords/${ID}$`), scope: "projects:write", handler: deleteKeyword },
+  { method: "GET", pattern: new RegExp(`^/projects/${ID}/competitors$`), scope: "projects:read", handler: listCompetitors },
+  { method: "PUT", pattern: new RegExp(`^/projects/${ID}/competitors$`), scope: "projects:write", handler: replaceCompetitors },
+  { method: "POST", pattern: new RegExp(`^/projects/${ID}/runs$`), scope: "runs:write", handler: startRun },
+  { method: "GET", pattern: new RegExp(`^/projects/${ID}/reports$`), scope: "reports:read", handler: listReports },
+  { method: "GET", pattern: new RegExp(`^/projects/${ID}/snapshots$`), scope: "reports:read", handler: listSnapshots },
+  { method: "GET", pattern: new RegExp(`^/runs/${ID}$`), scope: "reports:read", handler: getRun },
+  { method: "GET", pattern: new RegExp(`^/reports/${ID}$`), scope: "reports:read", handler: getReport },
+];
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const url = new URL(req.url);
+  // Requests arrive as /api-v1/<path>, or /functions/v1/api-v1/<path> when served locally
+  const path = url.pathname.replace(/^.*?\/api-v1/, "").replace(/\/+$/, "") || "/";
+
+  if (req.method === "GET" && path === "/openapi.json") {
+    return jsonResponse(openApiDocument(`${Deno.env.get("SUPABASE_URL") ?? ""}/functions/v1/api-v1`));
+  }
+
+  const matches = ROUTES.filter(route => route.pattern.test(path));
+  const route = matches.find(r => r.method === req.method);
+  if (!route) {
+    return matches.length > 0 ? jsonResponse({ error: "Method not allowed" }, 405) : jsonResponse({ error: "Not found" }, 404);
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } }
+  );
+
+  try {
+    const key = await authenticate(supabaseClient, req);
+    if (!key) return jsonResponse({ error: "A valid API key is required" }, 401);
+    if (!key.scopes.includes(route.scope)) return jsonResponse({ error: `This API key lacks the ${route.scope} scope` }, 403);
+
+    let body: Record<string, unknown> = {};
+    if (req.method === "POST" || req.method === "PUT" || req.method === "PATCH") {
+      try {
+        // An empty body is fine, e.g. for starting a run with the defaults
+        const text = await req.text();
+        const parsed = text.trim() ? JSON.parse(text) : {};
+        if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) throw new Error("Not an object");
+        body = parsed;
+      } catch {
+        return jsonResponse({ error: "Request body must be a JSON object" }, 400);
+      }
+    }
+
+    const params = path.match(route.pattern)!.slice(1);
+    return await route.handler({ supabase: supabaseClient, key, url, body }, params);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR", { method: req.method, path, message: errorMessage });
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,336 @@
+import { API_KEY_HEADER, API_SCOPES, ApiScope } from "../../../src/lib/apiKeys.ts";
+import { REPORT_TYPES } from "../../../src/lib/reportResults.ts";
+
+// OpenAPI 3.0 description of the api-v1 function, served at GET /openapi.json.
+// Keep it in step with the routes in index.ts.
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const json = (schema: unknown) => ({ "application/json": { schema } });
+const dataOf = (schema: unknown) => ({ type: "object", properties: { data: schema }, required: ["data"] });
+const pageOf = (item: string) => ({
+  type: "object",
+  properties: { data: { type: "array", items: ref(item) }, pagination: ref("Pagination") },
+  required: ["data", "pagination"],
+});
+
+const ok = (description: string, schema: unknown) => ({ description, content: json(schema) });
+const errors = (...codes: number[]) => Object.fromEntries(codes.map(code => [String(code), { $ref: `#/components/responses/${code}` }]));
+
+const projectId = { name: "projectId", in: "path", required: true, schema: { type: "string", format: "uuid" } };
+const paging = [
+  { name: "limit", in: "query", schema: { type: "integer", minimum: 1, maximum: 1000, default: 100 } },
+  { name: "offset", in: "query", schema: { type: "integer", minimum: 0, default: 0 } },
+];
+
+const scoped = (scope: ApiScope) => ({ security: [{ bearerKey: [] }, { headerKey: [] }], "x-required-scope": scope });
+
+const nullable = (type: string, extra: Record<string, unknown> = {}) => ({ type, nullable: true, ...extra });
+
+export const openApiDocument = (serverUrl: string) => ({
+  openapi: "3.0.3",
+  info: {
+    title: "LLM Tracker API",
+    version: "1.0.0",
+    description: [
+      "Manage projects, keywords and competitors, start tracking runs and fetch results.",
+      `Authenticate with an API key created in Settings, sent as \`Authorization: Bearer <key>\` or \`${API_KEY_HEADER}: <key>\`.`,
+      "Each operation requires one scope (x-required-scope). Project keys only reach their own project.",
+      "",
+      "Scopes:",
+      ...(Object.keys(API_SCOPES) as ApiScope[]).map(scope => `- \`${scope}\`: ${API_SCOPES[scope].description}`),
+    ].join("\n"),
+  },
+  servers: [{ url: serverUrl }],
+  paths: {
+    "/projects": {
+      get: {
+        summary: "List projects",
+        ...scoped("projects:read"),
+        parameters: paging,
+        responses: { "200": ok("Projects, oldest first", pageOf("Project")), ...errors(401, 403) },
+      },
+      post: {
+        summary: "Create a project",
+        description: "Only personal keys can create projects. Counts against the plan's project limit.",
+        ...scoped("projects:write"),
+        requestBody: { required: true, content: json(ref("ProjectInput")) },
+        responses: { "201": ok("Created project", dataOf(ref("Project"))), ...errors(400, 401, 403) },
+      },
+    },
+    "/projects/{projectId}": {
+      parameters: [projectId],
+      get: {
+        summary: "Get a project",
+        ...scoped("projects:read"),
+        responses: { "200": ok("Project", dataOf(ref("Project"))), ...errors(401, 403, 404) },
+      },
+      patch: {
+        summary: "Update a project",
+        description: "Only the fields present in the body change.",
+        ...scoped("projects:write"),
+        requestBody: { required: true, content: json(ref("ProjectUpdate")) },
+        responses: { "200": ok("Updated project", dataOf(ref("Project"))), ...errors(400, 401, 403, 404) },
+      },
+    },
+    "/projects/{projectId}/keywords": {
+      parameters: [projectId],
+      get: {
+        summary: "List keywords",
+        ...scoped("projects:read"),
+        responses: { "200": ok("Keywords, oldest first", dataOf({ type: "array", items: ref("Keyword") })), ...errors(401, 403, 404) },
+      },
+      post: {
+        summary: "Add keywords",
+        description: "Up to 100 per request. Keywords the project already has (ignoring case) are skipped. Counts against the plan's keyword limit.",
+        ...scoped("projects:write"),
+        requestBody: {
+          required: true,
+          content: json({
+            type: "object",
+            required: ["keywords"],
+            properties: {
+              keywords: { type: "array", maxItems: 100, items: { oneOf: [{ type: "string" }, ref("KeywordInput")] } },
+            },
+          }),
+        },
+        responses: {
+          "201": ok("Added keywords", {
+            type: "object",
+            properties: { data: { type: "array", items: ref("Keyword") }, skipped: { type: "array", items: { type: "string" } } },
+          }),
+          ...errors(400, 401, 403, 404),
+        },
+      },
+    },
+    "/projects/{projectId}/keywords/{keywordId}": {
+      parameters: [projectId, { name: "keywordId", in: "path", required: true, schema: { type: "string", format: "uuid" } }],
+      delete: {
+        summary: "Remove a keyword",
+        ...scoped("projects:write"),
+        responses: { "204": { description: "Removed" }, ...errors(401, 403, 404) },
+      },
+    },
+    "/projects/{projectId}/competitors": {
+      parameters: [projectId],
+      get: {
+        summary: "List competitors",
+        ...scoped("projects:read"),
+        responses: { "200": ok("Competitor names", dataOf({ type: "array", items: { type: "string" } })), ...errors(401, 403, 404) },
+      },
+      put: {
+        summary: "Replace competitors",
+        ...scoped("projects:write"),
+        requestBody: {
+          required: true,
+          content: json({
+            type: "object",
+            required: ["competitors"],
+            properties: { competitors: { type: "array", maxItems: 20, items: { type: "string", maxLength: 100 } } },
+          }),
+        },
+        responses: { "200": ok("Competitor names", dataOf({ type: "array", items: { type: "string" } })), ...errors(400, 401, 403, 404) },
+      },
+    },
+    "/projects/{projectId}/runs": {
+      parameters: [projectId],
+      post: {
+        summary: "Start a tracking run",
+        description: "Runs every keyword against every engine of the project in the background. Poll GET /runs/{runId} until it is completed or failed. Each run counts towards the plan's monthly report quota; once it is used up the answer is 403.",
+        ...scoped("runs:write"),
+        requestBody: {
+          required: false,
+          content: json({
+            type: "object",
+            properties: { report_type: { type: "string", enum: Object.keys(REPORT_TYPES), default: "keyword_tracking" } },
+          }),
+        },
+        responses: {
+          "202": ok("Run started", dataOf(ref("Run"))),
+          "409": {
+            description: "A run is already in progress for this project",
+            content: json({ type: "object", properties: { error: { type: "string" }, run_id: { type: "string", format: "uuid" } } }),
+          },
+          ...errors(400, 401, 403, 404),
+        },
+      },
+    },
+    "/projects/{projectId}/reports": {
+      parameters: [projectId],
+      get: {
+        summary: "List reports",
+        ...scoped("reports:read"),
+        parameters: [
+          ...paging,
+          { name: "status", in: "query", schema: { type: "string", enum: ["pending", "processing", "completed", "failed"] } },
+        ],
+        responses: { "200": ok("Reports, newest first, without results", pageOf("ReportSummary")), ...errors(401, 403, 404) },
+      },
+    },
+    "/projects/{projectId}/snapshots": {
+      parameters: [projectId],
+      get: {
+        summary: "List historical snapshots",
+        description: "One row per answer and entity (the brand or a competitor), oldest first.",
+        ...scoped("reports:read"),
+        parameters: [
+          ...paging,
+          { name: "from", in: "query", schema: { type: "string", format: "date-time" } },
+          { name: "to", in: "query", schema: { type: "string", format: "date-time" } },
+          { name: "keyword_id", in: "query", schema: { type: "string", format: "uuid" } },
+          { name: "provider", in: "query", schema: { type: "string" } },
+        ],
+        responses: { "200": ok("Snapshots", pageOf("Snapshot")), ...errors(400, 401, 403, 404) },
+      },
+    },
+    "/runs/{runId}": {
+      parameters: [{ name: "runId", in: "path", required: true, schema: { type: "string", format: "uuid" } }],
+      get: {
+        summary: "Get run status",
+        description: "A run is the report it produces; once completed, fetch it with GET /reports/{runId}.",
+        ...scoped("reports:read"),
+        responses: { "200": ok("Run", dataOf(ref("Run"))), ...errors(401, 403, 404) },
+      },
+    },
+    "/reports/{reportId}": {
+      parameters: [{ name: "reportId", in: "path", required: true, schema: { type: "string", format: "uuid" } }],
+      get: {
+        summary: "Get a report with its results",
+        ...scoped("reports:read"),
+        responses: { "200": ok("Report", dataOf(ref("Report"))), ...errors(401, 403, 404) },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      bearerKey: { type: "http", scheme: "bearer", description: "API key" },
+      headerKey: { type: "apiKey", in: "header", name: API_KEY_HEADER },
+    },
+    responses: {
+      "400": { description: "Invalid request", content: json(ref("Error")) },
+      "401": { description: "Missing, revoked or expired API key", content: json(ref("Error")) },
+      "403": { description: "The key lacks the scope, or a plan limit was reached", content: json(ref("Error")) },
+      "404": { description: "Not found, or outside the key's project", content: json(ref("Error")) },
+    },
+    schemas: {
+      Error: { type: "object", properties: { error: { type: "string" } }, required: ["error"] },
+      Pagination: {
+        type: "object",
+        properties: { limit: { type: "integer" }, offset: { type: "integer" }, total: { type: "integer" } },
+      },
+      Project: {
+        type: "object",
+        properties: {
+          id: { type: "string", format: "uuid" },
+          name: { type: "string" },
+          brand_name: { type: "string" },
+          description: nullable("string"),
+          competitors: { type: "array", items: { type: "string" } },
+          engines: { type: "array", items: { type: "object" }, description: "Engines each keyword runs against" },
+          sample_count: nullable("integer"),
+          created_at: { type: "string", format: "date-time" },
+          updated_at: { type: "string", format: "date-time" },
+        },
+      },
+      ProjectInput: {
+        type: "object",
+        required: ["name", "brand_name"],
+        properties: {
+          name: { type: "string", maxLength: 100 },
+          brand_name: { type: "string", maxLength: 100 },
+          description: { type: "string", maxLength: 500 },
+          competitors: { type: "array", maxItems: 20, items: { type: "string", maxLength: 100 } },
+        },
+      },
+      ProjectUpdate: {
+        type: "object",
+        properties: {
+          name: { type: "string", maxLength: 100 },
+          brand_name: { type: "string", maxLength: 100 },
+          description: nullable("string", { maxLength: 500 }),
+          competitors: { type: "array", maxItems: 20, items: { type: "string", maxLength: 100 } },
+        },
+      },
+      Keyword: {
+        type: "object",
+        properties: {
+          id: { type: "string", format: "uuid" },
+          keyword: { type: "string" },
+          priority: { type: "integer", minimum: 1, maximum: 5 },
+          keyword_group: nullable("string"),
+          created_at: { type: "string", format: "date-time" },
+        },
+      },
+      KeywordInput: {
+        type: "object",
+        required: ["keyword"],
+        properties: {
+          keyword: { type: "string", maxLength: 100 },
+          priority: { type: "integer", minimum: 1, maximum: 5, default: 1 },
+          keyword_group: { type: "string", maxLength: 100 },
+        },
+      },
+      Run: {
+        type: "object",
+        properties: {
+          id: { type: "string", format: "uuid" },
+          project_id: { type: "string", format: "uuid" },
+          report_type: { type: "string", enum: Object.keys(REPORT_TYPES) },
+          status: { type: "string", enum: ["pending", "processing", "completed", "failed"] },
+          created_at: { type: "string", format: "date-time" },
+          completed_at: nullable("string", { format: "date-time" }),
+          progress: {
+            type: "object",
+            nullable: true,
+            properties: {
+              completed: { type: "integer" },
+              total: { type: "integer" },
+              errors: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: { keyword: { type: "string" }, provider: { type: "string" }, message: { type: "string" } },
+                },
+              },
+            },
+          },
+          error: nullable("string"),
+        },
+      },
+      ReportSummary: {
+        type: "object",
+        properties: {
+          id: { type: "string", format: "uuid" },
+          project_id: { type: "string", format: "uuid" },
+          report_type: { type: "string", enum: Object.keys(REPORT_TYPES) },
+          status: { type: "string" },
+          created_at: { type: "string", format: "date-time" },
+          completed_at: nullable("string", { format: "date-time" }),
+        },
+      },
+      Report: {
+        allOf: [
+          ref("ReportSummary"),
+          { type: "object", properties: { results: { type: "object", description: "Report results; the shape depends on report_type" } } },
+        ],
+      },
+      Snapshot: {
+        type: "object",
+        properties: {
+          snapshot_date: { type: "string", format: "date-time" },
+          keyword: { type: "string" },
+          keyword_id: nullable("string", { format: "uuid" }),
+          provider: nullable("string"),
+          competitor_name: { type: "string", description: "The brand or competitor this row describes" },
+          is_brand: { type: "boolean" },
+          position: nullable("integer"),
+          mention_count: { type: "integer" },
+          sample_count: { type: "integer" },
+          market_share: { type: "number" },
+          sentiment_score: nullable("number"),
+          report_id: nullable("string", { format: "uuid" }),
+          data_source: { type: "string" },
+        },
+      },
+    },
+  },
+});
@@ -0,0 +1,137 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { attemptDelivery, DELIVERY_COLUMNS, lockUntil, WebhookDelivery, WebhookEndpoint } from "../_shared/webhooks.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[DELIVER-WEBHOOKS] ${step}${detailsStr}`);
+};
+
+// Retries attempted per tick; anything left over stays due for the next tick
+const MAX_DELIVERIES_PER_TICK = 50;
+
+const ENDPOINT_COLUMNS = "id, url, secret, is_active";
+
+async function loadEndpoints(supabase: SupabaseClient, endpointIds: string[]) {
+  const { data, error } = await supabase
+    .from("webhook_endpoints")
+    .select(ENDPOINT_COLUMNS)
+    .in("id", endpointIds);
+  if (error) throw new Error(error.message);
+  return new Map(((data || []) as WebhookEndpoint[]).map(endpoint => [endpoint.id, endpoint]));
+}
+
+// Sends a copy of an earlier delivery as a new delivery, keeping its event id
+async function replayDelivery(supabase: SupabaseClient, userId: string, deliveryId: string) {
+  const { data: original, error } = await supabase
+    .from("webhook_deliveries")
+    .select(`${DELIVERY_COLUMNS}, projects!inner(user_id)`)
+    .eq("id", deliveryId)
+    .eq("projects.user_id", userId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!original) return null;
+
+  const { data: replay, error: insertError } = await supabase
+    .from("webhook_deliveries")
+    .insert({
+      endpoint_id: original.endpoint_id,
+      project_id: original.project_id,
+      event_type: original.event_type,
+      event_id: original.event_id,
+      payload: original.payload,
+      replay_of: original.id,
+      locked_until: lockUntil(),
+    })
+    .select(DELIVERY_COLUMNS)
+    .single();
+  if (insertError) throw new Error(insertError.message);
+
+  const endpoints = await loadEndpoints(supabase, [original.endpoint_id]);
+  const succeeded = await attemptDelivery(supabase, replay as WebhookDelivery, endpoints.get(original.endpoint_id) ?? null);
+  logStep("Delivery replayed", { deliveryId, replayId: replay.id, succeeded });
+  return { deliveryId: replay.id, succeeded };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+  const supabaseClient = createClient(Deno.env.get("SUPABASE_URL") ?? "", serviceRoleKey, {
+    auth: { persistSession: false },
+  });
+
+  try {
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+    if (!token) return jsonResponse({ error: "Authentication required" }, 401);
+
+    // A signed-in user replaying one of their deliveries from Settings
+    if (token !== serviceRoleKey) {
+      const { data: userData, error: userError } = await supabaseClient.auth.getUser(token);
+      if (userError || !userData.user) return jsonResponse({ error: "Invalid authentication" }, 401);
+
+      const { deliveryId } = await req.json();
+      if (!deliveryId) return jsonResponse({ error: "deliveryId is required" }, 400);
+
+      const replay = await replayDelivery(supabaseClient, userData.user.id, deliveryId);
+      if (!replay) return jsonResponse({ error: "Delivery not found" }, 404);
+      return jsonResponse(replay);
+    }
+
+    const now = new Date();
+    const { data: due, error: dueError } = await supabaseClient
+      .from("webhook_deliveries")
+      .select(DELIVERY_COLUMNS)
+      .eq("status", "pending")
+      .lte("next_attempt_at", now.toISOString())
+      .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+      .order("next_attempt_at", { ascending: true })
+      .limit(MAX_DELIVERIES_PER_TICK);
+    if (dueError) throw new Error(dueError.message);
+
+    const deliveries = (due || []) as WebhookDelivery[];
+    const endpoints = deliveries.length > 0
+      ? await loadEndpoints(supabaseClient, Array.from(new Set(deliveries.map(d => d.endpoint_id))))
+      : new Map<string, WebhookEndpoint>();
+    const outcomes = { delivered: 0, failed: 0, skipped: 0 };
+
+    for (const delivery of deliveries) {
+      // Takes the delivery for this tick unless another worker already holds it
+      const { data: claimed, error: claimError } = await supabaseClient
+        .from("webhook_deliveries")
+        .update({ locked_until: lockUntil(now) })
+        .eq("id", delivery.id)
+        .eq("status", "pending")
+        .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+        .select("id");
+      if (claimError) throw new Error(claimError.message);
+      if (!claimed || claimed.length === 0) {
+        outcomes.skipped++;
+        continue;
+      }
+
+      const succeeded = await attemptDelivery(supabaseClient, delivery, endpoints.get(delivery.endpoint_id) ?? null);
+      outcomes[succeeded ? "delivered" : "failed"]++;
+    }
+
+    logStep("Tick finished", { due: deliveries.length, ...outcomes });
+    return jsonResponse({ due: deliveries.length, ...outcomes });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("[DELIVER-WEBHOOKS] ERROR", errorMessage);
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,61 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { generateReportPdf, signReportPdf } from "../_shared/reportPdf.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+// Renders a completed report to PDF, or only re-signs the stored file when its link has expired
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Storage writes and signing need the service role; ownership is checked below
+  const supabaseClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } }
+  );
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) return jsonResponse({ error: "Authentication required" }, 401);
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: userData, error: userError } = await supabaseClient.auth.getUser(token);
+    if (userError || !userData.user) return jsonResponse({ error: "Invalid authentication" }, 401);
+
+    const { reportId, regenerate = false } = await req.json();
+    if (!reportId) return jsonResponse({ error: "reportId is required" }, 400);
+
+    const { data: report, error: reportError } = await supabaseClient
+      .from("reports")
+      .select("id, status, pdf_path")
+      .eq("id", reportId)
+      .eq("user_id", userData.user.id)
+      .maybeSingle();
+    if (reportError) throw new Error(reportError.message);
+    if (!report) return jsonResponse({ error: "Report not found" }, 404);
+    if (report.status !== "completed") return jsonResponse({ error: "Report is not completed yet" }, 409);
+
+    const pdf = report.pdf_path && !regenerate
+      ? await signReportPdf(supabaseClient, report.id, report.pdf_path)
+      : await generateReportPdf(supabaseClient, report.id);
+
+    console.log(`[GENERATE-REPORT-PDF] ${regenerate || !report.pdf_path ? "Rendered" : "Re-signed"} report ${report.id}`);
+    return jsonResponse({ url: pdf.url, expiresAt: pdf.expiresAt });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("[GENERATE-REPORT-PDF] ERROR", errorMessage);
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
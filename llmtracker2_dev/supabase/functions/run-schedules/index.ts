@@ -0,0 +1,257 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { parseEngines, getEngineLabel } from "../../../src/lib/providers.ts";
+import {
+  compareSchedules,
+  computeNextRun,
+  computeRetryAt,
+  MAX_SCHEDULE_RETRIES,
+  ScheduleFrequency,
+} from "../../../src/lib/schedules.ts";
+import {
+  claimRunReport,
+  executeTrackingRun,
+  expireStaleRuns,
+  findUnconfiguredEngine,
+  loadQuota,
+  Quota,
+  quotaError,
+  TrackingProject,
+} from "../_shared/trackingRun.ts";
+
+// Lets the runs outlive the tick that started them
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[RUN-SCHEDULES] ${step}${detailsStr}`);
+};
+
+// Runs started per tick; anything left over stays due for the next tick
+const MAX_RUNS_PER_TICK = 5;
+const DUE_BATCH_SIZE = 100;
+// A claimed schedule is released when its run finishes, or after this long if the worker dies
+const LOCK_MINUTES = 60;
+
+interface DueSchedule {
+  id: string;
+  project_id: string;
+  keyword_id: string | null;
+  frequency: ScheduleFrequency;
+  priority: string;
+  next_run: string;
+  failure_count: number;
+}
+
+type TickOutcome = "started" | "deferred" | "busy" | "skipped";
+
+// Takes the schedule for this tick unless another tick already holds it
+async function claimSchedule(supabase: SupabaseClient, schedule: DueSchedule, now: Date): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("tracking_schedules")
+    .update({ locked_until: new Date(now.getTime() + LOCK_MINUTES * 60 * 1000).toISOString() })
+    .eq("id", schedule.id)
+    .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+    .select("id");
+  if (error) throw new Error(error.message);
+  return (data || []).length > 0;
+}
+
+const releaseSchedule = (supabase: SupabaseClient, scheduleId: string) =>
+  supabase.from("tracking_schedules").update({ locked_until: null }).eq("id", scheduleId);
+
+// Skips this slot without counting it as a failure
+const deferSchedule = (supabase: SupabaseClient, schedule: DueSchedule, reason: string) =>
+  supabase
+    .from("tracking_schedules")
+    .update({
+      next_run: computeNextRun(schedule.frequency).toISOString(),
+      last_error: reason,
+      locked_until: null,
+    })
+    .eq("id", schedule.id);
+
+// Failed runs retry with backoff; once retries are exhausted the schedule waits for its next regular slot
+async function recordFailure(supabase: SupabaseClient, schedule: DueSchedule, message: string, startedAt?: Date) {
+  const failureCount = schedule.failure_count + 1;
+  const exhausted = failureCount > MAX_SCHEDULE_RETRIES;
+  logStep("Schedule run failed", { scheduleId: schedule.id, failureCount, exhausted, message });
+
+  await supabase
+    .from("tracking_schedules")
+    .update({
+      ...(startedAt ? { last_run: startedAt.toISOString() } : {}),
+      failure_count: exhausted ? 0 : failureCount,
+      next_run: (exhausted ? computeNextRun(schedule.frequency) : computeRetryAt(failureCount)).toISOString(),
+      last_error: message,
+      locked_until: null,
+    })
+    .eq("id", schedule.id);
+}
+
+// Runs the analyses for one schedule and records the outcome on it
+async function runSchedule(
+  supabase: SupabaseClient,
+  schedule: DueSchedule,
+  reportId: string,
+  project: TrackingProject,
+  keywords: { id: string; keyword: string }[],
+  startedAt: Date
+) {
+  try {
+    await executeTrackingRun(supabase, reportId, project, keywords, { dataSource: "scheduled" });
+
+    const { data: report, error } = await supabase
+      .from("reports")
+      .select("status, metadata")
+      .eq("id", reportId)
+      .single();
+    if (error) throw new Error(error.message);
+
+    if (report.status !== "completed") {
+      const metadata = (report.metadata || {}) as { error?: string };
+      await recordFailure(supabase, schedule, metadata.error || "Every analysis in the run failed", startedAt);
+      return;
+    }
+
+    await supabase
+      .from("tracking_schedules")
+      .update({
+        last_run: startedAt.toISOString(),
+        next_run: computeNextRun(schedule.frequency).toISOString(),
+        failure_count: 0,
+        last_error: null,
+        locked_until: null,
+      })
+      .eq("id", schedule.id);
+    logStep("Schedule run completed", { scheduleId: schedule.id, reportId });
+  } catch (error) {
+    await recordFailure(supabase, schedule, error instanceof Error ? error.message : String(error), startedAt);
+  }
+}
+
+async function startSchedule(
+  supabase: SupabaseClient,
+  schedule: DueSchedule,
+  quotas: Map<string, Quota>,
+  now: Date
+): Promise<TickOutcome> {
+  if (!(await claimSchedule(supabase, schedule, now))) return "skipped";
+
+  try {
+    const { data: project, error: projectError } = await supabase
+      .from("projects")
+      .select("id, user_id, brand_name, competitors, engines, entity_aliases, sample_count")
+      .eq("id", schedule.project_id)
+      .single();
+    if (projectError) throw new Error(projectError.message);
+
+    if (!quotas.has(project.user_id)) quotas.set(project.user_id, await loadQuota(supabase, project.user_id, now));
+    const quota = quotas.get(project.user_id)!;
+    const overQuota = quotaError(quota);
+    if (overQuota) {
+      await deferSchedule(supabase, schedule, overQuota);
+      return "deferred";
+    }
+
+    let keywordsQuery = supabase
+      .from("keywords")
+      .select("id, keyword")
+      .eq("project_id", project.id)
+      .order("created_at", { ascending: true });
+    if (schedule.keyword_id) keywordsQuery = keywordsQuery.eq("id", schedule.keyword_id);
+    const { data: keywords, error: keywordsError } = await keywordsQuery;
+    if (keywordsError) throw new Error(keywordsError.message);
+    if (!keywords || keywords.length === 0) {
+      await deferSchedule(supabase, schedule, "Project has no keywords");
+      return "deferred";
+    }
+
+    const unconfigured = findUnconfiguredEngine(parseEngines(project.engines));
+    if (unconfigured) {
+      await recordFailure(supabase, schedule, `${getEngineLabel(unconfigured)} is not configured on the server`);
+      return "deferred";
+    }
+
+    // Wait for a manual run on the same project to finish; the schedule stays due
+    const claim = await claimRunReport(supabase, project.id, project.user_id, "keyword_tracking");
+    if ("activeReportId" in claim) {
+      await releaseSchedule(supabase, schedule.id);
+      return "busy";
+    }
+
+    quota.used++;
+    await supabase.from("tracking_schedules").update({ last_report_id: claim.reportId }).eq("id", schedule.id);
+
+    logStep("Schedule run started", { scheduleId: schedule.id, reportId: claim.reportId, keywords: keywords.length });
+    EdgeRuntime.waitUntil(runSchedule(supabase, schedule, claim.reportId, project, keywords, now));
+    return "started";
+  } catch (error) {
+    await recordFailure(supabase, schedule, error instanceof Error ? error.message : String(error));
+    return "deferred";
+  }
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+  const supabaseClient = createClient(Deno.env.get("SUPABASE_URL") ?? "", serviceRoleKey, {
+    auth: { persistSession: false },
+  });
+
+  try {
+    // Only the cron tick (or another trusted caller holding the service role key) may run schedules
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+    if (!token || token !== serviceRoleKey) return jsonResponse({ error: "Not authorized" }, 401);
+
+    // Frees projects whose runs died since the last tick
+    await expireStaleRuns(supabaseClient);
+
+    const now = new Date();
+    const { data: due, error: dueError } = await supabaseClient
+      .from("tracking_schedules")
+      .select("id, project_id, keyword_id, frequency, priority, next_run, failure_count")
+      .eq("is_active", true)
+      .lte("next_run", now.toISOString())
+      .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+      .order("next_run", { ascending: true })
+      .limit(DUE_BATCH_SIZE);
+    if (dueError) throw new Error(dueError.message);
+
+    const schedules = ((due || []) as DueSchedule[]).sort(compareSchedules);
+    const quotas = new Map<string, Quota>();
+    const outcomes: Record<TickOutcome, number> = { started: 0, deferred: 0, busy: 0, skipped: 0 };
+    const startedProjects = new Set<string>();
+
+    for (const schedule of schedules) {
+      if (outcomes.started >= MAX_RUNS_PER_TICK) break;
+      // One run per project at a time; the rest stay due
+      if (startedProjects.has(schedule.project_id)) continue;
+
+      const outcome = await startSchedule(supabaseClient, schedule, quotas, now);
+      outcomes[outcome]++;
+      if (outcome === "started") startedProjects.add(schedule.project_id);
+    }
+
+    logStep("Tick finished", { due: schedules.length, ...outcomes });
+    return jsonResponse({ due: schedules.length, ...outcomes });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("[RUN-SCHEDULES] ERROR", errorMessage);
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
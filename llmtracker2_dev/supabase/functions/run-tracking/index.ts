@@ -0,0 +1,59 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { isReportType } from "../../../src/lib/reportResults.ts";
+import { startTrackingRun } from "../_shared/trackingRun.ts";
+
+// Lets the run outlive the request that started it
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Use the service role key so the run can keep writing after the user's session ends
+  const supabaseClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } }
+  );
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) return jsonResponse({ error: "Authentication required" }, 401);
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: userData, error: userError } = await supabaseClient.auth.getUser(token);
+    if (userError || !userData.user) return jsonResponse({ error: "Invalid authentication" }, 401);
+    const user = userData.user;
+
+    const { projectId, reportType = "keyword_tracking" } = await req.json();
+    if (!projectId) return jsonResponse({ error: "projectId is required" }, 400);
+    if (!isReportType(reportType)) return jsonResponse({ error: `Unsupported report type: ${reportType}` }, 400);
+
+    const started = await startTrackingRun(supabaseClient, projectId, user.id, reportType);
+    if ("error" in started) {
+      return jsonResponse({ error: started.error, ...(started.reportId ? { reportId: started.reportId } : {}) }, started.status);
+    }
+
+    console.log(`[RUN-TRACKING] Started ${reportType} report ${started.reportId} for project ${projectId}`);
+    EdgeRuntime.waitUntil(started.run);
+
+    return jsonResponse({ reportId: started.reportId }, 202);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("[RUN-TRACKING] ERROR", errorMessage);
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
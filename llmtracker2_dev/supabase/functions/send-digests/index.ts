@@ -0,0 +1,331 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import {
+  buildProjectDigest,
+  Digest,
+  DigestFrequency,
+  DigestSnapshot,
+  digestHasActivity,
+  digestPeriodStart,
+  digestUnsubscribeUrl,
+  MANUAL_SEND_INTERVAL_MINUTES,
+  renderDigestEmail,
+} from "../../../src/lib/digest.ts";
+import { computeNextRun, computeRetryAt, MAX_SCHEDULE_RETRIES } from "../../../src/lib/schedules.ts";
+import { appUrl } from "../_shared/appUrl.ts";
+import { createMailTransport, MailTransport } from "../_shared/mail.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[SEND-DIGESTS] ${step}${detailsStr}`);
+};
+
+// Digests sent per tick; anything left over stays due for the next tick
+const MAX_DIGESTS_PER_TICK = 25;
+const LOCK_MINUTES = 15;
+const PAGE_SIZE = 1000;
+
+interface DigestSubscription {
+  id: string;
+  user_id: string;
+  project_id: string | null;
+  frequency: DigestFrequency;
+  recipients: string[];
+  failure_count: number;
+  last_sent_at: string | null;
+}
+
+type SendOutcome = "sent" | "empty" | "skipped" | "failed";
+
+const SUBSCRIPTION_COLUMNS = "id, user_id, project_id, frequency, recipients, failure_count, last_sent_at";
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, "0")).join("");
+
+// Signs an extra recipient's unsubscribe link, so only the mailed address can remove itself
+async function unsubscribeSignature(digestId: string, email: string) {
+  const secret = Deno.env.get("DIGEST_UNSUBSCRIBE_SECRET") || Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  return toHex(await crypto.subtle.sign("HMAC", key, encoder.encode(`${digestId}:${email.toLowerCase()}`)));
+}
+
+async function unsubscribe(supabase: SupabaseClient, request: { digestId?: string; email?: string; signature?: string }) {
+  const { digestId, email, signature } = request;
+  if (!digestId || !email || !signature) return jsonResponse({ error: "Invalid unsubscribe link" }, 400);
+
+  const expected = await unsubscribeSignature(digestId, email);
+  // Constant time so the comparison does not leak how much of the signature matched
+  let diff = expected.length ^ signature.length;
+  for (let i = 0; i < expected.length; i++) diff |= expected.charCodeAt(i) ^ (signature.charCodeAt(i) || 0);
+  if (diff !== 0) return jsonResponse({ error: "Invalid unsubscribe link" }, 400);
+
+  const { data: subscription, error } = await supabase
+    .from("digest_subscriptions")
+    .select("id, recipients")
+    .eq("id", digestId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+
+  // Already removed, or the digest was deleted: either way the address gets no more mail
+  if (subscription) {
+    const { error: updateError } = await supabase
+      .from("digest_subscriptions")
+      .update({ recipients: (subscription.recipients as string[]).filter(r => r.toLowerCase() !== email.toLowerCase()) })
+      .eq("id", digestId);
+    if (updateError) throw new Error(updateError.message);
+  }
+  logStep("Recipient unsubscribed", { subscriptionId: digestId });
+  return jsonResponse({ unsubscribed: true });
+}
+
+async function loadSnapshots(supabase: SupabaseClient, projectId: string, since: Date, until: Date) {
+  const snapshots: (DigestSnapshot & { snapshot_date: string })[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("historical_snapshots")
+      .select("keyword, competitor_name, is_brand, position, mention_count, sample_count, snapshot_date")
+      .eq("project_id", projectId)
+      .gte("snapshot_date", since.toISOString())
+      .lt("snapshot_date", until.toISOString())
+      .order("snapshot_date", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    snapshots.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return snapshots;
+}
+
+async function buildDigest(supabase: SupabaseClient, subscription: DigestSubscription, now: Date): Promise<Digest> {
+  const periodStart = digestPeriodStart(subscription.frequency, now);
+  const previousStart = digestPeriodStart(subscription.frequency, periodStart);
+
+  let projectsQuery = supabase
+    .from("projects")
+    .select("id, name, brand_name")
+    .eq("user_id", subscription.user_id)
+    .order("name", { ascending: true });
+  if (subscription.project_id) projectsQuery = projectsQuery.eq("id", subscription.project_id);
+  const { data: projects, error: projectsError } = await projectsQuery;
+  if (projectsError) throw new Error(projectsError.message);
+
+  const digests = [];
+  for (const project of projects || []) {
+    const snapshots = await loadSnapshots(supabase, project.id, previousStart, now);
+
+    const { data: anomalies, error: anomaliesError } = await supabase
+      .from("visibility_anomalies")
+      .select("competitor_name")
+      .eq("project_id", project.id)
+      .eq("anomaly_type", "new_competitor")
+      .neq("severity", "low")
+      .gte("detected_at", periodStart.toISOString());
+    if (anomaliesError) throw new Error(anomaliesError.message);
+
+    const { data: reports, error: reportsError } = await supabase
+      .from("reports")
+      .select("id, report_type, completed_at, created_at")
+      .eq("project_id", project.id)
+      .eq("status", "completed")
+      .gte("completed_at", periodStart.toISOString())
+      .lte("completed_at", now.toISOString());
+    if (reportsError) throw new Error(reportsError.message);
+
+    digests.push(buildProjectDigest({
+      projectId: project.id,
+      projectName: project.name,
+      brandName: project.brand_name,
+      current: snapshots.filter(s => new Date(s.snapshot_date) >= periodStart),
+      previous: snapshots.filter(s => new Date(s.snapshot_date) < periodStart),
+      anomalyCompetitors: (anomalies || []).map(a => a.competitor_name).filter((name): name is string => !!name),
+      reports: reports || [],
+    }));
+  }
+
+  return {
+    frequency: subscription.frequency,
+    periodStart: periodStart.toISOString(),
+    periodEnd: now.toISOString(),
+    projects: digests,
+  };
+}
+
+// The account email always receives the digest; extra recipients are added on top
+async function resolveRecipients(supabase: SupabaseClient, subscription: DigestSubscription) {
+  const { data, error } = await supabase.auth.admin.getUserById(subscription.user_id);
+  if (error) throw new Error(error.message);
+  const owner = data.user?.email?.toLowerCase() || null;
+  const extra = Array.from(new Set((subscription.recipients || []).map(address => address.toLowerCase())))
+    .filter(address => address !== owner);
+  return { owner, extra };
+}
+
+// Builds and sends one digest; a digest without any tracking activity is only sent when forced.
+// Every extra recipient gets a separate copy carrying their own unsubscribe link.
+async function sendDigest(
+  supabase: SupabaseClient,
+  transport: MailTransport,
+  subscription: DigestSubscription,
+  now: Date,
+  force = false
+): Promise<"sent" | "empty"> {
+  const digest = await buildDigest(supabase, subscription, now);
+  if (digest.projects.length === 0) throw new Error("No projects to include in the digest");
+  if (!force && !digestHasActivity(digest)) return "empty";
+
+  const { owner, extra } = await resolveRecipients(supabase, subscription);
+  if (!owner && extra.length === 0) throw new Error("Digest has no recipients");
+
+  if (owner) await transport.send({ to: [owner], ...renderDigestEmail(digest, appUrl()) });
+  for (const address of extra) {
+    const unsubscribeUrl = digestUnsubscribeUrl(appUrl(), subscription.id, address, await unsubscribeSignature(subscription.id, address));
+    await transport.send({ to: [address], ...renderDigestEmail(digest, appUrl(), unsubscribeUrl) });
+  }
+  logStep("Digest sent", { subscriptionId: subscription.id, transport: transport.name, recipients: (owner ? 1 : 0) + extra.length });
+  return "sent";
+}
+
+// Failed sends retry with backoff; once retries are exhausted the digest waits for its next regular slot
+async function recordFailure(supabase: SupabaseClient, subscription: DigestSubscription, message: string) {
+  const failureCount = subscription.failure_count + 1;
+  const exhausted = failureCount > MAX_SCHEDULE_RETRIES;
+  logStep("Digest failed", { subscriptionId: subscription.id, failureCount, exhausted, message });
+
+  await supabase
+    .from("digest_subscriptions")
+    .update({
+      failure_count: exhausted ? 0 : failureCount,
+      next_send_at: (exhausted ? computeNextRun(subscription.frequency) : computeRetryAt(failureCount)).toISOString(),
+      last_error: message,
+      locked_until: null,
+    })
+    .eq("id", subscription.id);
+}
+
+async function processSubscription(
+  supabase: SupabaseClient,
+  transport: MailTransport,
+  subscription: DigestSubscription,
+  now: Date
+): Promise<SendOutcome> {
+  const { data: claimed, error: claimError } = await supabase
+    .from("digest_subscriptions")
+    .update({ locked_until: new Date(now.getTime() + LOCK_MINUTES * 60 * 1000).toISOString() })
+    .eq("id", subscription.id)
+    .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+    .select("id");
+  if (claimError) throw new Error(claimError.message);
+  if (!claimed || claimed.length === 0) return "skipped";
+
+  try {
+    const outcome = await sendDigest(supabase, transport, subscription, now);
+    await supabase
+      .from("digest_subscriptions")
+      .update({
+        ...(outcome === "sent" ? { last_sent_at: now.toISOString() } : {}),
+        next_send_at: computeNextRun(subscription.frequency).toISOString(),
+        failure_count: 0,
+        last_error: null,
+        locked_until: null,
+      })
+      .eq("id", subscription.id);
+    return outcome;
+  } catch (error) {
+    await recordFailure(supabase, subscription, error instanceof Error ? error.message : String(error));
+    return "failed";
+  }
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+  const supabaseClient = createClient(Deno.env.get("SUPABASE_URL") ?? "", serviceRoleKey, {
+    auth: { persistSession: false },
+  });
+
+  try {
+    const body = await req.json().catch(() => ({}));
+
+    // From the unsubscribe page, which may be opened without an account; the link's signature is the credential
+    if (body.unsubscribe) return await unsubscribe(supabaseClient, body.unsubscribe);
+
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+    if (!token) return jsonResponse({ error: "Authentication required" }, 401);
+
+    const transport = createMailTransport();
+    const now = new Date();
+
+    // A signed-in user sending one of their digests now, outside its schedule
+    if (token !== serviceRoleKey) {
+      const { data: userData, error: userError } = await supabaseClient.auth.getUser(token);
+      if (userError || !userData.user) return jsonResponse({ error: "Invalid authentication" }, 401);
+
+      const { digestId } = body;
+      if (!digestId) return jsonResponse({ error: "digestId is required" }, 400);
+
+      const { data: subscription, error } = await supabaseClient
+        .from("digest_subscriptions")
+        .select(SUBSCRIPTION_COLUMNS)
+        .eq("id", digestId)
+        .eq("user_id", userData.user.id)
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      if (!subscription) return jsonResponse({ error: "Digest not found" }, 404);
+
+      // Keeps "Send now" from turning the sender address into a relay
+      const lastSent = subscription.last_sent_at ? new Date(subscription.last_sent_at) : null;
+      const nextAllowed = lastSent ? new Date(lastSent.getTime() + MANUAL_SEND_INTERVAL_MINUTES * 60 * 1000) : null;
+      if (nextAllowed && nextAllowed > now) {
+        return jsonResponse({
+          error: `This digest was sent less than ${MANUAL_SEND_INTERVAL_MINUTES} minutes ago`,
+          retryAfter: nextAllowed.toISOString(),
+        }, 429);
+      }
+
+      await sendDigest(supabaseClient, transport, subscription as DigestSubscription, now, true);
+      await supabaseClient
+        .from("digest_subscriptions")
+        .update({ last_sent_at: now.toISOString(), last_error: null })
+        .eq("id", digestId);
+      return jsonResponse({ sent: true });
+    }
+
+    const { data: due, error: dueError } = await supabaseClient
+      .from("digest_subscriptions")
+      .select(SUBSCRIPTION_COLUMNS)
+      .eq("is_active", true)
+      .lte("next_send_at", now.toISOString())
+      .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+      .order("next_send_at", { ascending: true })
+      .limit(MAX_DIGESTS_PER_TICK);
+    if (dueError) throw new Error(dueError.message);
+
+    const outcomes: Record<SendOutcome, number> = { sent: 0, empty: 0, skipped: 0, failed: 0 };
+    for (const subscription of (due || []) as DigestSubscription[]) {
+      outcomes[await processSubscription(supabaseClient, transport, subscription, now)]++;
+    }
+
+    logStep("Tick finished", { due: (due || []).length, ...outcomes });
+    return jsonResponse({ due: (due || []).length, ...outcomes });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("[SEND-DIGESTS] ERROR", errorMessage);
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,7 @@
+-- Let each project choose which LLM engines it tracks
+ALTER TABLE public.projects
+ADD COLUMN IF NOT EXISTS engines JSONB NOT NULL DEFAULT '[{"provider": "openai", "model": "gpt-4o"}]'::jsonb;
+
+-- Ensure engines is always a list of engine configs
+ALTER TABLE public.projects
+ADD CONSTRAINT projects_engines_is_array CHECK (jsonb_typeof(engines) = 'array');
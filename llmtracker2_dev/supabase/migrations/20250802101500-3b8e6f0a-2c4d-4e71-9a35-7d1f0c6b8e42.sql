@@ -0,0 +1,7 @@
+-- Alternative names per tracked entity: aliases, product names, domains and known misspellings.
+-- Shape: {"brand": {...}, "competitors": {"<competitor name>": {...}}}
+ALTER TABLE public.projects
+ADD COLUMN IF NOT EXISTS entity_aliases JSONB NOT NULL DEFAULT '{"brand": {}, "competitors": {}}'::jsonb;
+
+ALTER TABLE public.projects
+ADD CONSTRAINT projects_entity_aliases_is_object CHECK (jsonb_typeof(entity_aliases) = 'object');
@@ -0,0 +1,6 @@
+-- Number of times each keyword is asked per engine in a tracking run
+ALTER TABLE public.projects
+ADD COLUMN IF NOT EXISTS sample_count INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE public.projects
+ADD CONSTRAINT projects_sample_count_range CHECK (sample_count BETWEEN 1 AND 10);
@@ -0,0 +1,9 @@
+-- Sources cited by each answer: URLs, bare domains and named sources
+ALTER TABLE public.api_responses
+ADD COLUMN IF NOT EXISTS citations JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.api_responses
+ADD CONSTRAINT api_responses_citations_is_array CHECK (jsonb_typeof(citations) = 'array');
+
+-- Domain lookups across a project's answers for citation reports
+CREATE INDEX IF NOT EXISTS idx_api_responses_citations ON public.api_responses USING GIN (citations jsonb_path_ops);
@@ -0,0 +1,218 @@
+-- Historical tracking: per-run snapshots, derived trends, run schedules and retention policies
+
+CREATE TABLE public.historical_snapshots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  keyword_id UUID REFERENCES public.keywords(id) ON DELETE SET NULL,
+  keyword TEXT NOT NULL,
+  report_id UUID REFERENCES public.reports(id) ON DELETE SET NULL,
+  api_response_id UUID REFERENCES public.api_responses(id) ON DELETE SET NULL,
+  provider TEXT,
+  competitor_name TEXT NOT NULL,
+  is_brand BOOLEAN NOT NULL DEFAULT false,
+  position INTEGER CHECK (position IS NULL OR position > 0),
+  mention_count INTEGER NOT NULL DEFAULT 0 CHECK (mention_count >= 0),
+  sample_count INTEGER NOT NULL DEFAULT 1 CHECK (sample_count > 0),
+  sentiment_score NUMERIC(4,3) CHECK (sentiment_score IS NULL OR sentiment_score BETWEEN -1 AND 1),
+  market_share NUMERIC(5,4) NOT NULL DEFAULT 0 CHECK (market_share BETWEEN 0 AND 1),
+  snapshot_date TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  data_source TEXT NOT NULL DEFAULT 'api_response' CHECK (data_source IN ('api_response', 'manual', 'scheduled')),
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- One snapshot per entity per answer, so re-running a backfill cannot duplicate history
+  UNIQUE (api_response_id, competitor_name)
+);
+
+CREATE TABLE public.trend_calculations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  keyword_id UUID REFERENCES public.keywords(id) ON DELETE CASCADE,
+  competitor_name TEXT NOT NULL,
+  metric_type TEXT NOT NULL CHECK (metric_type IN ('position_velocity', 'mention_trend', 'sentiment_trend', 'market_share_change')),
+  time_period TEXT NOT NULL CHECK (time_period IN ('daily', 'weekly', 'monthly')),
+  trend_value NUMERIC NOT NULL,
+  confidence_score NUMERIC(4,3) NOT NULL CHECK (confidence_score BETWEEN 0 AND 1),
+  calculation_date TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  raw_data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.tracking_schedules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  -- NULL schedules the whole project rather than a single keyword
+  keyword_id UUID REFERENCES public.keywords(id) ON DELETE CASCADE,
+  frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly', 'on_demand')),
+  priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('high', 'medium', 'low')),
+  last_run TIMESTAMP WITH TIME ZONE,
+  next_run TIMESTAMP WITH TIME ZONE NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.data_retention_policies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  data_type TEXT NOT NULL CHECK (data_type IN ('raw_responses', 'daily_snapshots', 'monthly_aggregates')),
+  retention_days INTEGER NOT NULL CHECK (retention_days > 0),
+  compression_enabled BOOLEAN NOT NULL DEFAULT false,
+  archive_after_days INTEGER CHECK (archive_after_days IS NULL OR archive_after_days > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (project_id, data_type)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.historical_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.trend_calculations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tracking_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.data_retention_policies ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for historical_snapshots
+CREATE POLICY "Users can view snapshots in their projects" ON public.historical_snapshots
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.projects 
+    WHERE projects.id = historical_snapshots.project_id 
+    AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can create snapshots in their projects" ON public.historical_snapshots
+FOR INSERT WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.projects 
+    WHERE projects.id = historical_snapshots.project_id 
+    AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete snapshots in their projects" ON public.historical_snapshots
+FOR DELETE USING (
+  EXISTS (
+    SELECT 1 FROM public.projects 
+    WHERE projects.id = historical_snapshots.project_id 
+    AND projects.user_id = auth.uid()
+  )
+);
+
+-- Create RLS policies for trend_calculations
+CREATE POLICY "Users can view trends in their projects" ON public.trend_calculations
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.projects 
+    WHERE projects.id = trend_calculations.project_id 
+    AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can create trends in their projects" ON public.trend_calculations
+FOR INSERT WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.projects 
+    WHERE projects.id = trend_calculations.project_id 
+    AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete trends in their projects" ON public.trend_calculations
+FOR DELETE USING (
+  EXISTS (
+    SELECT 1 FROM public.projects 
+    WHERE projects.id = trend_calculations.project_id 
+    AND projects.user_id = auth.uid()
+  )
+);
+
+-- Create RLS policies for tracking_schedules
+CREATE POLICY "Users can view schedules in their projects" ON public.tracking_schedules
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.projects 
+    WHERE projects.id = tracking_schedules.project_id 
+    AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can create schedules in their projects" ON public.tracking_schedules
+FOR INSERT WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.projects 
+    WHERE projects.id = tracking_schedules.project_id 
+    AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update schedules in their projects" ON public.tracking_schedules
+FOR UPDATE USING (
+  EXISTS (
+    SELECT 1 FROM public.projects 
+    WHERE projects.id = tracking_schedules.project_id 
+    AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete schedules in their projects" ON public.tracking_schedules
+FOR DELETE USING (
+  EXISTS (
+    SELECT 1 FROM public.projects 
+    WHERE projects.id = tracking_schedules.project_id 
+    AND projects.user_id = auth.uid()
+  )
+);
+
+-- Create RLS policies for data_retention_policies
+CREATE POLICY "Users can view retention policies in their projects" ON public.data_retention_policies
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.projects 
+    WHERE projects.id = data_retention_policies.project_id 
+    AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can create retention policies in their projects" ON public.data_retention_policies
+FOR INSERT WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.projects 
+    WHERE projects.id = data_retention_policies.project_id 
+    AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update retention policies in their projects" ON public.data_retention_policies
+FOR UPDATE USING (
+  EXISTS (
+    SELECT 1 FROM public.projects 
+    WHERE projects.id = data_retention_policies.project_id 
+    AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete retention policies in their projects" ON public.data_retention_policies
+FOR DELETE USING (
+  EXISTS (
+    SELECT 1 FROM public.projects 
+    WHERE projects.id = data_retention_policies.project_id 
+    AND projects.user_id = auth.uid()
+  )
+);
+
+-- Keep updated_at current
+CREATE TRIGGER update_tracking_schedules_updated_at
+  BEFORE UPDATE ON public.tracking_schedules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_data_retention_policies_updated_at
+  BEFORE UPDATE ON public.data_retention_policies
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create indexes for better performance
+CREATE INDEX idx_historical_snapshots_project_date ON public.historical_snapshots(project_id, snapshot_date);
+CREATE INDEX idx_historical_snapshots_keyword_id ON public.historical_snapshots(keyword_id);
+CREATE INDEX idx_historical_snapshots_report_id ON public.historical_snapshots(report_id);
+CREATE INDEX idx_trend_calculations_project_id ON public.trend_calculations(project_id, calculation_date);
+CREATE INDEX idx_tracking_schedules_next_run ON public.tracking_schedules(next_run) WHERE is_active;
+CREATE INDEX idx_tracking_schedules_project_id ON public.tracking_schedules(project_id);
+CREATE INDEX idx_data_retention_policies_project_id ON public.data_retention_policies(project_id);
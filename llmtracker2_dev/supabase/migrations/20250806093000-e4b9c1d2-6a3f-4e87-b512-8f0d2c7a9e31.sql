@@ -0,0 +1,24 @@
+-- Track scheduler state on each tracking schedule
+ALTER TABLE public.tracking_schedules
+ADD COLUMN IF NOT EXISTS failure_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_error TEXT,
+ADD COLUMN IF NOT EXISTS last_report_id UUID REFERENCES public.reports(id) ON DELETE SET NULL,
+-- Set while a scheduler tick owns the schedule so overlapping ticks never start it twice
+ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.tracking_schedules
+ADD CONSTRAINT tracking_schedules_failure_count_non_negative CHECK (failure_count >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_tracking_schedules_last_report_id ON public.tracking_schedules(last_report_id);
+
+-- The run-schedules function is called on a tick, for example every 15 minutes with pg_cron and pg_net:
+--
+--   SELECT cron.schedule(
+--     'run-tracking-schedules',
+--     '*/15 * * * *',
+--     $$ SELECT net.http_post(
+--          url := '<SUPABASE_URL>/functions/v1/run-schedules',
+--          headers := jsonb_build_object('Authorization', 'Bearer <SERVICE_ROLE_KEY>', 'Content-Type', 'application/json'),
+--          body := '{}'::jsonb
+--        ) $$
+--   );
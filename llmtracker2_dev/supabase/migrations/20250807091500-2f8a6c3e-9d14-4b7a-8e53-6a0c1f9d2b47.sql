@@ -0,0 +1,46 @@
+-- Visibility anomalies detected after each tracking run
+
+CREATE TABLE public.visibility_anomalies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  keyword_id UUID REFERENCES public.keywords(id) ON DELETE SET NULL,
+  keyword TEXT NOT NULL,
+  provider TEXT,
+  competitor_name TEXT NOT NULL,
+  anomaly_type TEXT NOT NULL CHECK (anomaly_type IN ('rank_drop', 'brand_disappeared', 'new_competitor', 'sentiment_swing')),
+  severity TEXT NOT NULL CHECK (severity IN ('low', 'medium', 'high')),
+  report_id UUID REFERENCES public.reports(id) ON DELETE SET NULL,
+  -- The answer that triggered the anomaly
+  api_response_id UUID REFERENCES public.api_responses(id) ON DELETE CASCADE,
+  baseline_value NUMERIC,
+  observed_value NUMERIC,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  detected_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  acknowledged_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (api_response_id, competitor_name, anomaly_type)
+);
+
+ALTER TABLE public.visibility_anomalies ENABLE ROW LEVEL SECURITY;
+
+-- Anomalies are written by the tracking run; users can read and acknowledge them
+CREATE POLICY "Users can view anomalies in their projects" ON public.visibility_anomalies
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.projects 
+    WHERE projects.id = visibility_anomalies.project_id 
+    AND projects.user_id = auth.uid()
+  )
+);
+CREATE POLICY "Users can update anomalies in their projects" ON public.visibility_anomalies
+FOR UPDATE USING (
+  EXISTS (
+    SELECT 1 FROM public.projects 
+    WHERE projects.id = visibility_anomalies.project_id 
+    AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE INDEX idx_visibility_anomalies_project_id ON public.visibility_anomalies(project_id, detected_at DESC);
+CREATE INDEX idx_visibility_anomalies_report_id ON public.visibility_anomalies(report_id);
+CREATE INDEX idx_visibility_anomalies_api_response_id ON public.visibility_anomalies(api_response_id);
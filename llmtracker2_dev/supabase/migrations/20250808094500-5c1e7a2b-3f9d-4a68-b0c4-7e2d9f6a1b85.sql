@@ -0,0 +1,5 @@
+-- Keyword groups for share-of-voice breakdowns; priority already weights each keyword
+
+ALTER TABLE public.keywords ADD COLUMN keyword_group TEXT;
+
+CREATE INDEX idx_keywords_keyword_group ON public.keywords(project_id, keyword_group);
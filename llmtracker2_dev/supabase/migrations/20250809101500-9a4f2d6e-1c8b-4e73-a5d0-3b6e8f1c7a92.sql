@@ -0,0 +1,14 @@
+-- PDF exports of completed reports, stored privately per user and shared through signed links
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('reports', 'reports', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Files live under <user_id>/<report_id>.pdf and are written by the service role only
+CREATE POLICY "Users can view their own report PDFs"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'reports' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+ALTER TABLE public.reports
+  ADD COLUMN pdf_path TEXT,
+  ADD COLUMN pdf_expires_at TIMESTAMP WITH TIME ZONE;
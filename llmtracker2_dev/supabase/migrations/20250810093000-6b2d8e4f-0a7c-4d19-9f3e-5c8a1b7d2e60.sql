@@ -0,0 +1,79 @@
+-- Scheduled email digests of tracking results
+
+CREATE TABLE public.digest_subscriptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- NULL covers every project of the user in one digest
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+  frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly')),
+  -- Sent in addition to the account email, for stakeholders without a login
+  recipients TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  next_send_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_sent_at TIMESTAMP WITH TIME ZONE,
+  failure_count INTEGER NOT NULL DEFAULT 0 CHECK (failure_count >= 0),
+  last_error TEXT,
+  -- Set while a send-digests tick owns the subscription so overlapping ticks never send it twice
+  locked_until TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT digest_subscriptions_recipients_limit CHECK (cardinality(recipients) <= 20)
+);
+
+-- One digest per user and scope; the all-projects digest has no project
+CREATE UNIQUE INDEX idx_digest_subscriptions_scope
+ON public.digest_subscriptions(user_id, COALESCE(project_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+ALTER TABLE public.digest_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their digest subscriptions" ON public.digest_subscriptions
+FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their digest subscriptions" ON public.digest_subscriptions
+FOR INSERT WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    project_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = digest_subscriptions.project_id
+      AND projects.user_id = auth.uid()
+    )
+  )
+);
+
+CREATE POLICY "Users can update their digest subscriptions" ON public.digest_subscriptions
+FOR UPDATE USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    project_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE projects.id = digest_subscriptions.project_id
+      AND projects.user_id = auth.uid()
+    )
+  )
+);
+
+CREATE POLICY "Users can delete their digest subscriptions" ON public.digest_subscriptions
+FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX idx_digest_subscriptions_next_send_at ON public.digest_subscriptions(next_send_at) WHERE is_active;
+CREATE INDEX idx_digest_subscriptions_project_id ON public.digest_subscriptions(project_id);
+
+CREATE TRIGGER update_digest_subscriptions_updated_at
+  BEFORE UPDATE ON public.digest_subscriptions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The send-digests function is called on a tick like run-schedules, for example hourly with pg_cron and pg_net:
+--
+--   SELECT cron.schedule(
+--     'send-email-digests',
+--     '5 * * * *',
+--     $$ SELECT net.http_post(
+--          url := '<SUPABASE_URL>/functions/v1/send-digests',
+--          headers := jsonb_build_object('Authorization', 'Bearer <SERVICE_ROLE_KEY>', 'Content-Type', 'application/json'),
+--          body := '{}'::jsonb
+--        ) $$
+--   );
@@ -0,0 +1,111 @@
+-- Outbound webhooks for tracking events
+
+CREATE TABLE public.webhook_endpoints (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  url TEXT NOT NULL CHECK (url ~ '^https?://'),
+  description TEXT,
+  -- Shared with the receiver to verify the X-LLMTracker-Signature header
+  secret TEXT NOT NULL DEFAULT 'whsec_' || replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  events TEXT[] NOT NULL DEFAULT ARRAY['report.completed', 'report.failed', 'brand.mention_lost', 'brand.mention_gained', 'competitor.detected'],
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT webhook_endpoints_events_check CHECK (
+    events <@ ARRAY['report.completed', 'report.failed', 'brand.mention_lost', 'brand.mention_gained', 'competitor.detected']
+  )
+);
+
+CREATE TABLE public.webhook_deliveries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  endpoint_id UUID NOT NULL REFERENCES public.webhook_endpoints(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL,
+  -- The same event id is kept on replays so receivers can de-duplicate
+  event_id UUID NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempt_count INTEGER NOT NULL DEFAULT 0 CHECK (attempt_count >= 0),
+  next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  last_attempt_at TIMESTAMP WITH TIME ZONE,
+  response_status INTEGER,
+  response_body TEXT,
+  error TEXT,
+  duration_ms INTEGER,
+  -- Set while a worker is posting the delivery so overlapping ticks never send it twice
+  locked_until TIMESTAMP WITH TIME ZONE,
+  replay_of UUID REFERENCES public.webhook_deliveries(id) ON DELETE SET NULL,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view webhook endpoints of their projects" ON public.webhook_endpoints
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = webhook_endpoints.project_id
+    AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can create webhook endpoints for their projects" ON public.webhook_endpoints
+FOR INSERT WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = webhook_endpoints.project_id
+    AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update webhook endpoints of their projects" ON public.webhook_endpoints
+FOR UPDATE USING (
+  EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = webhook_endpoints.project_id
+    AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete webhook endpoints of their projects" ON public.webhook_endpoints
+FOR DELETE USING (
+  EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = webhook_endpoints.project_id
+    AND projects.user_id = auth.uid()
+  )
+);
+
+-- Deliveries are written by the edge functions only; replays go through deliver-webhooks
+CREATE POLICY "Users can view webhook deliveries of their projects" ON public.webhook_deliveries
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = webhook_deliveries.project_id
+    AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE INDEX idx_webhook_endpoints_project_id ON public.webhook_endpoints(project_id);
+CREATE INDEX idx_webhook_deliveries_endpoint_id ON public.webhook_deliveries(endpoint_id, created_at DESC);
+CREATE INDEX idx_webhook_deliveries_project_id ON public.webhook_deliveries(project_id, created_at DESC);
+CREATE INDEX idx_webhook_deliveries_next_attempt_at ON public.webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+
+CREATE TRIGGER update_webhook_endpoints_updated_at
+  BEFORE UPDATE ON public.webhook_endpoints
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Deliveries are attempted as soon as an event happens; the deliver-webhooks tick retries the ones that failed,
+-- for example every minute with pg_cron and pg_net:
+--
+--   SELECT cron.schedule(
+--     'deliver-webhooks',
+--     '* * * * *',
+--     $$ SELECT net.http_post(
+--          url := '<SUPABASE_URL>/functions/v1/deliver-webhooks',
+--          headers := jsonb_build_object('Authorization', 'Bearer <SERVICE_ROLE_KEY>', 'Content-Type', 'application/json'),
+--          body := '{}'::jsonb
+--        ) $$
+--   );
@@ -0,0 +1,118 @@
+-- User-defined alert rules evaluated after every tracking run
+
+CREATE TABLE public.alert_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  metric TEXT NOT NULL CHECK (metric IN ('brand_position', 'brand_mention_rate', 'competitor_mention_rate', 'mention_rate_drop')),
+  -- A rank for brand_position, a percentage for the rate metrics
+  threshold NUMERIC NOT NULL CHECK (threshold >= 0),
+  -- competitor_mention_rate only; NULL checks every competitor
+  competitor_name TEXT,
+  -- Only keywords with at least this keywords.priority are evaluated
+  min_priority INTEGER CHECK (min_priority >= 1 AND min_priority <= 5),
+  -- mention_rate_drop compares this many days with the same number of days before
+  period_days INTEGER NOT NULL DEFAULT 7 CHECK (period_days >= 1 AND period_days <= 90),
+  -- The same match (keyword and engine, or competitor) alerts at most once per cooldown
+  cooldown_hours INTEGER NOT NULL DEFAULT 24 CHECK (cooldown_hours >= 0),
+  channels TEXT[] NOT NULL DEFAULT ARRAY['in_app'] CHECK (
+    cardinality(channels) > 0 AND channels <@ ARRAY['in_app', 'email', 'webhook']
+  ),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  last_triggered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.alert_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  rule_id UUID NOT NULL REFERENCES public.alert_rules(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  report_id UUID REFERENCES public.reports(id) ON DELETE SET NULL,
+  message TEXT NOT NULL,
+  -- Keys of the matches in this alert; later runs skip keys still inside the rule's cooldown
+  dedup_keys TEXT[] NOT NULL DEFAULT '{}',
+  matches JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Channels the alert was sent to, and any that failed
+  channels TEXT[] NOT NULL DEFAULT '{}',
+  delivery_errors JSONB,
+  acknowledged_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- A run is evaluated once per rule even if evaluation is retried
+CREATE UNIQUE INDEX idx_alert_events_rule_report ON public.alert_events(rule_id, report_id);
+
+ALTER TABLE public.alert_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.alert_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view alert rules of their projects" ON public.alert_rules
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = alert_rules.project_id
+    AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can create alert rules for their projects" ON public.alert_rules
+FOR INSERT WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = alert_rules.project_id
+    AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update alert rules of their projects" ON public.alert_rules
+FOR UPDATE USING (
+  EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = alert_rules.project_id
+    AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete alert rules of their projects" ON public.alert_rules
+FOR DELETE USING (
+  EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = alert_rules.project_id
+    AND projects.user_id = auth.uid()
+  )
+);
+
+-- Alerts are written by the tracking run; users can only read and acknowledge them
+CREATE POLICY "Users can view alert events of their projects" ON public.alert_events
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = alert_events.project_id
+    AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can acknowledge alert events of their projects" ON public.alert_events
+FOR UPDATE USING (
+  EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = alert_events.project_id
+    AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE INDEX idx_alert_rules_project_id ON public.alert_rules(project_id);
+CREATE INDEX idx_alert_events_project_id ON public.alert_events(project_id, created_at DESC);
+CREATE INDEX idx_alert_events_rule_id ON public.alert_events(rule_id, created_at DESC);
+
+CREATE TRIGGER update_alert_rules_updated_at
+  BEFORE UPDATE ON public.alert_rules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Alerts with the webhook channel go out as alert.triggered events
+ALTER TABLE public.webhook_endpoints DROP CONSTRAINT webhook_endpoints_events_check;
+ALTER TABLE public.webhook_endpoints ADD CONSTRAINT webhook_endpoints_events_check CHECK (
+  events <@ ARRAY['report.completed', 'report.failed', 'brand.mention_lost', 'brand.mention_gained', 'competitor.detected', 'alert.triggered']
+);
+ALTER TABLE public.webhook_endpoints ALTER COLUMN events
+SET DEFAULT ARRAY['report.completed', 'report.failed', 'brand.mention_lost', 'brand.mention_gained', 'competitor.detected', 'alert.triggered'];
@@ -0,0 +1,34 @@
+-- Persistent in-app notifications behind the bell in the dashboard header
+
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('report_completed', 'report_failed', 'alert')),
+  title TEXT NOT NULL,
+  body TEXT,
+  -- App path the notification opens, e.g. /reports/<id> or /project/<id>?tab=trends&keyword=<id>
+  link TEXT,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+  report_id UUID REFERENCES public.reports(id) ON DELETE SET NULL,
+  keyword_id UUID REFERENCES public.keywords(id) ON DELETE SET NULL,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Notifications are written by the edge functions; users read, mark read and dismiss their own
+CREATE POLICY "Users can view their notifications" ON public.notifications
+FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their notifications" ON public.notifications
+FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their notifications" ON public.notifications
+FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX idx_notifications_user_id ON public.notifications(user_id, created_at DESC);
+CREATE INDEX idx_notifications_unread ON public.notifications(user_id) WHERE read_at IS NULL;
+
+-- Live delivery to the open app through Supabase Realtime; RLS limits each subscriber to their own rows
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
@@ -0,0 +1,50 @@
+-- API keys for the public REST API (api-v1 edge function)
+
+-- Only the SHA-256 hash of a key is stored; the key itself is shown once when it is created.
+-- A key without project_id is a personal key covering all of the user's projects.
+CREATE TABLE public.api_keys (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- First characters of the key, enough to recognise it in the settings list
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  scopes TEXT[] NOT NULL CHECK (
+    cardinality(scopes) > 0
+    AND scopes <@ ARRAY['projects:read', 'projects:write', 'runs:write', 'reports:read']::TEXT[]
+  ),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their API keys" ON public.api_keys
+FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create API keys for their projects" ON public.api_keys
+FOR INSERT WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    project_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.projects WHERE projects.id = api_keys.project_id AND projects.user_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Users can update their API keys" ON public.api_keys
+FOR UPDATE USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    project_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.projects WHERE projects.id = api_keys.project_id AND projects.user_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Users can delete their API keys" ON public.api_keys
+FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX idx_api_keys_user_id ON public.api_keys(user_id);
@@ -0,0 +1,31 @@
+-- Lease on a running report. The worker extends it whenever it records progress, and a report
+-- whose lease has lapsed is failed, so a worker that dies never leaves its project blocked.
+ALTER TABLE public.reports
+ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE;
+
+-- Runs left over from before the lease existed
+UPDATE public.reports
+SET status = 'failed',
+    metadata = COALESCE(metadata, '{}'::jsonb) || '{"error": "The run stopped responding"}'::jsonb
+WHERE status IN ('pending', 'processing')
+  AND created_at < now() - interval '1 hour';
+
+UPDATE public.reports
+SET status = 'failed',
+    metadata = COALESCE(metadata, '{}'::jsonb) || '{"error": "Superseded by a newer run"}'::jsonb
+WHERE status IN ('pending', 'processing')
+  AND EXISTS (
+    SELECT 1 FROM public.reports newer
+    WHERE newer.project_id = reports.project_id
+      AND newer.status IN ('pending', 'processing')
+      AND newer.created_at > reports.created_at
+  );
+
+UPDATE public.reports
+SET locked_until = now() + interval '15 minutes'
+WHERE status IN ('pending', 'processing');
+
+-- One active run per project; a second insert fails instead of starting another paid run
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reports_one_active_run
+ON public.reports(project_id)
+WHERE status IN ('pending', 'processing');
@@ -0,0 +1,4 @@
+-- Receivers' response bodies were readable by the project owner through the delivery log, which turned
+-- webhooks into a way to read internal services. Only the status code is kept.
+ALTER TABLE public.webhook_deliveries
+DROP COLUMN IF EXISTS response_body;
@@ -0,0 +1,15 @@
+import { defineConfig } from "vite";
+
+// Bundles the command-line client (cli/) for Node. Dependencies stay external and load from node_modules.
+export default defineConfig({
+  // The web app's public/ assets have no place next to the CLI bundle
+  publicDir: false,
+  build: {
+    ssr: "cli/index.ts",
+    outDir: "dist-cli",
+    target: "node18",
+    rollupOptions: {
+      output: { entryFileNames: "llm-tracker.js" },
+    },
+  },
+});